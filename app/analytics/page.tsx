@@ -5,14 +5,33 @@ import { WinRateChart } from '@/components/analytics/win-rate-chart';
 import { ScoreComparison } from '@/components/analytics/score-comparison';
 import { EvaluationProgress } from '@/components/analytics/evaluation-progress';
 import { ExportButton } from '@/components/analytics/export-button';
+import { ResponseTimeComparison } from '@/components/analytics/response-time-comparison';
 import { createClient } from '@/lib/supabase/client';
-import { Evaluation } from '@/types';
+import { Evaluation, Transcript, Winner } from '@/types';
+import { compareTurnResponseTimes, summarizeDurations, TurnComparison } from '@/lib/utils/response-times';
+import { DIVERGENCE_LABELS, summarizeDivergence, withDivergence } from '@/lib/sierra/divergence';
+import { DivergenceStatus } from '@/types/salesforce';
+import {
+  CASE_OUTCOME_LABELS,
+  CaseOutcomeFilter,
+  classifyCaseOutcome,
+  formatCaseContextField,
+  getTranscriptCaseContext,
+  getTranscriptCaseOutcome,
+} from '@/lib/utils/case-context';
 import { textStyles, colors, materialComponents, materialText, materialBorder, materialTypography, materialBackground } from '@/lib/design-tokens';
 
+// Case fields with more distinct values than this (free text) are not offered as filters
+const MAX_CASE_FIELD_VALUES = 25;
+
 export default function AnalyticsPage() {
   const [evaluations, setEvaluations] = useState<Evaluation[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [divergenceFilter, setDivergenceFilter] = useState<DivergenceStatus | ''>('');
+  const [caseField, setCaseField] = useState('');
+  const [caseFieldValue, setCaseFieldValue] = useState('');
+  const [outcomeFilter, setOutcomeFilter] = useState<CaseOutcomeFilter | ''>('');
   const supabase = createClient();
 
   useEffect(() => {
@@ -39,6 +58,44 @@ export default function AnalyticsPage() {
     }
   };
 
+  // Worst divergence of the evaluated Sierra transcript; null for chat evaluations
+  const getDivergence = (evaluation: Evaluation): DivergenceStatus | null => {
+    const transcript = evaluation.transcripts;
+    if (!transcript?.sierra_transcript?.length) {
+      return null;
+    }
+    return summarizeDivergence(withDivergence(transcript.agentforce_transcript || [], transcript.sierra_transcript));
+  };
+
+  // Case context fields worth filtering by (few distinct values, unlike e.g. descriptions) and their values
+  const caseFieldOptions = (() => {
+    const values = new Map<string, Set<string>>();
+    evaluations.forEach((evaluation) => {
+      Object.entries(getTranscriptCaseContext(evaluation.transcripts)).forEach(([fieldPath, value]) => {
+        values.set(fieldPath, (values.get(fieldPath) || new Set<string>()).add(value));
+      });
+    });
+    return Array.from(values.entries())
+      .filter(([, fieldValues]) => fieldValues.size <= MAX_CASE_FIELD_VALUES)
+      .map(([fieldPath, fieldValues]) => ({ fieldPath, values: Array.from(fieldValues).sort() }))
+      .sort((a, b) => a.fieldPath.localeCompare(b.fieldPath));
+  })();
+  const caseFieldValues = caseFieldOptions.find((option) => option.fieldPath === caseField)?.values || [];
+
+  const visibleEvaluations = evaluations.filter((evaluation) => {
+    if (divergenceFilter && getDivergence(evaluation) !== divergenceFilter) {
+      return false;
+    }
+    if (caseField && caseFieldValue && getTranscriptCaseContext(evaluation.transcripts)[caseField] !== caseFieldValue) {
+      return false;
+    }
+    if (outcomeFilter && classifyCaseOutcome(getTranscriptCaseOutcome(evaluation.transcripts)) !== outcomeFilter) {
+      return false;
+    }
+    return true;
+  });
+  const isFiltered = Boolean(divergenceFilter || (caseField && caseFieldValue) || outcomeFilter);
+
   const calculateWinRate = () => {
     const winCounts: Record<string, number> = {
       agentforce: 0,
@@ -47,7 +104,7 @@ export default function AnalyticsPage() {
       both_poor: 0,
     };
 
-    evaluations.forEach((evaluation) => {
+    visibleEvaluations.forEach((evaluation) => {
       winCounts[evaluation.winner] = (winCounts[evaluation.winner] || 0) + 1;
     });
 
@@ -60,7 +117,7 @@ export default function AnalyticsPage() {
   };
 
   const calculateAverageScores = () => {
-    if (evaluations.length === 0) return [];
+    if (visibleEvaluations.length === 0) return [];
 
     const metrics = ['resolution', 'empathy', 'efficiency', 'accuracy'] as const;
     const totals: Record<string, { af: number; sierra: number; count: number }> = {};
@@ -69,7 +126,7 @@ export default function AnalyticsPage() {
       totals[metric] = { af: 0, sierra: 0, count: 0 };
     });
 
-    evaluations.forEach((evaluation) => {
+    visibleEvaluations.forEach((evaluation) => {
       metrics.forEach((metric) => {
         const scores = evaluation.scores as any;
         if (scores[metric]) {
@@ -87,17 +144,82 @@ export default function AnalyticsPage() {
     }));
   };
 
+  const calculateResponseTimes = () => {
+    // Each evaluated transcript counts once, however many times it was evaluated
+    const transcripts = new Map<string, Transcript>();
+    visibleEvaluations.forEach((evaluation) => {
+      const transcript = evaluation.transcripts;
+      if (transcript?.id && transcript.sierra_transcript?.length) {
+        transcripts.set(transcript.id, transcript);
+      }
+    });
+
+    const comparisons: TurnComparison[] = [];
+    transcripts.forEach((transcript) => {
+      comparisons.push(...compareTurnResponseTimes(transcript.agentforce_transcript || [], transcript.sierra_transcript));
+    });
+
+    // Median per turn number for the first 10 customer turns
+    const turns = Array.from(new Set(comparisons.map((comparison) => comparison.turn)))
+      .sort((a, b) => a - b)
+      .slice(0, 10);
+    const data = turns.map((turn) => {
+      const forTurn = comparisons.filter((comparison) => comparison.turn === turn);
+      return {
+        turn: `Turn ${turn}`,
+        agentforce: summarizeDurations(forTurn.map((comparison) => comparison.agentforceMs))?.medianMs ?? null,
+        sierra: summarizeDurations(forTurn.map((comparison) => comparison.sierraMs))?.medianMs ?? null,
+      };
+    });
+
+    return {
+      data,
+      agentforce: summarizeDurations(comparisons.map((comparison) => comparison.agentforceMs)),
+      sierra: summarizeDurations(comparisons.map((comparison) => comparison.sierraMs)),
+      sierraTimeToFirstByte: summarizeDurations(comparisons.map((comparison) => comparison.sierraTimeToFirstByteMs)),
+    };
+  };
+
+  // Transcripts whose evaluations scored two or more Sierra samples, and how many of them got a
+  // different verdict depending on the sample (majority winner per sample)
+  const calculateSampleFlips = () => {
+    const winnersBySample = new Map<string, Map<string, Winner[]>>();
+    visibleEvaluations.forEach((evaluation) => {
+      if (!evaluation.transcript_id || !evaluation.sierra_run_id) return;
+      const samples = winnersBySample.get(evaluation.transcript_id) || new Map<string, Winner[]>();
+      samples.set(evaluation.sierra_run_id, [...(samples.get(evaluation.sierra_run_id) || []), evaluation.winner]);
+      winnersBySample.set(evaluation.transcript_id, samples);
+    });
+
+    const majorityWinner = (winners: Winner[]) => {
+      const counts = new Map<Winner, number>();
+      winners.forEach((winner) => counts.set(winner, (counts.get(winner) || 0) + 1));
+      return Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    };
+
+    let compared = 0;
+    let flipped = 0;
+    winnersBySample.forEach((samples) => {
+      if (samples.size < 2) return;
+      compared++;
+      if (new Set(Array.from(samples.values()).map(majorityWinner)).size > 1) {
+        flipped++;
+      }
+    });
+    return { compared, flipped };
+  };
+
   const getProgress = () => {
     // This would ideally come from a separate API call to get total transcripts
     // For now, we'll use evaluations count as a proxy
     return {
-      evaluated: evaluations.length,
-      total: evaluations.length, // This should be fetched separately
+      evaluated: visibleEvaluations.length,
+      total: visibleEvaluations.length, // This should be fetched separately
     };
   };
 
   const handleExport = () => {
-    if (evaluations.length === 0) {
+    if (visibleEvaluations.length === 0) {
       alert('No data to export');
       return;
     }
@@ -115,11 +237,13 @@ export default function AnalyticsPage() {
       'Efficiency (Sierra)',
       'Accuracy (AF)',
       'Accuracy (Sierra)',
+      'Sierra Divergence',
+      'Sierra Sample',
       'Notes',
       'Evaluation Date',
     ];
 
-    const rows = evaluations.map((evaluation) => {
+    const rows = visibleEvaluations.map((evaluation) => {
       const scores = evaluation.scores as any;
       return [
         evaluation.id || '',
@@ -133,6 +257,8 @@ export default function AnalyticsPage() {
         scores.efficiency?.sierra || '',
         scores.accuracy?.af || '',
         scores.accuracy?.sierra || '',
+        getDivergence(evaluation) || '',
+        evaluation.sierra_runs ? `${evaluation.sierra_runs.release} #${evaluation.sierra_runs.sample_index + 1}` : '',
         evaluation.notes || '',
         evaluation.evaluation_timestamp || '',
       ];
@@ -173,7 +299,9 @@ export default function AnalyticsPage() {
 
   const winRateData = calculateWinRate();
   const scoreData = calculateAverageScores();
+  const responseTimes = calculateResponseTimes();
   const progress = getProgress();
+  const sampleFlips = calculateSampleFlips();
 
   return (
     <div className="space-y-6">
@@ -184,12 +312,80 @@ export default function AnalyticsPage() {
             View evaluation statistics and insights
           </p>
         </div>
-        <ExportButton onExport={handleExport} />
+        <div className="flex flex-wrap items-center justify-end gap-3">
+          <select
+            value={divergenceFilter}
+            onChange={(e) => setDivergenceFilter(e.target.value as DivergenceStatus | '')}
+            className="text-sm border border-[#e0e0e0] rounded-md px-3 py-2 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+            title="Only include evaluations whose Sierra transcript has this divergence"
+          >
+            <option value="">All Sierra runs</option>
+            {(Object.keys(DIVERGENCE_LABELS) as DivergenceStatus[]).map((status) => (
+              <option key={status} value={status}>
+                {DIVERGENCE_LABELS[status]} only
+              </option>
+            ))}
+          </select>
+          <select
+            value={outcomeFilter}
+            onChange={(e) => setOutcomeFilter(e.target.value as CaseOutcomeFilter | '')}
+            className="text-sm border border-[#e0e0e0] rounded-md px-3 py-2 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+            title="Only include evaluations of cases with this outcome in Salesforce"
+          >
+            <option value="">All case outcomes</option>
+            {(Object.keys(CASE_OUTCOME_LABELS) as CaseOutcomeFilter[]).map((outcome) => (
+              <option key={outcome} value={outcome}>
+                {CASE_OUTCOME_LABELS[outcome]}
+              </option>
+            ))}
+          </select>
+          {caseFieldOptions.length > 0 && (
+            <>
+              <select
+                value={caseField}
+                onChange={(e) => {
+                  setCaseField(e.target.value);
+                  setCaseFieldValue('');
+                }}
+                className="text-sm border border-[#e0e0e0] rounded-md px-3 py-2 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+                title="Filter by a Salesforce case field"
+              >
+                <option value="">Any case field</option>
+                {caseFieldOptions.map(({ fieldPath }) => (
+                  <option key={fieldPath} value={fieldPath}>
+                    {formatCaseContextField(fieldPath)}
+                  </option>
+                ))}
+              </select>
+              {caseField && (
+                <select
+                  value={caseFieldValue}
+                  onChange={(e) => setCaseFieldValue(e.target.value)}
+                  className="text-sm border border-[#e0e0e0] rounded-md px-3 py-2 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+                >
+                  <option value="">Any value</option>
+                  {caseFieldValues.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              )}
+            </>
+          )}
+          <ExportButton onExport={handleExport} />
+        </div>
       </div>
 
-      {evaluations.length === 0 ? (
+      {visibleEvaluations.length === 0 ? (
         <div className="text-center py-12 bg-white border border-[#eeeeee] rounded-lg p-6 shadow-sm">
-          <p className="text-sm font-normal leading-5 text-[#212121]">No evaluations found. Start evaluating transcripts to see analytics.</p>
+          <p className="text-sm font-normal leading-5 text-[#212121]">
+            {divergenceFilter && !(caseField && caseFieldValue) && !outcomeFilter
+              ? `No evaluations of ${DIVERGENCE_LABELS[divergenceFilter].toLowerCase()} Sierra transcripts found.`
+              : isFiltered
+              ? 'No evaluations match the selected filters.'
+              : 'No evaluations found. Start evaluating transcripts to see analytics.'}
+          </p>
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -198,6 +394,11 @@ export default function AnalyticsPage() {
           <div className="lg:col-span-2">
             <ScoreComparison data={scoreData} />
           </div>
+          {responseTimes.data.length > 0 && (
+            <div className="lg:col-span-2">
+              <ResponseTimeComparison {...responseTimes} />
+            </div>
+          )}
         </div>
       )}
 
@@ -206,7 +407,7 @@ export default function AnalyticsPage() {
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
           <div>
             <p className="text-xs font-normal leading-4 text-[#757575]">Total Evaluations</p>
-            <p className="text-[28px] font-normal leading-[36px] text-[#212121]">{evaluations.length}</p>
+            <p className="text-[28px] font-normal leading-[36px] text-[#212121]">{visibleEvaluations.length}</p>
           </div>
           <div>
             <p className="text-xs font-normal leading-4 text-[#757575]">Agentforce Wins</p>
@@ -226,6 +427,17 @@ export default function AnalyticsPage() {
               {winRateData.find((d) => d.name === 'Tie')?.value || 0}
             </p>
           </div>
+          {sampleFlips.compared > 0 && (
+            <div title="Transcripts evaluated on two or more Sierra samples whose winner changed with the sample">
+              <p className="text-xs font-normal leading-4 text-[#757575]">Verdict Flips Across Samples</p>
+              <p className="text-[28px] font-normal leading-[36px] text-[#212121]">
+                {Math.round((sampleFlips.flipped / sampleFlips.compared) * 100)}%
+              </p>
+              <p className="text-xs font-normal leading-4 text-[#757575]">
+                {sampleFlips.flipped} of {sampleFlips.compared} {sampleFlips.compared === 1 ? 'transcript' : 'transcripts'}
+              </p>
+            </div>
+          )}
         </div>
       </div>
     </div>
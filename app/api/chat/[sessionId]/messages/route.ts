@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { SierraClient } from '@/lib/sierra/client';
+import { getSierraConfig } from '@/lib/config/integrations';
+import { createEventStreamResponse } from '@/lib/utils/sse';
 
-// POST: Send message and get Sierra response
+// POST: Send message and stream Sierra's response as Server-Sent Events
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ sessionId: string }> }
@@ -75,12 +77,10 @@ export async function POST(
       );
     }
 
-    // Get Sierra API credentials from environment
-    const sierraApiUrl = process.env.SIERRA_API_URL;
-    const sierraApiKey = process.env.SIERRA_API_KEY;
-    const sierraApiToken = process.env.SIERRA_API_TOKEN;
+    // Get Sierra API credentials (the built-in fake Sierra server when OFFLINE_MODE is on)
+    const sierraConfig = getSierraConfig();
 
-    if (!sierraApiUrl || !sierraApiKey || !sierraApiToken) {
+    if ('missing' in sierraConfig) {
       console.error('Missing Sierra API configuration');
       return NextResponse.json(
         { error: 'Sierra API not configured' },
@@ -90,68 +90,77 @@ export async function POST(
 
     // Initialize Sierra client with stored conversation state (not sessionId!)
     const sierraClient = new SierraClient(
-      sierraApiUrl,
-      sierraApiKey,
-      sierraApiToken,
+      sierraConfig.apiUrl,
+      sierraConfig.apiKey,
+      sierraConfig.apiToken,
       '2025-02-01',
       session.sierra_conversation_state || undefined // Use stored Sierra state or undefined for new conversations
     );
 
-    // Get Sierra response
-    let sierraResponse;
-    try {
-      sierraResponse = await sierraClient.sendMessage(content.trim());
-      
-      // Store/update Sierra's conversation state for subsequent messages
-      const updatedState = sierraClient.getState();
-      if (updatedState && updatedState !== session.sierra_conversation_state) {
-        // Type assertion needed due to Supabase type inference limitations
-        await (supabase
-          .from('chat_sessions') as any)
-          .update({ sierra_conversation_state: updatedState })
-          .eq('id', sessionId);
-      }
-    } catch (sierraError: unknown) {
-      console.error('Error getting Sierra response:', sierraError);
-      return NextResponse.json(
-        { 
-          error: 'Failed to get Sierra response', 
+    // Stream Sierra's reply back as Server-Sent Events so the UI can render it as it grows
+    return createEventStreamResponse(async (sendEvent, signal) => {
+      sendEvent({ type: 'user_message', userMessage });
+
+      let replyText = '';
+      try {
+        for await (const event of sierraClient.streamMessage(content.trim(), { signal })) {
+          if (event.type === 'message') {
+            replyText += event.text;
+            sendEvent({ type: 'delta', text: event.text });
+          }
+        }
+
+        // Store/update Sierra's conversation state for subsequent messages
+        const updatedState = sierraClient.getState();
+        if (updatedState && updatedState !== session.sierra_conversation_state) {
+          // Type assertion needed due to Supabase type inference limitations
+          await (supabase
+            .from('chat_sessions') as any)
+            .update({ sierra_conversation_state: updatedState })
+            .eq('id', sessionId);
+        }
+      } catch (sierraError: unknown) {
+        // The client disconnected; nobody is left to answer
+        if (signal.aborted) {
+          return;
+        }
+        console.error('Error getting Sierra response:', sierraError);
+        sendEvent({
+          type: 'error',
+          error: 'Failed to get Sierra response',
           details: sierraError instanceof Error ? sierraError.message : 'Unknown error',
-          userMessage 
-        },
-        { status: 500 }
-      );
-    }
+        });
+        return;
+      }
 
-    // Save Sierra response to database
-    // Type assertion needed due to Supabase type inference limitations
-    const { data: assistantMessage, error: assistantMessageError } = await (supabase
-      .from('chat_messages') as any)
-      .insert({
-        session_id: sessionId,
-        role: 'assistant',
-        content: sierraResponse.message,
-      })
-      .select()
-      .single();
+      // Save the complete Sierra response to database once the stream has ended
+      // Type assertion needed due to Supabase type inference limitations
+      const { data: assistantMessage, error: assistantMessageError } = await (supabase
+        .from('chat_messages') as any)
+        .insert({
+          session_id: sessionId,
+          role: 'assistant',
+          content: replyText,
+        })
+        .select()
+        .single();
 
-    if (assistantMessageError) {
-      console.error('Error saving assistant message:', assistantMessageError);
-      return NextResponse.json(
-        { 
-          error: 'Failed to save Sierra response', 
+      if (assistantMessageError) {
+        console.error('Error saving assistant message:', assistantMessageError);
+        sendEvent({
+          type: 'error',
+          error: 'Failed to save Sierra response',
           details: assistantMessageError.message,
-          userMessage,
-          sierraResponse: sierraResponse.message
-        },
-        { status: 500 }
-      );
-    }
+        });
+        return;
+      }
 
-    return NextResponse.json({
-      userMessage,
-      assistantMessage,
-    });
+      sendEvent({
+        type: 'complete',
+        userMessage,
+        assistantMessage,
+      });
+    }, { signal: request.signal });
   } catch (error: unknown) {
     console.error('Error in POST /api/chat/[sessionId]/messages:', error);
     return NextResponse.json(
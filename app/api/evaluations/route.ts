@@ -5,6 +5,9 @@ import { Database } from '@/lib/supabase/database.types';
 import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
 import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
 import { evaluationSchema } from '@/lib/schemas/validation';
+import { isEvaluationSyncEnabled } from '@/lib/salesforce/evaluation-sync';
+import { startSalesforceSyncWorker } from '@/lib/jobs/salesforce-sync-worker';
+import { toTimestamp } from '@/lib/supabase/evaluation-sync';
 
 export async function POST(request: NextRequest) {
   const requestInfo = extractRequestInfo(request);
@@ -53,6 +56,35 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Agentforce transcript version the evaluation was made against: the one the evaluator was
+    // shown, else the transcript's current one
+    let agentforceVersion: number | null = validatedData.transcript_id ? validatedData.agentforce_version ?? null : null;
+    if (validatedData.transcript_id && agentforceVersion === null) {
+      const { data: transcript } = await (supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from('transcripts') as any)
+        .select('agentforce_version')
+        .eq('id', validatedData.transcript_id)
+        .maybeSingle();
+      agentforceVersion = transcript?.agentforce_version ?? null;
+    }
+
+    // The scored Sierra sample must belong to the evaluated transcript
+    if (validatedData.sierra_run_id) {
+      const { data: sierraRun } = await (supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from('sierra_runs') as any)
+        .select('transcript_id')
+        .eq('id', validatedData.sierra_run_id)
+        .maybeSingle();
+      if (!sierraRun || sierraRun.transcript_id !== validatedData.transcript_id) {
+        throw new SafeApiError('Sierra run does not belong to this transcript', 400, 'INVALID_INPUT');
+      }
+    }
+
+    // Evaluations of a messaging session are queued for the Salesforce sync when it is enabled
+    const queueSalesforceSync = isEvaluationSyncEnabled() && messagingSessionId !== null;
+
     // Insert evaluation
     const insertData: Database['public']['Tables']['evaluations']['Insert'] = {
       transcript_id: validatedData.transcript_id || null,
@@ -66,6 +98,12 @@ export async function POST(request: NextRequest) {
       time_spent_seconds: validatedData.time_spent_seconds || null,
       messaging_session_id: messagingSessionId,
       messaging_session_name: messagingSessionName,
+      sierra_run_id: validatedData.sierra_run_id || null,
+      agentforce_version: agentforceVersion,
+      ...(queueSalesforceSync && {
+        salesforce_sync_status: 'pending' as const,
+        salesforce_sync_next_attempt_at: toTimestamp(Date.now()),
+      }),
     };
 
     // Type assertion needed due to Supabase type inference limitations
@@ -84,6 +122,10 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (queueSalesforceSync) {
+      startSalesforceSyncWorker();
+    }
+
     // Log successful creation
     await logAudit({
       userId: user.id,
@@ -158,7 +200,7 @@ export async function GET(request: NextRequest) {
 
     let query = supabase
       .from('evaluations')
-      .select('*, transcripts(*), chat_sessions(*)');
+      .select('*, transcripts(*), chat_sessions(*), sierra_runs(release, sample_index)');
 
     if (transcriptId) {
       query = query.eq('transcript_id', transcriptId);
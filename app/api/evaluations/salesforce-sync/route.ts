@@ -0,0 +1,148 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { getEvaluationSyncCounts, queueEvaluationSyncs } from '@/lib/supabase/evaluation-sync';
+import { getEvaluationSyncConfig } from '@/lib/salesforce/evaluation-sync';
+import { isSalesforceSyncWorkerRunning, startSalesforceSyncWorker } from '@/lib/jobs/salesforce-sync-worker';
+import { evaluationSyncQueueSchema } from '@/lib/schemas/validation';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+import { SalesforceSyncSummary } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * The sync configuration, or a 500 explaining why it is invalid
+ */
+function readSyncConfig() {
+  try {
+    return getEvaluationSyncConfig();
+  } catch (error: unknown) {
+    throw new SafeApiError(
+      error instanceof Error ? error.message : 'Invalid Salesforce sync configuration',
+      500,
+      'CONFIGURATION_ERROR',
+      error
+    );
+  }
+}
+
+/**
+ * Evaluations per Salesforce sync status
+ * Also (re)starts the worker, so evaluations left pending by a server restart are written.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const config = readSyncConfig();
+    const serviceClient = await createServiceClient();
+    const { counts, unsynced, error } = await getEvaluationSyncCounts(serviceClient);
+
+    if (error) {
+      throw new SafeApiError('Failed to fetch Salesforce sync status', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (config && (counts.pending > 0 || counts.syncing > 0)) {
+      startSalesforceSyncWorker();
+    }
+
+    const summary: SalesforceSyncSummary = {
+      enabled: config !== null,
+      target: config?.target || null,
+      counts,
+      unsynced,
+      worker_running: isSalesforceSyncWorkerRunning(),
+    };
+    return NextResponse.json(summary);
+  } catch (error: unknown) {
+    return handleApiError(error, 'GET /api/evaluations/salesforce-sync');
+  }
+}
+
+/**
+ * Queue evaluations for the Salesforce sync: backfill ones never synced and retry failed ones
+ * Body: { evaluation_ids?: string[], since?: ISO date, include_unsynced?: boolean (default true),
+ * include_failed?: boolean (default true) }. Only evaluations of a messaging session are queued.
+ */
+export async function POST(request: NextRequest) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const validatedData = evaluationSyncQueueSchema.parse(await request.json().catch(() => ({})));
+
+    if (!readSyncConfig()) {
+      throw new SafeApiError(
+        'Salesforce sync is not enabled. Set SALESFORCE_EVALUATION_SYNC to custom_object or feed_item.',
+        409,
+        'SYNC_DISABLED'
+      );
+    }
+
+    const serviceClient = await createServiceClient();
+    const { queued, error } = await queueEvaluationSyncs(serviceClient, {
+      evaluationIds: validatedData.evaluation_ids,
+      since: validatedData.since,
+      includeUnsynced: validatedData.include_unsynced,
+      includeFailed: validatedData.include_failed,
+    });
+
+    if (error) {
+      throw new SafeApiError('Failed to queue evaluations for Salesforce', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (queued > 0) {
+      startSalesforceSyncWorker();
+    }
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.SYNC_EVALUATIONS_TO_SALESFORCE,
+      resourceType: 'evaluation',
+      ...requestInfo,
+      statusCode: 200,
+      metadata: {
+        queued,
+        evaluationIds: validatedData.evaluation_ids,
+        since: validatedData.since,
+        includeUnsynced: validatedData.include_unsynced,
+        includeFailed: validatedData.include_failed,
+      },
+    });
+
+    return NextResponse.json({ queued });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    return handleApiError(error, 'POST /api/evaluations/salesforce-sync');
+  }
+}
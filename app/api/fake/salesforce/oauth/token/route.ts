@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOfflineBaseUrl, OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { requireOfflineMode } from '@/lib/offline/http';
+
+/**
+ * Fake Salesforce OAuth token endpoint (client credentials flow), offline mode only
+ */
+export async function POST(request: NextRequest) {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return notFound;
+  }
+
+  const form = new URLSearchParams(await request.text());
+
+  if (form.get('grant_type') !== 'client_credentials') {
+    return NextResponse.json(
+      { error: 'unsupported_grant_type', error_description: 'grant type not supported' },
+      { status: 400 }
+    );
+  }
+
+  if (
+    form.get('client_id') !== OFFLINE_CREDENTIALS.salesforceClientId ||
+    form.get('client_secret') !== OFFLINE_CREDENTIALS.salesforceClientSecret
+  ) {
+    return NextResponse.json(
+      { error: 'invalid_client', error_description: 'invalid client credentials' },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({
+    access_token: OFFLINE_CREDENTIALS.salesforceAccessToken,
+    instance_url: `${getOfflineBaseUrl()}/api/fake/salesforce`,
+    id: `${getOfflineBaseUrl()}/api/fake/salesforce/id/00D000000000000/005000000000000`,
+    token_type: 'Bearer',
+    issued_at: Date.now().toString(),
+    signature: 'offline-signature',
+  });
+}
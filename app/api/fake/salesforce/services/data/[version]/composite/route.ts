@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { FakeCompositeSubrequest, runFakeComposite } from '@/lib/offline/fake-composite';
+import { hasBearerToken, requireOfflineMode } from '@/lib/offline/http';
+
+/**
+ * Fake Salesforce Composite API endpoint; runs query subrequests against the offline fixtures
+ */
+export async function POST(request: NextRequest) {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return notFound;
+  }
+
+  if (!hasBearerToken(request, OFFLINE_CREDENTIALS.salesforceAccessToken)) {
+    return NextResponse.json(
+      [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }],
+      { status: 401 }
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const subrequests = body?.compositeRequest as FakeCompositeSubrequest[] | undefined;
+  if (!Array.isArray(subrequests) || subrequests.length === 0) {
+    return NextResponse.json(
+      [{ message: 'compositeRequest must contain at least one subrequest', errorCode: 'JSON_PARSER_ERROR' }],
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json({ compositeResponse: runFakeComposite(subrequests) });
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { FAKE_CONVERSATION_ENTRIES } from '@/lib/offline/fixtures';
+import { hasBearerToken, requireOfflineMode } from '@/lib/offline/http';
+
+// Small pages so the client's pagination is exercised
+const PAGE_SIZE = 4;
+
+/**
+ * Fake Connect API conversation entries endpoint, paged via ?page=N
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ version: string; conversationId: string }> }
+) {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return notFound;
+  }
+
+  if (!hasBearerToken(request, OFFLINE_CREDENTIALS.salesforceAccessToken)) {
+    return NextResponse.json(
+      [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }],
+      { status: 401 }
+    );
+  }
+
+  const { version, conversationId } = await params;
+  const entries = FAKE_CONVERSATION_ENTRIES[conversationId];
+
+  if (!entries) {
+    return NextResponse.json(
+      [{ message: 'The requested resource does not exist', errorCode: 'NOT_FOUND' }],
+      { status: 404 }
+    );
+  }
+
+  const page = Math.max(0, Number(request.nextUrl.searchParams.get('page')) || 0);
+  const start = page * PAGE_SIZE;
+  const hasMore = start + PAGE_SIZE < entries.length;
+
+  return NextResponse.json({
+    conversationEntries: entries.slice(start, start + PAGE_SIZE),
+    hasMore,
+    // Relative to the instance URL, like the real API
+    nextPageUrl: hasMore
+      ? `/services/data/${version}/connect/conversation/${conversationId}/entries?page=${page + 1}`
+      : null,
+  });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { runFakeQuery } from '@/lib/offline/fake-soql';
+import { hasBearerToken, requireOfflineMode } from '@/lib/offline/http';
+
+/**
+ * Fake Salesforce SOQL query endpoint backed by the offline fixtures
+ */
+export async function GET(request: NextRequest) {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return notFound;
+  }
+
+  if (!hasBearerToken(request, OFFLINE_CREDENTIALS.salesforceAccessToken)) {
+    return NextResponse.json(
+      [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }],
+      { status: 401 }
+    );
+  }
+
+  const query = request.nextUrl.searchParams.get('q');
+  if (!query) {
+    return NextResponse.json(
+      [{ message: 'A query string has to be specified', errorCode: 'MALFORMED_QUERY' }],
+      { status: 400 }
+    );
+  }
+
+  try {
+    return NextResponse.json(runFakeQuery(query));
+  } catch (error: unknown) {
+    return NextResponse.json(
+      [{ message: error instanceof Error ? error.message : String(error), errorCode: 'MALFORMED_QUERY' }],
+      { status: 400 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { createFakeRecord, FakeWriteResult, upsertFakeRecord } from '@/lib/offline/fake-sobjects';
+import { hasBearerToken, requireOfflineMode } from '@/lib/offline/http';
+
+type RouteContext = { params: Promise<{ version: string; path: string[] }> };
+
+/**
+ * Check offline mode, the bearer token and the JSON body shared by both write endpoints
+ */
+async function readWrite(request: NextRequest): Promise<{ fields: Record<string, unknown> } | { response: NextResponse }> {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return { response: notFound };
+  }
+
+  if (!hasBearerToken(request, OFFLINE_CREDENTIALS.salesforceAccessToken)) {
+    return {
+      response: NextResponse.json(
+        [{ message: 'Session expired or invalid', errorCode: 'INVALID_SESSION_ID' }],
+        { status: 401 }
+      ),
+    };
+  }
+
+  const fields = await request.json().catch(() => null);
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    return {
+      response: NextResponse.json(
+        [{ message: 'The request body must be a JSON object', errorCode: 'JSON_PARSER_ERROR' }],
+        { status: 400 }
+      ),
+    };
+  }
+  return { fields };
+}
+
+function toResponse(result: FakeWriteResult): NextResponse {
+  return NextResponse.json(result.body, { status: result.status });
+}
+
+/**
+ * Fake record create: POST /sobjects/FeedItem
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const write = await readWrite(request);
+  if ('response' in write) {
+    return write.response;
+  }
+
+  const { path } = await params;
+  if (path.length !== 1) {
+    return NextResponse.json([{ message: 'Unsupported sObject request', errorCode: 'NOT_FOUND' }], { status: 404 });
+  }
+  return toResponse(createFakeRecord(path[0], write.fields));
+}
+
+/**
+ * Fake upsert by external ID: PATCH /sobjects/Object__c/ExternalId__c/value
+ */
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const write = await readWrite(request);
+  if ('response' in write) {
+    return write.response;
+  }
+
+  const { path } = await params;
+  if (path.length !== 3) {
+    return NextResponse.json([{ message: 'Unsupported sObject request', errorCode: 'NOT_FOUND' }], { status: 404 });
+  }
+  const [objectName, externalIdField, externalId] = path;
+  return toResponse(upsertFakeRecord(objectName, externalIdField, externalId, write.fields));
+}
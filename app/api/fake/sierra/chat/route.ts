@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OFFLINE_CREDENTIALS } from '@/lib/config/integrations';
+import { FAKE_SIERRA_DEFAULT_REPLY, FAKE_SIERRA_REPLIES } from '@/lib/offline/fixtures';
+import { hasBearerToken, requireOfflineMode } from '@/lib/offline/http';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// Delay between streamed fragments, so replays show realistic progress
+const FRAGMENT_DELAY_MS = 40;
+
+interface FakeConversationState {
+  conversationId: string;
+  turn: number;
+}
+
+function decodeState(state: unknown): FakeConversationState | null {
+  if (typeof state !== 'string') {
+    return null;
+  }
+  try {
+    return JSON.parse(Buffer.from(state, 'base64').toString('utf8'));
+  } catch {
+    return null;
+  }
+}
+
+function encodeState(state: FakeConversationState): string {
+  return Buffer.from(JSON.stringify(state)).toString('base64');
+}
+
+/**
+ * Pick the first fixture reply whose keywords appear in the message
+ */
+function selectReply(message: string) {
+  const lower = message.toLowerCase();
+  const words = new Set(lower.split(/[^a-z0-9@]+/).filter(Boolean));
+  return FAKE_SIERRA_REPLIES.find((reply) =>
+    reply.keywords.some((keyword) => words.has(keyword) || (keyword.length === 1 && lower.includes(keyword)))
+  );
+}
+
+/**
+ * Fake Sierra chat endpoint, offline mode only
+ * Streams NDJSON like the real API: message fragments, the conversation state, optional
+ * transfer/end events and a final request-complete
+ */
+export async function POST(request: NextRequest) {
+  const notFound = requireOfflineMode();
+  if (notFound) {
+    return notFound;
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!hasBearerToken(request, OFFLINE_CREDENTIALS.sierraApiKey) || body?.token !== OFFLINE_CREDENTIALS.sierraApiToken) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const text = body?.clientEvent?.message?.content;
+  if (body?.clientEvent?.type !== 'message' || typeof text !== 'string') {
+    return NextResponse.json({ error: 'clientEvent must be a message with content' }, { status: 400 });
+  }
+
+  const previous = decodeState(body.state);
+  const state: FakeConversationState = {
+    conversationId: previous?.conversationId || body.conversationId || crypto.randomUUID(),
+    turn: (previous?.turn ?? -1) + 1,
+  };
+
+  const match = selectReply(text);
+  let reply = match?.reply || FAKE_SIERRA_DEFAULT_REPLY;
+
+  // Greet by name when case context was passed as variables
+  const customerName = body.variables?.customerName;
+  if (state.turn === 0 && typeof customerName === 'string' && customerName) {
+    reply = `Hi ${customerName}! ${reply}`;
+  }
+
+  if (body.release) {
+    reply = `${reply} (release ${body.release})`;
+  }
+
+  const lines: Record<string, unknown>[] = [];
+  const words = reply.split(' ');
+  for (let i = 0; i < words.length; i += 4) {
+    const fragment = words.slice(i, i + 4).join(' ') + (i + 4 < words.length ? ' ' : '');
+    lines.push({ type: 'message', message: { role: 'assistant', text: fragment } });
+  }
+  lines.push({ state: encodeState(state) });
+  if (match?.event) {
+    lines.push({ type: match.event.type, reason: match.event.reason });
+  }
+  lines.push({ type: 'request-complete' });
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      for (const line of lines) {
+        controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+        await new Promise((resolve) => setTimeout(resolve, FRAGMENT_DELAY_MS));
+      }
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson' },
+  });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { cancelGenerationJob } from '@/lib/jobs/generation-worker';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Cancel a generation job: queued items are cancelled and running items are aborted
+ * Cancelled items keep their partial Sierra runs and can be retried later.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { id } = await params;
+    const serviceClient = await createServiceClient();
+    const { cancelled, error } = await cancelGenerationJob(serviceClient, id);
+
+    if (error) {
+      throw new SafeApiError('Failed to cancel generation job', 500, 'DATABASE_ERROR', error);
+    }
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.CANCEL_GENERATION_JOB,
+      resourceType: 'generation_job',
+      resourceId: id,
+      ...requestInfo,
+      statusCode: 200,
+      metadata: { cancelled },
+    });
+
+    return NextResponse.json({ cancelled });
+  } catch (error: unknown) {
+    return handleApiError(error, 'POST /api/generation-jobs/[id]/cancel');
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { requeueJobItems } from '@/lib/supabase/generation-jobs';
+import { startGenerationWorker } from '@/lib/jobs/generation-worker';
+import { generationJobRetrySchema } from '@/lib/schemas/validation';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Queue failed and cancelled items of a job again
+ * Optional JSON body: { item_ids?: string[] } to retry only those items. Each retry resumes the
+ * item's Sierra run from its first failed turn.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { id } = await params;
+    const validatedData = generationJobRetrySchema.parse(await request.json().catch(() => ({})));
+
+    const serviceClient = await createServiceClient();
+    const { requeued, error } = await requeueJobItems(serviceClient, id, validatedData.item_ids);
+
+    if (error) {
+      throw new SafeApiError('Failed to retry generation job', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (requeued > 0) {
+      startGenerationWorker();
+    }
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.RETRY_GENERATION_JOB,
+      resourceType: 'generation_job',
+      resourceId: id,
+      ...requestInfo,
+      statusCode: 200,
+      metadata: { requeued, itemIds: validatedData.item_ids },
+    });
+
+    return NextResponse.json({ requeued });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    return handleApiError(error, 'POST /api/generation-jobs/[id]/retry');
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { getGenerationJob } from '@/lib/supabase/generation-jobs';
+import { isGenerationWorkerRunning, startGenerationWorker } from '@/lib/jobs/generation-worker';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Get a generation job with the status, attempts and error of every item
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { id } = await params;
+    if (!z.string().uuid().safeParse(id).success) {
+      throw SafeErrors.NotFound;
+    }
+
+    const serviceClient = await createServiceClient();
+    const { job, error } = await getGenerationJob(serviceClient, id);
+
+    if (error) {
+      throw new SafeApiError('Failed to fetch generation job', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (!job) {
+      throw SafeErrors.NotFound;
+    }
+
+    if (job.counts.queued > 0 || job.counts.running > 0) {
+      startGenerationWorker();
+    }
+
+    return NextResponse.json({ job, worker_running: isGenerationWorkerRunning() });
+  } catch (error: unknown) {
+    return handleApiError(error, 'GET /api/generation-jobs/[id]');
+  }
+}
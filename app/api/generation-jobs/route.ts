@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { createGenerationJob, listGenerationJobs } from '@/lib/supabase/generation-jobs';
+import { normalizeSierraRelease } from '@/lib/supabase/transcripts';
+import { isGenerationWorkerRunning, startGenerationWorker } from '@/lib/jobs/generation-worker';
+import { generationJobSchema } from '@/lib/schemas/validation';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * List recent generation jobs with item counts per status
+ * Also (re)starts the worker, so jobs left queued by a server restart continue.
+ */
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const serviceClient = await createServiceClient();
+    const { jobs, error } = await listGenerationJobs(serviceClient);
+
+    if (error) {
+      throw new SafeApiError('Failed to fetch generation jobs', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (jobs.some((job) => job.counts.queued > 0 || job.counts.running > 0)) {
+      startGenerationWorker();
+    }
+
+    return NextResponse.json({ jobs, worker_running: isGenerationWorkerRunning() });
+  } catch (error: unknown) {
+    return handleApiError(error, 'GET /api/generation-jobs');
+  }
+}
+
+/**
+ * Queue Sierra generation for every transcript of a test batch that has none yet
+ * Body: { test_batch_id: string, release?: string }
+ */
+export async function POST(request: NextRequest) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const validatedData = generationJobSchema.parse(await request.json());
+    const release = normalizeSierraRelease(validatedData.release);
+
+    if (!release) {
+      throw new SafeApiError(
+        'Release must be 1-100 characters of letters, numbers, ".", "_", ":" or "-"',
+        400,
+        'INVALID_INPUT'
+      );
+    }
+
+    const serviceClient = await createServiceClient();
+    const { job, queued, error } = await createGenerationJob(
+      serviceClient,
+      validatedData.test_batch_id,
+      release,
+      user.id
+    );
+
+    if (error) {
+      throw new SafeApiError('Failed to create generation job', 500, 'DATABASE_ERROR', error);
+    }
+
+    if (!job) {
+      throw new SafeApiError(
+        `Every transcript in batch "${validatedData.test_batch_id}" already has a Sierra transcript for release "${release}" or is queued`,
+        409,
+        'NOTHING_TO_QUEUE'
+      );
+    }
+
+    startGenerationWorker();
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.CREATE_GENERATION_JOB,
+      resourceType: 'generation_job',
+      resourceId: job.id,
+      ...requestInfo,
+      statusCode: 201,
+      metadata: {
+        testBatchId: validatedData.test_batch_id,
+        release,
+        queued,
+      },
+    });
+
+    return NextResponse.json({ job, queued }, { status: 201 });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    return handleApiError(error, 'POST /api/generation-jobs');
+  }
+}
@@ -1,5 +1,8 @@
 import { NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
+import { getCircuitBreakerStates } from '@/lib/http/resilient-fetch';
+import { getSalesforceConfig, getSierraConfig, isOfflineMode } from '@/lib/config/integrations';
+import { getSalesforceAuthMetrics } from '@/lib/salesforce/session-manager';
 
 export async function GET() {
   const startTime = Date.now();
@@ -8,11 +11,14 @@ export async function GET() {
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '1.0.0',
     environment: process.env.NODE_ENV || 'development',
+    offlineMode: isOfflineMode(),
     checks: {
       database: { status: 'unknown', latency: 0, message: '' },
       salesforce: { status: 'unknown', configured: false },
       sierra: { status: 'unknown', configured: false },
     },
+    circuitBreakers: getCircuitBreakerStates(),
+    salesforceAuth: getSalesforceAuthMetrics(),
     uptime: process.uptime(),
     memory: {
       used: Math.round(process.memoryUsage().heapUsed / 1024 / 1024),
@@ -49,29 +55,28 @@ export async function GET() {
     status.status = 'degraded';
   }
 
-  // Check Salesforce Configuration
+  // Check Salesforce Configuration (offline mode uses the built-in fake server)
+  const salesforceConfigured = !('missing' in getSalesforceConfig());
   status.checks.salesforce = {
-    status: process.env.SALESFORCE_CLIENT_ID && 
-            process.env.SALESFORCE_CLIENT_SECRET && 
-            process.env.SALESFORCE_OAUTH_URL 
-            ? 'configured' : 'not_configured',
-    configured: !!(process.env.SALESFORCE_CLIENT_ID && 
-                   process.env.SALESFORCE_CLIENT_SECRET && 
-                   process.env.SALESFORCE_OAUTH_URL),
+    status: status.offlineMode ? 'offline' : salesforceConfigured ? 'configured' : 'not_configured',
+    configured: salesforceConfigured,
   };
 
-  // Check Sierra Configuration
+  // Check Sierra Configuration (offline mode uses the built-in fake server)
+  const sierraConfigured = !('missing' in getSierraConfig());
   status.checks.sierra = {
-    status: process.env.SIERRA_API_KEY && 
-            process.env.SIERRA_API_TOKEN 
-            ? 'configured' : 'not_configured',
-    configured: !!(process.env.SIERRA_API_KEY && process.env.SIERRA_API_TOKEN),
+    status: status.offlineMode ? 'offline' : sierraConfigured ? 'configured' : 'not_configured',
+    configured: sierraConfigured,
   };
 
   // Overall status
   if (status.checks.database.status === 'unhealthy') {
     status.status = 'unhealthy';
-  } else if (!status.checks.salesforce.configured || !status.checks.sierra.configured) {
+  } else if (
+    !status.checks.salesforce.configured ||
+    !status.checks.sierra.configured ||
+    status.circuitBreakers.some((circuit) => circuit.state !== 'closed')
+  ) {
     status.status = 'degraded';
   }
 
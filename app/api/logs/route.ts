@@ -55,6 +55,11 @@ export async function GET() {
           evaluationType: 'case_comparison',
           caseNumber: transcript?.case_number || 'Unknown',
           transcriptId: evaluation.transcript_id,
+          // Made against an Agentforce transcript that has since been refreshed from Salesforce
+          outdatedTranscript:
+            typeof evaluation.agentforce_version === 'number' &&
+            typeof transcript?.agentforce_version === 'number' &&
+            evaluation.agentforce_version < transcript.agentforce_version,
           winner: evaluation.winner,
           scores: evaluation.scores,
           notes: evaluation.notes,
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { getReplayRuleSet, saveReplayRuleSet, toReplayRuleSet } from '@/lib/supabase/replay-rules';
+import { replayRuleSetSchema, testBatchIdSchema } from '@/lib/schemas/validation';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+
+/**
+ * Get the replay rules that apply to a test batch ("default" for transcripts without one)
+ * `test_batch_id` in the response is the rule set actually used, or null when none is configured
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ batch: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { batch } = await params;
+    const testBatchId = testBatchIdSchema.parse(batch);
+
+    const serviceClient = await createServiceClient();
+    const { ruleSet, testBatchId: source, error } = await getReplayRuleSet(serviceClient, testBatchId);
+
+    if (error) {
+      throw new SafeApiError('Failed to fetch replay rules', 500, 'DATABASE_ERROR', error);
+    }
+
+    return NextResponse.json({
+      test_batch_id: source,
+      stop_at_human_handoff: ruleSet.stopAtHumanHandoff,
+      rules: ruleSet.rules,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid test batch ID' }, { status: 400 });
+    }
+    return handleApiError(error, 'GET /api/replay-rules/[batch]');
+  }
+}
+
+/**
+ * Replace the replay rules for a test batch
+ * Body: { stop_at_human_handoff: boolean, rules: ReplayRule[] }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ batch: string }> }
+) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { batch } = await params;
+    const testBatchId = testBatchIdSchema.parse(batch);
+    const validatedData = replayRuleSetSchema.parse(await request.json());
+
+    const serviceClient = await createServiceClient();
+    const { row, error } = await saveReplayRuleSet(
+      serviceClient,
+      testBatchId,
+      { stopAtHumanHandoff: validatedData.stop_at_human_handoff, rules: validatedData.rules },
+      user.id
+    );
+
+    if (error || !row) {
+      throw new SafeApiError('Failed to save replay rules', 500, 'DATABASE_ERROR', error);
+    }
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.UPDATE_REPLAY_RULES,
+      resourceType: 'replay_rule_set',
+      resourceId: row.id,
+      ...requestInfo,
+      statusCode: 200,
+      metadata: {
+        testBatchId,
+        ruleCount: validatedData.rules.length,
+        stopAtHumanHandoff: validatedData.stop_at_human_handoff,
+      },
+    });
+
+    const ruleSet = toReplayRuleSet(row);
+    return NextResponse.json({
+      test_batch_id: row.test_batch_id,
+      stop_at_human_handoff: ruleSet.stopAtHumanHandoff,
+      rules: ruleSet.rules,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    return handleApiError(error, 'PUT /api/replay-rules/[batch]');
+  }
+}
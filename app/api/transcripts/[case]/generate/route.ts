@@ -1,22 +1,41 @@
 import { NextRequest } from 'next/server';
-import { createServiceClient } from '@/lib/supabase/server';
-import { SierraClient } from '@/lib/sierra/client';
-import { replayToSierra, ProgressCallback } from '@/lib/sierra/replay';
-import { Database } from '@/lib/supabase/database.types';
-
-type Transcript = Database['public']['Tables']['transcripts']['Row'];
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { createEventStreamResponse } from '@/lib/utils/sse';
+import {
+  attachGenerationStream,
+  cancelGenerationStream,
+  startGenerationStream,
+} from '@/lib/jobs/generation-streams';
+import { findRunningGenerationStream, getGenerationStream } from '@/lib/supabase/generation-streams';
+import {
+  findTranscriptByIdentifier,
+  MAX_SIERRA_SAMPLES,
+  normalizeSierraRelease,
+} from '@/lib/supabase/transcripts';
 
 // Ensure this route uses Node.js runtime (not Edge) for streaming support
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+/**
+ * Generate the Sierra transcript for a case by replaying its Agentforce conversation
+ * Optional JSON body: { release?: string, restart?: boolean, samples?: number, sample?: number }
+ * - release targets a specific Sierra release (e.g. "QA"). Each release keeps its own run,
+ *   so generating for a new release never overwrites older results.
+ * - samples generates that many independent runs (samples 0..samples-1) to measure run-to-run
+ *   variance; sample generates (or resumes) just that one. Complete samples are reused.
+ * - Every replayed turn is checkpointed; a run that failed or was interrupted resumes from its
+ *   first failed turn in the same Sierra conversation unless restart is true.
+ * The generation runs server-side under a stream ID (sent in the `connected` event). Closing this
+ * stream does not stop it: GET re-attaches and DELETE cancels.
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ case: string }> }
 ) {
   try {
     const { case: identifier } = await params;
-    
+
     if (!identifier) {
       return new Response(
         JSON.stringify({ type: 'error', message: 'Case number or transcript ID is required' }),
@@ -26,268 +45,101 @@ export async function POST(
         }
       );
     }
-  
-  // Create a ReadableStream for Server-Sent Events
-  const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder();
-      let isClosed = false;
-      
-      const sendEvent = (data: any) => {
-        if (isClosed) {
-          console.warn('Attempted to send event after stream closed');
-          return;
-        }
-        try {
-          // Check if controller is still open before enqueueing
-          if (controller.desiredSize === null) {
-            // Stream is closed or errored
-            isClosed = true;
-            console.warn('Attempted to send event after stream closed');
-            return;
-          }
-          const message = `data: ${JSON.stringify(data)}\n\n`;
-          controller.enqueue(encoder.encode(message));
-        } catch (err: unknown) {
-          // If error is due to closed controller, mark as closed
-          const errorCode = (err as { code?: string })?.code;
-          const errorMessage = err instanceof Error ? err.message : String(err);
-          if (errorCode === 'ERR_INVALID_STATE' || errorMessage.includes('closed')) {
-            isClosed = true;
-          }
-          console.error('Error sending event:', err);
-        }
-      };
-
-      const closeStream = () => {
-        if (isClosed) {
-          return;
-        }
-        try {
-          // Check if controller is still open before closing
-          if (controller.desiredSize !== null) {
-            isClosed = true;
-            controller.close();
-          } else {
-            // Already closed or errored
-            isClosed = true;
-          }
-        } catch (err: unknown) {
-          // If we get an error, the stream is likely already closed
-          isClosed = true;
-          // Only log if it's not the expected "already closed" error
-          const errorCode = (err as { code?: string })?.code;
-          const errorMessage = err instanceof Error ? err.message : String(err);
-          if (errorCode !== 'ERR_INVALID_STATE' && !errorMessage.includes('closed')) {
-            console.error('Error closing stream:', err);
-          }
-        }
-      };
-
-      try {
-        // Send initial connection message
-        sendEvent({ type: 'connected', message: 'Connected to progress stream' });
-
-        const supabase = await createServiceClient();
-
-        // Get existing transcript - try by ID first (UUID format), then by case number
-        let existingTranscript: Transcript | null = null;
-        let fetchError: any = null;
-
-        // Check if identifier is a UUID (transcript ID)
-        const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(identifier);
-        
-        if (isUUID) {
-          const result = await supabase
-            .from('transcripts')
-            .select('*')
-            .eq('id', identifier)
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            .maybeSingle() as { data: Transcript | null; error: any };
-          existingTranscript = result.data;
-          fetchError = result.error;
-        } else {
-          // Try by case number
-          const result = await supabase
-            .from('transcripts')
-            .select('*')
-            .eq('case_number', identifier)
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            .maybeSingle() as { data: Transcript | null; error: any };
-          existingTranscript = result.data;
-          fetchError = result.error;
-
-          // Fallback for case number format (without leading zeros)
-          if (!existingTranscript && !fetchError && identifier) {
-            const caseWithoutZeros = identifier.replace(/^0+/, '');
-            if (caseWithoutZeros !== identifier) {
-              const fallbackResult = await supabase
-                .from('transcripts')
-                .select('*')
-                .eq('case_number', caseWithoutZeros)
-                // eslint-disable-next-line @typescript-eslint/no-explicit-any
-                .maybeSingle() as { data: Transcript | null; error: any };
-              existingTranscript = fallbackResult.data;
-              fetchError = fallbackResult.error;
-            }
-          }
-        }
 
-        if (fetchError) {
-          sendEvent({
-            type: 'error',
-            message: 'Failed to fetch transcript from database',
-            details: fetchError.message,
-          });
-          closeStream();
-          return;
-        }
-
-        if (!existingTranscript) {
-          sendEvent({
-            type: 'error',
-            message: 'Transcript not found. Please load Salesforce transcript first.',
-          });
-          closeStream();
-          return;
-        }
+    const body = await request.json().catch(() => ({}));
+    const release = normalizeSierraRelease(body?.release);
+    const restart = body?.restart === true;
+    const sampleCount = body?.samples ?? 1;
+    const requestedSample = body?.sample;
 
-        // Check if Sierra transcript already exists
-        if (
-          existingTranscript.sierra_transcript &&
-          Array.isArray(existingTranscript.sierra_transcript) &&
-          existingTranscript.sierra_transcript.length > 0
-        ) {
-          sendEvent({
-            type: 'complete',
-            message: 'Sierra transcript already exists',
-            transcript: existingTranscript,
-          });
-          closeStream();
-          return;
+    if (!release) {
+      return new Response(
+        JSON.stringify({
+          type: 'error',
+          message: 'Invalid release',
+          details: 'Release must be 1-100 characters of letters, numbers, ".", "_", ":" or "-"',
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
         }
+      );
+    }
 
-        // Validate Sierra environment variables
-        const sierraApiKey = process.env.SIERRA_API_KEY;
-        const sierraApiToken = process.env.SIERRA_API_TOKEN;
-        const sierraApiUrl = process.env.SIERRA_API_URL || 'https://api.sierra.chat';
-
-        if (!sierraApiKey || !sierraApiToken) {
-          const missing = [];
-          if (!sierraApiKey) missing.push('SIERRA_API_KEY');
-          if (!sierraApiToken) missing.push('SIERRA_API_TOKEN');
+    const validSampleCount = Number.isInteger(sampleCount) && sampleCount >= 1 && sampleCount <= MAX_SIERRA_SAMPLES;
+    const validSample =
+      requestedSample === undefined ||
+      (Number.isInteger(requestedSample) && requestedSample >= 0 && requestedSample < MAX_SIERRA_SAMPLES);
 
-          sendEvent({
-            type: 'error',
-            message: 'Missing required environment variables',
-            details: `Please configure: ${missing.join(', ')}`,
-          });
-          closeStream();
-          return;
+    if (!validSampleCount || !validSample) {
+      return new Response(
+        JSON.stringify({
+          type: 'error',
+          message: 'Invalid samples',
+          details: `samples must be a whole number from 1 to ${MAX_SIERRA_SAMPLES}, and sample from 0 to ${MAX_SIERRA_SAMPLES - 1}`,
+        }),
+        {
+          status: 400,
+          headers: { 'Content-Type': 'application/json' },
         }
+      );
+    }
 
-        // Create progress callback
-        const progressCallback: ProgressCallback = (progress) => {
-          sendEvent({
-            type: 'progress',
-            ...progress,
-          });
-        };
-
-        // Generate Sierra transcript with progress updates
-        // Don't pass state initially - Sierra will return state in first response
-        // and we'll use that for subsequent messages to maintain conversation continuity
-        const sierraClient = new SierraClient(
-          sierraApiUrl,
-          sierraApiKey,
-          sierraApiToken,
-          '2025-02-01'
-          // No state parameter - Sierra will return it in the first response
-        );
+    // One specific sample (e.g. to resume it), or samples 0..samples-1
+    const sampleIndexes: number[] =
+      requestedSample !== undefined ? [requestedSample] : Array.from({ length: sampleCount }, (_, index) => index);
 
-        const agentforceEntries = existingTranscript.agentforce_transcript as any[];
+    return createEventStreamResponse(async (sendEvent, signal) => {
+      const supabase = await createServiceClient();
 
-        // Use case number if available, otherwise use transcript ID for Sierra conversation ID
-        const sierraConversationId = existingTranscript.case_number || existingTranscript.id;
+      const { data: existingTranscript, error: fetchError } = await findTranscriptByIdentifier(
+        supabase,
+        identifier
+      );
 
+      if (fetchError) {
         sendEvent({
-          type: 'start',
-          message: 'Starting Sierra transcript generation...',
+          type: 'error',
+          message: 'Failed to fetch transcript from database',
+          details: fetchError.message,
         });
+        return;
+      }
 
-        const sierraEntries = await replayToSierra(
-          agentforceEntries,
-          sierraClient,
-          progressCallback,
-          sierraConversationId // Pass identifier to ensure single conversation
-        );
-
-        // Update database with Sierra transcript
+      if (!existingTranscript) {
         sendEvent({
-          type: 'saving',
-          message: 'Saving Sierra transcript to database...',
+          type: 'error',
+          message: 'Transcript not found. Please load Salesforce transcript first.',
         });
+        return;
+      }
 
-        const updateData = {
-          sierra_transcript: sierraEntries,
-          sierra_version: process.env.SIERRA_VERSION || 'v2.1.0',
-        };
-
-        // Update by ID if identifier is UUID, otherwise by case_number
-        // Type assertion needed due to Supabase type inference limitations
-        const updateQuery = isUUID 
-          ? (supabase.from('transcripts') as any).update(updateData).eq('id', identifier)
-          : (supabase.from('transcripts') as any).update(updateData).eq('case_number', identifier);
-        
-        const { data: updatedTranscript, error: updateError } = await updateQuery
-          .select()
-          .single();
-        
-        const typedUpdatedTranscript = updatedTranscript as Transcript | null;
+      const {
+        data: { user },
+      } = await (await createClient()).auth.getUser();
 
-        if (updateError) {
-          sendEvent({
-            type: 'error',
-            message: 'Failed to update transcript with Sierra data',
-            details: updateError.message,
-          });
-          closeStream();
-          return;
-        }
+      const { streamId, error: streamError } = await startGenerationStream(supabase, existingTranscript, {
+        release,
+        sampleIndexes,
+        restart,
+        createdBy: user?.id || null,
+      });
 
-        // Send completion event
+      if (streamError || !streamId) {
         sendEvent({
-          type: 'complete',
-          message: 'Sierra transcript generated successfully',
-          transcript: typedUpdatedTranscript,
+          type: 'error',
+          message: 'Failed to start Sierra transcript generation',
+          details: streamError?.message,
         });
-
-        closeStream();
-      } catch (error: unknown) {
-        console.error('Error in Sierra generation stream:', error);
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        try {
-          sendEvent({
-            type: 'error',
-            message: 'Failed to generate Sierra transcript',
-            details: errorMessage,
-          });
-        } catch (sendError) {
-          console.error('Error sending error event:', sendError);
-        }
-        closeStream();
+        return;
       }
-    },
-  });
 
-    return new Response(stream, {
-      headers: {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive',
-        'X-Accel-Buffering': 'no', // Disable buffering for nginx
-      },
-    });
+      // Send initial connection message
+      sendEvent({ type: 'connected', message: 'Connected to progress stream', stream_id: streamId });
+
+      // Disconnecting only detaches this client; the generation keeps running
+      await attachGenerationStream(supabase, streamId, 0, sendEvent, signal);
+    }, { signal: request.signal });
   } catch (error: unknown) {
     console.error('Error setting up Sierra generation stream:', error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -305,3 +157,139 @@ export async function POST(
   }
 }
 
+/**
+ * Find the generation to attach to or cancel: `?stream=<id>` when given, otherwise the
+ * transcript's generation in flight. Returns an error Response when there is none.
+ */
+async function resolveGenerationStream(
+  request: NextRequest,
+  identifier: string
+): Promise<{ streamId: string; response?: undefined } | { streamId?: undefined; response: Response }> {
+  const jsonError = (status: number, message: string, details?: string) => ({
+    response: new Response(JSON.stringify({ type: 'error', message, details }), {
+      status,
+      headers: { 'Content-Type': 'application/json' },
+    }),
+  });
+
+  const supabase = await createServiceClient();
+  const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, identifier);
+
+  if (fetchError) {
+    return jsonError(500, 'Failed to fetch transcript from database', fetchError.message);
+  }
+  if (!transcript) {
+    return jsonError(404, 'Transcript not found');
+  }
+
+  const requestedStream = request.nextUrl.searchParams.get('stream');
+  if (requestedStream) {
+    const { stream, error } = await getGenerationStream(supabase, requestedStream);
+    if (error || !stream || stream.transcript_id !== transcript.id) {
+      return jsonError(404, 'Generation not found');
+    }
+    return { streamId: stream.id };
+  }
+
+  const { stream, error } = await findRunningGenerationStream(supabase, transcript.id);
+  if (error) {
+    return jsonError(500, 'Failed to fetch generation from database', error.message);
+  }
+  if (!stream) {
+    // Nothing in flight to attach to
+    return { response: new Response(null, { status: 204 }) };
+  }
+  return { streamId: stream.id };
+}
+
+/**
+ * Attach to a generation's progress stream (any client, e.g. after a reload or from another
+ * evaluator's browser)
+ * Replays the events after the `Last-Event-ID` header (or `?last_event_id=`), then follows the
+ * generation until it completes, is cancelled or fails. 204 when no generation is in flight.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const { case: identifier } = await params;
+    const resolved = await resolveGenerationStream(request, identifier);
+    if (resolved.response) {
+      return resolved.response;
+    }
+
+    const lastEventId = Number(
+      request.headers.get('last-event-id') ?? request.nextUrl.searchParams.get('last_event_id') ?? 0
+    );
+    const afterSeq = Number.isInteger(lastEventId) && lastEventId > 0 ? lastEventId : 0;
+
+    return createEventStreamResponse(async (sendEvent, signal) => {
+      sendEvent({ type: 'connected', message: 'Connected to progress stream', stream_id: resolved.streamId });
+      const supabase = await createServiceClient();
+      await attachGenerationStream(supabase, resolved.streamId, afterSeq, sendEvent, signal);
+    }, { signal: request.signal });
+  } catch (error: unknown) {
+    console.error('Error attaching to Sierra generation stream:', error);
+    return new Response(
+      JSON.stringify({
+        type: 'error',
+        message: 'Failed to attach to generation',
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
+
+/**
+ * Cancel a generation in flight (`?stream=<id>`, or the transcript's current one)
+ * The replay stops after the in-flight turn; completed turns are saved as a cancelled run that can
+ * be resumed. Attached clients receive a `cancelled` event.
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const { case: identifier } = await params;
+    const resolved = await resolveGenerationStream(request, identifier);
+    if (resolved.response) {
+      return resolved.response;
+    }
+
+    if (!cancelGenerationStream(resolved.streamId)) {
+      return new Response(
+        JSON.stringify({
+          type: 'error',
+          message: 'Generation is not running on this server',
+          details: 'It may have just finished, or be running on another server instance.',
+        }),
+        {
+          status: 409,
+          headers: { 'Content-Type': 'application/json' },
+        }
+      );
+    }
+
+    return new Response(JSON.stringify({ cancelled: true, stream_id: resolved.streamId }), {
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error: unknown) {
+    console.error('Error cancelling Sierra generation:', error);
+    return new Response(
+      JSON.stringify({
+        type: 'error',
+        message: 'Failed to cancel generation',
+        details: error instanceof Error ? error.message : String(error),
+      }),
+      {
+        status: 500,
+        headers: { 'Content-Type': 'application/json' },
+      }
+    );
+  }
+}
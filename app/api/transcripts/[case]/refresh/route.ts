@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { getSalesforceSession } from '@/lib/salesforce/session-manager';
+import { getSalesforceConfig } from '@/lib/config/integrations';
+import { fetchAgentforceTranscript } from '@/lib/salesforce/agentforce-transcript';
+import {
+  countOutdatedEvaluations,
+  findTranscriptByIdentifier,
+  updateAgentforceTranscript,
+} from '@/lib/supabase/transcripts';
+import { summarizeTranscriptDiff } from '@/lib/utils/transcript-diff';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { logAudit, AuditActions, extractRequestInfo } from '@/lib/audit-logger';
+import { Transcript, TranscriptRefreshResult } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * Replace the stored Agentforce transcript with Salesforce's current copy of the conversation
+ * Answers with the entries added, removed and changed. When they differ, the old entries are kept
+ * in agentforce_transcript_versions and the transcript's version goes up, which marks evaluations
+ * made against the old copy as outdated (see updateAgentforceTranscript).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  const requestInfo = extractRequestInfo(request);
+
+  try {
+    const authClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { case: identifier } = await params;
+    const supabase = await createServiceClient();
+
+    const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, identifier);
+
+    if (fetchError) {
+      throw new SafeApiError('Failed to fetch transcript from database', 500, 'DATABASE_ERROR', fetchError);
+    }
+
+    if (!transcript) {
+      throw new SafeApiError('Transcript not found', 404, 'NOT_FOUND');
+    }
+
+    const salesforceConfig = getSalesforceConfig();
+
+    if ('missing' in salesforceConfig) {
+      throw new SafeApiError(
+        `Missing required environment variables: ${salesforceConfig.missing.join(', ')}`,
+        500,
+        'CONFIGURATION_ERROR'
+      );
+    }
+
+    let current;
+    try {
+      const salesforceSession = await getSalesforceSession(salesforceConfig);
+      current = await fetchAgentforceTranscript(
+        salesforceSession,
+        salesforceConfig.apiVersion,
+        transcript.messaging_session_id
+      );
+    } catch (error: unknown) {
+      throw new SafeApiError('Failed to fetch the transcript from Salesforce', 502, 'SALESFORCE_ERROR', error);
+    }
+
+    const previousVersion = transcript.agentforce_version;
+
+    const saved = await updateAgentforceTranscript(
+      supabase,
+      transcript,
+      current.entries,
+      {
+        ...((transcript.metadata as Record<string, unknown> | null) || {}),
+        sierra_variables: current.sierraVariables,
+        redaction: current.redaction,
+        case_context: current.caseContext,
+        case_outcome: current.caseOutcome,
+      },
+      user.id
+    );
+
+    if (saved.error) {
+      throw new SafeApiError('Failed to save refreshed transcript', 500, 'DATABASE_ERROR', saved.error);
+    }
+
+    if (saved.conflict || !saved.transcript) {
+      throw new SafeApiError(
+        'The transcript was refreshed by someone else in the meantime. Reload it and try again.',
+        409,
+        'REFRESH_CONFLICT'
+      );
+    }
+
+    const refreshed = saved.transcript;
+    const { diff } = saved;
+
+    const { count: outdatedEvaluations, error: countError } = await countOutdatedEvaluations(supabase, refreshed);
+
+    if (countError) {
+      throw new SafeApiError('Failed to count outdated evaluations', 500, 'DATABASE_ERROR', countError);
+    }
+
+    await logAudit({
+      userId: user.id,
+      action: AuditActions.REFRESH_TRANSCRIPT,
+      resourceType: 'transcript',
+      resourceId: transcript.id,
+      ...requestInfo,
+      statusCode: 200,
+      metadata: {
+        refreshed: refreshed.agentforce_version !== previousVersion,
+        previousVersion,
+        version: refreshed.agentforce_version,
+        diff: summarizeTranscriptDiff(diff),
+        outdatedEvaluations,
+      },
+    });
+
+    const result: TranscriptRefreshResult = {
+      refreshed: refreshed.agentforce_version !== previousVersion,
+      transcript: refreshed as unknown as Transcript,
+      diff,
+      previous_version: previousVersion,
+      outdated_evaluations: outdatedEvaluations,
+    };
+    return NextResponse.json(result);
+  } catch (error: unknown) {
+    return handleApiError(error, 'POST /api/transcripts/[case]/refresh');
+  }
+}
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createServiceClient } from '@/lib/supabase/server';
+import { findTranscriptByIdentifier } from '@/lib/supabase/transcripts';
+import { getReplayRuleSet } from '@/lib/supabase/replay-rules';
+import { replayRuleSetSchema } from '@/lib/schemas/validation';
+import { InvalidReplayRuleError, planReplay, ReplayRuleSet } from '@/lib/sierra/replay-rules';
+import { ConversationEntry } from '@/types/salesforce';
+
+/**
+ * Dry run of the replay rules: which customer turns would be sent to Sierra, rewritten or left out
+ * GET previews the rules saved for the transcript's test batch; POST previews draft rules from the body
+ */
+async function previewReplay(identifier: string, draft: ReplayRuleSet | null) {
+  const supabase = await createServiceClient();
+
+  const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, identifier);
+
+  if (fetchError) {
+    console.error('Error fetching transcript:', fetchError);
+    return NextResponse.json(
+      { error: 'Failed to fetch transcript from database', details: fetchError.message },
+      { status: 500 }
+    );
+  }
+
+  if (!transcript) {
+    return NextResponse.json(
+      { error: 'Transcript not found' },
+      { status: 404 }
+    );
+  }
+
+  let ruleSet = draft;
+  let ruleSetBatch: string | null = null;
+  if (!ruleSet) {
+    const saved = await getReplayRuleSet(supabase, transcript.test_batch_id);
+    if (saved.error) {
+      console.error('Error fetching replay rules:', saved.error);
+      return NextResponse.json(
+        { error: 'Failed to fetch replay rules', details: saved.error.message },
+        { status: 500 }
+      );
+    }
+    ruleSet = saved.ruleSet;
+    ruleSetBatch = saved.testBatchId;
+  }
+
+  try {
+    const turns = planReplay(transcript.agentforce_transcript as unknown as ConversationEntry[], ruleSet);
+    return NextResponse.json({
+      test_batch_id: transcript.test_batch_id,
+      rule_set_batch: ruleSetBatch,
+      stop_at_human_handoff: ruleSet.stopAtHumanHandoff,
+      rules: ruleSet.rules,
+      turns,
+      summary: {
+        send: turns.filter((turn) => turn.decision === 'send').length,
+        skip: turns.filter((turn) => turn.decision === 'skip').length,
+        stop: turns.filter((turn) => turn.decision === 'stop').length,
+      },
+    });
+  } catch (error: unknown) {
+    if (error instanceof InvalidReplayRuleError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const { case: identifier } = await params;
+    return await previewReplay(identifier, null);
+  } catch (error: unknown) {
+    console.error('Error previewing replay:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview replay', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const { case: identifier } = await params;
+    const validatedData = replayRuleSetSchema.parse(await request.json());
+    return await previewReplay(identifier, {
+      stopAtHumanHandoff: validatedData.stop_at_human_handoff,
+      rules: validatedData.rules,
+    });
+  } catch (error: unknown) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Validation error',
+          details: error.issues.map((issue) => ({
+            path: issue.path.join('.'),
+            message: issue.message,
+          })),
+        },
+        { status: 400 }
+      );
+    }
+    console.error('Error previewing replay:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview replay', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,78 +1,144 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
-import { SalesforceSession } from '@/lib/salesforce/client';
+import { getSalesforceSession } from '@/lib/salesforce/session-manager';
+import { getSalesforceConfig } from '@/lib/config/integrations';
 import {
-  getConversationIdentifier,
+  CaseMessagingSession,
+  getCaseMessagingSessions,
   getConversationEntries,
 } from '@/lib/salesforce/conversation';
-import { SierraClient } from '@/lib/sierra/client';
-import { replayToSierra } from '@/lib/sierra/replay';
+import { fetchSierraVariablesForCase, readCaseContext, summarizeCaseOutcome } from '@/lib/salesforce/case-context';
+import { redactTranscript } from '@/lib/redaction/pii';
+import { ReplayCancelledError } from '@/lib/sierra/replay';
+import { generateSierraRun, SierraGenerationError, SierraRunInProgressError } from '@/lib/sierra/generation';
+import {
+  findTranscriptByIdentifier,
+  MAX_SIERRA_SAMPLES,
+  normalizeSierraRelease,
+  updateAgentforceTranscript,
+} from '@/lib/supabase/transcripts';
 import { Database } from '@/lib/supabase/database.types';
-import { ConversationEntry } from '@/types/salesforce';
+import { MessagingSessionOption } from '@/types';
 
 type Transcript = Database['public']['Tables']['transcripts']['Row'];
 
+/**
+ * Messaging sessions the case had when the transcript was loaded (metadata.case_session_count);
+ * transcripts loaded before sessions were counted had one
+ */
+function getCaseSessionCount(transcript: Transcript): number {
+  const metadata = transcript.metadata as Record<string, unknown> | null;
+  return typeof metadata?.case_session_count === 'number' ? metadata.case_session_count : 1;
+}
+
+/**
+ * Sessions to choose from, with the transcript already loaded for each
+ * Entries are counted only for loaded sessions, from the stored transcript: fetching every
+ * session's conversation from Salesforce just to count it would cost more than loading the one
+ * picked.
+ */
+function describeMessagingSessions(
+  caseSessions: CaseMessagingSession[],
+  caseTranscripts: Transcript[]
+): MessagingSessionOption[] {
+  return caseSessions.map((caseSession) => {
+    const transcript = caseTranscripts.find(
+      (candidate) => candidate.messaging_session_id === caseSession.messagingSessionId
+    );
+    const entries = transcript?.agentforce_transcript;
+    return {
+      id: caseSession.messagingSessionId,
+      name: caseSession.messagingSessionName,
+      channel_type: caseSession.channelType,
+      start_time: caseSession.startTime,
+      entry_count: Array.isArray(entries) ? entries.length : null,
+      transcript_id: transcript?.id || null,
+    };
+  });
+}
+
+/**
+ * Load the transcript of a case, fetching it from Salesforce the first time
+ * A case with several messaging sessions has a transcript per session: without
+ * `?messaging_session_id=` such a case answers 409 with the sessions to choose from.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ case: string }> }
 ) {
   try {
     const { case: caseNumber } = await params;
+    const requestedSessionId = request.nextUrl.searchParams.get('messaging_session_id');
     const supabase = await createServiceClient();
 
-    // Check if transcript exists in database
-    // Type assertion needed due to Supabase type inference limitations
-    const { data: existingTranscript, error: fetchError } = await (supabase
-      .from('transcripts') as any)
+    // Transcripts already loaded for this case, one per messaging session
+    const { data: caseTranscripts, error: fetchError } = await supabase
+      .from('transcripts')
       .select('*')
       .eq('case_number', caseNumber)
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .single() as { data: Transcript | null; error: any };
+      .order('created_at', { ascending: true }) as { data: Transcript[] | null; error: any };
 
-    if (existingTranscript && !fetchError) {
-      return NextResponse.json(existingTranscript);
+    if (!fetchError && caseTranscripts) {
+      const existingTranscript = requestedSessionId
+        ? caseTranscripts.find((transcript) => transcript.messaging_session_id === requestedSessionId)
+        : caseTranscripts.length === 1 && getCaseSessionCount(caseTranscripts[0]) <= 1
+          ? caseTranscripts[0]
+          : undefined;
+
+      if (existingTranscript) {
+        return NextResponse.json(existingTranscript);
+      }
     }
 
-    // Validate environment variables
-    const salesforceClientId = process.env.SALESFORCE_CLIENT_ID;
-    const salesforceClientSecret = process.env.SALESFORCE_CLIENT_SECRET;
-    const salesforceOauthUrl = process.env.SALESFORCE_OAUTH_URL;
-
-    if (!salesforceClientId || !salesforceClientSecret || !salesforceOauthUrl) {
-      const missing = [];
-      if (!salesforceClientId) missing.push('SALESFORCE_CLIENT_ID');
-      if (!salesforceClientSecret) missing.push('SALESFORCE_CLIENT_SECRET');
-      if (!salesforceOauthUrl) missing.push('SALESFORCE_OAUTH_URL');
-      
+    // Resolve Salesforce connection settings (the built-in fake server when OFFLINE_MODE is on)
+    const salesforceConfig = getSalesforceConfig();
+
+    if ('missing' in salesforceConfig) {
       return NextResponse.json(
         { 
           error: 'Missing required environment variables', 
-          details: `Please configure: ${missing.join(', ')}` 
+          details: `Please configure: ${salesforceConfig.missing.join(', ')}` 
         },
         { status: 500 }
       );
     }
 
     // Fetch from Salesforce only
-    const salesforceSession = new SalesforceSession(
-      salesforceClientId,
-      salesforceClientSecret,
-      salesforceOauthUrl
-    );
-
-    await salesforceSession.authenticate();
+    // Shared per org; authenticates only when the cached token is missing or expiring
+    const salesforceSession = await getSalesforceSession(salesforceConfig);
 
-    const conversationResult = await getConversationIdentifier(
+    const caseSessions = await getCaseMessagingSessions(
       salesforceSession,
       caseNumber,
-      process.env.SALESFORCE_API_VERSION || 'v65.0'
+      salesforceConfig.apiVersion
     );
 
-    if (!conversationResult) {
+    let conversationResult: CaseMessagingSession | undefined;
+    if (requestedSessionId) {
+      conversationResult = caseSessions.find((caseSession) => caseSession.messagingSessionId === requestedSessionId);
+      if (!conversationResult) {
+        return NextResponse.json(
+          {
+            error: 'Messaging session not found for this case number',
+            details: `${requestedSessionId} is not a messaging session of case ${caseNumber}`,
+          },
+          { status: 404 }
+        );
+      }
+    } else if (caseSessions.length > 1) {
+      const sessions = describeMessagingSessions(caseSessions, caseTranscripts || []);
       return NextResponse.json(
-        { error: 'Conversation not found for this case number' },
-        { status: 404 }
+        {
+          error: `Case ${caseNumber} has ${caseSessions.length} messaging sessions`,
+          details: 'Choose the messaging session to load; each one becomes its own transcript.',
+          code: 'MULTIPLE_MESSAGING_SESSIONS',
+          sessions,
+        },
+        { status: 409 }
       );
+    } else {
+      conversationResult = caseSessions[0];
     }
 
     const { conversationIdentifier, messagingSessionId, messagingSessionName } = conversationResult;
@@ -87,9 +153,23 @@ export async function GET(
     const agentforceEntries = await getConversationEntries(
       salesforceSession,
       conversationIdentifier,
-      process.env.SALESFORCE_API_VERSION || 'v65.0'
+      salesforceConfig.apiVersion
+    );
+
+    // Case context passed to Sierra as variables on the first replayed turn (SIERRA_CONTEXT_VARIABLES)
+    const sierraVariables = await fetchSierraVariablesForCase(
+      salesforceSession,
+      conversationResult.caseId,
+      salesforceConfig.apiVersion
     );
 
+    // Case fields shown to evaluators (SALESFORCE_CASE_CONTEXT_FIELDS) and how the case ended
+    const caseContext = readCaseContext(conversationResult.caseContextRecord);
+    const caseOutcome = summarizeCaseOutcome(conversationResult.caseContextRecord, agentforceEntries);
+
+    // Redact PII before anything from Salesforce is stored (PII_REDACTION)
+    const redacted = redactTranscript(agentforceEntries, sierraVariables, caseContext);
+
     // Check if transcript with this messaging_session_id already exists
     const { data: existingByMessagingId } = await (supabase
       .from('transcripts') as any)
@@ -98,28 +178,40 @@ export async function GET(
       .maybeSingle();
 
     if (existingByMessagingId) {
-      // Update existing transcript
-      const { data: updatedTranscript, error: updateError } = await (supabase
-        .from('transcripts') as any)
-        .update({
-          case_number: caseNumber,
-          agentforce_transcript: agentforceEntries,
-          messaging_session_name: messagingSessionName || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq('messaging_session_id', messagingSessionId)
-        .select()
-        .single();
-
-      if (updateError) {
-        console.error('Error updating transcript:', updateError);
+      // Stored under another case number: replacing its entries archives the old copy and bumps
+      // its version, so evaluations made against it show as outdated
+      const saved = await updateAgentforceTranscript(
+        supabase,
+        existingByMessagingId,
+        redacted.entries,
+        {
+          ...(existingByMessagingId.metadata || {}),
+          sierra_variables: redacted.variables,
+          redaction: redacted.redaction,
+          case_context: redacted.caseContext,
+          case_outcome: caseOutcome,
+          case_session_count: caseSessions.length,
+        },
+        null,
+        { case_number: caseNumber, messaging_session_name: messagingSessionName || null }
+      );
+
+      if (saved.error) {
+        console.error('Error updating transcript:', saved.error);
         return NextResponse.json(
-          { error: 'Failed to update transcript', details: updateError.message },
+          { error: 'Failed to update transcript', details: saved.error.message },
           { status: 500 }
         );
       }
 
-      return NextResponse.json(updatedTranscript);
+      if (saved.conflict || !saved.transcript) {
+        return NextResponse.json(
+          { error: 'Transcript was updated by another request', details: 'Load the case again.' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json(saved.transcript);
     }
 
     // Save to database with empty Sierra transcript (will be generated later)
@@ -128,11 +220,18 @@ export async function GET(
       .from('transcripts') as any)
       .insert({
         case_number: caseNumber,
-        agentforce_transcript: agentforceEntries,
+        agentforce_transcript: redacted.entries,
         sierra_transcript: [], // Empty array - will be populated when Sierra replay is triggered
         sierra_version: process.env.SIERRA_VERSION || 'v2.1.0',
         messaging_session_id: messagingSessionId, // Required, always set
         messaging_session_name: messagingSessionName || null,
+        metadata: {
+          sierra_variables: redacted.variables,
+          redaction: redacted.redaction,
+          case_context: redacted.caseContext,
+          case_outcome: caseOutcome,
+          case_session_count: caseSessions.length,
+        },
       })
       .select()
       .single();
@@ -155,6 +254,10 @@ export async function GET(
   }
 }
 
+/**
+ * Generate (or resume) a Sierra run without streaming; the dashboard uses /generate
+ * Optional JSON body: { release?: string, restart?: boolean, sample?: number }
+ */
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ case: string }> }
@@ -164,30 +267,8 @@ export async function POST(
     console.log(`Generating Sierra transcript for case: ${caseNumber}`);
     const supabase = await createServiceClient();
 
-    // Get existing transcript - try both with and without leading zeros
-    // Type assertion needed due to Supabase type inference limitations
-    let { data: existingTranscript, error: fetchError } = await (supabase
-      .from('transcripts') as any)
-      .select('*')
-      .eq('case_number', caseNumber)
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .maybeSingle() as { data: Transcript | null; error: any };
-
-    // If not found, try without leading zeros (in case of format mismatch)
-    if (!existingTranscript && !fetchError && caseNumber) {
-      const caseWithoutZeros = caseNumber.replace(/^0+/, '');
-      if (caseWithoutZeros !== caseNumber) {
-        console.log(`Trying case number without leading zeros: ${caseWithoutZeros}`);
-        const result = await (supabase
-          .from('transcripts') as any)
-          .select('*')
-          .eq('case_number', caseWithoutZeros)
-          // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      .maybeSingle() as { data: Transcript | null; error: any };
-        existingTranscript = result.data;
-        fetchError = result.error;
-      }
-    }
+    // Get existing transcript by ID or case number (with or without leading zeros)
+    const { data: existingTranscript, error: fetchError } = await findTranscriptByIdentifier(supabase, caseNumber);
 
     if (fetchError) {
       console.error('Error fetching transcript:', fetchError);
@@ -205,87 +286,70 @@ export async function POST(
       );
     }
 
-    // Check if Sierra transcript already exists
-    if (existingTranscript.sierra_transcript && 
-        Array.isArray(existingTranscript.sierra_transcript) && 
-        existingTranscript.sierra_transcript.length > 0) {
-      return NextResponse.json(existingTranscript);
-    }
-
-    // Validate Sierra environment variables
-    const sierraApiKey = process.env.SIERRA_API_KEY;
-    const sierraApiToken = process.env.SIERRA_API_TOKEN;
-    const sierraApiUrl = process.env.SIERRA_API_URL || 'https://api.sierra.chat';
+    const body = await request.json().catch(() => ({}));
+    const release = normalizeSierraRelease(body?.release);
+    const restart = body?.restart === true;
+    const sampleIndex = body?.sample ?? 0;
 
-    if (!sierraApiKey || !sierraApiToken) {
-      const missing = [];
-      if (!sierraApiKey) missing.push('SIERRA_API_KEY');
-      if (!sierraApiToken) missing.push('SIERRA_API_TOKEN');
-      
+    if (!release) {
       return NextResponse.json(
-        { 
-          error: 'Missing required environment variables', 
-          details: `Please configure: ${missing.join(', ')}` 
+        {
+          error: 'Invalid release',
+          details: 'Release must be 1-100 characters of letters, numbers, ".", "_", ":" or "-"',
         },
-        { status: 500 }
+        { status: 400 }
       );
     }
 
-    // Generate Sierra transcript
-    // Don't pass state initially - Sierra will return state in first response
-    // and we'll use that for subsequent messages to maintain conversation continuity
-    const sierraClient = new SierraClient(
-      sierraApiUrl,
-      sierraApiKey,
-      sierraApiToken,
-      '2025-02-01'
-      // No state parameter - Sierra will return it in the first response
-    );
-
-    const agentforceEntries = existingTranscript.agentforce_transcript as any[];
-    
-    let sierraEntries: ConversationEntry[];
-    try {
-      sierraEntries = await replayToSierra(
-        agentforceEntries, 
-        sierraClient,
-        undefined, // No progress callback for non-streaming endpoint
-        caseNumber // Pass case ID to ensure single conversation per case
-      );
-    } catch (sierraError: unknown) {
-      console.error('Error generating Sierra transcript:', sierraError);
-      const errorMessage = sierraError instanceof Error ? sierraError.message : String(sierraError);
+    if (!Number.isInteger(sampleIndex) || sampleIndex < 0 || sampleIndex >= MAX_SIERRA_SAMPLES) {
       return NextResponse.json(
-        { 
-          error: 'Failed to generate Sierra transcript', 
-          details: errorMessage,
-          suggestion: 'Please check your Sierra API credentials and network connection.'
-        },
-        { status: 500 }
+        { error: 'Invalid sample', details: `sample must be a whole number from 0 to ${MAX_SIERRA_SAMPLES - 1}` },
+        { status: 400 }
       );
     }
 
-    // Update database with Sierra transcript
-    // Type assertion needed due to Supabase type inference limitations
-    const { data: updatedTranscript, error: updateError } = await (supabase
-      .from('transcripts') as any)
-      .update({
-        sierra_transcript: sierraEntries,
-        sierra_version: process.env.SIERRA_VERSION || 'v2.1.0',
-      })
-      .eq('case_number', caseNumber)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error('Error updating transcript:', updateError);
+    try {
+      const { run, transcript: updatedTranscript, reused } = await generateSierraRun(supabase, existingTranscript, {
+        release,
+        sampleIndex,
+        restart,
+        signal: request.signal, // Stop replaying if the client goes away
+      });
+
+      if (reused || !updatedTranscript) {
+        return NextResponse.json({ ...existingTranscript, sierra_transcript: run.sierra_transcript });
+      }
+      return NextResponse.json(updatedTranscript);
+    } catch (generationError: unknown) {
+      if (generationError instanceof SierraRunInProgressError) {
+        return NextResponse.json(
+          { error: generationError.message, details: generationError.details },
+          { status: 409 }
+        );
+      }
+      if (generationError instanceof SierraGenerationError) {
+        return NextResponse.json(
+          { error: generationError.message, details: generationError.details },
+          { status: 500 }
+        );
+      }
+      // The partial run was kept as cancelled or failed by generateSierraRun
+      if (generationError instanceof ReplayCancelledError) {
+        return NextResponse.json(
+          { error: 'Sierra transcript generation cancelled', details: generationError.message },
+          { status: 499 }
+        );
+      }
+      console.error('Error generating Sierra transcript:', generationError);
       return NextResponse.json(
-        { error: 'Failed to update transcript with Sierra data', details: updateError.message },
+        {
+          error: 'Failed to generate Sierra transcript',
+          details: generationError instanceof Error ? generationError.message : String(generationError),
+          suggestion: 'Please check your Sierra API credentials and network connection.'
+        },
         { status: 500 }
       );
     }
-
-    return NextResponse.json(updatedTranscript);
   } catch (error: unknown) {
     console.error('Error generating Sierra transcript:', error);
     return NextResponse.json(
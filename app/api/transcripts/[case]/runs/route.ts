@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createServiceClient } from '@/lib/supabase/server';
+import { findTranscriptByIdentifier } from '@/lib/supabase/transcripts';
+import { Database } from '@/lib/supabase/database.types';
+
+type SierraRun = Database['public']['Tables']['sierra_runs']['Row'];
+
+/**
+ * List every Sierra run generated for a transcript, most recent first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const { case: identifier } = await params;
+    const supabase = await createServiceClient();
+
+    const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, identifier);
+
+    if (fetchError) {
+      console.error('Error fetching transcript:', fetchError);
+      return NextResponse.json(
+        { error: 'Failed to fetch transcript from database', details: fetchError.message },
+        { status: 500 }
+      );
+    }
+
+    if (!transcript) {
+      return NextResponse.json(
+        { error: 'Transcript not found' },
+        { status: 404 }
+      );
+    }
+
+    const { data: runs, error: runsError } = await supabase
+      .from('sierra_runs')
+      .select('*')
+      .eq('transcript_id', transcript.id)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .order('updated_at', { ascending: false }) as { data: SierraRun[] | null; error: any };
+
+    if (runsError) {
+      console.error('Error fetching Sierra runs:', runsError);
+      return NextResponse.json(
+        { error: 'Failed to fetch Sierra runs', details: runsError.message },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({ runs: runs || [] });
+  } catch (error: unknown) {
+    console.error('Error fetching Sierra runs:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch Sierra runs', details: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,126 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient, createServiceClient } from '@/lib/supabase/server';
+import { getSalesforceSession } from '@/lib/salesforce/session-manager';
+import { getSalesforceConfig } from '@/lib/config/integrations';
+import { fetchAgentforceTranscript } from '@/lib/salesforce/agentforce-transcript';
+import {
+  countOutdatedEvaluations,
+  findTranscriptByIdentifier,
+  getRecordedTranscriptStaleness,
+  saveTranscriptStaleness,
+} from '@/lib/supabase/transcripts';
+import {
+  diffTranscriptEntries,
+  isTranscriptStale,
+  summarizeTranscriptDiff,
+  summarizeTranscriptEntries,
+} from '@/lib/utils/transcript-diff';
+import { handleApiError, SafeApiError, SafeErrors } from '@/lib/error-handler';
+import { TranscriptEntry, TranscriptStaleness } from '@/types';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// A check younger than this is answered from the transcript instead of asking Salesforce again
+const DEFAULT_STALENESS_TTL_MS = 10 * 60 * 1000;
+
+function getStalenessTtl(): number {
+  const value = Number(process.env.TRANSCRIPT_STALENESS_TTL_MS);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_STALENESS_TTL_MS;
+}
+
+/**
+ * Whether the stored Agentforce transcript still matches the conversation in Salesforce
+ * Compares entry counts and last entry times, e.g. to catch a human rep who joined after the case
+ * was loaded. The result is recorded on the transcript and reused for TRANSCRIPT_STALENESS_TTL_MS
+ * (default 10 minutes); `?force=true` asks Salesforce regardless.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ case: string }> }
+) {
+  try {
+    const authClient = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await authClient.auth.getUser();
+
+    if (authError || !user) {
+      throw SafeErrors.Unauthorized;
+    }
+
+    const { case: identifier } = await params;
+    const force = request.nextUrl.searchParams.get('force') === 'true';
+    const supabase = await createServiceClient();
+
+    const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, identifier);
+
+    if (fetchError) {
+      throw new SafeApiError('Failed to fetch transcript from database', 500, 'DATABASE_ERROR', fetchError);
+    }
+
+    if (!transcript) {
+      throw new SafeApiError('Transcript not found', 404, 'NOT_FOUND');
+    }
+
+    const { count: outdatedEvaluations, error: countError } = await countOutdatedEvaluations(supabase, transcript);
+
+    if (countError) {
+      throw new SafeApiError('Failed to count outdated evaluations', 500, 'DATABASE_ERROR', countError);
+    }
+
+    const recorded = getRecordedTranscriptStaleness(transcript);
+    if (recorded && !force && Date.now() - Date.parse(recorded.checked_at) < getStalenessTtl()) {
+      const staleness: TranscriptStaleness = { ...recorded, outdated_evaluations: outdatedEvaluations };
+      return NextResponse.json(staleness);
+    }
+
+    const salesforceConfig = getSalesforceConfig();
+
+    if ('missing' in salesforceConfig) {
+      throw new SafeApiError(
+        `Missing required environment variables: ${salesforceConfig.missing.join(', ')}`,
+        500,
+        'CONFIGURATION_ERROR'
+      );
+    }
+
+    let current;
+    try {
+      const salesforceSession = await getSalesforceSession(salesforceConfig);
+      current = await fetchAgentforceTranscript(
+        salesforceSession,
+        salesforceConfig.apiVersion,
+        transcript.messaging_session_id
+      );
+    } catch (error: unknown) {
+      throw new SafeApiError('Failed to fetch the transcript from Salesforce', 502, 'SALESFORCE_ERROR', error);
+    }
+
+    const storedEntries = transcript.agentforce_transcript as unknown as TranscriptEntry[];
+    const currentEntries = current.entries as TranscriptEntry[];
+    const stored = summarizeTranscriptEntries(storedEntries);
+    const salesforce = summarizeTranscriptEntries(currentEntries);
+
+    const check: Omit<TranscriptStaleness, 'outdated_evaluations'> = {
+      stale: isTranscriptStale(stored, salesforce),
+      checked_at: new Date().toISOString(),
+      stored,
+      salesforce,
+      diff: summarizeTranscriptDiff(diffTranscriptEntries(storedEntries, currentEntries)),
+      agentforce_version: transcript.agentforce_version,
+    };
+
+    // Recording the check is an optimization; a failure only means Salesforce is asked again next time
+    const { error: saveError } = await saveTranscriptStaleness(supabase, transcript, check);
+    if (saveError) {
+      console.warn('Failed to record transcript staleness check:', saveError.message);
+    }
+
+    const staleness: TranscriptStaleness = { ...check, outdated_evaluations: outdatedEvaluations };
+    return NextResponse.json(staleness);
+  } catch (error: unknown) {
+    return handleApiError(error, 'GET /api/transcripts/[case]/staleness');
+  }
+}
@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createServiceClient } from '@/lib/supabase/server';
 import { Database } from '@/lib/supabase/database.types';
-import { SalesforceSession } from '@/lib/salesforce/client';
+import { getSalesforceSession } from '@/lib/salesforce/session-manager';
+import { getSalesforceConfig } from '@/lib/config/integrations';
 import {
   getConversationIdentifierByMessagingSessionName,
   getConversationEntries,
 } from '@/lib/salesforce/conversation';
+import { fetchSierraVariablesForCase, readCaseContext, summarizeCaseOutcome } from '@/lib/salesforce/case-context';
+import { redactTranscript } from '@/lib/redaction/pii';
 
 type Transcript = Database['public']['Tables']['transcripts']['Row'];
 
@@ -59,39 +62,27 @@ export async function GET(
     // If not found in database, fetch from Salesforce
     console.log(`Transcript not found in database for MessagingSessionName: "${decodedName}", fetching from Salesforce...`);
 
-    // Validate environment variables
-    const salesforceClientId = process.env.SALESFORCE_CLIENT_ID;
-    const salesforceClientSecret = process.env.SALESFORCE_CLIENT_SECRET;
-    const salesforceOauthUrl = process.env.SALESFORCE_OAUTH_URL;
-
-    if (!salesforceClientId || !salesforceClientSecret || !salesforceOauthUrl) {
-      const missing = [];
-      if (!salesforceClientId) missing.push('SALESFORCE_CLIENT_ID');
-      if (!salesforceClientSecret) missing.push('SALESFORCE_CLIENT_SECRET');
-      if (!salesforceOauthUrl) missing.push('SALESFORCE_OAUTH_URL');
-      
+    // Resolve Salesforce connection settings (the built-in fake server when OFFLINE_MODE is on)
+    const salesforceConfig = getSalesforceConfig();
+
+    if ('missing' in salesforceConfig) {
       return NextResponse.json(
         { 
           error: 'Missing required environment variables', 
-          details: `Please configure: ${missing.join(', ')}` 
+          details: `Please configure: ${salesforceConfig.missing.join(', ')}` 
         },
         { status: 500 }
       );
     }
 
     // Fetch from Salesforce
-    const salesforceSession = new SalesforceSession(
-      salesforceClientId,
-      salesforceClientSecret,
-      salesforceOauthUrl
-    );
-
-    await salesforceSession.authenticate();
+    // Shared per org; authenticates only when the cached token is missing or expiring
+    const salesforceSession = await getSalesforceSession(salesforceConfig);
 
     const conversationResult = await getConversationIdentifierByMessagingSessionName(
       salesforceSession,
       decodedName,
-      process.env.SALESFORCE_API_VERSION || 'v65.0'
+      salesforceConfig.apiVersion
     );
 
     if (!conversationResult) {
@@ -106,9 +97,23 @@ export async function GET(
     const agentforceEntries = await getConversationEntries(
       salesforceSession,
       conversationIdentifier,
-      process.env.SALESFORCE_API_VERSION || 'v65.0'
+      salesforceConfig.apiVersion
     );
 
+    // Case context passed to Sierra as variables on the first replayed turn (SIERRA_CONTEXT_VARIABLES)
+    const sierraVariables = await fetchSierraVariablesForCase(
+      salesforceSession,
+      conversationResult.caseId,
+      salesforceConfig.apiVersion
+    );
+
+    // Case fields shown to evaluators (SALESFORCE_CASE_CONTEXT_FIELDS) and how the case ended
+    const caseContext = readCaseContext(conversationResult.caseContextRecord);
+    const caseOutcome = summarizeCaseOutcome(conversationResult.caseContextRecord, agentforceEntries);
+
+    // Redact PII before anything from Salesforce is stored (PII_REDACTION)
+    const redacted = redactTranscript(agentforceEntries, sierraVariables, caseContext);
+
     // Save to database with empty Sierra transcript (will be generated later)
     // Use case number if available, otherwise keep it null
     // Check if transcript with this messaging_session_name already exists (in case of retry)
@@ -123,10 +128,17 @@ export async function GET(
       const { data: updatedTranscript, error: updateError } = await (supabase
         .from('transcripts') as any)
         .update({
-          agentforce_transcript: agentforceEntries,
+          agentforce_transcript: redacted.entries,
           case_number: caseNumber || null,
           messaging_session_id: messagingSessionId || existingByName.messaging_session_id,
           messaging_session_name: messagingSessionName || decodedName,
+          metadata: {
+            ...(existingByName.metadata || {}),
+            sierra_variables: redacted.variables,
+            redaction: redacted.redaction,
+            case_context: redacted.caseContext,
+            case_outcome: caseOutcome,
+          },
           updated_at: new Date().toISOString(),
         })
         .eq('messaging_session_name', messagingSessionName || decodedName)
@@ -157,11 +169,17 @@ export async function GET(
       .from('transcripts') as any)
       .insert({
         case_number: caseNumber || null,
-        agentforce_transcript: agentforceEntries,
+        agentforce_transcript: redacted.entries,
         sierra_transcript: [], // Empty array - will be populated when Sierra replay is triggered
         sierra_version: process.env.SIERRA_VERSION || 'v2.1.0',
         messaging_session_id: messagingSessionId, // Required, always set
         messaging_session_name: messagingSessionName || decodedName,
+        metadata: {
+          sierra_variables: redacted.variables,
+          redaction: redacted.redaction,
+          case_context: redacted.caseContext,
+          case_outcome: caseOutcome,
+        },
       })
       .select()
       .single();
@@ -4,6 +4,9 @@ import { Database } from '@/lib/supabase/database.types';
 
 type Evaluation = Database['public']['Tables']['evaluations']['Row'];
 type Transcript = Database['public']['Tables']['transcripts']['Row'];
+type SierraRun = Database['public']['Tables']['sierra_runs']['Row'];
+
+const DIVERGENCE_FILTERS = ['on_track', 'drifted', 'broken'];
 
 export async function GET(request: NextRequest) {
   try {
@@ -11,6 +14,14 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const currentTranscriptId = searchParams.get('current');
     const direction = searchParams.get('direction'); // 'next' or 'previous'
+    const divergence = searchParams.get('divergence'); // optional: 'on_track', 'drifted' or 'broken'
+
+    if (divergence && !DIVERGENCE_FILTERS.includes(divergence)) {
+      return NextResponse.json(
+        { error: 'Invalid divergence filter', details: `Expected one of: ${DIVERGENCE_FILTERS.join(', ')}` },
+        { status: 400 }
+      );
+    }
 
     // Get current user
     const {
@@ -56,6 +67,35 @@ export async function GET(request: NextRequest) {
       evaluatedTranscripts?.map((e) => e.transcript_id).filter(Boolean) || []
     );
 
+    // With a divergence filter, only stop at transcripts whose latest Sierra run has that divergence
+    let divergenceMatches: Set<string> | null = null;
+    if (divergence) {
+      // Type assertion needed due to Supabase type inference limitations
+      const { data: runs, error: runsError } = await (supabase
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .from('sierra_runs') as any)
+        .select('transcript_id, divergence_status, updated_at')
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .order('updated_at', { ascending: false }) as { data: Pick<SierraRun, 'transcript_id' | 'divergence_status'>[] | null; error: any };
+
+      if (runsError) {
+        throw runsError;
+      }
+
+      const latestStatus = new Map<string, string | null>();
+      runs?.forEach((run) => {
+        if (!latestStatus.has(run.transcript_id)) {
+          latestStatus.set(run.transcript_id, run.divergence_status);
+        }
+      });
+      divergenceMatches = new Set(
+        Array.from(latestStatus.entries())
+          .filter(([, status]) => status === divergence)
+          .map(([transcriptId]) => transcriptId)
+      );
+    }
+    const matchesFilter = (transcriptId: string) => !divergenceMatches || divergenceMatches.has(transcriptId);
+
     // Find current transcript index
     let currentIndex = -1;
     if (currentTranscriptId) {
@@ -70,7 +110,7 @@ export async function GET(request: NextRequest) {
       // Find next unevaluated transcript
       const startIndex = currentIndex >= 0 ? currentIndex + 1 : 0;
       for (let i = startIndex; i < allTranscripts.length; i++) {
-        if (!evaluatedIds.has(allTranscripts[i].id)) {
+        if (!evaluatedIds.has(allTranscripts[i].id) && matchesFilter(allTranscripts[i].id)) {
           targetTranscript = allTranscripts[i];
           position.current = i + 1;
           break;
@@ -78,15 +118,18 @@ export async function GET(request: NextRequest) {
       }
     } else if (direction === 'previous') {
       // Find previous transcript (can be evaluated or unevaluated)
-      if (currentIndex > 0) {
-        targetTranscript = allTranscripts[currentIndex - 1];
-        position.current = currentIndex;
+      for (let i = currentIndex - 1; i >= 0; i--) {
+        if (matchesFilter(allTranscripts[i].id)) {
+          targetTranscript = allTranscripts[i];
+          position.current = i + 1;
+          break;
+        }
       }
     } else {
       // No direction specified, get next unevaluated
       const startIndex = currentIndex >= 0 ? currentIndex + 1 : 0;
       for (let i = startIndex; i < allTranscripts.length; i++) {
-        if (!evaluatedIds.has(allTranscripts[i].id)) {
+        if (!evaluatedIds.has(allTranscripts[i].id) && matchesFilter(allTranscripts[i].id)) {
           targetTranscript = allTranscripts[i];
           position.current = i + 1;
           break;
@@ -96,7 +139,13 @@ export async function GET(request: NextRequest) {
 
     if (!targetTranscript) {
       return NextResponse.json(
-        { message: direction === 'previous' ? 'No previous transcript' : 'No unevaluated transcripts found' },
+        {
+          message: direction === 'previous'
+            ? 'No previous transcript'
+            : divergence
+              ? `No unevaluated transcripts with ${divergence.replace('_', ' ')} Sierra runs found`
+              : 'No unevaluated transcripts found',
+        },
         { status: 404 }
       );
     }
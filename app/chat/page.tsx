@@ -6,6 +6,13 @@ import { ChatInterface } from '@/components/chat-interface';
 import { ChatFeedbackForm } from '@/components/chat-feedback-form';
 import { Toast } from '@/components/toast';
 import { ChatSession, ChatMessage, SimplifiedEvaluationScores } from '@/types';
+import { readEventStream } from '@/lib/utils/sse';
+
+type ChatStreamEvent =
+  | { type: 'user_message'; userMessage: ChatMessage }
+  | { type: 'delta'; text: string }
+  | { type: 'complete'; userMessage: ChatMessage; assistantMessage: ChatMessage }
+  | { type: 'error'; error: string; details?: string };
 
 export default function ChatPage() {
   const [session, setSession] = useState<ChatSession | null>(null);
@@ -13,6 +20,7 @@ export default function ChatPage() {
   const [loading, setLoading] = useState(true);
   const [showFeedbackForm, setShowFeedbackForm] = useState(false);
   const [feedbackSubmitted, setFeedbackSubmitted] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const [toast, setToast] = useState<{
     message: string;
     type: 'success' | 'error' | 'info';
@@ -143,15 +151,30 @@ export default function ChatPage() {
         throw new Error(errorData.error || 'Failed to send message');
       }
 
-      const data = await response.json();
-      
-      // Replace optimistic message with actual messages from server
-      setMessages((prev) => {
-        // Remove the optimistic message
-        const withoutOptimistic = prev.filter(m => m.id !== optimisticUserMessage.id);
-        // Add both user and assistant messages from server
-        return [...withoutOptimistic, data.userMessage, data.assistantMessage];
-      });
+      // Sierra's reply is streamed back as Server-Sent Events
+      setStreamingReply('');
+      let completed = false;
+      for await (const data of readEventStream<ChatStreamEvent>(response)) {
+        if (data.type === 'delta') {
+          setStreamingReply((prev) => (prev || '') + data.text);
+        } else if (data.type === 'complete') {
+          // Replace optimistic message with actual messages from server
+          setMessages((prev) => {
+            // Remove the optimistic message
+            const withoutOptimistic = prev.filter(m => m.id !== optimisticUserMessage.id);
+            // Add both user and assistant messages from server
+            return [...withoutOptimistic, data.userMessage, data.assistantMessage];
+          });
+          completed = true;
+        } else if (data.type === 'error') {
+          throw new Error(data.details ? `${data.error}: ${data.details}` : data.error);
+        }
+      }
+
+      // The connection dropped (network, server restart) before the reply was saved
+      if (!completed) {
+        throw new Error('The connection closed before Sierra finished replying. Please send your message again.');
+      }
     } catch (error: unknown) {
       console.error('Error sending message:', error);
       // Remove the optimistic message on error
@@ -161,6 +184,10 @@ export default function ChatPage() {
         type: 'error',
         isVisible: true,
       });
+      // Lets the chat input offer the message again
+      throw error;
+    } finally {
+      setStreamingReply(null);
     }
   };
 
@@ -303,6 +330,7 @@ export default function ChatPage() {
             <ChatInterface
               sessionId={session.id}
               messages={messages}
+              streamingReply={streamingReply}
               onSendMessage={handleSendMessage}
               onEndSession={handleEndSession}
               isSessionActive={session.session_status === 'active'}
@@ -61,6 +61,12 @@ export default async function DashboardLayout({
               >
                 Logs
               </Link>
+              <Link
+                href="/jobs"
+                className="text-sm font-normal leading-5 text-[#212121] hover:text-[#1976d2] transition-colors"
+              >
+                Jobs
+              </Link>
               <span className="text-sm font-normal leading-5 text-[#757575]">{user.email}</span>
               <form action={handleSignOut}>
                 <button
@@ -1,17 +1,48 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { TranscriptViewer } from '@/components/transcript-viewer';
 import { EvaluationForm } from '@/components/evaluation-form';
 import { EvaluationDisplay } from '@/components/evaluation-display';
 import { CaseLoader } from '@/components/case-loader';
+import { CaseContextPanel } from '@/components/case-context-panel';
+import { TranscriptStalenessBanner } from '@/components/transcript-staleness-banner';
 import { Toast } from '@/components/toast';
 import { HealthStatus } from '@/components/health-status';
-import { Transcript, Winner, EvaluationScores, Evaluation } from '@/types';
+import { ReplayPreview } from '@/components/replay-preview';
+import { getTranscriptCaseContext, getTranscriptCaseOutcome } from '@/lib/utils/case-context';
+import { Transcript, Winner, EvaluationScores, Evaluation, SierraRun, MessagingSessionOption } from '@/types';
 import { createClient } from '@/lib/supabase/client';
+import { readEventStream } from '@/lib/utils/sse';
+import { DIVERGENCE_LABELS, withDivergence } from '@/lib/sierra/divergence';
+import { analyzeConsistency } from '@/lib/sierra/consistency';
+import { ConversationEntry, DivergenceStatus } from '@/types/salesforce';
 import { textStyles, colors, materialComponents, materialText, materialBorder, materialTypography, materialBackground } from '@/lib/design-tokens';
 
+// Times the dashboard re-attaches to a generation after its progress stream drops
+const GENERATION_REATTACH_ATTEMPTS = 3;
+
+// Independent Sierra samples that can be generated at once to measure run-to-run variance
+const SAMPLE_COUNT_OPTIONS = [1, 3, 5];
+
+// Events streamed by POST and GET /api/transcripts/[case]/generate
+interface SierraGenerationEvent {
+  type: 'connected' | 'start' | 'progress' | 'entry' | 'saving' | 'sample_complete' | 'complete' | 'cancelled' | 'error';
+  message: string;
+  details?: string;
+  current: number;
+  total: number;
+  status: 'processing' | 'complete' | 'error' | null;
+  retries?: number;
+  transcript: Transcript;
+  run?: SierraRun;
+  stream_id?: string;
+  entry?: ConversationEntry;
+  // Samples of a complete event whose runs have failed turns
+  failed_samples?: number;
+}
+
 export default function DashboardPage() {
   const [currentTranscript, setCurrentTranscript] = useState<Transcript | null>(null);
   const [currentEvaluation, setCurrentEvaluation] = useState<Evaluation | null>(null);
@@ -28,8 +59,26 @@ export default function DashboardPage() {
     current: number;
     total: number;
     message: string;
-    status: 'processing' | 'complete' | 'error' | null;
+    status: 'processing' | 'complete' | 'error' | 'cancelled' | null;
+    retries?: number;
   } | null>(null);
+  // Detaches the page from the generation stream it follows (started here or re-attached to)
+  const sierraAbortRef = useRef<AbortController | null>(null);
+  // The transcript on screen; events of another transcript's generation are ignored
+  const shownTranscriptIdRef = useRef<string | null>(null);
+  // Sierra entries of the sample being generated, shown as they arrive
+  const [liveSierraEntries, setLiveSierraEntries] = useState<ConversationEntry[] | null>(null);
+  // The generation this page is attached to, and the last event it received from it
+  const sierraStreamRef = useRef<{ streamId: string | null; lastEventId: string | null } | null>(null);
+  const [sierraRunsVersion, setSierraRunsVersion] = useState(0);
+  const [sierraRuns, setSierraRuns] = useState<SierraRun[]>([]);
+  const [selectedRunId, setSelectedRunId] = useState<string | null>(null);
+  const [sierraRelease, setSierraRelease] = useState('');
+  const [sierraSampleCount, setSierraSampleCount] = useState(1);
+  const [queueingBatch, setQueueingBatch] = useState(false);
+  // Messaging sessions to choose from when the loaded case has more than one
+  const [sessionChoices, setSessionChoices] = useState<{ caseNumber: string; sessions: MessagingSessionOption[] } | null>(null);
+  const [divergenceFilter, setDivergenceFilter] = useState<DivergenceStatus | ''>('');
   const [toast, setToast] = useState<{
     message: string;
     type: 'success' | 'error' | 'info';
@@ -84,20 +133,35 @@ export default function DashboardPage() {
     fetchProgress();
   }, [fetchProgress]);
 
-  const loadTranscript = async (identifier: string, type: 'case' | 'messagingSession' | 'messagingSessionName') => {
+  const loadTranscript = async (
+    identifier: string,
+    type: 'case' | 'messagingSession' | 'messagingSessionName',
+    messagingSessionId?: string
+  ) => {
     setLoading(true);
     setError(null);
     setCurrentEvaluation(null); // Clear previous evaluation
+    setSessionChoices(null);
 
     try {
       // Build API endpoint based on type
       const endpoint = type === 'case' 
-        ? `/api/transcripts/${identifier}`
+        ? `/api/transcripts/${identifier}${messagingSessionId ? `?messaging_session_id=${encodeURIComponent(messagingSessionId)}` : ''}`
         : type === 'messagingSession'
         ? `/api/transcripts/messaging-session/${identifier}`
         : `/api/transcripts/messaging-session-name/${encodeURIComponent(identifier)}`;
       
       const response = await fetch(endpoint);
+
+      // The case has several messaging sessions: let the user pick one
+      if (response.status === 409) {
+        const conflict = await response.clone().json().catch(() => null);
+        if (conflict?.code === 'MULTIPLE_MESSAGING_SESSIONS' && Array.isArray(conflict.sessions)) {
+          setSessionChoices({ caseNumber: identifier, sessions: conflict.sessions });
+          return;
+        }
+      }
+
       if (!response.ok) {
         let errorMessage = 'Failed to load transcript';
         let errorDetails = '';
@@ -200,6 +264,7 @@ export default function DashboardPage() {
       const params = new URLSearchParams({
         direction,
         ...(currentId && { current: currentId }),
+        ...(divergenceFilter && { divergence: divergenceFilter }),
       });
 
       const response = await fetch(`/api/transcripts/navigation?${params}`);
@@ -236,11 +301,11 @@ export default function DashboardPage() {
 
   const loadNextTranscript = useCallback(() => {
     loadTranscriptWithNavigation('next');
-  }, [currentTranscript?.id]);
+  }, [currentTranscript?.id, divergenceFilter]);
 
   const loadPreviousTranscript = useCallback(() => {
     loadTranscriptWithNavigation('previous');
-  }, [currentTranscript?.id]);
+  }, [currentTranscript?.id, divergenceFilter]);
 
   const updateNavigationState = async (transcriptId: string) => {
     try {
@@ -277,6 +342,8 @@ export default function DashboardPage() {
         },
         body: JSON.stringify({
           transcript_id: currentTranscript.id,
+          ...(selectedRun && { sierra_run_id: selectedRun.id }),
+          ...(currentTranscript.agentforce_version && { agentforce_version: currentTranscript.agentforce_version }),
           ...evaluation,
         }),
       });
@@ -302,6 +369,7 @@ export default function DashboardPage() {
         const params = new URLSearchParams({
           direction: 'next',
           ...(currentId && { current: currentId }),
+          ...(divergenceFilter && { divergence: divergenceFilter }),
         });
 
         try {
@@ -377,7 +445,192 @@ export default function DashboardPage() {
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [loading, navigationState, loadNextTranscript, loadPreviousTranscript]);
 
-  const generateSierraTranscript = async () => {
+  // Queue the rest of the transcript's test batch as a background job and follow it on the jobs page
+  const queueBatchGeneration = async () => {
+    if (!currentTranscript?.test_batch_id) {
+      return;
+    }
+
+    setQueueingBatch(true);
+    try {
+      const response = await fetch('/api/generation-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          test_batch_id: currentTranscript.test_batch_id,
+          release: sierraRelease.trim() || undefined,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue batch generation');
+      }
+      router.push(`/jobs?job=${encodeURIComponent(data.job.id)}`);
+    } catch (err: unknown) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to queue batch generation',
+        type: 'error',
+        isVisible: true,
+      });
+    } finally {
+      setQueueingBatch(false);
+    }
+  };
+
+  // Apply the events of a transcript's generation stream; true once it completes, is cancelled or
+  // fails (or another transcript is shown), false when the connection drops first
+  const applyGenerationEvents = useCallback(async (response: Response, transcriptId: string): Promise<boolean> => {
+    const events = readEventStream<SierraGenerationEvent>(response, {
+      onEventId: (id) => {
+        if (sierraStreamRef.current) {
+          sierraStreamRef.current.lastEventId = id;
+        }
+      },
+    });
+
+    for await (const data of events) {
+      if (shownTranscriptIdRef.current !== transcriptId) {
+        return true;
+      }
+      console.log('Progress update:', data);
+
+      if (data.type === 'connected') {
+        // Re-attaching to the same generation keeps the last event seen
+        const previous = sierraStreamRef.current;
+        sierraStreamRef.current = {
+          streamId: data.stream_id || null,
+          lastEventId: previous && previous.streamId === data.stream_id ? previous.lastEventId : null,
+        };
+        setGeneratingSierra(true);
+        setSierraProgress((prev) => prev || { current: 0, total: 0, message: 'Sierra generation in progress...', status: 'processing' });
+      } else if (data.type === 'progress') {
+        setSierraProgress((prev) => ({
+          current: data.current,
+          total: data.total,
+          message: data.message,
+          status: data.status,
+          retries: data.retries ?? prev?.retries,
+        }));
+      } else if (data.type === 'entry') {
+        const entry = data.entry;
+        if (entry) {
+          setLiveSierraEntries((prev) => [...(prev || []).filter((other) => other.identifier !== entry.identifier), entry]);
+        }
+      } else if (data.type === 'start' || data.type === 'saving') {
+        if (data.type === 'start') {
+          setLiveSierraEntries([]);
+        }
+        setSierraProgress((prev) => ({
+          current: prev?.current || 0,
+          total: prev?.total || 0,
+          retries: prev?.retries,
+          status: 'processing',
+          message: data.message,
+        }));
+      } else if (data.type === 'sample_complete') {
+        const sampleRun = data.run;
+        if (sampleRun) {
+          setSierraRuns((prev) => [sampleRun, ...prev.filter((run) => run.id !== sampleRun.id)]);
+        }
+      } else if (data.type === 'complete') {
+        setSierraProgress({
+          current: data.transcript?.sierra_transcript?.length || 0,
+          total: data.transcript?.sierra_transcript?.length || 0,
+          message: data.message,
+          status: 'complete',
+        });
+        setLiveSierraEntries(null);
+        setCurrentTranscript(data.transcript);
+        // The progress message is cleared shortly; keep a partial failure on screen
+        if (data.failed_samples) {
+          setError(data.message);
+        }
+        const completedRun = data.run;
+        if (completedRun) {
+          setSierraRuns((prev) => [completedRun, ...prev.filter((run) => run.id !== completedRun.id)]);
+          setSelectedRunId(completedRun.id);
+        }
+        setSierraRelease('');
+        setTimeout(() => {
+          setGeneratingSierra(false);
+          setSierraProgress(null);
+        }, 2000);
+        return true;
+      } else if (data.type === 'cancelled') {
+        setSierraProgress((prev) => ({
+          current: prev?.current || 0,
+          total: prev?.total || 0,
+          retries: prev?.retries,
+          status: 'cancelled',
+          message: data.message,
+        }));
+        setLiveSierraEntries(null);
+        setGeneratingSierra(false);
+        setSierraRunsVersion((version) => version + 1);
+        return true;
+      } else if (data.type === 'error') {
+        setError(data.message || data.details || 'Failed to generate Sierra transcript');
+        setSierraProgress((prev) => ({
+          current: prev?.current || 0,
+          total: prev?.total || 0,
+          retries: prev?.retries,
+          status: 'error',
+          message: data.message || data.details || 'Error occurred',
+        }));
+        setLiveSierraEntries(null);
+        setGeneratingSierra(false);
+        // Turns replayed before the failure were saved with the run
+        setSierraRunsVersion((version) => version + 1);
+        return true;
+      }
+    }
+    return false;
+  }, []);
+
+  // Attach to the transcript's generation in flight, replaying the events missed since the last
+  // one seen; null when nothing is in flight
+  const attachToGeneration = useCallback(async (identifier: string, signal: AbortSignal): Promise<boolean | null> => {
+    const attached = sierraStreamRef.current;
+    const query = attached?.streamId ? `?stream=${encodeURIComponent(attached.streamId)}` : '';
+    const response = await fetch(`/api/transcripts/${identifier}/generate${query}`, {
+      headers: attached?.lastEventId ? { 'Last-Event-ID': attached.lastEventId } : undefined,
+      signal,
+    });
+
+    if (response.status === 204) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Failed to attach to Sierra transcript generation (HTTP ${response.status})`);
+    }
+    return applyGenerationEvents(response, identifier);
+  }, [applyGenerationEvents]);
+
+  // The connection dropped before the generation finished; it keeps running on the server, so
+  // re-attach and pick up from the last event
+  const reattachToGeneration = useCallback(async (identifier: string, signal: AbortSignal) => {
+    for (let attempt = 1; attempt <= GENERATION_REATTACH_ATTEMPTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+      if (signal.aborted) {
+        return;
+      }
+      try {
+        if ((await attachToGeneration(identifier, signal)) !== false) {
+          return;
+        }
+      } catch (err: unknown) {
+        if (signal.aborted) {
+          return;
+        }
+        console.error('Error re-attaching to Sierra generation:', err);
+      }
+    }
+    throw new Error('Lost connection to the Sierra generation. It continues on the server - reload the page to follow it again.');
+  }, [attachToGeneration]);
+
+  // `release` and `sample` resume or regenerate a specific run; otherwise the release typed into the
+  // form is used and the selected number of samples generated
+  const generateSierraTranscript = async (release?: string, sample?: number) => {
     if (!currentTranscript?.id) {
       setError('No transcript ID available');
       return;
@@ -386,17 +639,29 @@ export default function DashboardPage() {
     setGeneratingSierra(true);
     setError(null);
     setSierraProgress(null);
+    sierraStreamRef.current = null;
 
-    try {
-      // Use case_number if available, otherwise use transcript ID
-      const caseNumber = currentTranscript.case_number;
-      const identifier = caseNumber || currentTranscript.id;
+    // Aborting only detaches this page; the server keeps generating until cancelled
+    sierraAbortRef.current?.abort();
+    const abortController = new AbortController();
+    sierraAbortRef.current = abortController;
 
+    // Transcript ID, not case number: a case with several messaging sessions has several transcripts
+    const caseNumber = currentTranscript.case_number;
+    const identifier = currentTranscript.id;
+
+    try {
       console.log('Generating Sierra transcript for:', caseNumber ? `case ${caseNumber}` : `transcript ${currentTranscript.id}`);
       
       // Use fetch with streaming response for Server-Sent Events
       const response = await fetch(`/api/transcripts/${identifier}/generate`, {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          release: (release ?? sierraRelease).trim() || undefined,
+          ...(sample !== undefined ? { sample } : { samples: sierraSampleCount }),
+        }),
+        signal: abortController.signal,
       });
 
       if (!response.ok) {
@@ -422,80 +687,29 @@ export default function DashboardPage() {
         }
         // If it's a complete response, use it directly
         if (data.transcript) {
-          setCurrentTranscript(data.transcript);
+          if (shownTranscriptIdRef.current === identifier) {
+            setCurrentTranscript(data.transcript);
+          }
           setGeneratingSierra(false);
           return;
         }
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error('Failed to get response stream');
+      if (!(await applyGenerationEvents(response, identifier))) {
+        await reattachToGeneration(identifier, abortController.signal);
       }
-
-      let buffer = '';
-
-      while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) {
-          break;
-        }
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() || '';
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              console.log('Progress update:', data);
-
-              if (data.type === 'progress') {
-                setSierraProgress({
-                  current: data.current,
-                  total: data.total,
-                  message: data.message,
-                  status: data.status,
-                });
-              } else if (data.type === 'saving') {
-                setSierraProgress((prev) => ({
-                  ...prev!,
-                  message: data.message,
-                }));
-              } else if (data.type === 'complete') {
-                setSierraProgress({
-                  current: data.transcript?.sierra_transcript?.length || 0,
-                  total: data.transcript?.sierra_transcript?.length || 0,
-                  message: data.message,
-                  status: 'complete',
-                });
-                setCurrentTranscript(data.transcript);
-                setTimeout(() => {
-                  setGeneratingSierra(false);
-                  setSierraProgress(null);
-                }, 2000);
-                return;
-              } else if (data.type === 'error') {
-                setError(data.message || data.details || 'Failed to generate Sierra transcript');
-                setSierraProgress((prev) => ({
-                  ...prev!,
-                  status: 'error',
-                  message: data.message || data.details || 'Error occurred',
-                }));
-                setGeneratingSierra(false);
-                return;
-              }
-            } catch (parseError) {
-              console.error('Error parsing SSE message:', parseError);
-            }
-          }
+    } catch (err: unknown) {
+      if (abortController.signal.aborted) {
+        // Detached (e.g. another transcript was loaded); the generation continues on the server.
+        // A newer stream this page follows now owns the progress state.
+        if (sierraAbortRef.current !== abortController) {
+          return;
         }
+        setGeneratingSierra(false);
+        setSierraProgress(null);
+        setLiveSierraEntries(null);
+        return;
       }
-    } catch (err: unknown) {
       setError(err instanceof Error ? err.message : 'Failed to generate Sierra transcript');
       console.error('Error generating Sierra transcript:', err);
       setGeneratingSierra(false);
@@ -503,6 +717,122 @@ export default function DashboardPage() {
     }
   };
 
+  // Ask the server to stop the generation; attached pages then receive its cancelled event
+  const cancelSierraGeneration = async () => {
+    if (!currentTranscript?.id) {
+      return;
+    }
+
+    const streamId = sierraStreamRef.current?.streamId;
+    const query = streamId ? `?stream=${encodeURIComponent(streamId)}` : '';
+    try {
+      const response = await fetch(`/api/transcripts/${currentTranscript.id}/generate${query}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || 'Failed to cancel Sierra transcript generation');
+      }
+      setSierraProgress((prev) => prev && { ...prev, message: 'Cancelling after the current turn...' });
+    } catch (err: unknown) {
+      setToast({
+        message: err instanceof Error ? err.message : 'Failed to cancel Sierra transcript generation',
+        type: 'error',
+        isVisible: true,
+      });
+    }
+  };
+
+  // Load every Sierra run (one per release) for the current transcript
+  const currentTranscriptId = currentTranscript?.id;
+  useEffect(() => {
+    setSierraRuns([]);
+    setSelectedRunId(null);
+    if (!currentTranscriptId) {
+      return;
+    }
+
+    let cancelled = false;
+    const fetchSierraRuns = async () => {
+      try {
+        const response = await fetch(`/api/transcripts/${currentTranscriptId}/runs`);
+        if (!response.ok) {
+          return;
+        }
+        const data = await response.json();
+        if (!cancelled) {
+          const runs: SierraRun[] = data.runs || [];
+          setSierraRuns(runs);
+          // Evaluators score a random complete sample of the latest release, so no sample is favored
+          const samples = runs.filter((run) => run.release === runs[0]?.release && run.status === 'complete');
+          const evaluatedRun = !isViewMode && samples.length > 1 ? samples[Math.floor(Math.random() * samples.length)] : runs[0];
+          setSelectedRunId(evaluatedRun?.id || null);
+        }
+      } catch (err) {
+        console.error('Error fetching Sierra runs:', err);
+      }
+    };
+
+    fetchSierraRuns();
+    return () => {
+      cancelled = true;
+    };
+  }, [currentTranscriptId, sierraRunsVersion, isViewMode]);
+
+  // Re-attach to a generation already in flight for this transcript (after a reload, or one
+  // started by another evaluator)
+  useEffect(() => {
+    shownTranscriptIdRef.current = currentTranscriptId || null;
+    if (!currentTranscriptId) {
+      return;
+    }
+
+    const abortController = new AbortController();
+    sierraAbortRef.current = abortController;
+    sierraStreamRef.current = null;
+    setLiveSierraEntries(null);
+    setGeneratingSierra(false);
+    setSierraProgress(null);
+
+    const resumeGenerationProgress = async () => {
+      try {
+        const finished = await attachToGeneration(currentTranscriptId, abortController.signal);
+        if (finished === false) {
+          await reattachToGeneration(currentTranscriptId, abortController.signal);
+        }
+      } catch (err: unknown) {
+        if (!abortController.signal.aborted) {
+          console.error('Error attaching to Sierra generation:', err);
+          setGeneratingSierra(false);
+          setSierraProgress(null);
+        }
+      }
+    };
+
+    resumeGenerationProgress();
+    return () => {
+      abortController.abort();
+      // Also detach from a generation started on this transcript
+      sierraAbortRef.current?.abort();
+    };
+  }, [currentTranscriptId, attachToGeneration, reattachToGeneration]);
+
+  const selectedRun = sierraRuns.find((run) => run.id === selectedRunId);
+  // Runs generated before divergence detection are analyzed on the fly
+  const displayedSierraTranscript = withDivergence(
+    currentTranscript?.agentforce_transcript || [],
+    selectedRun?.sierra_transcript || currentTranscript?.sierra_transcript || []
+  );
+  // Run-to-run consistency across the samples of the selected release
+  const selectedSamples = selectedRun ? sierraRuns.filter((run) => run.release === selectedRun.release) : [];
+  const sampleConsistency =
+    selectedSamples.length > 1 ? analyzeConsistency(selectedSamples.map((run) => run.sierra_transcript)) : undefined;
+  const selectedRunFailedTurns = (selectedRun?.sierra_transcript || []).filter((entry) =>
+    entry.identifier?.startsWith('sierra-error-')
+  ).length;
+
+  const sierraVariables = Object.entries(
+    (currentTranscript?.metadata?.sierra_variables as Record<string, string> | undefined) || {}
+  );
+
   const hasSierraTranscript = () => {
     return currentTranscript?.sierra_transcript && 
            Array.isArray(currentTranscript.sierra_transcript) && 
@@ -528,6 +858,88 @@ export default function DashboardPage() {
     });
   };
 
+  // Shared by the first-generation and additional-run panels
+  const sierraReleaseInput = (
+    <input
+      type="text"
+      value={sierraRelease}
+      onChange={(e) => setSierraRelease(e.target.value)}
+      placeholder="Release (optional)"
+      disabled={generatingSierra || loading}
+      className="w-40 px-3 py-2 text-sm border border-[#e0e0e0] rounded-full bg-white text-[#212121] placeholder-[#9e9e9e] focus:outline-none focus:ring-2 focus:ring-[#ff9800] disabled:bg-[#f5f5f5]"
+      title="Sierra release ID or target name, e.g. QA. Leave empty for the default release."
+    />
+  );
+
+  const sierraSampleSelect = (
+    <select
+      value={sierraSampleCount}
+      onChange={(e) => setSierraSampleCount(Number(e.target.value))}
+      disabled={generatingSierra || loading}
+      className="px-3 py-2 text-sm border border-[#e0e0e0] rounded-full bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#ff9800] disabled:bg-[#f5f5f5]"
+      title="Independent Sierra conversations to generate, to measure how much its replies vary between runs"
+    >
+      {SAMPLE_COUNT_OPTIONS.map((count) => (
+        <option key={count} value={count}>
+          {count} {count === 1 ? 'sample' : 'samples'}
+        </option>
+      ))}
+    </select>
+  );
+
+  const sierraProgressIndicator = sierraProgress && (
+    <div className="mt-4 space-y-2">
+      <div className="flex items-center justify-between text-xs text-[#757575]">
+        <span>{sierraProgress.message}</span>
+        <span className="flex items-center gap-2">
+          {!!sierraProgress.retries && (
+            <span className="text-[#e65100]" title="Requests retried after transient Sierra failures">
+              {sierraProgress.retries} {sierraProgress.retries === 1 ? 'retry' : 'retries'}
+            </span>
+          )}
+          {sierraProgress.total > 0 && (
+            <span className="font-medium text-[#212121]">
+              {sierraProgress.current} / {sierraProgress.total}
+            </span>
+          )}
+        </span>
+      </div>
+      {sierraProgress.total > 0 && (
+        <div className="w-full bg-[#e0e0e0] rounded-full h-2">
+          <div
+            className={`h-2 rounded-full transition-all duration-300 ${
+              sierraProgress.status === 'error'
+                ? 'bg-[#f44336]'
+                : sierraProgress.status === 'complete'
+                ? 'bg-[#4caf50]'
+                : 'bg-[#2196f3]'
+            }`}
+            style={{
+              width: `${Math.min(100, (sierraProgress.current / sierraProgress.total) * 100)}%`,
+            }}
+          />
+        </div>
+      )}
+      {sierraProgress.status === 'complete' && (
+        <p className="text-xs text-[#4caf50] font-medium">✓ Generation complete!</p>
+      )}
+      {sierraProgress.status === 'error' && (
+        <p className="text-xs text-[#f44336] font-medium">✗ Error occurred</p>
+      )}
+      {sierraProgress.status === 'cancelled' && (
+        <p className="text-xs text-[#757575] font-medium">■ Generation cancelled</p>
+      )}
+      {generatingSierra && sierraProgress.status === 'processing' && (
+        <button
+          onClick={cancelSierraGeneration}
+          className="text-xs font-medium text-[#f44336] border border-[#f44336] rounded-full px-3 py-1 hover:bg-[#ffebee] focus:outline-none focus:ring-2 focus:ring-[#f44336]"
+        >
+          Cancel generation
+        </button>
+      )}
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <Toast
@@ -545,25 +957,44 @@ export default function DashboardPage() {
               Compare Agentforce and Sierra chatbot conversations side-by-side
             </p>
           </div>
-          {currentTranscript && (
-            <button
-              onClick={handleStartNewEvaluation}
-              disabled={loading || generatingSierra}
-              className="ml-4 bg-[#4caf50] text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-[#43a047] focus:outline-none focus:ring-2 focus:ring-[#4caf50] focus:ring-offset-2 disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed transition-colors duration-200 shadow-sm hover:shadow-md whitespace-nowrap flex items-center gap-2"
-              title="Clear current data and start a fresh evaluation"
-            >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
-              </svg>
-              New Evaluation
-            </button>
-          )}
+          <div className="flex items-center gap-3">
+            <label className="flex items-center gap-2 text-xs font-normal leading-4 text-[#757575]" title="Limit ← / → navigation to transcripts whose latest Sierra run has this divergence">
+              Navigate
+              <select
+                value={divergenceFilter}
+                onChange={(e) => setDivergenceFilter(e.target.value as DivergenceStatus | '')}
+                className="text-xs border border-[#e0e0e0] rounded-md px-2 py-1 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+              >
+                <option value="">All transcripts</option>
+                {(Object.keys(DIVERGENCE_LABELS) as DivergenceStatus[]).map((status) => (
+                  <option key={status} value={status}>
+                    {DIVERGENCE_LABELS[status]} Sierra runs
+                  </option>
+                ))}
+              </select>
+            </label>
+            {currentTranscript && (
+              <button
+                onClick={handleStartNewEvaluation}
+                disabled={loading || generatingSierra}
+                className="ml-4 bg-[#4caf50] text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-[#43a047] focus:outline-none focus:ring-2 focus:ring-[#4caf50] focus:ring-offset-2 disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed transition-colors duration-200 shadow-sm hover:shadow-md whitespace-nowrap flex items-center gap-2"
+                title="Clear current data and start a fresh evaluation"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
+                </svg>
+                New Evaluation
+              </button>
+            )}
+          </div>
         </div>
       </div>
 
       <CaseLoader
         onLoadCase={loadTranscript}
         loading={loading}
+        sessionChoices={sessionChoices}
+        onDismissSessionChoices={() => setSessionChoices(null)}
         currentCaseNumber={currentTranscript?.case_number || undefined}
         currentMessagingSessionId={currentTranscript?.messaging_session_id || undefined}
         currentMessagingSessionName={currentTranscript?.messaging_session_name || undefined}
@@ -595,7 +1026,7 @@ export default function DashboardPage() {
       {currentTranscript && (
         <div className="space-y-6">
           {/* Sierra Generation Button */}
-          {!hasSierraTranscript() && (
+          {!hasSierraTranscript() ? (
             <div className="bg-[#fff3e0] border border-[#ff9800] rounded-lg p-4">
               <div className="flex items-center justify-between">
                 <div className="flex-1">
@@ -605,46 +1036,13 @@ export default function DashboardPage() {
                   <p className="text-xs font-normal leading-4 text-[#757575] mt-1">
                     Click the button below to generate the Sierra transcript by replaying the conversation.
                   </p>
-                  
-                  {/* Progress Indicator */}
-                  {sierraProgress && (
-                    <div className="mt-4 space-y-2">
-                      <div className="flex items-center justify-between text-xs text-[#757575]">
-                        <span>{sierraProgress.message}</span>
-                        {sierraProgress.total > 0 && (
-                          <span className="font-medium text-[#212121]">
-                            {sierraProgress.current} / {sierraProgress.total}
-                          </span>
-                        )}
-                      </div>
-                      {sierraProgress.total > 0 && (
-                        <div className="w-full bg-[#e0e0e0] rounded-full h-2">
-                          <div
-                            className={`h-2 rounded-full transition-all duration-300 ${
-                              sierraProgress.status === 'error'
-                                ? 'bg-[#f44336]'
-                                : sierraProgress.status === 'complete'
-                                ? 'bg-[#4caf50]'
-                                : 'bg-[#2196f3]'
-                            }`}
-                            style={{
-                              width: `${Math.min(100, (sierraProgress.current / sierraProgress.total) * 100)}%`,
-                            }}
-                          />
-                        </div>
-                      )}
-                      {sierraProgress.status === 'complete' && (
-                        <p className="text-xs text-[#4caf50] font-medium">✓ Generation complete!</p>
-                      )}
-                      {sierraProgress.status === 'error' && (
-                        <p className="text-xs text-[#f44336] font-medium">✗ Error occurred</p>
-                      )}
-                    </div>
-                  )}
+                  {sierraProgressIndicator}
                 </div>
-                <div className="ml-4">
+                <div className="ml-4 flex items-center gap-2">
+                  {sierraReleaseInput}
+                  {sierraSampleSelect}
                   <button
-                    onClick={generateSierraTranscript}
+                    onClick={() => generateSierraTranscript()}
                     disabled={generatingSierra || loading}
                     className="bg-[#ff9800] text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-[#fb8c00] focus:outline-none focus:ring-2 focus:ring-[#ff9800] focus:ring-offset-2 disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed whitespace-nowrap transition-colors duration-200 shadow-sm hover:shadow-md"
                   >
@@ -657,11 +1055,124 @@ export default function DashboardPage() {
                       'Generate Sierra Transcript'
                     )}
                   </button>
+                  {currentTranscript.test_batch_id && (
+                    <button
+                      onClick={queueBatchGeneration}
+                      disabled={queueingBatch || generatingSierra || loading}
+                      title={`Generate Sierra transcripts in the background for every transcript in batch ${currentTranscript.test_batch_id}`}
+                      className="bg-white text-[#ff9800] border border-[#ff9800] px-6 py-2 rounded-full font-medium text-sm hover:bg-[#fff3e0] focus:outline-none focus:ring-2 focus:ring-[#ff9800] focus:ring-offset-2 disabled:border-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed whitespace-nowrap transition-colors duration-200"
+                    >
+                      {queueingBatch ? 'Queueing...' : 'Generate all in batch'}
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          ) : !isViewMode && (
+            <div className="bg-white border border-[#e0e0e0] rounded-lg p-4 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <h3 className="text-sm font-medium leading-5 text-[#212121]">
+                    Replay against another Sierra release
+                  </h3>
+                  <p className="text-xs font-normal leading-4 text-[#757575] mt-1">
+                    {sierraRuns.length} {sierraRuns.length === 1 ? 'run' : 'runs'} generated. Each release keeps its own runs; switch between them in the Sierra column. Generate several samples of a release to compare how consistent Sierra is.
+                  </p>
+                  {sierraProgressIndicator}
+                </div>
+                <div className="ml-4 flex items-center gap-2">
+                  {sierraReleaseInput}
+                  {sierraSampleSelect}
+                  <button
+                    onClick={() => generateSierraTranscript()}
+                    disabled={generatingSierra || loading || (!sierraRelease.trim() && sierraSampleCount === 1)}
+                    className="bg-[#9c27b0] text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-[#8e24aa] focus:outline-none focus:ring-2 focus:ring-[#9c27b0] focus:ring-offset-2 disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed whitespace-nowrap transition-colors duration-200 shadow-sm hover:shadow-md"
+                  >
+                    {generatingSierra ? (
+                      <>
+                        <span className="inline-block animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></span>
+                        Generating...
+                      </>
+                    ) : (
+                      'Generate Run'
+                    )}
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Runs that failed or were interrupted can pick up where they stopped */}
+          {selectedRun && selectedRun.status !== 'complete' && !isViewMode && (
+            <div className="bg-[#ffebee] border border-[#f44336] rounded-lg p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex-1">
+                  <h3 className="text-sm font-medium leading-5 text-[#212121]">
+                    {selectedRun.status === 'failed'
+                      ? 'Sierra run has failed turns'
+                      : selectedRun.status === 'cancelled'
+                        ? 'Sierra run was cancelled'
+                        : 'Sierra run was interrupted'}
+                  </h3>
+                  <p className="text-xs font-normal leading-4 text-[#757575] mt-1">
+                    {selectedRunFailedTurns > 0
+                      ? `${selectedRunFailedTurns} ${selectedRunFailedTurns === 1 ? 'turn' : 'turns'} failed`
+                      : `${selectedRun.checkpoints?.length || 0} turns replayed before it stopped`}
+                    {' '}for release &quot;{selectedRun.release}&quot;{selectedRun.sample_index > 0 && `, sample ${selectedRun.sample_index + 1}`}. Resuming continues the same Sierra conversation from the first failed turn.
+                  </p>
+                </div>
+                <div className="ml-4">
+                  <button
+                    onClick={() => generateSierraTranscript(selectedRun.release, selectedRun.sample_index)}
+                    disabled={generatingSierra || loading}
+                    className="bg-[#f44336] text-white px-6 py-2 rounded-full font-medium text-sm hover:bg-[#e53935] focus:outline-none focus:ring-2 focus:ring-[#f44336] focus:ring-offset-2 disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed whitespace-nowrap transition-colors duration-200 shadow-sm hover:shadow-md"
+                  >
+                    {generatingSierra ? 'Resuming...' : 'Resume Generation'}
+                  </button>
                 </div>
               </div>
             </div>
           )}
 
+          {/* Which customer turns the replay rules send to Sierra */}
+          {currentTranscript.id && !isViewMode && (
+            <ReplayPreview
+              transcriptIdentifier={currentTranscript.id}
+              testBatchId={currentTranscript.test_batch_id}
+              disabled={generatingSierra}
+            />
+          )}
+
+          {/* Case context Sierra receives as variables on the first turn */}
+          {sierraVariables.length > 0 && (
+            <details className="bg-white border border-[#e0e0e0] rounded-lg px-4 py-3 shadow-sm">
+              <summary className="text-sm font-medium leading-5 text-[#212121] cursor-pointer">
+                Case context sent to Sierra ({sierraVariables.length} {sierraVariables.length === 1 ? 'variable' : 'variables'})
+              </summary>
+              <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+                {sierraVariables.map(([name, value]) => (
+                  <div key={name} className="flex gap-2 text-xs leading-4">
+                    <dt className="font-medium text-[#616161]">{name}</dt>
+                    <dd className="text-[#212121] break-words">{value}</dd>
+                  </div>
+                ))}
+              </dl>
+            </details>
+          )}
+
+          {/* Whether Salesforce has moved on since the transcript was loaded */}
+          <TranscriptStalenessBanner
+            transcript={currentTranscript}
+            onRefreshed={setCurrentTranscript}
+            disabled={generatingSierra}
+          />
+
+          {/* Salesforce case fields and outcome recorded at ingest */}
+          <CaseContextPanel
+            context={getTranscriptCaseContext(currentTranscript)}
+            outcome={getTranscriptCaseOutcome(currentTranscript)}
+          />
+
           {/* Side-by-side transcript viewers */}
           <div className={`grid gap-6 ${hasSierraTranscript() ? 'grid-cols-1 lg:grid-cols-2' : 'grid-cols-1'}`} style={{ minHeight: '600px' }}>
             <TranscriptViewer
@@ -669,11 +1180,22 @@ export default function DashboardPage() {
               transcript={currentTranscript.agentforce_transcript}
               filterBotType="agentforce"
             />
-            {hasSierraTranscript() ? (
+            {liveSierraEntries ? (
+              <TranscriptViewer
+                title="🏔️ Sierra"
+                transcript={liveSierraEntries}
+                filterBotType="sierra"
+                live
+              />
+            ) : hasSierraTranscript() ? (
               <TranscriptViewer
                 title="🏔️ Sierra"
-                transcript={currentTranscript.sierra_transcript}
+                transcript={displayedSierraTranscript}
                 filterBotType="sierra"
+                runs={sierraRuns}
+                selectedRunId={selectedRunId}
+                onSelectRun={setSelectedRunId}
+                consistency={sampleConsistency}
               />
             ) : (
               <div className="flex items-center justify-center bg-[#f5f5f5] border border-[#e0e0e0] rounded-lg">
@@ -691,7 +1213,7 @@ export default function DashboardPage() {
               {isViewMode && currentEvaluation ? (
                 // View mode: Show read-only evaluation display
                 <>
-                  <EvaluationDisplay evaluation={currentEvaluation} />
+                  <EvaluationDisplay evaluation={currentEvaluation} transcriptVersion={currentTranscript.agentforce_version} />
                   <div className="bg-[#e3f2fd] border border-[#2196f3] rounded-lg p-4 mt-4">
                     <p className="text-sm text-[#1976d2]">
                       <strong>ℹ️ View Mode:</strong> This transcript was accessed from logs and shows the previous evaluation. 
@@ -707,7 +1229,7 @@ export default function DashboardPage() {
                       <strong>⚠️ Note:</strong> This case has been evaluated before. You can submit a new evaluation to replace it or compare with the previous one.
                     </p>
                   </div>
-                  <EvaluationDisplay evaluation={currentEvaluation} />
+                  <EvaluationDisplay evaluation={currentEvaluation} transcriptVersion={currentTranscript.agentforce_version} />
                   <div className="mt-4">
                     <EvaluationForm
                       onSubmit={handleSubmitEvaluation}
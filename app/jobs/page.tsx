@@ -0,0 +1,388 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
+import Link from 'next/link';
+import { GenerationJob, GenerationJobItem, GenerationJobItemStatus } from '@/types';
+import { SalesforceSyncPanel } from '@/components/salesforce-sync-panel';
+
+// How often the page refreshes while any item is queued or running
+const POLL_INTERVAL_MS = 3000;
+
+const STATUS_ORDER: GenerationJobItemStatus[] = ['queued', 'running', 'complete', 'failed', 'cancelled'];
+
+const getStatusColor = (status: GenerationJobItemStatus) => {
+  switch (status) {
+    case 'queued':
+      return 'bg-[#f5f5f5] text-[#757575] border-[#bdbdbd]';
+    case 'running':
+      return 'bg-[#e3f2fd] text-[#1976d2] border-[#2196f3]';
+    case 'complete':
+      return 'bg-[#e8f5e9] text-[#2e7d32] border-[#4caf50]';
+    case 'failed':
+      return 'bg-[#ffebee] text-[#c62828] border-[#f44336]';
+    case 'cancelled':
+      return 'bg-[#fff3e0] text-[#ef6c00] border-[#ff9800]';
+  }
+};
+
+const isJobActive = (job: GenerationJob) => job.counts.queued > 0 || job.counts.running > 0;
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+export default function JobsPage() {
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [selectedJob, setSelectedJob] = useState<GenerationJob | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [batchId, setBatchId] = useState('');
+  const [release, setRelease] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [actionPending, setActionPending] = useState(false);
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  // The selected job lives in the URL, so it survives reloads
+  const selectedJobId = searchParams.get('job');
+
+  const loadJobs = useCallback(async () => {
+    try {
+      const response = await fetch('/api/generation-jobs');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch generation jobs');
+      }
+      setJobs(data.jobs);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load generation jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadJob = useCallback(async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/generation-jobs/${jobId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch generation job');
+      }
+      setSelectedJob(data.job);
+    } catch (err: unknown) {
+      setSelectedJob(null);
+      setError(err instanceof Error ? err.message : 'Failed to load generation job');
+    }
+  }, []);
+
+  const refresh = useCallback(async () => {
+    await Promise.all([loadJobs(), selectedJobId ? loadJob(selectedJobId) : Promise.resolve()]);
+  }, [loadJobs, loadJob, selectedJobId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Poll while anything is still queued or running
+  const active = jobs.some(isJobActive) || (selectedJob !== null && isJobActive(selectedJob));
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, refresh]);
+
+  const selectJob = (jobId: string) => {
+    router.push(`/jobs?job=${encodeURIComponent(jobId)}`);
+  };
+
+  const handleCreateJob = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!batchId.trim()) return;
+
+    setSubmitting(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/generation-jobs', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ test_batch_id: batchId.trim(), release: release.trim() || undefined }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create generation job');
+      }
+      setNotice(`Queued ${data.queued} transcript${data.queued === 1 ? '' : 's'} from batch ${data.job.test_batch_id}`);
+      setBatchId('');
+      selectJob(data.job.id);
+      await loadJobs();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to create generation job');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRetry = async (itemIds?: string[]) => {
+    if (!selectedJob) return;
+
+    setActionPending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/generation-jobs/${selectedJob.id}/retry`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ item_ids: itemIds }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to retry generation job');
+      }
+      setNotice(`Requeued ${data.requeued} item${data.requeued === 1 ? '' : 's'}`);
+      await refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to retry generation job');
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!selectedJob) return;
+
+    setActionPending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch(`/api/generation-jobs/${selectedJob.id}/cancel`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to cancel generation job');
+      }
+      setNotice(`Cancelled ${data.cancelled} item${data.cancelled === 1 ? '' : 's'}`);
+      await refresh();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel generation job');
+    } finally {
+      setActionPending(false);
+    }
+  };
+
+  const renderCounts = (job: GenerationJob) => (
+    <div className="flex flex-wrap gap-1">
+      {STATUS_ORDER.filter((status) => job.counts[status] > 0).map((status) => (
+        <span
+          key={status}
+          className={`px-2 py-0.5 text-xs font-medium rounded border ${getStatusColor(status)}`}
+        >
+          {job.counts[status]} {status}
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderItemCase = (item: GenerationJobItem) => {
+    const caseNumber = item.transcripts?.case_number;
+    if (!caseNumber) {
+      return <span className="text-[#757575]">{item.transcripts?.messaging_session_name || item.transcript_id}</span>;
+    }
+    return (
+      <Link
+        href={`/dashboard?case=${encodeURIComponent(caseNumber)}&mode=view`}
+        className="text-[#2196f3] hover:text-[#1976d2]"
+      >
+        {caseNumber}
+      </Link>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-[#2196f3]"></div>
+        <p className="mt-2 text-sm font-normal leading-5 text-[#757575]">Loading generation jobs...</p>
+      </div>
+    );
+  }
+
+  const retryableCount = selectedJob ? selectedJob.counts.failed + selectedJob.counts.cancelled : 0;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-[32px] font-normal leading-[40px] text-[#212121]">Generation Jobs</h1>
+        <p className="mt-1 text-sm font-normal leading-5 text-[#757575]">
+          Generate Sierra transcripts for a whole test batch in the background
+        </p>
+      </div>
+
+      {/* New job */}
+      <form
+        onSubmit={handleCreateJob}
+        className="bg-white border border-[#eeeeee] rounded-lg p-4 shadow-sm flex flex-col sm:flex-row gap-4 items-start sm:items-end"
+      >
+        <div className="flex-1 w-full">
+          <label htmlFor="batch-id" className="block text-xs font-medium text-[#757575] mb-1">
+            Test batch ID
+          </label>
+          <input
+            id="batch-id"
+            type="text"
+            value={batchId}
+            onChange={(e) => setBatchId(e.target.value)}
+            placeholder="e.g. batch-2024-06"
+            className="w-full px-4 py-2 border border-[#e0e0e0] rounded-lg text-sm text-[#212121] bg-white focus:outline-none focus:ring-2 focus:ring-[#2196f3] focus:border-[#2196f3] transition-all duration-200"
+          />
+        </div>
+        <div className="w-full sm:w-48">
+          <label htmlFor="release" className="block text-xs font-medium text-[#757575] mb-1">
+            Sierra release
+          </label>
+          <input
+            id="release"
+            type="text"
+            value={release}
+            onChange={(e) => setRelease(e.target.value)}
+            placeholder="default"
+            className="w-full px-4 py-2 border border-[#e0e0e0] rounded-lg text-sm text-[#212121] bg-white focus:outline-none focus:ring-2 focus:ring-[#2196f3] focus:border-[#2196f3] transition-all duration-200"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={submitting || !batchId.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-[#2196f3] rounded-lg hover:bg-[#1976d2] disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          {submitting ? 'Queueing...' : 'Generate all in batch'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="rounded-lg bg-[#ffebee] border border-[#f44336] p-4">
+          <p className="text-sm font-normal leading-5 text-[#c62828]">{error}</p>
+        </div>
+      )}
+      {notice && (
+        <div className="rounded-lg bg-[#e8f5e9] border border-[#4caf50] p-4">
+          <p className="text-sm font-normal leading-5 text-[#2e7d32]">{notice}</p>
+        </div>
+      )}
+
+      {/* Recent jobs */}
+      {jobs.length === 0 ? (
+        <div className="text-center py-12 bg-white border border-[#eeeeee] rounded-lg p-6 shadow-sm">
+          <p className="text-sm font-normal leading-5 text-[#212121]">No generation jobs yet.</p>
+        </div>
+      ) : (
+        <div className="bg-white border border-[#eeeeee] rounded-lg shadow-sm overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-[#f5f5f5] border-b border-[#e0e0e0]">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Batch</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Release</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Items</th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Created</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#eeeeee]">
+              {jobs.map((job) => (
+                <tr
+                  key={job.id}
+                  onClick={() => selectJob(job.id)}
+                  className={`cursor-pointer hover:bg-[#f5f5f5] ${job.id === selectedJobId ? 'bg-[#e3f2fd]' : ''}`}
+                >
+                  <td className="px-4 py-3 text-sm text-[#212121]">{job.test_batch_id}</td>
+                  <td className="px-4 py-3 text-sm text-[#212121]">{job.release}</td>
+                  <td className="px-4 py-3 text-sm">{renderCounts(job)}</td>
+                  <td className="px-4 py-3 text-sm text-[#757575] whitespace-nowrap">{formatDate(job.created_at)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Selected job */}
+      {selectedJob && (
+        <div className="bg-white border border-[#eeeeee] rounded-lg shadow-sm overflow-hidden">
+          <div className="px-4 py-3 border-b border-[#e0e0e0] flex flex-col sm:flex-row gap-2 sm:items-center justify-between">
+            <div>
+              <h2 className="text-base font-medium text-[#212121]">
+                Batch {selectedJob.test_batch_id} · release {selectedJob.release}
+              </h2>
+              {isJobActive(selectedJob) && (
+                <p className="text-xs text-[#757575]">Refreshing every few seconds while items are in progress</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => handleRetry()}
+                disabled={actionPending || retryableCount === 0}
+                className="px-3 py-1.5 text-sm font-medium text-[#212121] bg-white border border-[#e0e0e0] rounded-lg hover:bg-[#f5f5f5] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Retry failed ({retryableCount})
+              </button>
+              <button
+                onClick={handleCancel}
+                disabled={actionPending || !isJobActive(selectedJob)}
+                className="px-3 py-1.5 text-sm font-medium text-[#c62828] bg-white border border-[#f44336] rounded-lg hover:bg-[#ffebee] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-[#f5f5f5] border-b border-[#e0e0e0]">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Case</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Status</th>
+                  <th className="px-4 py-3 text-center text-xs font-semibold text-[#757575] uppercase tracking-wider">Attempts</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Error</th>
+                  <th className="px-4 py-3 text-left text-xs font-semibold text-[#757575] uppercase tracking-wider">Finished</th>
+                  <th className="px-4 py-3 text-center text-xs font-semibold text-[#757575] uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[#eeeeee]">
+                {(selectedJob.items || []).map((item) => (
+                  <tr key={item.id}>
+                    <td className="px-4 py-3 text-sm whitespace-nowrap">{renderItemCase(item)}</td>
+                    <td className="px-4 py-3 text-sm">
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded border ${getStatusColor(item.status)}`}>
+                        {item.status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-center text-[#212121]">{item.attempts}</td>
+                    <td className="px-4 py-3 text-sm text-[#c62828] max-w-md break-words">{item.error || ''}</td>
+                    <td className="px-4 py-3 text-sm text-[#757575] whitespace-nowrap">{formatDate(item.finished_at)}</td>
+                    <td className="px-4 py-3 text-sm text-center">
+                      {(item.status === 'failed' || item.status === 'cancelled') && (
+                        <button
+                          onClick={() => handleRetry([item.id])}
+                          disabled={actionPending}
+                          className="text-xs text-[#2196f3] hover:text-[#1976d2] font-medium disabled:opacity-50"
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <SalesforceSyncPanel />
+    </div>
+  );
+}
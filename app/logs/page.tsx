@@ -9,6 +9,7 @@ interface LogEntry {
   evaluationType: 'case_comparison' | 'custom_chat';
   caseNumber: string;
   transcriptId?: string;
+  outdatedTranscript?: boolean;
   chatSessionId?: string;
   winner: 'sierra' | 'agentforce' | 'tie' | 'both_poor' | null;
   scores: {
@@ -424,6 +425,14 @@ export default function LogsPage() {
                       {visibleColumns.caseId && (
                         <td className="px-4 py-3 text-sm font-medium text-[#212121]">
                           <span className="font-mono text-[#2196f3]">{log.caseNumber}</span>
+                          {log.outdatedTranscript && (
+                            <span
+                              className="ml-2 px-1.5 py-0.5 rounded text-xs font-medium bg-[#fff3e0] text-[#e65100]"
+                              title="Evaluated against an earlier version of the Agentforce transcript"
+                            >
+                              Outdated
+                            </span>
+                          )}
                         </td>
                       )}
                       {visibleColumns.winner && (
@@ -0,0 +1,61 @@
+'use client';
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { DurationSummary, formatDuration } from '@/lib/utils/response-times';
+
+interface ResponseTimeTurnData {
+  turn: string;
+  agentforce: number | null;
+  sierra: number | null;
+}
+
+interface ResponseTimeComparisonProps {
+  data: ResponseTimeTurnData[];
+  agentforce: DurationSummary | null;
+  sierra: DurationSummary | null;
+  sierraTimeToFirstByte: DurationSummary | null;
+}
+
+function SummaryValue({ label, summary, color }: { label: string; summary: DurationSummary | null; color: string }) {
+  return (
+    <div>
+      <p className="text-xs font-normal leading-4 text-[#757575]">{label}</p>
+      <p className={`text-[22px] font-normal leading-[28px] ${color}`}>
+        {summary ? formatDuration(summary.medianMs) : '—'}
+      </p>
+      {summary && (
+        <p className="text-[11px] font-normal leading-4 text-[#9e9e9e]">
+          p90 {formatDuration(summary.p90Ms)} · {summary.count} {summary.count === 1 ? 'turn' : 'turns'}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ResponseTimeComparison({ data, agentforce, sierra, sierraTimeToFirstByte }: ResponseTimeComparisonProps) {
+  return (
+    <div className="bg-white border border-[#eeeeee] rounded-lg p-6 shadow-sm">
+      <h3 className="text-[22px] font-medium leading-[28px] text-[#212121] mb-1">Bot Response Times</h3>
+      <p className="text-xs font-normal leading-4 text-[#757575] mb-4">
+        Median time to reply to the same customer turns. Sierra times are measured during replay; replays
+        made before latency was recorded are not included.
+      </p>
+      <div className="grid grid-cols-3 gap-4 mb-4">
+        <SummaryValue label="Agentforce median" summary={agentforce} color="text-[#2196f3]" />
+        <SummaryValue label="Sierra median" summary={sierra} color="text-[#9c27b0]" />
+        <SummaryValue label="Sierra first byte median" summary={sierraTimeToFirstByte} color="text-[#616161]" />
+      </div>
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e0e0e0" />
+          <XAxis dataKey="turn" stroke="#757575" />
+          <YAxis stroke="#757575" tickFormatter={(value: number) => formatDuration(value)} />
+          <Tooltip formatter={(value) => (typeof value === 'number' ? formatDuration(value) : '—')} />
+          <Legend />
+          <Bar dataKey="agentforce" fill="#2196f3" name="Agentforce" />
+          <Bar dataKey="sierra" fill="#9c27b0" name="Sierra" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { CaseOutcome } from '@/types/salesforce';
+import { CASE_OUTCOME_LABELS, classifyCaseOutcome, formatCaseContextField } from '@/lib/utils/case-context';
+
+interface CaseContextPanelProps {
+  context: Record<string, string>;
+  outcome: CaseOutcome | null;
+}
+
+const OUTCOME_BADGE_CLASSES = {
+  resolved_by_bot: 'bg-[#e3f2fd] text-[#1565c0]',
+  resolved_by_human: 'bg-[#fff3e0] text-[#e65100]',
+  open: 'bg-[#f5f5f5] text-[#616161]',
+};
+
+// Long free-text fields get a full row
+const WIDE_FIELDS = new Set(['Case.Description']);
+
+/**
+ * Salesforce case fields and outcome, so evaluators see what the conversation was about
+ * and how the case ended
+ */
+export function CaseContextPanel({ context, outcome }: CaseContextPanelProps) {
+  const fields = Object.entries(context);
+  const outcomeClass = classifyCaseOutcome(outcome);
+
+  if (fields.length === 0 && !outcome) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-[#e0e0e0] rounded-lg px-4 py-3 shadow-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-medium leading-5 text-[#212121]">Salesforce case</h3>
+        {outcomeClass && (
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${OUTCOME_BADGE_CLASSES[outcomeClass]}`}>
+            {CASE_OUTCOME_LABELS[outcomeClass]}
+          </span>
+        )}
+        {outcome?.human_involved && outcomeClass !== 'resolved_by_human' && (
+          <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-[#fff3e0] text-[#e65100]">
+            Human agent joined
+          </span>
+        )}
+      </div>
+      {fields.length > 0 && (
+        <dl className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+          {fields.map(([fieldPath, value]) => (
+            <div
+              key={fieldPath}
+              className={`flex gap-2 text-xs leading-4 ${WIDE_FIELDS.has(fieldPath) ? 'sm:col-span-2' : ''}`}
+            >
+              <dt className="font-medium text-[#616161] whitespace-nowrap">{formatCaseContextField(fieldPath)}</dt>
+              <dd className="text-[#212121] break-words whitespace-pre-wrap">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </div>
+  );
+}
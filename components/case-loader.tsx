@@ -2,13 +2,21 @@
 
 import { useState } from 'react';
 import { textStyles, colors, materialComponents, materialText, materialBorder, materialTypography } from '@/lib/design-tokens';
+import { MessagingSessionOption } from '@/types';
 
 interface CaseLoaderProps {
-  onLoadCase: (identifier: string, type: 'case' | 'messagingSession' | 'messagingSessionName') => void;
+  onLoadCase: (
+    identifier: string,
+    type: 'case' | 'messagingSession' | 'messagingSessionName',
+    messagingSessionId?: string
+  ) => void;
   loading?: boolean;
   currentCaseNumber?: string;
   currentMessagingSessionId?: string;
   currentMessagingSessionName?: string;
+  // Sessions of a case with more than one; picking one loads it as its own transcript
+  sessionChoices?: { caseNumber: string; sessions: MessagingSessionOption[] } | null;
+  onDismissSessionChoices?: () => void;
 }
 
 export function CaseLoader({
@@ -17,6 +25,8 @@ export function CaseLoader({
   currentCaseNumber,
   currentMessagingSessionId,
   currentMessagingSessionName,
+  sessionChoices,
+  onDismissSessionChoices,
 }: CaseLoaderProps) {
   const [inputValue, setInputValue] = useState('');
   const [inputType, setInputType] = useState<'case' | 'messagingSession' | 'messagingSessionName'>('case');
@@ -113,6 +123,63 @@ export function CaseLoader({
         </form>
       </div>
 
+      {sessionChoices && sessionChoices.sessions.length > 0 && (
+        <div className="mt-4 pt-4 border-t border-[#e0e0e0]">
+          <div className="flex items-start justify-between gap-4 mb-3">
+            <div>
+              <p className="text-sm font-medium text-[#212121]">
+                Case <span className="font-mono text-[#2196f3]">{sessionChoices.caseNumber}</span> has{' '}
+                {sessionChoices.sessions.length} messaging sessions
+              </p>
+              <p className="text-xs font-normal leading-4 text-[#757575]">
+                Choose the session to load; each one becomes its own transcript.
+              </p>
+            </div>
+            {onDismissSessionChoices && (
+              <button
+                type="button"
+                onClick={onDismissSessionChoices}
+                className="text-xs font-medium text-[#757575] hover:text-[#212121]"
+              >
+                Dismiss
+              </button>
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            {sessionChoices.sessions.map((session) => (
+              <div
+                key={session.id}
+                className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 border border-[#eeeeee] rounded-lg px-4 py-3"
+              >
+                <div className="text-sm font-normal leading-5 text-[#757575]">
+                  <div className="flex items-center gap-2">
+                    <span className="font-mono text-[#212121]">{session.name || session.id}</span>
+                    {session.transcript_id && (
+                      <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-[#e8f5e9] text-[#2e7d32]">
+                        Loaded
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs">
+                    {session.start_time ? new Date(session.start_time).toLocaleString() : 'Start time unknown'}
+                    {session.channel_type && ` · ${session.channel_type}`}
+                    {session.entry_count !== null && ` · ${session.entry_count} entries`}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onLoadCase(sessionChoices.caseNumber, 'case', session.id)}
+                  disabled={loading}
+                  className="bg-white text-[#2196f3] border border-[#2196f3] px-4 py-1.5 rounded-full font-medium text-sm hover:bg-[#e3f2fd] disabled:border-[#e0e0e0] disabled:text-[#9e9e9e] disabled:cursor-not-allowed transition-colors duration-200 whitespace-nowrap"
+                >
+                  Load session
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {(currentCaseNumber !== undefined || currentMessagingSessionId || currentMessagingSessionName) && (
         <div className="mt-4 pt-4 border-t border-[#e0e0e0]">
           <div className="text-sm font-normal leading-5 text-[#757575]">
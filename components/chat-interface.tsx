@@ -7,6 +7,7 @@ import { sanitizeText } from '@/lib/sanitize';
 interface ChatInterfaceProps {
   sessionId: string;
   messages: ChatMessage[];
+  streamingReply?: string | null; // Partial assistant reply while Sierra is still streaming
   onSendMessage: (content: string) => Promise<void>;
   onEndSession: () => void;
   isSessionActive: boolean;
@@ -15,6 +16,7 @@ interface ChatInterfaceProps {
 
 export function ChatInterface({
   messages,
+  streamingReply,
   onSendMessage,
   onEndSession,
   isSessionActive,
@@ -27,7 +29,7 @@ export function ChatInterface({
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingReply]);
 
   // Focus input on mount
   useEffect(() => {
@@ -51,6 +53,8 @@ export function ChatInterface({
       await onSendMessage(messageContent);
     } catch (error) {
       console.error('Error sending message:', error);
+      // Put the message back so it can be sent again, unless something new was typed meanwhile
+      setInputValue((current) => current || messageContent);
     } finally {
       setIsSending(false);
       inputRef.current?.focus();
@@ -139,7 +143,20 @@ export function ChatInterface({
                 </div>
               </div>
             ))}
-            {isSending && (
+            {isSending && streamingReply && (
+              <div className="flex justify-start">
+                <div className="max-w-[75%] rounded-lg px-4 py-3 bg-[#f5f5f5] text-[#212121]">
+                  <div className="flex items-start gap-2">
+                    <span className="text-lg">🏔️</span>
+                    <p className="flex-1 text-sm font-normal leading-5 whitespace-pre-wrap break-words">
+                      {sanitizeText(streamingReply)}
+                      <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-[#757575] animate-pulse" />
+                    </p>
+                  </div>
+                </div>
+              </div>
+            )}
+            {isSending && !streamingReply && (
               <div className="flex justify-start">
                 <div className="max-w-[75%] rounded-lg px-4 py-3 bg-[#f5f5f5] text-[#212121]">
                   <div className="flex items-start gap-2">
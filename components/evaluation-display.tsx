@@ -4,12 +4,20 @@ import { Evaluation, ChatEvaluation } from '@/types';
 
 interface EvaluationDisplayProps {
   evaluation: Evaluation | ChatEvaluation;
+  transcriptVersion?: number; // Current version of the evaluated Agentforce transcript
 }
 
-export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
+export function EvaluationDisplay({ evaluation, transcriptVersion }: EvaluationDisplayProps) {
   // Determine if this is a chat evaluation or comparison evaluation
   const isChatEvaluation = 'chat_session_id' in evaluation && evaluation.chat_session_id;
   const isComparisonEvaluation = 'transcript_id' in evaluation && evaluation.transcript_id;
+  // Made before the Agentforce transcript was refreshed from Salesforce
+  const isOutdated =
+    isComparisonEvaluation &&
+    transcriptVersion !== undefined &&
+    'agentforce_version' in evaluation &&
+    typeof evaluation.agentforce_version === 'number' &&
+    evaluation.agentforce_version < transcriptVersion;
 
   const formatDate = (dateString?: string) => {
     if (!dateString) return 'N/A';
@@ -85,6 +93,15 @@ export function EvaluationDisplay({ evaluation }: EvaluationDisplayProps) {
         </div>
       </div>
 
+      {isOutdated && (
+        <div className="bg-[#fff3e0] border border-[#ff9800] rounded-lg p-3">
+          <p className="text-sm text-[#e65100]">
+            <strong>⚠️ Outdated:</strong> This evaluation was made against an earlier version of the Agentforce
+            transcript. The conversation has changed in Salesforce since; consider evaluating it again.
+          </p>
+        </div>
+      )}
+
       {/* Winner - Only show for comparison evaluations */}
       {isComparisonEvaluation && 'winner' in evaluation && evaluation.winner && (
         <div>
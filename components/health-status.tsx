@@ -14,6 +14,7 @@ interface HealthStatus {
   timestamp: string;
   version: string;
   environment: string;
+  offlineMode?: boolean;
   checks: {
     database: HealthCheck;
     salesforce: HealthCheck;
@@ -79,6 +80,8 @@ export function HealthStatus() {
       case 'healthy':
       case 'configured':
         return '#4caf50';
+      case 'offline':
+        return '#2196f3';
       case 'degraded':
       case 'not_configured':
         return '#ff9800';
@@ -93,6 +96,7 @@ export function HealthStatus() {
     switch (status) {
       case 'healthy':
       case 'configured':
+      case 'offline':
         return '✓';
       case 'degraded':
       case 'not_configured':
@@ -212,7 +216,7 @@ export function HealthStatus() {
               className="text-[10px] capitalize"
               style={{ color: getStatusColor(health.checks.salesforce.status) }}
             >
-              {health.checks.salesforce.configured ? 'Configured' : 'Not Configured'}
+              {health.checks.salesforce.status === 'offline' ? 'Offline (fake)' : health.checks.salesforce.configured ? 'Configured' : 'Not Configured'}
             </span>
           </div>
 
@@ -228,7 +232,7 @@ export function HealthStatus() {
               className="text-[10px] capitalize"
               style={{ color: getStatusColor(health.checks.sierra.status) }}
             >
-              {health.checks.sierra.configured ? 'Configured' : 'Not Configured'}
+              {health.checks.sierra.status === 'offline' ? 'Offline (fake)' : health.checks.sierra.configured ? 'Configured' : 'Not Configured'}
             </span>
           </div>
 
@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { ReplayRule, ReplayTurnDecision, ReplayTurnPlan } from '@/lib/sierra/replay-rules';
+
+interface ReplayPreviewProps {
+  /** Transcript ID or case number */
+  transcriptIdentifier: string;
+  testBatchId?: string | null;
+  disabled?: boolean;
+}
+
+interface PreviewResponse {
+  rule_set_batch: string | null;
+  stop_at_human_handoff: boolean;
+  rules: ReplayRule[];
+  turns: ReplayTurnPlan[];
+  summary: Record<ReplayTurnDecision, number>;
+}
+
+const DECISION_STYLES: Record<ReplayTurnDecision, { label: string; className: string }> = {
+  send: { label: 'Send', className: 'bg-[#e8f5e9] border-[#4caf50] text-[#2e7d32]' },
+  skip: { label: 'Skip', className: 'bg-[#f5f5f5] border-[#bdbdbd] text-[#616161]' },
+  stop: { label: 'Stopped', className: 'bg-[#ffebee] border-[#f44336] text-[#c62828]' },
+};
+
+/**
+ * Dry run of the replay rules for a transcript: exactly which customer turns will be sent to Sierra
+ * Also edits the rule set of the transcript's test batch; drafts can be previewed before saving
+ */
+export function ReplayPreview({ transcriptIdentifier, testBatchId, disabled = false }: ReplayPreviewProps) {
+  const batch = testBatchId || 'default';
+  const [preview, setPreview] = useState<PreviewResponse | null>(null);
+  const [draftRules, setDraftRules] = useState('[]');
+  const [draftStopAtHandoff, setDraftStopAtHandoff] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyPreview = (data: PreviewResponse) => {
+    setPreview(data);
+    setDraftRules(JSON.stringify(data.rules, null, 2));
+    setDraftStopAtHandoff(data.stop_at_human_handoff);
+  };
+
+  const loadSavedPreview = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/transcripts/${encodeURIComponent(transcriptIdentifier)}/replay-preview`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to preview replay');
+      }
+      applyPreview(data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to preview replay');
+    }
+  }, [transcriptIdentifier]);
+
+  useEffect(() => {
+    setEditing(false);
+    loadSavedPreview();
+  }, [loadSavedPreview]);
+
+  // Parse the draft editor into a request body, or report why it is not valid JSON
+  const getDraftBody = (): string | null => {
+    try {
+      const rules = JSON.parse(draftRules);
+      if (!Array.isArray(rules)) {
+        setError('Rules must be a JSON array');
+        return null;
+      }
+      return JSON.stringify({ stop_at_human_handoff: draftStopAtHandoff, rules });
+    } catch (err: unknown) {
+      setError(`Rules are not valid JSON: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
+    }
+  };
+
+  const formatValidationError = (data: { error?: string; details?: Array<{ path: string; message: string }> }) =>
+    Array.isArray(data.details) && data.details.length > 0
+      ? data.details.map((detail) => (detail.path ? `${detail.path}: ${detail.message}` : detail.message)).join('\n')
+      : data.error || 'Request failed';
+
+  const previewDraft = async () => {
+    const body = getDraftBody();
+    if (!body) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/transcripts/${encodeURIComponent(transcriptIdentifier)}/replay-preview`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(formatValidationError(data));
+      }
+      setPreview(data);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to preview replay');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const saveRules = async () => {
+    const body = getDraftBody();
+    if (!body) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/replay-rules/${encodeURIComponent(batch)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(formatValidationError(data));
+      }
+      setEditing(false);
+      await loadSavedPreview();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to save replay rules');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const discardDraft = () => {
+    setEditing(false);
+    loadSavedPreview();
+  };
+
+  const summary = preview?.summary;
+  const total = summary ? summary.send + summary.skip + summary.stop : 0;
+
+  return (
+    <details className="bg-white border border-[#e0e0e0] rounded-lg px-4 py-3 shadow-sm">
+      <summary className="text-sm font-medium leading-5 text-[#212121] cursor-pointer">
+        Replay preview
+        {summary && ` (${summary.send} of ${total} customer ${total === 1 ? 'turn' : 'turns'} sent to Sierra)`}
+      </summary>
+
+      <div className="mt-3 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs font-normal leading-4 text-[#757575]">
+            {preview?.rule_set_batch
+              ? `Rules from the "${preview.rule_set_batch}" rule set${preview.rule_set_batch !== batch ? ` (batch "${batch}" has none of its own)` : ''}.`
+              : 'No replay rules configured - every customer message is sent.'}
+            {editing && ' Showing a draft preview.'}
+          </p>
+          <button
+            onClick={editing ? discardDraft : () => setEditing(true)}
+            disabled={disabled || busy}
+            className="text-xs font-medium text-[#2196f3] hover:underline disabled:text-[#9e9e9e] whitespace-nowrap"
+          >
+            {editing ? 'Discard draft' : `Edit rules for "${batch}"`}
+          </button>
+        </div>
+
+        {editing && (
+          <div className="space-y-2">
+            <label className="flex items-center gap-2 text-xs font-medium text-[#212121]">
+              <input
+                type="checkbox"
+                checked={draftStopAtHandoff}
+                onChange={(e) => setDraftStopAtHandoff(e.target.checked)}
+                className="w-4 h-4 text-[#2196f3] focus:ring-[#2196f3]"
+              />
+              Stop at human handoff
+            </label>
+            <textarea
+              value={draftRules}
+              onChange={(e) => setDraftRules(e.target.value)}
+              rows={8}
+              spellCheck={false}
+              className="w-full font-mono text-xs border border-[#e0e0e0] rounded-md p-2 focus:outline-none focus:ring-2 focus:ring-[#2196f3]"
+              placeholder='[{ "name": "Pre-chat form", "action": "skip", "pattern": "^Name:.*Email:" }]'
+            />
+            <p className="text-[11px] font-normal leading-4 text-[#9e9e9e]">
+              Each rule: name, action (skip, rewrite or stop), and a pattern (regex), role or type to match; rewrite rules
+              also take a replacement. Rules match customer messages unless a role is given.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={previewDraft}
+                disabled={busy}
+                className="text-xs font-medium border border-[#2196f3] text-[#2196f3] rounded-full px-3 py-1 hover:bg-[#e3f2fd] disabled:border-[#e0e0e0] disabled:text-[#9e9e9e]"
+              >
+                Preview draft
+              </button>
+              <button
+                onClick={saveRules}
+                disabled={busy}
+                className="text-xs font-medium bg-[#2196f3] text-white rounded-full px-3 py-1 hover:bg-[#1e88e5] disabled:bg-[#e0e0e0] disabled:text-[#9e9e9e]"
+              >
+                Save for &quot;{batch}&quot;
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-xs font-normal leading-4 text-[#c62828] whitespace-pre-wrap">{error}</p>
+        )}
+
+        {preview && (
+          <ol className="space-y-1.5">
+            {preview.turns.map((turn, index) => {
+              const style = DECISION_STYLES[turn.decision];
+              const rewritten = turn.message !== null && turn.message !== turn.original;
+              return (
+                <li key={turn.identifier || index} className="flex items-start gap-2 text-xs leading-4">
+                  <span className={`shrink-0 px-1.5 py-0.5 rounded border text-[10px] font-medium ${style.className}`}>
+                    {style.label}
+                  </span>
+                  <div className="min-w-0">
+                    <p className={`break-words ${turn.decision === 'send' ? 'text-[#212121]' : 'text-[#9e9e9e] line-through'}`}>
+                      {turn.original}
+                    </p>
+                    {rewritten && <p className="break-words text-[#212121]">→ {turn.message}</p>}
+                    {turn.reasons.length > 0 && (
+                      <p className="text-[11px] text-[#757575]">{turn.reasons.join(' · ')}</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { SalesforceSyncStatus, SalesforceSyncSummary } from '@/types';
+
+// How often the panel refreshes while evaluations are pending or syncing
+const POLL_INTERVAL_MS = 5000;
+
+const STATUS_ORDER: SalesforceSyncStatus[] = ['pending', 'syncing', 'synced', 'failed', 'skipped'];
+
+const getStatusColor = (status: SalesforceSyncStatus) => {
+  switch (status) {
+    case 'pending':
+      return 'bg-[#f5f5f5] text-[#757575] border-[#bdbdbd]';
+    case 'syncing':
+      return 'bg-[#e3f2fd] text-[#1976d2] border-[#2196f3]';
+    case 'synced':
+      return 'bg-[#e8f5e9] text-[#2e7d32] border-[#4caf50]';
+    case 'failed':
+      return 'bg-[#ffebee] text-[#c62828] border-[#f44336]';
+    case 'skipped':
+      return 'bg-[#fff3e0] text-[#ef6c00] border-[#ff9800]';
+  }
+};
+
+const TARGET_LABELS: Record<NonNullable<SalesforceSyncSummary['target']>, string> = {
+  custom_object: 'custom object records',
+  feed_item: 'Case feed posts',
+};
+
+/**
+ * Status of writing evaluations back to Salesforce, with backfill and retry actions
+ * Renders nothing while the sync is disabled.
+ */
+export function SalesforceSyncPanel() {
+  const [summary, setSummary] = useState<SalesforceSyncSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const loadSummary = useCallback(async () => {
+    try {
+      const response = await fetch('/api/evaluations/salesforce-sync');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch Salesforce sync status');
+      }
+      setSummary(data);
+      setError(null);
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to load Salesforce sync status');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSummary();
+  }, [loadSummary]);
+
+  const active = summary !== null && (summary.counts.pending > 0 || summary.counts.syncing > 0);
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(loadSummary, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [active, loadSummary]);
+
+  const queue = async (options: { include_unsynced: boolean; include_failed: boolean }) => {
+    setPending(true);
+    setError(null);
+    setNotice(null);
+    try {
+      const response = await fetch('/api/evaluations/salesforce-sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(options),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to queue evaluations for Salesforce');
+      }
+      setNotice(`Queued ${data.queued} evaluation${data.queued === 1 ? '' : 's'} for Salesforce`);
+      await loadSummary();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to queue evaluations for Salesforce');
+    } finally {
+      setPending(false);
+    }
+  };
+
+  if (error && !summary) {
+    return (
+      <div className="rounded-lg bg-[#ffebee] border border-[#f44336] p-4">
+        <p className="text-sm font-normal leading-5 text-[#c62828]">{error}</p>
+      </div>
+    );
+  }
+
+  if (!summary || !summary.enabled) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-[#eeeeee] rounded-lg shadow-sm">
+      <div className="px-4 py-3 flex flex-col sm:flex-row gap-2 sm:items-center justify-between">
+        <div>
+          <h2 className="text-base font-medium text-[#212121]">Salesforce sync</h2>
+          <p className="text-xs text-[#757575]">
+            Evaluation results are written to Salesforce as {summary.target ? TARGET_LABELS[summary.target] : 'records'}
+            {summary.unsynced > 0 && ` · ${summary.unsynced} older evaluation${summary.unsynced === 1 ? '' : 's'} not synced yet`}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-1">
+            {STATUS_ORDER.filter((status) => summary.counts[status] > 0).map((status) => (
+              <span
+                key={status}
+                className={`px-2 py-0.5 text-xs font-medium rounded border ${getStatusColor(status)}`}
+              >
+                {summary.counts[status]} {status}
+              </span>
+            ))}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => queue({ include_unsynced: true, include_failed: false })}
+            disabled={pending || summary.unsynced === 0}
+            className="px-3 py-1.5 text-sm font-medium text-[#212121] bg-white border border-[#e0e0e0] rounded-lg hover:bg-[#f5f5f5] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Backfill ({summary.unsynced})
+          </button>
+          <button
+            onClick={() => queue({ include_unsynced: false, include_failed: true })}
+            disabled={pending || summary.counts.failed === 0}
+            className="px-3 py-1.5 text-sm font-medium text-[#212121] bg-white border border-[#e0e0e0] rounded-lg hover:bg-[#f5f5f5] disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Retry failed ({summary.counts.failed})
+          </button>
+        </div>
+      </div>
+      {(error || notice) && (
+        <div className="px-4 pb-3">
+          <p className={`text-sm font-normal leading-5 ${error ? 'text-[#c62828]' : 'text-[#2e7d32]'}`}>{error || notice}</p>
+        </div>
+      )}
+    </div>
+  );
+}
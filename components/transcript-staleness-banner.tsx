@@ -0,0 +1,166 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Transcript, TranscriptEntry, TranscriptRefreshResult, TranscriptStaleness } from '@/types';
+
+interface TranscriptStalenessBannerProps {
+  transcript: Transcript;
+  onRefreshed: (transcript: Transcript) => void;
+  disabled?: boolean;
+}
+
+const plural = (count: number, noun: string, nounPlural = `${noun}s`) => `${count} ${count === 1 ? noun : nounPlural}`;
+
+function EntryLine({ entry, prefix, className }: { entry: TranscriptEntry; prefix: string; className: string }) {
+  return (
+    <li className={`text-xs leading-4 ${className}`}>
+      <span className="font-mono">{prefix}</span> <span className="font-medium">{entry.sender?.role || 'Unknown'}:</span>{' '}
+      <span className="break-words">{entry.messageText}</span>
+    </li>
+  );
+}
+
+/**
+ * Warns when the stored Agentforce transcript no longer matches Salesforce (e.g. a human rep joined
+ * after the case was loaded), refreshes it on request and shows what changed
+ * The check runs in the background once per loaded transcript; nothing is shown while it matches.
+ */
+export function TranscriptStalenessBanner({ transcript, onRefreshed, disabled = false }: TranscriptStalenessBannerProps) {
+  const [staleness, setStaleness] = useState<TranscriptStaleness | null>(null);
+  const [refreshResult, setRefreshResult] = useState<TranscriptRefreshResult | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const transcriptId = transcript.id;
+
+  useEffect(() => {
+    setStaleness(null);
+    setRefreshResult(null);
+    setError(null);
+    if (!transcriptId) return;
+
+    const abortController = new AbortController();
+    (async () => {
+      try {
+        const response = await fetch(`/api/transcripts/${transcriptId}/staleness`, { signal: abortController.signal });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to check transcript against Salesforce');
+        }
+        setStaleness(data);
+      } catch (err: unknown) {
+        if (abortController.signal.aborted) return;
+        // A failed background check should not get in the evaluator's way
+        console.warn('Transcript staleness check failed:', err instanceof Error ? err.message : err);
+      }
+    })();
+
+    return () => abortController.abort();
+  }, [transcriptId]);
+
+  const handleRefresh = async () => {
+    if (!transcriptId) return;
+    setRefreshing(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/transcripts/${transcriptId}/refresh`, { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to refresh transcript from Salesforce');
+      }
+      const result = data as TranscriptRefreshResult;
+      setRefreshResult(result);
+      setStaleness(null);
+      if (result.refreshed) {
+        onRefreshed(result.transcript);
+      }
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh transcript from Salesforce');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  if (refreshResult) {
+    const { diff } = refreshResult;
+    const entryChanges = diff.added.length + diff.removed.length + diff.changed.length;
+    return (
+      <div className="bg-[#e8f5e9] border border-[#4caf50] rounded-lg px-4 py-3">
+        <p className="text-sm text-[#2e7d32]">
+          {refreshResult.refreshed ? (
+            <>
+              <strong>Transcript refreshed from Salesforce</strong> (version {refreshResult.previous_version} →{' '}
+              {refreshResult.transcript.agentforce_version}): +{diff.added.length} added, −{diff.removed.length} removed, ~
+              {diff.changed.length} changed.
+            </>
+          ) : (
+            <>The transcript already matches Salesforce.</>
+          )}
+        </p>
+        {refreshResult.outdated_evaluations > 0 && (
+          <p className="mt-1 text-sm text-[#e65100]">
+            ⚠️ {plural(refreshResult.outdated_evaluations, 'evaluation')} of this transcript{' '}
+            {refreshResult.outdated_evaluations === 1 ? 'was' : 'were'} made against an earlier version.
+          </p>
+        )}
+        {entryChanges > 0 && (
+          <details className="mt-2">
+            <summary className="text-xs font-medium text-[#2e7d32] cursor-pointer">Show changed entries</summary>
+            <ul className="mt-2 space-y-1">
+              {diff.added.map((entry) => (
+                <EntryLine key={`added-${entry.identifier}`} entry={entry} prefix="+" className="text-[#2e7d32]" />
+              ))}
+              {diff.removed.map((entry) => (
+                <EntryLine key={`removed-${entry.identifier}`} entry={entry} prefix="−" className="text-[#c62828]" />
+              ))}
+              {diff.changed.map(({ before, after }) => (
+                <li key={`changed-${after.identifier}`} className="space-y-0.5">
+                  <ul>
+                    <EntryLine entry={before} prefix="~ was" className="text-[#757575] line-through" />
+                    <EntryLine entry={after} prefix="~ now" className="text-[#212121]" />
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          </details>
+        )}
+      </div>
+    );
+  }
+
+  if (!staleness || (!staleness.stale && staleness.outdated_evaluations === 0)) {
+    return null;
+  }
+
+  return (
+    <div className="bg-[#fff3e0] border border-[#ff9800] rounded-lg px-4 py-3 flex flex-col sm:flex-row gap-2 sm:items-center justify-between">
+      <div className="text-sm text-[#e65100]">
+        {staleness.stale && (
+          <p>
+            <strong>⚠️ Transcript out of date:</strong> Salesforce now has {plural(staleness.salesforce.entry_count, 'entry', 'entries')}{' '}
+            (stored: {staleness.stored.entry_count})
+            {staleness.diff.added + staleness.diff.removed + staleness.diff.changed > 0 &&
+              ` · +${staleness.diff.added} / −${staleness.diff.removed} / ~${staleness.diff.changed}`}
+            . The conversation may have continued after the case was loaded.
+          </p>
+        )}
+        {staleness.outdated_evaluations > 0 && (
+          <p className={staleness.stale ? 'mt-1' : ''}>
+            {plural(staleness.outdated_evaluations, 'evaluation')} of this transcript{' '}
+            {staleness.outdated_evaluations === 1 ? 'was' : 'were'} made against an earlier version.
+          </p>
+        )}
+        {error && <p className="mt-1 text-[#c62828]">{error}</p>}
+      </div>
+      {staleness.stale && (
+        <button
+          onClick={handleRefresh}
+          disabled={disabled || refreshing}
+          className="px-3 py-1.5 text-sm font-medium text-[#212121] bg-white border border-[#e0e0e0] rounded-lg hover:bg-[#f5f5f5] disabled:opacity-50 disabled:cursor-not-allowed transition-colors whitespace-nowrap"
+        >
+          {refreshing ? 'Refreshing…' : 'Refresh from Salesforce'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,13 @@
 'use client';
 
 import { ConversationEntry } from '@/types/salesforce';
-import { useMemo } from 'react';
+import { SierraRun } from '@/types';
+import { useEffect, useMemo, useRef } from 'react';
 import { decodeHtmlEntities } from '@/lib/utils/html-entities';
+import { isAgentEventEntry } from '@/lib/sierra/events';
+import { countDivergence, DIVERGENCE_LABELS } from '@/lib/sierra/divergence';
+import { formatConsistency, getReplyTurn, LOW_CONSISTENCY, summarizeConsistency, TurnConsistency } from '@/lib/sierra/consistency';
+import { formatDuration, getTurnResponseTimes, summarizeDurations, TurnResponseTime } from '@/lib/utils/response-times';
 import { textStyles, colors, materialComponents, materialText, materialBorder, materialTypography, materialBackground } from '@/lib/design-tokens';
 
 interface TranscriptViewerProps {
@@ -10,13 +15,25 @@ interface TranscriptViewerProps {
   transcript: ConversationEntry[];
   highlightDifferences?: boolean;
   filterBotType?: 'agentforce' | 'sierra'; // Filter to show only specific bot type
+  runs?: SierraRun[]; // Generated runs to switch between (one per release and sample)
+  selectedRunId?: string | null;
+  onSelectRun?: (runId: string) => void;
+  consistency?: Map<number, TurnConsistency>; // Per-turn similarity across samples of the selected release
+  live?: boolean; // Entries are still arriving (generation in progress); follows the newest one
 }
 
 export function TranscriptViewer({
   title,
   transcript,
   filterBotType,
+  runs,
+  selectedRunId,
+  onSelectRun,
+  consistency,
+  live,
 }: TranscriptViewerProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
   const sortedTranscript = useMemo(() => {
     let filtered = [...transcript];
     
@@ -63,6 +80,43 @@ export function TranscriptViewer({
     );
   }, [transcript, filterBotType]);
 
+  // Bot response time per reply, keyed by the reply's identifier
+  const { responseTimes, medianResponseMs } = useMemo(() => {
+    const turns = getTurnResponseTimes(sortedTranscript);
+    const byEntry = new Map<string, TurnResponseTime>();
+    turns.forEach((turn) => {
+      if (turn.botEntryId && turn.responseMs !== null) {
+        byEntry.set(turn.botEntryId, turn);
+      }
+    });
+    return {
+      responseTimes: byEntry,
+      medianResponseMs: summarizeDurations(turns.map((turn) => turn.responseMs))?.medianMs ?? null,
+    };
+  }, [sortedTranscript]);
+
+  const divergenceCounts = useMemo(() => countDivergence(sortedTranscript), [sortedTranscript]);
+
+  // Keep the newest entry in view while a live transcript fills in
+  useEffect(() => {
+    if (live && scrollRef.current) {
+      scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+    }
+  }, [live, sortedTranscript]);
+
+  // Other samples of the selected run's release, in sample order, for flipping between them
+  const selectedRun = runs?.find((run) => run.id === selectedRunId);
+  const samples = useMemo(
+    () =>
+      selectedRun
+        ? (runs || []).filter((run) => run.release === selectedRun.release).sort((a, b) => a.sample_index - b.sample_index)
+        : [],
+    [runs, selectedRun]
+  );
+  const sampleIndex = samples.findIndex((run) => run.id === selectedRunId);
+  const hasSamples = (run: SierraRun) => (runs || []).some((other) => other.release === run.release && other.id !== run.id);
+  const meanConsistency = consistency ? summarizeConsistency(consistency) : null;
+
   const formatTimestamp = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString('en-US', {
@@ -103,6 +157,31 @@ export function TranscriptViewer({
     return 'bg-[#f5f5f5] border-l-4 border-[#bdbdbd]';
   };
 
+  // Replayed customer turns that no longer fit the conversation stand out
+  const getDivergenceStyle = (entry: ConversationEntry) => {
+    switch (entry.divergence?.status) {
+      case 'drifted':
+        return { ring: 'ring-2 ring-[#ff9800]', badge: 'bg-[#fff3e0] border-[#ff9800] text-[#e65100]' };
+      case 'broken':
+        return { ring: 'ring-2 ring-[#f44336]', badge: 'bg-[#ffebee] border-[#f44336] text-[#c62828]' };
+      default:
+        return null;
+    }
+  };
+
+  const getEventChipColor = (type?: string) => {
+    switch (type) {
+      case 'Transfer':
+        return 'bg-[#fff3e0] border-[#ff9800] text-[#e65100]';
+      case 'ConversationEnded':
+        return 'bg-[#ffebee] border-[#f44336] text-[#c62828]';
+      case 'ToolCall':
+        return 'bg-[#e3f2fd] border-[#2196f3] text-[#1565c0]';
+      default:
+        return 'bg-[#f5f5f5] border-[#bdbdbd] text-[#616161]';
+    }
+  };
+
   const getRoleLabel = (role: string, identifier?: string, appType?: string) => {
     switch (role.toLowerCase()) {
       case 'enduser':
@@ -128,32 +207,141 @@ export function TranscriptViewer({
     <div className="flex flex-col h-full border border-[#e0e0e0] rounded-lg shadow-sm bg-white">
       <div className="px-3 py-2 bg-[#f5f5f5] border-b border-[#e0e0e0] rounded-t-lg">
         <div className="flex items-center justify-between">
-          <h3 className="text-base font-medium leading-5 text-[#212121]">{title}</h3>
+          <div className="flex items-center gap-2 min-w-0">
+            <h3 className="text-base font-medium leading-5 text-[#212121]">{title}</h3>
+            {live && (
+              <span className="flex items-center gap-1 text-xs font-medium text-[#9c27b0]" title="Replies appear as Sierra sends them">
+                <span className="inline-block h-2 w-2 rounded-full bg-[#9c27b0] animate-pulse"></span>
+                Live
+              </span>
+            )}
+            {runs && runs.length > 0 && onSelectRun && (
+              <select
+                value={selectedRunId || ''}
+                onChange={(e) => onSelectRun(e.target.value)}
+                className="text-xs border border-[#e0e0e0] rounded-md px-2 py-1 bg-white text-[#212121] focus:outline-none focus:ring-2 focus:ring-[#9c27b0] truncate"
+                title="Switch between Sierra runs"
+              >
+                {runs.map((run) => (
+                  <option key={run.id} value={run.id}>
+                    {run.release}
+                    {hasSamples(run) ? ` #${run.sample_index + 1}` : ''}
+                    {run.sierra_version ? ` (${run.sierra_version})` : ''} · {new Date(run.updated_at).toLocaleDateString()}
+                    {run.status === 'complete' ? '' : run.status === 'in_progress' ? ' · incomplete' : ` · ${run.status}`}
+                  </option>
+                ))}
+              </select>
+            )}
+            {samples.length > 1 && onSelectRun && (
+              <span className="flex items-center gap-1 text-xs text-[#616161]" title="Flip between samples of this release">
+                <button
+                  onClick={() => onSelectRun(samples[(sampleIndex - 1 + samples.length) % samples.length].id)}
+                  className="px-1.5 rounded hover:bg-[#e0e0e0]"
+                  aria-label="Previous sample"
+                >
+                  ‹
+                </button>
+                {sampleIndex + 1}/{samples.length}
+                <button
+                  onClick={() => onSelectRun(samples[(sampleIndex + 1) % samples.length].id)}
+                  className="px-1.5 rounded hover:bg-[#e0e0e0]"
+                  aria-label="Next sample"
+                >
+                  ›
+                </button>
+              </span>
+            )}
+          </div>
           <span className="text-xs font-normal leading-4 text-[#757575]">
             {sortedTranscript.length} {sortedTranscript.length === 1 ? 'message' : 'messages'}
+            {medianResponseMs !== null && (
+              <span title="Median bot response time across customer turns"> · median reply {formatDuration(medianResponseMs)}</span>
+            )}
+            {divergenceCounts.drifted + divergenceCounts.broken > 0 && (
+              <span title="Replayed customer turns that no longer fit the conversation">
+                {' '}· {divergenceCounts.drifted} drifted, {divergenceCounts.broken} broken
+              </span>
+            )}
+            {meanConsistency !== null && (
+              <span title="Mean similarity of Sierra's replies across samples of this release">
+                {' '}· {formatConsistency(meanConsistency)} consistent across {samples.length} samples
+              </span>
+            )}
           </span>
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-2">
         {sortedTranscript.length === 0 ? (
           <div className="text-center text-sm font-normal leading-5 text-[#757575] py-8">
-            No messages in this transcript
+            {live ? 'Waiting for the first reply...' : 'No messages in this transcript'}
           </div>
         ) : (
           sortedTranscript.map((entry, index) => {
             const role = entry.sender?.role || 'Unknown';
+
+            // Agent events (transfers, conversation end, tool calls) render as chips
+            if (isAgentEventEntry(entry)) {
+              return (
+                <div key={entry.identifier || index} className="flex justify-center">
+                  <span
+                    className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full border text-[11px] font-medium leading-4 ${getEventChipColor(entry.type)}`}
+                    title={entry.sender?.subject ? `Event type: ${entry.sender.subject}` : undefined}
+                  >
+                    {entry.messageText}
+                    <span className="font-normal opacity-70">{formatTimestamp(entry.clientTimestamp)}</span>
+                  </span>
+                </div>
+              );
+            }
+
             const roleLabel = getRoleLabel(role, entry.identifier, entry.sender?.appType);
+            const responseTime = responseTimes.get(entry.identifier);
+            const divergenceStyle = getDivergenceStyle(entry);
+            const replyTurn = getReplyTurn(entry);
+            const turnConsistency = replyTurn !== null ? consistency?.get(replyTurn) : undefined;
 
             return (
               <div
                 key={entry.identifier || index}
-                className={`p-2.5 rounded-md ${getMessageBgColor(role, entry.identifier, entry.sender?.appType)}`}
+                className={`p-2.5 rounded-md ${getMessageBgColor(role, entry.identifier, entry.sender?.appType)} ${divergenceStyle?.ring || ''}`}
               >
                 <div className="flex items-center justify-between mb-1">
                   <span className="text-[10px] font-semibold leading-3 text-[#616161] uppercase tracking-wide">
                     {roleLabel}
                   </span>
-                  <span className="text-[10px] font-normal leading-3 text-[#9e9e9e]">
+                  <span className="flex items-center gap-1.5 text-[10px] font-normal leading-3 text-[#9e9e9e]">
+                    {divergenceStyle && entry.divergence && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded border font-medium ${divergenceStyle.badge}`}
+                        title={entry.divergence.reasons.join('\n')}
+                      >
+                        {DIVERGENCE_LABELS[entry.divergence.status]}
+                      </span>
+                    )}
+                    {turnConsistency && (
+                      <span
+                        className={`px-1.5 py-0.5 rounded border ${
+                          turnConsistency.score < LOW_CONSISTENCY
+                            ? 'bg-[#fff3e0] border-[#ff9800] text-[#e65100]'
+                            : 'bg-white/70 border-[#e0e0e0] text-[#616161]'
+                        }`}
+                        title={`Similarity of this reply across ${turnConsistency.samples} samples`}
+                      >
+                        ≈ {formatConsistency(turnConsistency.score)}
+                      </span>
+                    )}
+                    {responseTime?.responseMs != null && (
+                      <span
+                        className="px-1.5 py-0.5 rounded bg-white/70 border border-[#e0e0e0] text-[#616161]"
+                        title={
+                          responseTime.timeToFirstByteMs !== null
+                            ? `Replied in ${formatDuration(responseTime.responseMs)}, first byte after ${formatDuration(responseTime.timeToFirstByteMs)}`
+                            : `Replied ${formatDuration(responseTime.responseMs)} after the customer's message`
+                        }
+                      >
+                        ⏱ {formatDuration(responseTime.responseMs)}
+                      </span>
+                    )}
                     {formatTimestamp(entry.clientTimestamp)}
                   </span>
                 </div>
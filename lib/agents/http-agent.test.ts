@@ -0,0 +1,33 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpChatAgent } from './http-agent';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+});
+
+describe('HttpChatAgent request templates', () => {
+  it('inserts the message and state literally', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({ reply: 'ok' }), { status: 200 }));
+    const agent = new HttpChatAgent({
+      name: 'Test bot',
+      url: 'https://bot.example.com/chat',
+      requestTemplate: { text: 'Customer said: {{message}}', conversation: 'id={{state}}' },
+      responseMessagePath: 'reply',
+    });
+    agent.setState("state $' {{message}}");
+
+    await agent.send("Price is $& or $` and $' and {{state}}");
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1]?.body as string)).toEqual({
+      text: "Customer said: Price is $& or $` and $' and {{state}}",
+      conversation: "id=state $' {{message}}",
+    });
+  });
+});
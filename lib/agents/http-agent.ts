@@ -0,0 +1,246 @@
+import { AgentCheckpoint, AgentMessageResponse, AgentResponseTiming, AgentSendOptions, ConversationalAgent } from './types';
+import {
+  CircuitOpenError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  RetryInfo,
+  getHttpServiceConfig,
+  readTextTimed,
+  resilientFetch,
+} from '@/lib/http/resilient-fetch';
+
+/**
+ * JSON value used for request templates
+ */
+type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | TemplateValue[]
+  | { [key: string]: TemplateValue };
+
+export interface HttpAgentConfig {
+  /** Name recorded alongside generated transcripts */
+  name: string;
+  /** Endpoint that receives each user message */
+  url: string;
+  /** Optional endpoint called by start() to open a conversation and obtain its state */
+  startUrl?: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /**
+   * JSON request body template. String values may contain `{{message}}` and `{{state}}`
+   * placeholders; a value that is exactly `{{state}}` is omitted until a state is known.
+   * A value that is exactly `{{variables}}` becomes the context variables object (omitted when none are sent).
+   */
+  requestTemplate: TemplateValue;
+  /** Dot path of the reply text in the response JSON, e.g. "reply.text" or "choices.0.message.content" */
+  responseMessagePath: string;
+  /** Dot path of the conversation state in the response JSON */
+  responseStatePath?: string;
+  /** Request timeout in milliseconds (default HTTP_AGENT_TIMEOUT_MS, then HTTP_TIMEOUT_MS) */
+  timeoutMs?: number;
+}
+
+export const DEFAULT_HTTP_AGENT_REQUEST_TEMPLATE: TemplateValue = {
+  message: '{{message}}',
+  conversationId: '{{state}}',
+};
+
+/**
+ * Read a value from a JSON object by dot path (array indices allowed)
+ */
+function getByPath(data: unknown, path: string): unknown {
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+    return (value as Record<string, unknown>)[key];
+  }, data);
+}
+
+/**
+ * Conversational agent adapter for a generic HTTP/JSON chat endpoint
+ * The request and response shapes are described by the config, so in-house bots
+ * and vendor prototypes can be replayed without code changes
+ */
+export class HttpChatAgent implements ConversationalAgent {
+  readonly name: string;
+  private config: HttpAgentConfig;
+  private conversationState: string | undefined;
+
+  constructor(config: HttpAgentConfig) {
+    this.config = config;
+    this.name = config.name;
+  }
+
+  async start(): Promise<void> {
+    this.conversationState = undefined;
+
+    if (!this.config.startUrl) {
+      return;
+    }
+
+    const { data } = await this.postJson(this.config.startUrl, this.renderTemplate(this.config.requestTemplate, ''));
+    this.captureState(data);
+  }
+
+  async send(message: string, options?: AgentSendOptions): Promise<AgentMessageResponse> {
+    if (!message || !message.trim()) {
+      throw new Error('Message cannot be empty');
+    }
+
+    const body = this.renderTemplate(this.config.requestTemplate, message.trim(), options?.variables);
+    const { data, timing } = await this.postJson(this.config.url, body, options?.onRetry, options?.signal);
+    this.captureState(data);
+
+    const reply = getByPath(data, this.config.responseMessagePath);
+    if (reply === undefined || reply === null) {
+      console.warn(`${this.name} response has no value at "${this.config.responseMessagePath}"`);
+    }
+
+    return {
+      message: reply === undefined || reply === null ? '' : String(reply),
+      timing,
+    };
+  }
+
+  getState(): string | undefined {
+    return this.conversationState;
+  }
+
+  setState(state: string): void {
+    this.conversationState = state;
+  }
+
+  checkpoint(): AgentCheckpoint {
+    return { state: this.conversationState };
+  }
+
+  restore(checkpoint: AgentCheckpoint): void {
+    this.conversationState = checkpoint.state;
+  }
+
+  private captureState(data: unknown): void {
+    if (!this.config.responseStatePath) {
+      return;
+    }
+    const state = getByPath(data, this.config.responseStatePath);
+    if (state !== undefined && state !== null && state !== '') {
+      this.conversationState = String(state);
+    }
+  }
+
+  /**
+   * Substitute `{{message}}`, `{{state}}` and `{{variables}}` placeholders throughout the template
+   */
+  private renderTemplate(
+    template: TemplateValue,
+    message: string,
+    variables?: Record<string, string>
+  ): TemplateValue | undefined {
+    if (typeof template === 'string') {
+      if (template === '{{state}}') {
+        return this.conversationState;
+      }
+      if (template === '{{variables}}') {
+        return variables && Object.keys(variables).length > 0 ? variables : undefined;
+      }
+      // One pass with replacement functions: neither `$&`-style patterns nor placeholders in the
+      // customer's text are expanded
+      return template.replace(/\{\{(message|state)\}\}/g, (_placeholder, name: string) =>
+        name === 'message' ? message : this.conversationState || ''
+      );
+    }
+
+    if (Array.isArray(template)) {
+      return template
+        .map((item) => this.renderTemplate(item, message, variables))
+        .filter((item): item is TemplateValue => item !== undefined);
+    }
+
+    if (template !== null && typeof template === 'object') {
+      const rendered: { [key: string]: TemplateValue } = {};
+      for (const [key, value] of Object.entries(template)) {
+        const renderedValue = this.renderTemplate(value, message, variables);
+        if (renderedValue !== undefined) {
+          rendered[key] = renderedValue;
+        }
+      }
+      return rendered;
+    }
+
+    return template;
+  }
+
+  /**
+   * POST a JSON body and parse the JSON reply, measuring latency of the attempt that succeeded
+   */
+  private async postJson(
+    url: string,
+    body: unknown,
+    onRetry?: (info: RetryInfo) => void,
+    signal?: AbortSignal
+  ): Promise<{ data: unknown; timing: AgentResponseTiming }> {
+    const serviceConfig = getHttpServiceConfig('HTTP_AGENT');
+
+    let requestStartedAt = Date.now();
+    let response: Response;
+    try {
+      response = await resilientFetch(
+        url,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...this.config.headers,
+          },
+          body: JSON.stringify(body),
+        },
+        {
+          service: this.name,
+          timeoutMs: this.config.timeoutMs ?? serviceConfig.timeoutMs,
+          maxRetries: serviceConfig.maxRetries,
+          // Chat turns are not idempotent: without a key the endpoint honors, only "not processed"
+          // answers (429, 503) are retried
+          ...(serviceConfig.idempotencyKeys && { idempotencyKey: crypto.randomUUID() }),
+          onRetry: (info) => {
+            requestStartedAt = Date.now() + info.delayMs;
+            onRetry?.(info);
+          },
+          signal,
+        }
+      );
+    } catch (fetchError: unknown) {
+      if (
+        fetchError instanceof RequestTimeoutError ||
+        fetchError instanceof CircuitOpenError ||
+        fetchError instanceof RequestAbortedError
+      ) {
+        throw fetchError;
+      }
+      const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
+      throw new Error(`${this.name} network error: ${errorMessage}`);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unable to read error response');
+      throw new Error(
+        `${this.name} request failed: ${response.status} ${response.statusText}. ${errorText.substring(0, 200)}`
+      );
+    }
+
+    const { text, firstByteAt, completedAt } = await readTextTimed(response);
+    const timing: AgentResponseTiming = {
+      timeToFirstByteMs: firstByteAt - requestStartedAt,
+      totalMs: completedAt - requestStartedAt,
+    };
+
+    try {
+      return { data: JSON.parse(text), timing };
+    } catch {
+      throw new Error(`${this.name} returned a response that is not valid JSON`);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * Conversational agent adapters and the factory used by the transcript generation routes
+ */
+
+import { SierraClient } from '@/lib/sierra/client';
+import { getSierraConfig } from '@/lib/config/integrations';
+import { ConversationalAgent } from './types';
+import { HttpChatAgent, DEFAULT_HTTP_AGENT_REQUEST_TEMPLATE } from './http-agent';
+
+export type { ConversationalAgent, AgentMessageResponse, AgentEvent, AgentSendOptions } from './types';
+export { HttpChatAgent } from './http-agent';
+export type { HttpAgentConfig } from './http-agent';
+
+export type ReplayAgentResult =
+  | {
+      agent: ConversationalAgent;
+      /** Version recorded on the generated transcript (`transcripts.sierra_version`) */
+      version: string;
+    }
+  | {
+      /** Environment variables that must be configured first */
+      missing: string[];
+    };
+
+function parseJsonEnv<T>(name: string, fallback: T): T {
+  const raw = process.env[name];
+  if (!raw) {
+    return fallback;
+  }
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    throw new Error(`${name} must be valid JSON`);
+  }
+}
+
+export interface ReplayAgentOptions {
+  /** Sierra release ID or target name (e.g. "QA"); ignored by the HTTP adapter */
+  release?: string;
+}
+
+/**
+ * Create the agent that Agentforce transcripts are replayed against
+ * REPLAY_AGENT selects the adapter: "sierra" (default) or "http" for a generic HTTP/JSON chat endpoint
+ */
+export function createReplayAgent(options: ReplayAgentOptions = {}): ReplayAgentResult {
+  const agentType = process.env.REPLAY_AGENT || 'sierra';
+
+  if (agentType === 'http') {
+    const url = process.env.HTTP_AGENT_URL;
+    if (!url) {
+      return { missing: ['HTTP_AGENT_URL'] };
+    }
+
+    const name = process.env.HTTP_AGENT_NAME || 'http-agent';
+    const agent = new HttpChatAgent({
+      name,
+      url,
+      startUrl: process.env.HTTP_AGENT_START_URL || undefined,
+      headers: parseJsonEnv<Record<string, string>>('HTTP_AGENT_HEADERS', {}),
+      requestTemplate: parseJsonEnv('HTTP_AGENT_REQUEST_TEMPLATE', DEFAULT_HTTP_AGENT_REQUEST_TEMPLATE),
+      responseMessagePath: process.env.HTTP_AGENT_RESPONSE_MESSAGE_PATH || 'message',
+      responseStatePath: process.env.HTTP_AGENT_RESPONSE_STATE_PATH || 'conversationId',
+    });
+
+    return {
+      agent,
+      version: process.env.HTTP_AGENT_VERSION ? `${name}@${process.env.HTTP_AGENT_VERSION}` : name,
+    };
+  }
+
+  if (agentType !== 'sierra') {
+    throw new Error(`Unknown REPLAY_AGENT "${agentType}". Expected "sierra" or "http".`);
+  }
+
+  // The built-in fake Sierra server when OFFLINE_MODE is on
+  const sierraConfig = getSierraConfig();
+
+  if ('missing' in sierraConfig) {
+    return { missing: sierraConfig.missing };
+  }
+
+  // Don't pass state initially - Sierra will return state in the first response
+  // and we'll use that for subsequent messages to maintain conversation continuity
+  return {
+    agent: new SierraClient(
+      sierraConfig.apiUrl,
+      sierraConfig.apiKey,
+      sierraConfig.apiToken,
+      '2025-02-01',
+      undefined,
+      options.release
+    ),
+    version: process.env.SIERRA_VERSION || 'v2.1.0',
+  };
+}
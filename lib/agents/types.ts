@@ -0,0 +1,92 @@
+/**
+ * Common interface for conversational agents that Agentforce transcripts can be replayed against
+ */
+
+import type { RetryInfo } from '@/lib/http/resilient-fetch';
+
+/**
+ * Non-message event emitted by an agent while answering, e.g. a transfer to a human
+ * `kind` is the normalized category; `type` is the agent's own event name
+ */
+export interface AgentEvent {
+  kind: 'request-complete' | 'transfer' | 'end-conversation' | 'tool' | 'other';
+  type: string;
+  /** Reason given by the agent, e.g. why a request completed or a transfer happened */
+  reason?: string;
+  /** The raw event payload */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Measured latency of one reply, from sending the request that succeeded (retry delays excluded)
+ */
+export interface AgentResponseTiming {
+  /** Milliseconds until the first byte of the response body arrived */
+  timeToFirstByteMs: number;
+  /** Milliseconds until the response was complete */
+  totalMs: number;
+}
+
+export interface AgentMessageResponse {
+  /** The agent's complete reply to the message */
+  message: string;
+  /** Non-message events received while answering, in stream order */
+  events?: AgentEvent[];
+  /** Measured response latency, when the agent reports it */
+  timing?: AgentResponseTiming;
+}
+
+export interface AgentSendOptions {
+  /** Context variables for the agent, e.g. customer and account fields from the Salesforce case */
+  variables?: Record<string, string>;
+  /** Called before the request for this message is retried after a transient failure */
+  onRetry?: (info: RetryInfo) => void;
+  /** Cancels the request for this message, e.g. when the user stops a replay */
+  signal?: AbortSignal;
+}
+
+/**
+ * Conversation position captured after a turn, enough to continue the same conversation later
+ */
+export interface AgentCheckpoint {
+  /** Conversation state returned by the agent */
+  state?: string;
+  /** Conversation token issued by the agent, when it rotates tokens per conversation */
+  token?: string;
+}
+
+export interface ConversationalAgent {
+  /** Short identifier of the agent, e.g. "sierra" */
+  readonly name: string;
+
+  /**
+   * Prepare a new conversation. Agents that establish the conversation
+   * on the first message can treat this as a no-op.
+   */
+  start(): Promise<void>;
+
+  /**
+   * Send a user message and return the agent's reply
+   */
+  send(message: string, options?: AgentSendOptions): Promise<AgentMessageResponse>;
+
+  /**
+   * Get the current conversation state, if the agent has returned one
+   */
+  getState(): string | undefined;
+
+  /**
+   * Set the conversation state, e.g. to continue an existing conversation
+   */
+  setState(state: string): void;
+
+  /**
+   * Capture what is needed to continue this conversation later, e.g. to resume an interrupted replay
+   */
+  checkpoint(): AgentCheckpoint;
+
+  /**
+   * Continue a conversation captured by checkpoint()
+   */
+  restore(checkpoint: AgentCheckpoint): void;
+}
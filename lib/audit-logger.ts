@@ -64,11 +64,17 @@ export const AuditActions = {
   VIEW_EVALUATION: 'VIEW_EVALUATION',
   UPDATE_EVALUATION: 'UPDATE_EVALUATION',
   LIST_EVALUATIONS: 'LIST_EVALUATIONS',
+  SYNC_EVALUATIONS_TO_SALESFORCE: 'SYNC_EVALUATIONS_TO_SALESFORCE',
   
   // Transcripts
   VIEW_TRANSCRIPT: 'VIEW_TRANSCRIPT',
   GENERATE_SIERRA_TRANSCRIPT: 'GENERATE_SIERRA_TRANSCRIPT',
   LIST_TRANSCRIPTS: 'LIST_TRANSCRIPTS',
+  REFRESH_TRANSCRIPT: 'REFRESH_TRANSCRIPT',
+  UPDATE_REPLAY_RULES: 'UPDATE_REPLAY_RULES',
+  CREATE_GENERATION_JOB: 'CREATE_GENERATION_JOB',
+  RETRY_GENERATION_JOB: 'RETRY_GENERATION_JOB',
+  CANCEL_GENERATION_JOB: 'CANCEL_GENERATION_JOB',
   
   // Chat
   CREATE_CHAT_SESSION: 'CREATE_CHAT_SESSION',
@@ -0,0 +1,188 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Connection settings for Salesforce and Sierra
+ * With OFFLINE_MODE=true both resolve to the built-in fake servers under /api/fake,
+ * so the load → replay → evaluate flow works without live credentials
+ */
+
+export type SalesforceAuthFlow = 'client_credentials' | 'jwt_bearer' | 'refresh_token';
+
+/**
+ * Credentials for the OAuth grant chosen with SALESFORCE_AUTH_FLOW
+ */
+export type SalesforceAuthConfig =
+  | { flow: 'client_credentials'; clientId: string; clientSecret: string }
+  // Connected app certificate flow: an assertion for `username`, signed with the app's private key
+  | { flow: 'jwt_bearer'; clientId: string; username: string; privateKey: string; audience: string }
+  // Per-user token from a one-time web authorization; the secret is optional for public apps
+  | { flow: 'refresh_token'; clientId: string; clientSecret: string | null; refreshToken: string };
+
+export interface SalesforceConfig {
+  auth: SalesforceAuthConfig;
+  oauthUrl: string;
+  apiVersion: string;
+}
+
+export interface SierraConfig {
+  apiUrl: string;
+  apiKey: string;
+  apiToken: string;
+}
+
+export type ConfigResult<T> = T | { missing: string[] };
+
+/** Credentials accepted by the fake servers */
+export const OFFLINE_CREDENTIALS = {
+  salesforceClientId: 'offline-client-id',
+  salesforceClientSecret: 'offline-client-secret',
+  salesforceAccessToken: 'offline-salesforce-access-token',
+  sierraApiKey: 'offline-sierra-api-key',
+  sierraApiToken: 'offline-sierra-api-token',
+} as const;
+
+export function isOfflineMode(): boolean {
+  return process.env.OFFLINE_MODE === 'true' || process.env.OFFLINE_MODE === '1';
+}
+
+/**
+ * Origin the server uses to reach its own fake endpoints
+ */
+export function getOfflineBaseUrl(): string {
+  const baseUrl =
+    process.env.OFFLINE_BASE_URL ||
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    `http://localhost:${process.env.PORT || 3000}`;
+  return baseUrl.replace(/\/$/, '');
+}
+
+export function getSalesforceConfig(): ConfigResult<SalesforceConfig> {
+  const apiVersion = process.env.SALESFORCE_API_VERSION || 'v65.0';
+
+  if (isOfflineMode()) {
+    return {
+      auth: {
+        flow: 'client_credentials',
+        clientId: OFFLINE_CREDENTIALS.salesforceClientId,
+        clientSecret: OFFLINE_CREDENTIALS.salesforceClientSecret,
+      },
+      oauthUrl: `${getOfflineBaseUrl()}/api/fake/salesforce/oauth/token`,
+      apiVersion,
+    };
+  }
+
+  const flow = process.env.SALESFORCE_AUTH_FLOW || 'client_credentials';
+  const clientId = process.env.SALESFORCE_CLIENT_ID;
+  const clientSecret = process.env.SALESFORCE_CLIENT_SECRET;
+  const oauthUrl = process.env.SALESFORCE_OAUTH_URL;
+
+  const missing = [];
+  if (!clientId) missing.push('SALESFORCE_CLIENT_ID');
+  if (!oauthUrl) missing.push('SALESFORCE_OAUTH_URL');
+
+  if (flow === 'client_credentials') {
+    if (!clientSecret) missing.push('SALESFORCE_CLIENT_SECRET');
+    if (missing.length > 0) {
+      return { missing };
+    }
+    return { auth: { flow, clientId: clientId!, clientSecret: clientSecret! }, oauthUrl: oauthUrl!, apiVersion };
+  }
+
+  if (flow === 'jwt_bearer') {
+    const username = process.env.SALESFORCE_USERNAME;
+    const privateKey = readSalesforcePrivateKey();
+    if (!username) missing.push('SALESFORCE_USERNAME');
+    if (!privateKey) missing.push('SALESFORCE_JWT_PRIVATE_KEY or SALESFORCE_JWT_PRIVATE_KEY_FILE');
+    if (missing.length > 0) {
+      return { missing };
+    }
+    return {
+      auth: {
+        flow,
+        clientId: clientId!,
+        username: username!,
+        privateKey: privateKey!,
+        audience: process.env.SALESFORCE_JWT_AUDIENCE || getDefaultJwtAudience(oauthUrl!),
+      },
+      oauthUrl: oauthUrl!,
+      apiVersion,
+    };
+  }
+
+  if (flow === 'refresh_token') {
+    const refreshToken = process.env.SALESFORCE_REFRESH_TOKEN;
+    if (!refreshToken) missing.push('SALESFORCE_REFRESH_TOKEN');
+    if (missing.length > 0) {
+      return { missing };
+    }
+    return {
+      auth: { flow, clientId: clientId!, clientSecret: clientSecret || null, refreshToken: refreshToken! },
+      oauthUrl: oauthUrl!,
+      apiVersion,
+    };
+  }
+
+  return { missing: ['SALESFORCE_AUTH_FLOW (client_credentials, jwt_bearer or refresh_token)'] };
+}
+
+/**
+ * The JWT signing key: PEM from SALESFORCE_JWT_PRIVATE_KEY (with \n escapes, as env files need)
+ * or read from SALESFORCE_JWT_PRIVATE_KEY_FILE; null when neither is set or the file is unreadable
+ */
+function readSalesforcePrivateKey(): string | null {
+  const inlineKey = process.env.SALESFORCE_JWT_PRIVATE_KEY;
+  if (inlineKey) {
+    return inlineKey.replace(/\\n/g, '\n');
+  }
+
+  const keyFile = process.env.SALESFORCE_JWT_PRIVATE_KEY_FILE;
+  if (!keyFile) {
+    return null;
+  }
+  try {
+    return readFileSync(keyFile, 'utf8');
+  } catch (error: unknown) {
+    console.error(`Failed to read SALESFORCE_JWT_PRIVATE_KEY_FILE (${keyFile}):`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Salesforce only accepts the login or test (sandbox) host as the assertion audience
+ */
+function getDefaultJwtAudience(oauthUrl: string): string {
+  try {
+    const host = new URL(oauthUrl).host;
+    return host === 'test.salesforce.com' || host.includes('.sandbox.')
+      ? 'https://test.salesforce.com'
+      : 'https://login.salesforce.com';
+  } catch {
+    return 'https://login.salesforce.com';
+  }
+}
+
+export function getSierraConfig(): ConfigResult<SierraConfig> {
+  if (isOfflineMode()) {
+    return {
+      apiUrl: `${getOfflineBaseUrl()}/api/fake/sierra`,
+      apiKey: OFFLINE_CREDENTIALS.sierraApiKey,
+      apiToken: OFFLINE_CREDENTIALS.sierraApiToken,
+    };
+  }
+
+  const apiKey = process.env.SIERRA_API_KEY;
+  const apiToken = process.env.SIERRA_API_TOKEN;
+
+  if (!apiKey || !apiToken) {
+    const missing = [];
+    if (!apiKey) missing.push('SIERRA_API_KEY');
+    if (!apiToken) missing.push('SIERRA_API_TOKEN');
+    return { missing };
+  }
+
+  return {
+    apiUrl: process.env.SIERRA_API_URL || 'https://api.sierra.chat',
+    apiKey,
+    apiToken,
+  };
+}
@@ -0,0 +1,127 @@
+import { getEventListeners } from 'events';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitOpenError, getHttpServiceConfig, RequestAbortedError, resilientFetch } from './resilient-fetch';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+// Resolves with a response like fetch, or rejects like fetch does when the request's signal aborts
+function respondAfterAbortOr(response?: Response) {
+  return (_url: string | URL | Request, init?: RequestInit) =>
+    new Promise<Response>((resolve, reject) => {
+      if (response) {
+        resolve(response);
+        return;
+      }
+      init?.signal?.addEventListener('abort', () => reject(Object.assign(new Error('aborted'), { name: 'AbortError' })));
+    });
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubEnv('HTTP_CIRCUIT_FAILURE_THRESHOLD', '1');
+  vi.stubEnv('HTTP_CIRCUIT_RESET_MS', '0');
+  vi.stubEnv('HTTP_RETRY_BASE_DELAY_MS', '0');
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('resilientFetch circuit breaker', () => {
+  it('lets the next request through after a cancelled half-open trial', async () => {
+    const url = 'https://trial-cancel.example.com/chat';
+
+    // Open the breaker
+    fetchMock.mockResolvedValueOnce(new Response('down', { status: 500 }));
+    await resilientFetch(url, {}, { maxRetries: 0 });
+
+    // The trial request is cancelled by the caller
+    const controller = new AbortController();
+    fetchMock.mockImplementationOnce(respondAfterAbortOr());
+    const trial = resilientFetch(url, {}, { maxRetries: 0, signal: controller.signal });
+    controller.abort();
+    await expect(trial).rejects.toBeInstanceOf(RequestAbortedError);
+
+    fetchMock.mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const response = await resilientFetch(url, {}, { maxRetries: 0 });
+    expect(response.status).toBe(200);
+  });
+
+  it('fails fast while a trial is in flight', async () => {
+    const url = 'https://trial-busy.example.com/chat';
+    fetchMock.mockResolvedValueOnce(new Response('down', { status: 500 }));
+    await resilientFetch(url, {}, { maxRetries: 0 });
+
+    const controller = new AbortController();
+    fetchMock.mockImplementationOnce(respondAfterAbortOr());
+    const trial = resilientFetch(url, {}, { maxRetries: 0, signal: controller.signal });
+    await expect(resilientFetch(url, {}, { maxRetries: 0 })).rejects.toBeInstanceOf(CircuitOpenError);
+
+    controller.abort();
+    await expect(trial).rejects.toBeInstanceOf(RequestAbortedError);
+  });
+});
+
+describe('resilientFetch abort listeners', () => {
+  it('detaches from the caller signal once the body is read', async () => {
+    const controller = new AbortController();
+    fetchMock.mockResolvedValueOnce(new Response('hello', { status: 200 }));
+
+    const response = await resilientFetch('https://listeners.example.com/a', {}, { signal: controller.signal });
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(1);
+
+    expect(await response.text()).toBe('hello');
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+
+  it('detaches from the caller signal after failed attempts', async () => {
+    const controller = new AbortController();
+    fetchMock
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+    vi.stubEnv('HTTP_CIRCUIT_FAILURE_THRESHOLD', '5');
+    const response = await resilientFetch('https://listeners.example.com/b', {}, { signal: controller.signal });
+    expect(response.status).toBe(204);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+  });
+});
+
+describe('resilientFetch retries of non-idempotent requests', () => {
+  it('retries a POST only when the upstream did not process it', async () => {
+    vi.stubEnv('HTTP_CIRCUIT_FAILURE_THRESHOLD', '5');
+    fetchMock.mockResolvedValueOnce(new Response('error', { status: 500 }));
+    const failed = await resilientFetch('https://post.example.com/chat', { method: 'POST' });
+    expect(failed.status).toBe(500);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    fetchMock
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const retried = await resilientFetch('https://post.example.com/chat', { method: 'POST' });
+    expect(retried.status).toBe(200);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries a POST after a server error when it carries an idempotency key', async () => {
+    vi.stubEnv('HTTP_CIRCUIT_FAILURE_THRESHOLD', '5');
+    fetchMock
+      .mockResolvedValueOnce(new Response('error', { status: 502 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }));
+    const response = await resilientFetch('https://post-key.example.com/chat', { method: 'POST' }, { idempotencyKey: 'k1' });
+    expect(response.status).toBe(200);
+    expect(new Headers(fetchMock.mock.calls[1][1]?.headers).get('Idempotency-Key')).toBe('k1');
+  });
+});
+
+describe('getHttpServiceConfig', () => {
+  it('leaves idempotency keys off unless the service opts in', () => {
+    expect(getHttpServiceConfig('SIERRA').idempotencyKeys).toBe(false);
+    vi.stubEnv('SIERRA_IDEMPOTENCY_KEYS', 'on');
+    expect(getHttpServiceConfig('SIERRA').idempotencyKeys).toBe(true);
+    expect(getHttpServiceConfig('HTTP_AGENT').idempotencyKeys).toBe(false);
+  });
+});
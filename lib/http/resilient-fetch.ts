@@ -0,0 +1,404 @@
+/**
+ * Shared outbound HTTP layer for Sierra, Salesforce and other agent endpoints
+ * - Configurable timeouts (HTTP_TIMEOUT_MS, or per service e.g. SIERRA_TIMEOUT_MS)
+ * - Jittered exponential backoff that honors Retry-After
+ * - Retries only when safe: idempotent methods, or requests carrying an idempotency key
+ * - Per-host circuit breakers so a failing upstream fails fast instead of timing out every call
+ */
+
+export interface RetryInfo {
+  /** Retry number, starting at 1 */
+  attempt: number;
+  maxRetries: number;
+  /** Delay before the retry in milliseconds */
+  delayMs: number;
+  /** Why the previous attempt failed, e.g. "HTTP 429" or "timeout" */
+  reason: string;
+  url: string;
+}
+
+export interface ResilientFetchOptions {
+  /** Name used in logs and errors, e.g. "Sierra API"; defaults to the URL host */
+  service?: string;
+  /** Per-attempt timeout in milliseconds */
+  timeoutMs?: number;
+  /** Maximum number of retries after the first attempt */
+  maxRetries?: number;
+  /** Treat the request as safe to repeat even if its method is not idempotent */
+  idempotent?: boolean;
+  /** Sent as the Idempotency-Key header (the same key on every attempt); implies `idempotent` */
+  idempotencyKey?: string;
+  /** Called before each retry, e.g. to surface retry counts in progress events */
+  onRetry?: (info: RetryInfo) => void;
+  /** Aborts the in-flight attempt and any pending retry, e.g. when the user cancels */
+  signal?: AbortSignal;
+}
+
+export interface HttpServiceConfig {
+  timeoutMs: number;
+  maxRetries: number;
+  /** The upstream deduplicates requests by Idempotency-Key, so chat turns may carry one and be retried */
+  idempotencyKeys: boolean;
+}
+
+/**
+ * Thrown when a request does not complete within its timeout
+ */
+export class RequestTimeoutError extends Error {
+  timeoutMs: number;
+
+  constructor(service: string, timeoutMs: number) {
+    super(`${service} request timed out after ${timeoutMs / 1000} seconds`);
+    this.name = 'RequestTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when the caller's abort signal fires; never retried and not counted against the circuit breaker
+ */
+export class RequestAbortedError extends Error {
+  constructor(service: string) {
+    super(`${service} request was cancelled`);
+    this.name = 'RequestAbortedError';
+  }
+}
+
+/**
+ * Thrown without making a request while the circuit breaker for a host is open
+ */
+export class CircuitOpenError extends Error {
+  host: string;
+  retryAfterMs: number;
+
+  constructor(host: string, retryAfterMs: number) {
+    super(
+      `Circuit breaker open for ${host} after repeated failures. Retrying in ${Math.ceil(retryAfterMs / 1000)} seconds.`
+    );
+    this.name = 'CircuitOpenError';
+    this.host = host;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const IDEMPOTENT_METHODS = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+// Statuses that guarantee the request was not processed, so even non-idempotent requests can be retried
+const NOT_PROCESSED_STATUSES = new Set([429, 503]);
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Timeout and retry settings for a service, e.g. getHttpServiceConfig('SIERRA')
+ * reads SIERRA_TIMEOUT_MS / SIERRA_MAX_RETRIES, falling back to HTTP_TIMEOUT_MS / HTTP_MAX_RETRIES.
+ * SIERRA_IDEMPOTENCY_KEYS=on declares that the service honors Idempotency-Key (off by default,
+ * as it has to be confirmed per upstream)
+ */
+export function getHttpServiceConfig(prefix: string): HttpServiceConfig {
+  return {
+    timeoutMs: envNumber(`${prefix}_TIMEOUT_MS`, envNumber('HTTP_TIMEOUT_MS', 30000)),
+    maxRetries: envNumber(`${prefix}_MAX_RETRIES`, envNumber('HTTP_MAX_RETRIES', 3)),
+    idempotencyKeys: ['on', 'true', '1'].includes((process.env[`${prefix}_IDEMPOTENCY_KEYS`] || '').trim().toLowerCase()),
+  };
+}
+
+interface CircuitState {
+  failures: number;
+  openedAt: number | null;
+  halfOpenTrial: boolean;
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuit(host: string): CircuitState {
+  let circuit = circuits.get(host);
+  if (!circuit) {
+    circuit = { failures: 0, openedAt: null, halfOpenTrial: false };
+    circuits.set(host, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Throw CircuitOpenError if the host's breaker is open; after the cooldown one trial request is let through
+ * Returns true when the caller's request is that trial
+ */
+function checkCircuit(host: string): boolean {
+  const circuit = getCircuit(host);
+  if (circuit.openedAt === null) {
+    return false;
+  }
+
+  const resetMs = envNumber('HTTP_CIRCUIT_RESET_MS', 30000);
+  const elapsed = Date.now() - circuit.openedAt;
+  if (elapsed < resetMs || circuit.halfOpenTrial) {
+    throw new CircuitOpenError(host, Math.max(0, resetMs - elapsed));
+  }
+
+  circuit.halfOpenTrial = true;
+  return true;
+}
+
+/**
+ * Give up a trial request that ended without a result (cancelled), so the next request becomes the trial
+ */
+function releaseTrial(host: string): void {
+  getCircuit(host).halfOpenTrial = false;
+}
+
+function recordSuccess(host: string): void {
+  const circuit = getCircuit(host);
+  if (circuit.openedAt !== null) {
+    console.log(`Circuit breaker closed for ${host}`);
+  }
+  circuit.failures = 0;
+  circuit.openedAt = null;
+  circuit.halfOpenTrial = false;
+}
+
+/**
+ * Record a failed attempt; returns true when the breaker is (now) open
+ */
+function recordFailure(host: string): boolean {
+  const circuit = getCircuit(host);
+  circuit.failures += 1;
+
+  const threshold = envNumber('HTTP_CIRCUIT_FAILURE_THRESHOLD', 5);
+  if (circuit.halfOpenTrial || (circuit.openedAt === null && circuit.failures >= threshold)) {
+    console.warn(`Circuit breaker opened for ${host} after ${circuit.failures} consecutive failures`);
+    circuit.openedAt = Date.now();
+  }
+  circuit.halfOpenTrial = false;
+  return circuit.openedAt !== null;
+}
+
+/**
+ * Current circuit breaker state per host, for health reporting and pacing background work
+ * `retryAfterMs` is the cooldown left before an open breaker lets a trial request through
+ */
+export function getCircuitBreakerStates(): Array<{
+  host: string;
+  state: 'closed' | 'open' | 'half-open';
+  failures: number;
+  retryAfterMs: number;
+}> {
+  const resetMs = envNumber('HTTP_CIRCUIT_RESET_MS', 30000);
+  return Array.from(circuits.entries()).map(([host, circuit]) => ({
+    host,
+    state: circuit.openedAt === null ? 'closed' : circuit.halfOpenTrial ? 'half-open' : 'open',
+    failures: circuit.failures,
+    retryAfterMs:
+      circuit.openedAt === null || circuit.halfOpenTrial ? 0 : Math.max(0, resetMs - (Date.now() - circuit.openedAt)),
+  }));
+}
+
+/**
+ * Parse a Retry-After header (seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Full-jitter exponential backoff, or the server's Retry-After when it gave one
+ */
+export function getRetryDelay(attempt: number, retryAfterMs: number | null = null): number {
+  const maxDelayMs = envNumber('HTTP_RETRY_MAX_DELAY_MS', 30000);
+  if (retryAfterMs !== null) {
+    return Math.min(retryAfterMs, maxDelayMs);
+  }
+  const baseDelayMs = envNumber('HTTP_RETRY_BASE_DELAY_MS', 500);
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+// Statuses whose responses never have a body (a Response cannot be constructed with one)
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+/**
+ * Call `release` once the response body has been read to the end, cancelled or failed
+ */
+function releaseAfterBody(response: Response, release: () => void): Response {
+  if (!response.body || NULL_BODY_STATUSES.has(response.status)) {
+    release();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error: unknown) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+function getErrorCode(error: unknown): string | undefined {
+  const cause = (error as { cause?: { code?: string } })?.cause;
+  return cause?.code || (error as { code?: string })?.code;
+}
+
+/**
+ * Read a response body as text, noting when the first and last bytes arrived (epoch milliseconds)
+ */
+export async function readTextTimed(
+  response: Response
+): Promise<{ text: string; firstByteAt: number; completedAt: number }> {
+  if (!response.body) {
+    const now = Date.now();
+    return { text: '', firstByteAt: now, completedAt: now };
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let firstByteAt: number | null = null;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    if (firstByteAt === null && value.length > 0) {
+      firstByteAt = Date.now();
+    }
+    text += decoder.decode(value, { stream: true });
+  }
+  text += decoder.decode();
+
+  const completedAt = Date.now();
+  return { text, firstByteAt: firstByteAt ?? completedAt, completedAt };
+}
+
+/**
+ * fetch() with timeouts, retries and circuit breaking
+ * Resolves with the final response (which may still be an error status once retries are exhausted);
+ * throws RequestTimeoutError, RequestAbortedError, CircuitOpenError or the underlying network error
+ */
+export async function resilientFetch(
+  url: string,
+  init: RequestInit = {},
+  options: ResilientFetchOptions = {}
+): Promise<Response> {
+  const host = new URL(url).host;
+  const service = options.service || host;
+  const timeoutMs = options.timeoutMs ?? envNumber('HTTP_TIMEOUT_MS', 30000);
+  const maxRetries = options.maxRetries ?? envNumber('HTTP_MAX_RETRIES', 3);
+  const method = (init.method || 'GET').toUpperCase();
+  const idempotent = options.idempotent || !!options.idempotencyKey || IDEMPOTENT_METHODS.has(method);
+
+  const headers = new Headers(init.headers);
+  if (options.idempotencyKey) {
+    headers.set('Idempotency-Key', options.idempotencyKey);
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new RequestAbortedError(service);
+    }
+    const trial = checkCircuit(host);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    // Stays attached until the response body is consumed, so cancelling also stops reading it
+    const abortAttempt = () => controller.abort();
+    const detachAbort = () => options.signal?.removeEventListener('abort', abortAttempt);
+    options.signal?.addEventListener('abort', abortAttempt, { once: true });
+
+    let response: Response | null = null;
+    let failure: unknown = null;
+    let reason: string;
+
+    try {
+      response = await fetch(url, { ...init, headers, signal: controller.signal });
+    } catch (error: unknown) {
+      detachAbort();
+      if (options.signal?.aborted) {
+        // A cancelled request says nothing about the host's health
+        if (trial) {
+          releaseTrial(host);
+        }
+        throw new RequestAbortedError(service);
+      }
+      const errorName = (error as { name?: string })?.name;
+      failure = errorName === 'AbortError' ? new RequestTimeoutError(service, timeoutMs) : error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response) {
+      if (!RETRYABLE_STATUSES.has(response.status)) {
+        recordSuccess(host);
+        return releaseAfterBody(response, detachAbort);
+      }
+      detachAbort();
+      reason = `HTTP ${response.status}`;
+    } else {
+      reason = failure instanceof RequestTimeoutError ? 'timeout' : getErrorCode(failure) || 'network error';
+    }
+
+    const circuitOpen = recordFailure(host);
+
+    // Once the breaker is open, further attempts would fail fast anyway - return the last result
+    const canRetry =
+      !circuitOpen &&
+      attempt < maxRetries &&
+      (idempotent || (response !== null && NOT_PROCESSED_STATUSES.has(response.status)));
+
+    if (!canRetry) {
+      if (response) {
+        return response;
+      }
+      throw failure;
+    }
+
+    const retryAfterMs = response ? parseRetryAfter(response.headers.get('retry-after')) : null;
+    const delayMs = getRetryDelay(attempt + 1, retryAfterMs);
+
+    // Release the connection held by the failed response before retrying
+    await response?.body?.cancel().catch(() => undefined);
+
+    console.warn(`${service} request failed (${reason}), retry ${attempt + 1}/${maxRetries} in ${delayMs}ms`);
+    options.onRetry?.({ attempt: attempt + 1, maxRetries, delayMs, reason, url });
+    await sleep(delayMs, options.signal);
+  }
+}
@@ -0,0 +1,222 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { Database } from '@/lib/supabase/database.types';
+import { generateSierraSamples } from '@/lib/sierra/generation';
+import { SendEvent } from '@/lib/utils/sse';
+import {
+  appendGenerationEvent,
+  createGenerationStream,
+  GENERATION_STREAM_HEARTBEAT_MS,
+  getGenerationStream,
+  GenerationStreamStatus,
+  isGenerationStreamStale,
+  listGenerationEvents,
+  pruneGenerationStreams,
+  setGenerationStreamStatus,
+  touchGenerationStream,
+} from '@/lib/supabase/generation-streams';
+
+/**
+ * Sierra generations that outlive the request that started them
+ * A generation runs in this server process under a stream ID; every event it sends is numbered
+ * and stored, so clients can attach (and re-attach after a reload or dropped connection) and
+ * receive the events they missed. Clients attached to this process get events as they happen;
+ * a stream run by another process is followed by polling the stored events.
+ */
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type Transcript = Database['public']['Tables']['transcripts']['Row'];
+type GenerationEvent = { type: string } & Record<string, unknown>;
+
+// How often a client attached to another process's stream polls for new events
+const POLL_INTERVAL_MS = 1000;
+
+const TERMINAL_STATUS: Record<string, GenerationStreamStatus> = {
+  complete: 'complete',
+  cancelled: 'cancelled',
+  error: 'error',
+};
+
+interface LiveStream {
+  controller: AbortController;
+  events: Array<{ seq: number; event: GenerationEvent }>;
+  listeners: Set<(seq: number, event: GenerationEvent) => void>;
+}
+
+// Streams running in this process, by stream ID
+const liveStreams = new Map<string, LiveStream>();
+
+export function isTerminalGenerationEvent(event: { type: string }): boolean {
+  return event.type in TERMINAL_STATUS;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start generating in the background; returns the stream ID to attach to
+ */
+export async function startGenerationStream(
+  supabase: ServiceClient,
+  transcript: Transcript,
+  options: { release: string; sampleIndexes: number[]; restart?: boolean; createdBy: string | null }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ streamId: string | null; error: any }> {
+  const { error: pruneError } = await pruneGenerationStreams(supabase);
+  if (pruneError) {
+    console.warn('Failed to prune old generation streams:', pruneError.message);
+  }
+
+  const { stream, error } = await createGenerationStream(supabase, transcript.id, options.release, options.createdBy);
+  if (error || !stream) {
+    return { streamId: null, error };
+  }
+
+  const live: LiveStream = { controller: new AbortController(), events: [], listeners: new Set() };
+  liveStreams.set(stream.id, live);
+
+  // Events are stored one at a time, in order
+  let stored: Promise<void> = Promise.resolve();
+  let seq = 0;
+
+  const sendEvent: SendEvent = (data) => {
+    const event = data as GenerationEvent;
+    const eventSeq = ++seq;
+    live.events.push({ seq: eventSeq, event });
+    live.listeners.forEach((listener) => listener(eventSeq, event));
+
+    stored = stored.then(async () => {
+      const { error: storeError } = await appendGenerationEvent(
+        supabase,
+        stream.id,
+        eventSeq,
+        event,
+        TERMINAL_STATUS[event.type] || 'running'
+      );
+      if (storeError) {
+        console.warn('Failed to store generation event:', storeError.message);
+      }
+    });
+  };
+
+  // Between events (e.g. while a Sierra turn is retried) the stream must not look interrupted
+  const heartbeat = setInterval(async () => {
+    const { error: touchError } = await touchGenerationStream(supabase, stream.id);
+    if (touchError) {
+      console.warn('Failed to record generation heartbeat:', touchError.message);
+    }
+  }, GENERATION_STREAM_HEARTBEAT_MS);
+
+  generateSierraSamples(
+    supabase,
+    transcript,
+    { release: options.release, sampleIndexes: options.sampleIndexes, restart: options.restart, signal: live.controller.signal },
+    sendEvent
+  ).finally(async () => {
+    clearInterval(heartbeat);
+    await stored;
+    // Attached clients fall back to the stored events from here on
+    liveStreams.delete(stream.id);
+  });
+
+  return { streamId: stream.id, error: null };
+}
+
+/**
+ * Stop a stream running in this process; false when it is not running here
+ */
+export function cancelGenerationStream(streamId: string): boolean {
+  const live = liveStreams.get(streamId);
+  if (!live) {
+    return false;
+  }
+  live.controller.abort();
+  return true;
+}
+
+/**
+ * Send a stream's events after `afterSeq` (each with its seq as the event ID), then follow it
+ * until its complete, cancelled or error event, or until `signal` aborts
+ */
+export async function attachGenerationStream(
+  supabase: ServiceClient,
+  streamId: string,
+  afterSeq: number,
+  sendEvent: SendEvent,
+  signal: AbortSignal
+): Promise<void> {
+  const live = liveStreams.get(streamId);
+
+  if (live) {
+    const missed = live.events.filter(({ seq }) => seq > afterSeq);
+    missed.forEach(({ seq, event }) => sendEvent(event, seq));
+    if (missed.some(({ event }) => isTerminalGenerationEvent(event))) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const listener = (seq: number, event: GenerationEvent) => {
+        sendEvent(event, seq);
+        if (isTerminalGenerationEvent(event)) {
+          done();
+        }
+      };
+      const done = () => {
+        live.listeners.delete(listener);
+        signal.removeEventListener('abort', done);
+        resolve();
+      };
+      live.listeners.add(listener);
+      signal.addEventListener('abort', done, { once: true });
+    });
+    return;
+  }
+
+  let lastSeq = afterSeq;
+  let finished = false;
+  while (!signal.aborted) {
+    const { events, error } = await listGenerationEvents(supabase, streamId, lastSeq);
+    if (error) {
+      sendEvent({ type: 'error', message: 'Failed to fetch generation progress', details: error.message });
+      return;
+    }
+
+    for (const { seq, data } of events) {
+      sendEvent(data, seq);
+      lastSeq = seq;
+      if (isTerminalGenerationEvent(data as GenerationEvent)) {
+        return;
+      }
+    }
+
+    // Finished without a final event we could read
+    if (finished) {
+      return;
+    }
+
+    if (events.length === 0) {
+      const { stream, error: streamError } = await getGenerationStream(supabase, streamId);
+      if (streamError || !stream) {
+        sendEvent({ type: 'error', message: 'Generation not found', details: streamError?.message });
+        return;
+      }
+      // The process running it stopped without a final event (restart, crash)
+      if (stream.status === 'running' && isGenerationStreamStale(stream)) {
+        await setGenerationStreamStatus(supabase, streamId, 'error');
+        sendEvent({
+          type: 'error',
+          message: 'Sierra generation was interrupted',
+          details: 'Generate again to resume from the last saved turn.',
+        });
+        return;
+      }
+      if (stream.status !== 'running') {
+        // Its final event was stored before the status changed; read it on the next pass
+        finished = true;
+        continue;
+      }
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,189 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { getCircuitBreakerStates } from '@/lib/http/resilient-fetch';
+import { generateSierraRun, SierraGenerationError } from '@/lib/sierra/generation';
+import { ReplayCancelledError } from '@/lib/sierra/replay';
+import { findTranscriptByIdentifier } from '@/lib/supabase/transcripts';
+import {
+  cancelJobItems,
+  claimNextJobItem,
+  ClaimedJobItem,
+  requeueStaleJobItems,
+  updateJobItem,
+} from '@/lib/supabase/generation-jobs';
+
+/**
+ * Background worker for generation jobs
+ * Runs inside the Next.js server process: started when items are queued (or the jobs page is
+ * opened after a restart) and stops once the queue is empty. Items are replayed with bounded
+ * concurrency (GENERATION_JOB_CONCURRENCY) and spaced out (GENERATION_JOB_INTERVAL_MS); the
+ * spacing doubles after each failed item and no new item starts while a circuit breaker is open.
+ */
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+
+// How often an idle slot checks for newly queued items while others are still running
+const POLL_INTERVAL_MS = 5000;
+// Running items refresh updated_at this often, so they are not mistaken for stale ones
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_INTERVAL_MS = 60000;
+
+// Aborts for the items this process is replaying, by item ID
+const activeItems = new Map<string, AbortController>();
+let workerRunning = false;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start the worker if it is not already running in this process
+ */
+export function startGenerationWorker(): void {
+  if (workerRunning) {
+    return;
+  }
+  workerRunning = true;
+  runWorker()
+    .catch((error) => console.error('Generation worker stopped:', error))
+    .finally(() => {
+      workerRunning = false;
+    });
+}
+
+export function isGenerationWorkerRunning(): boolean {
+  return workerRunning;
+}
+
+/**
+ * Cancel a job: queued items are marked cancelled and items running in this process are aborted
+ * (their partial Sierra runs are kept as cancelled and can be resumed by retrying)
+ */
+export async function cancelGenerationJob(
+  supabase: ServiceClient,
+  jobId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ cancelled: number; error: any }> {
+  const { cancelled, runningItemIds, error } = await cancelJobItems(supabase, jobId);
+  let aborted = 0;
+  runningItemIds.forEach((itemId) => {
+    const controller = activeItems.get(itemId);
+    if (controller) {
+      controller.abort();
+      aborted++;
+    }
+  });
+  return { cancelled: cancelled + aborted, error };
+}
+
+async function runWorker(): Promise<void> {
+  const supabase = await createServiceClient();
+  const concurrency = Math.max(1, envNumber('GENERATION_JOB_CONCURRENCY', 2));
+  const baseIntervalMs = envNumber('GENERATION_JOB_INTERVAL_MS', 2000);
+  let intervalMs = baseIntervalMs;
+  let lastStartedAt = 0;
+  const running = new Set<Promise<void>>();
+
+  const { requeued } = await requeueStaleJobItems(supabase);
+  if (requeued > 0) {
+    console.log(`Generation worker requeued ${requeued} interrupted job items`);
+  }
+
+  while (true) {
+    if (running.size >= concurrency) {
+      await Promise.race(running);
+      continue;
+    }
+
+    // Let an open circuit breaker (e.g. Sierra failing or rate limiting) cool down first
+    const cooldownMs = Math.max(0, ...getCircuitBreakerStates().map((circuit) => circuit.retryAfterMs));
+    const waitMs = Math.max(cooldownMs, lastStartedAt + intervalMs - Date.now());
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+
+    const { item, error } = await claimNextJobItem(supabase);
+    if (error) {
+      console.error('Generation worker failed to claim a job item:', error);
+    }
+    if (!item) {
+      if (running.size === 0) {
+        return;
+      }
+      await Promise.race([...running, sleep(POLL_INTERVAL_MS)]);
+      continue;
+    }
+
+    lastStartedAt = Date.now();
+    const task: Promise<void> = processItem(supabase, item)
+      .then((succeeded) => {
+        intervalMs = succeeded ? baseIntervalMs : Math.min(MAX_INTERVAL_MS, Math.max(1000, intervalMs * 2));
+      })
+      .finally(() => {
+        running.delete(task);
+      });
+    running.add(task);
+  }
+}
+
+/**
+ * Replay one item; returns whether it completed without failed turns
+ */
+async function processItem(supabase: ServiceClient, item: ClaimedJobItem): Promise<boolean> {
+  const controller = new AbortController();
+  activeItems.set(item.id, controller);
+  // On a timer rather than on progress: a single slow Sierra turn can outlast JOB_ITEM_STALE_MS
+  const heartbeat = setInterval(async () => {
+    const { error: heartbeatError } = await updateJobItem(supabase, item.id);
+    if (heartbeatError) {
+      console.warn(`Generation job ${item.job_id}: failed to record heartbeat:`, heartbeatError.message);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const { data: transcript, error: fetchError } = await findTranscriptByIdentifier(supabase, item.transcript_id);
+    if (fetchError || !transcript) {
+      throw new SierraGenerationError('Transcript not found', fetchError?.message);
+    }
+
+    console.log(`Generation job ${item.job_id}: replaying ${transcript.case_number || transcript.id} (attempt ${item.attempts})`);
+
+    const { run } = await generateSierraRun(supabase, transcript, {
+      release: item.release,
+      signal: controller.signal,
+    });
+
+    const failed = run.status === 'failed';
+    await updateJobItem(supabase, item.id, {
+      status: failed ? 'failed' : 'complete',
+      error: failed ? 'Some turns failed. Retrying resumes from the first failed turn.' : null,
+      sierra_run_id: run.id,
+      finished_at: new Date().toISOString(),
+    });
+    return !failed;
+  } catch (error: unknown) {
+    const cancelled = error instanceof ReplayCancelledError;
+    const message =
+      error instanceof SierraGenerationError && error.details
+        ? `${error.message}: ${error.details}`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+    if (!cancelled) {
+      console.error(`Generation job ${item.job_id}: item ${item.id} failed:`, message);
+    }
+    await updateJobItem(supabase, item.id, {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: cancelled ? null : message,
+      finished_at: new Date().toISOString(),
+    });
+    return cancelled;
+  } finally {
+    clearInterval(heartbeat);
+    activeItems.delete(item.id);
+  }
+}
@@ -0,0 +1,153 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { getSalesforceConfig } from '@/lib/config/integrations';
+import { getSalesforceSession } from '@/lib/salesforce/session-manager';
+import {
+  EvaluationSyncConfig,
+  EvaluationSyncError,
+  getEvaluationSyncConfig,
+  syncEvaluationToSalesforce,
+} from '@/lib/salesforce/evaluation-sync';
+import {
+  claimNextEvaluationSync,
+  getNextEvaluationSyncDue,
+  requeueStaleEvaluationSyncs,
+  toTimestamp,
+  updateEvaluationSync,
+} from '@/lib/supabase/evaluation-sync';
+import { Database } from '@/lib/supabase/database.types';
+
+/**
+ * Background worker that writes evaluations to Salesforce
+ * Runs inside the Next.js server process like the generation worker: started when evaluations are
+ * queued (or the sync status is opened after a restart) and stops once nothing is pending. One
+ * evaluation is written at a time. A failed write is retried with a doubling delay
+ * (SALESFORCE_SYNC_RETRY_DELAY_MS, up to an hour) until SALESFORCE_SYNC_MAX_ATTEMPTS; writes
+ * Salesforce rejects outright (e.g. an unknown field) fail without retrying.
+ */
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type EvaluationRow = Database['public']['Tables']['evaluations']['Row'];
+
+// Longest the worker sleeps before checking again for newly queued or due evaluations
+const POLL_INTERVAL_MS = 30000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+let workerRunning = false;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Start the worker if it is not already running in this process
+ */
+export function startSalesforceSyncWorker(): void {
+  if (workerRunning) {
+    return;
+  }
+  workerRunning = true;
+  runWorker()
+    .catch((error) => console.error('Salesforce sync worker stopped:', error))
+    .finally(() => {
+      workerRunning = false;
+    });
+}
+
+export function isSalesforceSyncWorkerRunning(): boolean {
+  return workerRunning;
+}
+
+async function runWorker(): Promise<void> {
+  // Pending evaluations stay queued until the configuration is fixed
+  const config = getEvaluationSyncConfig();
+  if (!config) {
+    return;
+  }
+
+  const supabase = await createServiceClient();
+  const { requeued } = await requeueStaleEvaluationSyncs(supabase);
+  if (requeued > 0) {
+    console.log(`Salesforce sync worker requeued ${requeued} interrupted evaluations`);
+  }
+
+  while (true) {
+    const { evaluation, error } = await claimNextEvaluationSync(supabase);
+    if (error) {
+      console.error('Salesforce sync worker failed to claim an evaluation:', error);
+    }
+
+    if (!evaluation) {
+      const { dueAt, error: dueError } = await getNextEvaluationSyncDue(supabase);
+      if (dueError) {
+        console.error('Salesforce sync worker failed to check for pending evaluations:', dueError);
+      }
+      if (dueAt === null && !dueError) {
+        return;
+      }
+      await sleep(Math.min(POLL_INTERVAL_MS, Math.max(1000, (dueAt ?? 0) - Date.now())));
+      continue;
+    }
+
+    await processEvaluation(supabase, evaluation, config);
+  }
+}
+
+async function processEvaluation(
+  supabase: ServiceClient,
+  evaluation: EvaluationRow,
+  config: EvaluationSyncConfig
+): Promise<void> {
+  const maxAttempts = Math.max(1, envNumber('SALESFORCE_SYNC_MAX_ATTEMPTS', 5));
+  const baseDelayMs = envNumber('SALESFORCE_SYNC_RETRY_DELAY_MS', 60000);
+
+  try {
+    const salesforceConfig = getSalesforceConfig();
+    if ('missing' in salesforceConfig) {
+      throw new EvaluationSyncError(`Missing Salesforce settings: ${salesforceConfig.missing.join(', ')}`, false);
+    }
+
+    const session = await getSalesforceSession(salesforceConfig);
+    const result = await syncEvaluationToSalesforce(session, salesforceConfig.apiVersion, evaluation, config);
+
+    if (result.status === 'skipped') {
+      console.log(`Salesforce sync: skipped evaluation ${evaluation.id}: ${result.reason}`);
+      await updateEvaluationSync(supabase, evaluation.id, {
+        salesforce_sync_status: 'skipped',
+        salesforce_sync_error: result.reason,
+        salesforce_sync_next_attempt_at: null,
+      });
+      return;
+    }
+
+    console.log(`Salesforce sync: wrote evaluation ${evaluation.id} (${config.target}${result.recordId ? ` ${result.recordId}` : ''})`);
+    await updateEvaluationSync(supabase, evaluation.id, {
+      salesforce_sync_status: 'synced',
+      salesforce_sync_error: null,
+      salesforce_sync_next_attempt_at: null,
+      salesforce_record_id: result.recordId,
+      salesforce_synced_at: new Date().toISOString(),
+    });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : String(error);
+    // Network errors and open circuit breakers are worth another try, like 429s and 5xx
+    const retryable = error instanceof EvaluationSyncError ? error.retryable : true;
+    const attempts = evaluation.salesforce_sync_attempts;
+    const giveUp = !retryable || attempts >= maxAttempts;
+    const delayMs = Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * Math.pow(2, attempts - 1));
+
+    console.error(
+      `Salesforce sync: evaluation ${evaluation.id} failed (attempt ${attempts}/${maxAttempts}${giveUp ? '' : `, retrying in ${Math.round(delayMs / 1000)}s`}):`,
+      message
+    );
+    await updateEvaluationSync(supabase, evaluation.id, {
+      salesforce_sync_status: giveUp ? 'failed' : 'pending',
+      salesforce_sync_error: message,
+      salesforce_sync_next_attempt_at: giveUp ? null : toTimestamp(Date.now() + delayMs),
+    });
+  }
+}
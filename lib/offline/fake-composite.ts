@@ -0,0 +1,83 @@
+/**
+ * Composite API evaluator for the fake Salesforce server
+ * Runs GET query subrequests in order, substituting @{referenceId.path} references from earlier
+ * subresponses the way Salesforce does with allOrNone: false
+ */
+
+import { runFakeQuery } from './fake-soql';
+
+export interface FakeCompositeSubrequest {
+  method: string;
+  url: string;
+  referenceId: string;
+}
+
+export interface FakeCompositeSubresponse {
+  referenceId: string;
+  httpStatusCode: number;
+  httpHeaders: Record<string, string>;
+  body: unknown;
+}
+
+const REFERENCE_PATTERN = /@\{(\w+)\.([^}]+)\}/g;
+const QUERY_PATH_PATTERN = /^\/services\/data\/[^/]+\/query\/?\?/;
+
+function failure(referenceId: string, status: number, errorCode: string, message: string): FakeCompositeSubresponse {
+  return { referenceId, httpStatusCode: status, httpHeaders: {}, body: [{ errorCode, message }] };
+}
+
+/**
+ * Read a path such as records[0].Id from an earlier subresponse body
+ */
+function readPath(body: unknown, path: string): unknown {
+  return path
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean)
+    .reduce<unknown>(
+      (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+      body
+    );
+}
+
+export function runFakeComposite(subrequests: FakeCompositeSubrequest[]): FakeCompositeSubresponse[] {
+  const results = new Map<string, FakeCompositeSubresponse>();
+  const responses: FakeCompositeSubresponse[] = [];
+
+  for (const subrequest of subrequests) {
+    const { referenceId } = subrequest;
+    let unresolved: string | null = null;
+
+    const url = subrequest.url.replace(REFERENCE_PATTERN, (reference, sourceId: string, path: string) => {
+      const source = results.get(sourceId);
+      const value = source && source.httpStatusCode < 300 ? readPath(source.body, path) : undefined;
+      if (value === undefined || value === null) {
+        unresolved = unresolved || `Invalid reference specified. No value for ${sourceId}.${path} found in ${sourceId}.`;
+        return reference;
+      }
+      return encodeURIComponent(String(value));
+    });
+
+    let response: FakeCompositeSubresponse;
+    if (unresolved) {
+      response = failure(referenceId, 400, 'PROCESSING_HALTED', unresolved);
+    } else if (subrequest.method.toUpperCase() !== 'GET' || !QUERY_PATH_PATTERN.test(url)) {
+      response = failure(referenceId, 404, 'NOT_FOUND', `The fake server only supports query subrequests: ${subrequest.url}`);
+    } else {
+      const query = new URLSearchParams(url.slice(url.indexOf('?') + 1)).get('q');
+      try {
+        if (!query) {
+          throw new Error('A query string has to be specified');
+        }
+        response = { referenceId, httpStatusCode: 200, httpHeaders: {}, body: runFakeQuery(query) };
+      } catch (error: unknown) {
+        response = failure(referenceId, 400, 'MALFORMED_QUERY', error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    results.set(referenceId, response);
+    responses.push(response);
+  }
+
+  return responses;
+}
@@ -0,0 +1,67 @@
+/**
+ * Record writes for the fake Salesforce server
+ * Accepts the writes the evaluation sync issues - FeedItem posts on a fixture Case and upserts of a
+ * custom object by external ID - and keeps them in memory until the server restarts.
+ */
+
+import { FAKE_CASES, FakeRecord } from './fixtures';
+
+export interface FakeWriteResult {
+  status: number;
+  body: unknown;
+}
+
+const records = new Map<string, FakeRecord>();
+// Custom object record IDs by object, external ID field and value
+const externalIds = new Map<string, string>();
+let nextRecordNumber = 1;
+
+function newRecordId(prefix: string): string {
+  return `${prefix}${String(nextRecordNumber++).padStart(18 - prefix.length, '0')}`;
+}
+
+function failure(status: number, errorCode: string, message: string, fields: string[] = []): FakeWriteResult {
+  return { status, body: [{ errorCode, message, fields }] };
+}
+
+export function createFakeRecord(objectName: string, fields: FakeRecord): FakeWriteResult {
+  if (objectName !== 'FeedItem') {
+    return failure(404, 'NOT_FOUND', `The requested resource does not exist: ${objectName}`);
+  }
+  if (!FAKE_CASES.some((record) => record.Id === fields.ParentId)) {
+    return failure(400, 'INVALID_CROSS_REFERENCE_KEY', 'invalid cross reference id', ['ParentId']);
+  }
+  if (typeof fields.Body !== 'string' || !fields.Body) {
+    return failure(400, 'REQUIRED_FIELD_MISSING', 'Required fields are missing: [Body]', ['Body']);
+  }
+
+  const id = newRecordId('0D5');
+  records.set(id, { ...fields, Id: id, CreatedDate: new Date().toISOString(), attributes: { type: objectName } });
+  return { status: 201, body: { id, success: true, errors: [] } };
+}
+
+export function upsertFakeRecord(
+  objectName: string,
+  externalIdField: string,
+  externalId: string,
+  fields: FakeRecord
+): FakeWriteResult {
+  if (!objectName.endsWith('__c')) {
+    return failure(404, 'NOT_FOUND', `The requested resource does not exist: ${objectName}`);
+  }
+
+  const key = `${objectName}|${externalIdField}|${externalId}`;
+  const existingId = externalIds.get(key);
+  const id = existingId || newRecordId('a0E');
+  records.set(id, { ...records.get(id), ...fields, [externalIdField]: externalId, Id: id, attributes: { type: objectName } });
+  externalIds.set(key, id);
+
+  return { status: existingId ? 200 : 201, body: { id, success: true, errors: [], created: !existingId } };
+}
+
+/**
+ * Records written so far of one object, oldest first
+ */
+export function listFakeRecords(objectName: string): FakeRecord[] {
+  return Array.from(records.values()).filter((record) => (record.attributes as FakeRecord | undefined)?.type === objectName);
+}
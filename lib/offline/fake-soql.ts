@@ -0,0 +1,213 @@
+/**
+ * Minimal SOQL evaluator for the fake Salesforce server
+ * Supports the shapes this app issues: SELECT fields (including Contact.Name style relationship fields)
+ * FROM one object (a fixture, or FeedItems posted to the fake server), WHERE with =, != and IN (a list or a one-field subquery) joined by AND/OR,
+ * ORDER BY one field and LIMIT
+ */
+
+import { FAKE_CASES, FAKE_CONVERSATIONS, FAKE_MESSAGING_SESSIONS, FakeRecord } from './fixtures';
+import { listFakeRecords } from './fake-sobjects';
+
+const FAKE_OBJECTS: Record<string, () => FakeRecord[]> = {
+  Case: () => FAKE_CASES,
+  MessagingSession: () => FAKE_MESSAGING_SESSIONS,
+  Conversation: () => FAKE_CONVERSATIONS,
+  FeedItem: () => listFakeRecords('FeedItem'),
+};
+
+const QUERY_PATTERN =
+  /^SELECT\s+([\s\S]+?)\s+FROM\s+(\w+)(?:\s+WHERE\s+([\s\S]+?))?(?:\s+ORDER\s+BY\s+(\w+(?:\.\w+)?)(?:\s+(ASC|DESC))?)?(?:\s+LIMIT\s+(\d+))?\s*$/i;
+const CONDITION_PATTERN = /^(\w+(?:\.\w+)?)\s*(=|!=|\s+IN\s+)\s*([\s\S]+)$/i;
+
+const SUBQUERY_FIELD_PATTERN = /^SELECT\s+(\w+(?:\.\w+)?)\s+FROM\s/i;
+
+const LITERAL_UNESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+
+interface Condition {
+  field: string;
+  operator: '=' | '!=' | 'IN';
+  values: unknown[];
+}
+
+function readField(record: FakeRecord, path: string): unknown {
+  return path.split('.').reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as FakeRecord)[key] : undefined),
+    record
+  );
+}
+
+/**
+ * Parse a literal: 'quoted' (with backslash escapes such as \' and \n, or ''), number, true/false or null
+ */
+function parseLiteral(raw: string): unknown {
+  const literal = raw.trim();
+  if (literal.startsWith("'") && literal.endsWith("'")) {
+    return literal
+      .slice(1, -1)
+      .replace(/\\([\s\S])|''/g, (match, escaped?: string) => (escaped === undefined ? "'" : LITERAL_UNESCAPES[escaped] ?? escaped));
+  }
+  if (/^null$/i.test(literal)) return null;
+  if (/^(true|false)$/i.test(literal)) return literal.toLowerCase() === 'true';
+  const number = Number(literal);
+  if (literal !== '' && Number.isFinite(number)) return number;
+  throw new Error(`Unsupported literal: ${literal}`);
+}
+
+/**
+ * Split on a keyword (AND/OR) outside quotes and parentheses
+ */
+function splitTopLevel(expression: string, keyword: 'AND' | 'OR'): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let inQuote = false;
+  let start = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+    if (char === '\\' && inQuote) {
+      i++;
+      continue;
+    }
+    if (char === "'") {
+      inQuote = !inQuote;
+    } else if (!inQuote && char === '(') {
+      depth++;
+    } else if (!inQuote && char === ')') {
+      depth--;
+    } else if (
+      !inQuote &&
+      depth === 0 &&
+      /\s/.test(char) &&
+      expression.slice(i + 1, i + 1 + keyword.length).toUpperCase() === keyword &&
+      /\s/.test(expression[i + 1 + keyword.length] || '')
+    ) {
+      parts.push(expression.slice(start, i));
+      i += keyword.length;
+      start = i + 1;
+    }
+  }
+  parts.push(expression.slice(start));
+  return parts.map((part) => part.trim());
+}
+
+function stripParens(expression: string): string {
+  let result = expression.trim();
+  while (result.startsWith('(') && result.endsWith(')')) {
+    const inner = result.slice(1, -1);
+    // Only strip when the parentheses wrap the whole expression
+    let depth = 0;
+    let wraps = true;
+    for (let i = 0; i < inner.length && wraps; i++) {
+      if (inner[i] === '(') depth++;
+      if (inner[i] === ')') depth--;
+      if (depth < 0) wraps = false;
+    }
+    if (!wraps) break;
+    result = inner.trim();
+  }
+  return result;
+}
+
+function parseCondition(expression: string): Condition {
+  const match = expression.match(CONDITION_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported condition: ${expression}`);
+  }
+  const [, field, rawOperator, rawValue] = match;
+  const operator = rawOperator.trim().toUpperCase() as Condition['operator'];
+
+  if (operator === 'IN') {
+    const list = rawValue.trim();
+    if (!list.startsWith('(') || !list.endsWith(')')) {
+      throw new Error(`IN expects a parenthesized list: ${expression}`);
+    }
+    // Semi-join: IN (SELECT Field FROM Object WHERE ...)
+    const subquery = list.slice(1, -1).trim();
+    const subqueryField = subquery.match(SUBQUERY_FIELD_PATTERN);
+    if (subqueryField) {
+      const { records } = runFakeQuery(subquery);
+      return { field, operator, values: records.map((record) => readField(record, subqueryField[1]) ?? null) };
+    }
+    const items = list.slice(1, -1).match(/'(?:\\.|''|[^'\\])*'|[^,\s]+/g) || [];
+    return { field, operator, values: items.map(parseLiteral) };
+  }
+
+  return { field, operator, values: [parseLiteral(rawValue)] };
+}
+
+function matchesCondition(record: FakeRecord, condition: Condition): boolean {
+  const value = readField(record, condition.field) ?? null;
+  const equal = condition.values.some((candidate) => candidate === value);
+  return condition.operator === '!=' ? !equal : equal;
+}
+
+function matchesWhere(record: FakeRecord, expression: string): boolean {
+  return splitTopLevel(stripParens(expression), 'OR').some((disjunct) =>
+    splitTopLevel(disjunct, 'AND').every((conjunct) => {
+      const inner = stripParens(conjunct);
+      // A parenthesized group is evaluated as its own expression
+      return inner !== conjunct ? matchesWhere(record, inner) : matchesCondition(record, parseCondition(conjunct));
+    })
+  );
+}
+
+/**
+ * Copy the selected fields into a record shaped like the REST API returns it
+ */
+function project(record: FakeRecord, objectName: string, fields: string[]): FakeRecord {
+  const result: FakeRecord = { attributes: { type: objectName } };
+  for (const field of fields) {
+    const [head, ...rest] = field.split('.');
+    if (rest.length === 0) {
+      result[head] = record[head] ?? null;
+      continue;
+    }
+    const related = record[head];
+    if (!related || typeof related !== 'object') {
+      result[head] = null;
+      continue;
+    }
+    const target = (result[head] as FakeRecord | undefined) || { attributes: { type: head } };
+    target[rest.join('.')] = readField(related as FakeRecord, rest.join('.')) ?? null;
+    result[head] = target;
+  }
+  return result;
+}
+
+/**
+ * Run a SOQL query against the fixtures; throws on syntax the evaluator does not support
+ */
+export function runFakeQuery(soql: string): { totalSize: number; done: boolean; records: FakeRecord[] } {
+  const match = soql.trim().match(QUERY_PATTERN);
+  if (!match) {
+    throw new Error(`Unsupported query: ${soql}`);
+  }
+
+  const [, rawFields, objectName, where, orderField, orderDirection, limit] = match;
+  const table = FAKE_OBJECTS[objectName]?.();
+  if (!table) {
+    throw new Error(`sObject type '${objectName}' is not supported.`);
+  }
+
+  const fields = rawFields.split(',').map((field) => field.trim()).filter(Boolean);
+  let records = where ? table.filter((record) => matchesWhere(record, where)) : [...table];
+
+  if (orderField) {
+    const direction = orderDirection?.toUpperCase() === 'DESC' ? -1 : 1;
+    records.sort((a, b) => {
+      const left = String(readField(a, orderField) ?? '');
+      const right = String(readField(b, orderField) ?? '');
+      return left.localeCompare(right) * direction;
+    });
+  }
+
+  if (limit) {
+    records = records.slice(0, Number(limit));
+  }
+
+  return {
+    totalSize: records.length,
+    done: true,
+    records: records.map((record) => project(record, objectName, fields)),
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Fixture data served by the fake Salesforce and Sierra servers in offline mode
+ * Case numbers to try: 00001001 (billing, two messaging sessions), 00001002 (password reset),
+ * 00001003 (asks for a human)
+ */
+
+import { ConversationEntry } from '@/types/salesforce';
+
+export type FakeRecord = Record<string, unknown>;
+
+export interface FakeSierraReply {
+  /** Any of these (lowercase) words in the user message selects this reply */
+  keywords: string[];
+  reply: string;
+  /** Non-message event emitted after the reply, e.g. a transfer */
+  event?: { type: string; reason: string };
+}
+
+export const FAKE_CASES: FakeRecord[] = [
+  {
+    Id: '500000000000001001',
+    CaseNumber: '00001001',
+    Subject: 'Charged twice for monthly plan',
+    Status: 'Closed',
+    Origin: 'Messaging',
+    Priority: 'Medium',
+    ContactId: '003000000000001001',
+    AccountId: '001000000000001001',
+    Description: 'Customer was charged twice for the June monthly plan and asked for the duplicate charge to be refunded.',
+    Type: 'Billing',
+    Reason: 'Refund issued',
+    IsClosed: true,
+    Owner: { Name: 'Billing Queue' },
+    Contact: { Name: 'Jordan Rivera', Email: 'jordan.rivera@example.com' },
+    Account: { Name: 'Rivera Household', Type: 'Customer' },
+  },
+  {
+    Id: '500000000000001002',
+    CaseNumber: '00001002',
+    Subject: 'Cannot reset password',
+    Status: 'Closed',
+    Origin: 'Messaging',
+    Priority: 'Low',
+    ContactId: '003000000000001002',
+    AccountId: '001000000000001002',
+    Description: "Password reset emails are not arriving for the customer's account.",
+    Type: 'Account Access',
+    Reason: 'Resolved by self-service',
+    IsClosed: true,
+    Owner: { Name: 'Support Queue' },
+    Contact: { Name: 'Sam Patel', Email: 'sam.patel@example.com' },
+    Account: { Name: 'Patel Consulting', Type: 'Customer' },
+  },
+  {
+    Id: '500000000000001003',
+    CaseNumber: '00001003',
+    Subject: 'Wants to cancel subscription',
+    Status: 'Escalated',
+    Origin: 'Messaging',
+    Priority: 'High',
+    ContactId: '003000000000001003',
+    AccountId: '001000000000001003',
+    Description: 'Customer wants to cancel their subscription because of the price and asked for a person.',
+    Type: 'Cancellation',
+    IsClosed: false,
+    Owner: { Name: 'Morgan Lee' },
+    Contact: { Name: 'Alex Kim', Email: 'alex.kim@example.com' },
+    Account: { Name: 'Kim Studio', Type: 'Customer' },
+  },
+];
+
+export const FAKE_MESSAGING_SESSIONS: FakeRecord[] = [
+  {
+    Id: '0Mw000000000001001',
+    Name: 'MS-0001001',
+    ConversationId: '0dw000000000001001',
+    CaseId: '500000000000001001',
+    ChannelType: 'EmbeddedMessaging',
+    StartTime: '2025-06-02T15:04:00.000+0000',
+  },
+  {
+    Id: '0Mw000000000001002',
+    Name: 'MS-0001002',
+    ConversationId: '0dw000000000001002',
+    CaseId: '500000000000001002',
+    ChannelType: 'EmbeddedMessaging',
+    StartTime: '2025-06-03T09:30:00.000+0000',
+  },
+  {
+    Id: '0Mw000000000001003',
+    Name: 'MS-0001003',
+    ConversationId: '0dw000000000001003',
+    CaseId: '500000000000001003',
+    ChannelType: 'EmbeddedMessaging',
+    StartTime: '2025-06-04T18:12:00.000+0000',
+  },
+  {
+    // The customer of case 00001001 came back about the refund: a second session on the same case
+    Id: '0Mw000000000001004',
+    Name: 'MS-0001004',
+    ConversationId: '0dw000000000001004',
+    CaseId: '500000000000001001',
+    ChannelType: 'EmbeddedMessaging',
+    StartTime: '2025-06-09T11:45:00.000+0000',
+  },
+];
+
+export const FAKE_CONVERSATIONS: FakeRecord[] = [
+  { Id: '0dw000000000001001', ConversationIdentifier: '6f1c2a9e-0001-4a4e-9d1a-000000001001' },
+  { Id: '0dw000000000001002', ConversationIdentifier: '6f1c2a9e-0002-4a4e-9d1a-000000001002' },
+  { Id: '0dw000000000001003', ConversationIdentifier: '6f1c2a9e-0003-4a4e-9d1a-000000001003' },
+  { Id: '0dw000000000001004', ConversationIdentifier: '6f1c2a9e-0004-4a4e-9d1a-000000001004' },
+];
+
+/**
+ * Build Agentforce conversation entries from [role, text] turns, 20 seconds apart
+ */
+function buildConversation(
+  conversationKey: string,
+  startTime: string,
+  turns: Array<['EndUser' | 'Chatbot' | 'Agent' | 'System', string]>
+): ConversationEntry[] {
+  const start = Date.parse(startTime);
+  return turns.map(([role, text], index) => {
+    const timestamp = start + index * 20000;
+    return {
+      identifier: `${conversationKey}-entry-${index + 1}`,
+      messageText: text,
+      clientTimestamp: timestamp,
+      serverReceivedTimestamp: timestamp + 150,
+      sender: {
+        role,
+        ...(role === 'Chatbot' && { appType: 'chatbot', subject: 'Agentforce Service Agent' }),
+        ...(role === 'Agent' && { subject: 'Support Representative' }),
+      },
+      type: 'Message',
+    };
+  });
+}
+
+/** Conversation entries keyed by ConversationIdentifier */
+export const FAKE_CONVERSATION_ENTRIES: Record<string, ConversationEntry[]> = {
+  '6f1c2a9e-0001-4a4e-9d1a-000000001001': buildConversation('1001', '2025-06-02T15:04:00.000Z', [
+    ['Chatbot', 'Hi, I am the virtual assistant. How can I help you today?'],
+    ['EndUser', 'Hi, I was charged twice for my monthly plan this month.'],
+    ['Chatbot', 'Sorry about that! I can look into it. Can you confirm the email on your account?'],
+    ['EndUser', 'It is jordan.rivera@example.com'],
+    ['Chatbot', 'Thanks. I see two charges of $29.99 on June 1st. One of them is a duplicate.'],
+    ['EndUser', 'Can I get a refund for the duplicate charge?'],
+    ['Chatbot', 'Yes, I have issued a refund of $29.99. It will appear in 3-5 business days.'],
+    ['EndUser', 'Great, thank you!'],
+    ['Chatbot', 'You are welcome! Is there anything else I can help with?'],
+    ['EndUser', 'No, that is all.'],
+  ]),
+  '6f1c2a9e-0002-4a4e-9d1a-000000001002': buildConversation('1002', '2025-06-03T09:30:00.000Z', [
+    ['Chatbot', 'Hello! What can I help you with?'],
+    ['EndUser', 'I cannot reset my password, the reset email never arrives.'],
+    ['Chatbot', 'Let me help. Please check your spam folder for an email from no-reply@example.com.'],
+    ['EndUser', 'It is not in spam either.'],
+    ['Chatbot', 'I have sent a new reset link. It expires in 30 minutes.'],
+    ['EndUser', 'Got it, the password reset worked now. Thanks!'],
+  ]),
+  '6f1c2a9e-0003-4a4e-9d1a-000000001003': buildConversation('1003', '2025-06-04T18:12:00.000Z', [
+    ['Chatbot', 'Hi there! How can I help?'],
+    ['EndUser', 'I want to cancel my subscription.'],
+    ['Chatbot', 'I can help with that. May I ask why you would like to cancel?'],
+    ['EndUser', 'It is too expensive. Can I talk to a human agent please?'],
+    ['System', 'Transferring you to a support representative.'],
+    ['Agent', 'Hi Alex, I can offer you 50% off for the next three months if you stay.'],
+    ['EndUser', 'No thanks, please cancel it.'],
+    ['Agent', 'Done. Your subscription is cancelled effective today.'],
+  ]),
+  '6f1c2a9e-0004-4a4e-9d1a-000000001004': buildConversation('1004', '2025-06-09T11:45:00.000Z', [
+    ['Chatbot', 'Welcome back! How can I help you today?'],
+    ['EndUser', 'I was promised a refund for a duplicate charge last week but have not seen it yet.'],
+    ['Chatbot', 'I can check that. The refund of $29.99 was issued on June 2nd and is on its way to your card.'],
+    ['EndUser', 'Thanks, I will keep an eye on my statement.'],
+  ]),
+};
+
+/** Keyword-matched replies of the fake Sierra agent, first match wins */
+export const FAKE_SIERRA_REPLIES: FakeSierraReply[] = [
+  {
+    keywords: ['human', 'representative', 'person'],
+    reply: 'I understand. Let me connect you with a member of our support team who can help further.',
+    event: { type: 'transfer', reason: 'customer requested a human agent' },
+  },
+  {
+    keywords: ['refund'],
+    reply: 'I have processed a refund for the duplicate charge. You will see it on your statement within 3-5 business days.',
+  },
+  {
+    keywords: ['charged', 'charge', 'billing', 'bill'],
+    reply: 'I am sorry about the billing issue. I can see a duplicate charge on your account and can refund it for you.',
+  },
+  {
+    keywords: ['password', 'reset', 'login'],
+    reply: 'I have sent a fresh password reset link to the email on file. It is valid for 30 minutes.',
+  },
+  {
+    keywords: ['cancel', 'cancellation'],
+    reply: 'I can help you cancel. Before I do, would a discount on your plan change your mind?',
+  },
+  {
+    keywords: ['email', '@'],
+    reply: 'Thanks, I found your account.',
+  },
+  {
+    keywords: ['thanks', 'thank', 'great'],
+    reply: 'Happy to help! Is there anything else I can do for you?',
+  },
+  {
+    keywords: ['no', 'all', 'bye'],
+    reply: 'Thanks for chatting with us. Have a great day!',
+    event: { type: 'end-conversation', reason: 'customer has no further questions' },
+  },
+];
+
+export const FAKE_SIERRA_DEFAULT_REPLY = 'Thanks for the details. Could you tell me a bit more so I can help?';
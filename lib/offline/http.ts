@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isOfflineMode } from '@/lib/config/integrations';
+
+/**
+ * Fake endpoints only exist in offline mode; everywhere else they 404 like any unknown route
+ */
+export function requireOfflineMode(): NextResponse | null {
+  if (isOfflineMode()) {
+    return null;
+  }
+  return NextResponse.json({ error: 'Not found' }, { status: 404 });
+}
+
+/**
+ * Check the request's bearer token against the one the fake server issued
+ */
+export function hasBearerToken(request: NextRequest, expected: string): boolean {
+  return request.headers.get('authorization') === `Bearer ${expected}`;
+}
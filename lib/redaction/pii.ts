@@ -0,0 +1,312 @@
+import { createHmac } from 'crypto';
+import { ConversationEntry } from '@/types/salesforce';
+
+/**
+ * PII redaction for transcripts and replay
+ * Detects common US PII (emails, phone numbers, SSNs/ITINs, card numbers, bank routing and account
+ * numbers) and replaces it using a configurable masking strategy:
+ * - pseudonymize: numbered tokens, e.g. [SSN_1]; the same value gets the same token in one transcript
+ * - hash: keyed hash tokens, e.g. [SSN_5f0c2a9d]; the same value gets the same token everywhere (needs PII_REDACTION_SECRET)
+ * - partial: keep the last 4 digits, e.g. ***-**-6789
+ * - mask: replace every letter and digit with *
+ * - remove: [REDACTED]
+ * Configured with PII_REDACTION (set to "off" to disable), PII_REDACTION_STRATEGY and
+ * PII_REDACTION_STRATEGIES (per type overrides, e.g. "card:partial,email:mask").
+ */
+
+export type PiiType = 'email' | 'ssn' | 'card' | 'routing' | 'bank_account' | 'phone';
+
+export type MaskingStrategy = 'pseudonymize' | 'hash' | 'partial' | 'mask' | 'remove';
+
+export type RedactionCounts = Partial<Record<PiiType, number>>;
+
+export interface RedactionConfig {
+  enabled: boolean;
+  defaultStrategy: MaskingStrategy;
+  strategies: Partial<Record<PiiType, MaskingStrategy>>;
+  /** Key for the hash strategy */
+  secret?: string;
+}
+
+interface PiiDetector {
+  type: PiiType;
+  pattern: RegExp;
+  /** Extra check on a match, e.g. a checksum or nearby keywords */
+  validate?: (value: string, text: string, index: number) => boolean;
+}
+
+const PII_TYPES: PiiType[] = ['email', 'ssn', 'card', 'routing', 'bank_account', 'phone'];
+const MASKING_STRATEGIES: MaskingStrategy[] = ['pseudonymize', 'hash', 'partial', 'mask', 'remove'];
+
+const TOKEN_LABELS: Record<PiiType, string> = {
+  email: 'EMAIL',
+  ssn: 'SSN',
+  card: 'CARD',
+  routing: 'ROUTING',
+  bank_account: 'ACCOUNT',
+  phone: 'PHONE',
+};
+
+// Characters before a match searched for keywords such as "routing" or "SSN"
+const CONTEXT_WINDOW = 40;
+
+function digitsOf(value: string): string {
+  return value.replace(/\D/g, '');
+}
+
+function precededBy(text: string, index: number, keywords: RegExp): boolean {
+  return keywords.test(text.slice(Math.max(0, index - CONTEXT_WINDOW), index));
+}
+
+function isLuhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function isAbaRoutingNumber(digits: string): boolean {
+  if (digits.length !== 9) {
+    return false;
+  }
+  const d = digits.split('').map(Number);
+  const sum = 3 * (d[0] + d[3] + d[6]) + 7 * (d[1] + d[4] + d[7]) + (d[2] + d[5] + d[8]);
+  return sum % 10 === 0;
+}
+
+const SSN_KEYWORDS = /\b(?:ssn|social(?: security)?|itin|tax ?id)\b/i;
+const ROUTING_KEYWORDS = /\b(?:routing|aba|rtn|transit)\b/i;
+const ACCOUNT_KEYWORDS = /\b(?:account|acct|checking|savings)\b/i;
+
+/**
+ * Detectors run in this order; text already replaced by an earlier detector is not matched again
+ */
+const DETECTORS: PiiDetector[] = [
+  {
+    type: 'email',
+    pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g,
+  },
+  {
+    // Formatted SSNs/ITINs anywhere; nine bare digits only when the customer calls it an SSN
+    type: 'ssn',
+    pattern: /\b\d{3}([- ])\d{2}\1\d{4}\b|\b\d{9}\b/g,
+    validate: (value, text, index) => {
+      const digits = digitsOf(value);
+      if (digits.startsWith('000') || digits.startsWith('666') || digits.slice(3, 5) === '00' || digits.endsWith('0000')) {
+        return false;
+      }
+      return /\D/.test(value) || precededBy(text, index, SSN_KEYWORDS);
+    },
+  },
+  {
+    type: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: (value) => isLuhnValid(digitsOf(value)),
+  },
+  {
+    // Nine digits passing the ABA checksum, or any nine digits called a routing number
+    type: 'routing',
+    pattern: /\b\d{9}\b/g,
+    validate: (value, text, index) => isAbaRoutingNumber(value) || precededBy(text, index, ROUTING_KEYWORDS),
+  },
+  {
+    type: 'bank_account',
+    pattern: /\b\d{6,17}\b/g,
+    validate: (value, text, index) => precededBy(text, index, ACCOUNT_KEYWORDS),
+  },
+  {
+    type: 'phone',
+    pattern: /(?:\+?1[ .-]?)?(?:\(\d{3}\)|\b\d{3})[ .-]?\d{3}[ .-]?\d{4}\b/g,
+  },
+];
+
+function parseStrategy(value: string | undefined): MaskingStrategy | undefined {
+  const normalized = value?.trim().toLowerCase();
+  return MASKING_STRATEGIES.find((strategy) => strategy === normalized);
+}
+
+/**
+ * Redaction settings from the environment; redaction is on by default
+ */
+export function getRedactionConfig(): RedactionConfig {
+  const strategies: Partial<Record<PiiType, MaskingStrategy>> = {};
+  (process.env.PII_REDACTION_STRATEGIES || '').split(',').forEach((pair) => {
+    const [type, strategy] = pair.split(':').map((part) => part?.trim().toLowerCase());
+    const parsed = parseStrategy(strategy);
+    if (PII_TYPES.includes(type as PiiType) && parsed) {
+      strategies[type as PiiType] = parsed;
+    }
+  });
+
+  return {
+    enabled: !['off', 'false', '0'].includes((process.env.PII_REDACTION || '').trim().toLowerCase()),
+    defaultStrategy: parseStrategy(process.env.PII_REDACTION_STRATEGY) || 'pseudonymize',
+    strategies,
+    secret: process.env.PII_REDACTION_SECRET || undefined,
+  };
+}
+
+/**
+ * Redacts PII from text, remembering the pseudonym given to each value
+ * Use one Redactor per transcript so repeated values get the same token across turns
+ */
+export class Redactor {
+  private config: RedactionConfig;
+  private pseudonyms = new Map<string, string>();
+  private nextIndex: Partial<Record<PiiType, number>> = {};
+  private redactionCounts: RedactionCounts = {};
+  private warnedMissingSecret = false;
+
+  constructor(config: RedactionConfig = getRedactionConfig()) {
+    this.config = config;
+  }
+
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /** Values replaced so far, per PII type */
+  get counts(): RedactionCounts {
+    return { ...this.redactionCounts };
+  }
+
+  get total(): number {
+    return Object.values(this.redactionCounts).reduce((sum, count) => sum + (count || 0), 0);
+  }
+
+  redact(text: string): string {
+    if (!this.config.enabled || !text) {
+      return text;
+    }
+
+    let result = text;
+    for (const detector of DETECTORS) {
+      result = result.replace(detector.pattern, (value: string, ...args: unknown[]) => {
+        // replace() passes the offset and whole string after any capture groups
+        const index = args[args.length - 2] as number;
+        const source = args[args.length - 1] as string;
+        if (detector.validate && !detector.validate(value, source, index)) {
+          return value;
+        }
+        this.redactionCounts[detector.type] = (this.redactionCounts[detector.type] || 0) + 1;
+        return this.replacement(detector.type, value);
+      });
+    }
+    return result;
+  }
+
+  private replacement(type: PiiType, value: string): string {
+    let strategy = this.config.strategies[type] || this.config.defaultStrategy;
+    if (strategy === 'hash' && !this.config.secret) {
+      if (!this.warnedMissingSecret) {
+        console.warn('PII_REDACTION_SECRET is not set; using pseudonymize instead of hash redaction');
+        this.warnedMissingSecret = true;
+      }
+      strategy = 'pseudonymize';
+    }
+
+    // Emails compare case-insensitively, numbers by their digits
+    const normalized = type === 'email' ? value.toLowerCase() : digitsOf(value);
+
+    switch (strategy) {
+      case 'pseudonymize': {
+        const key = `${type}:${normalized}`;
+        let token = this.pseudonyms.get(key);
+        if (!token) {
+          const index = (this.nextIndex[type] || 0) + 1;
+          this.nextIndex[type] = index;
+          token = `[${TOKEN_LABELS[type]}_${index}]`;
+          this.pseudonyms.set(key, token);
+        }
+        return token;
+      }
+      case 'hash': {
+        const hash = createHmac('sha256', this.config.secret!).update(`${type}:${normalized}`).digest('hex');
+        return `[${TOKEN_LABELS[type]}_${hash.slice(0, 8)}]`;
+      }
+      case 'partial': {
+        if (type === 'email') {
+          const [local, domain] = value.split('@');
+          return `${local[0]}***@${domain}`;
+        }
+        let keep = 4;
+        return value
+          .split('')
+          .reverse()
+          .map((char) => (/\d/.test(char) && keep-- <= 0 ? '*' : char))
+          .reverse()
+          .join('');
+      }
+      case 'mask':
+        return value.replace(/[A-Za-z0-9]/g, '*');
+      case 'remove':
+        return '[REDACTED]';
+    }
+  }
+}
+
+export interface RedactionSummary {
+  counts: RedactionCounts;
+  total: number;
+  strategy: MaskingStrategy;
+  redacted_at: string;
+}
+
+/**
+ * Counts and settings recorded in transcripts.metadata.redaction
+ */
+export function summarizeRedaction(redactor: Redactor, config: RedactionConfig = getRedactionConfig()): RedactionSummary {
+  return {
+    counts: redactor.counts,
+    total: redactor.total,
+    strategy: config.defaultStrategy,
+    redacted_at: new Date().toISOString(),
+  };
+}
+
+export function redactVariables(variables: Record<string, string>, redactor: Redactor): Record<string, string> {
+  return Object.fromEntries(Object.entries(variables).map(([name, value]) => [name, redactor.redact(value)]));
+}
+
+export function redactEntries(entries: ConversationEntry[], redactor: Redactor): ConversationEntry[] {
+  return entries.map((entry) =>
+    entry.messageText ? { ...entry, messageText: redactor.redact(entry.messageText) } : entry
+  );
+}
+
+/**
+ * Redact a transcript fetched from Salesforce before it is stored
+ * Variables and case context are redacted first and share the redactor with the entries, so a value
+ * from the case and the same value typed by the customer get the same pseudonym.
+ */
+export function redactTranscript(
+  entries: ConversationEntry[],
+  variables: Record<string, string>,
+  caseContext: Record<string, string> = {}
+): {
+  entries: ConversationEntry[];
+  variables: Record<string, string>;
+  caseContext: Record<string, string>;
+  redaction: RedactionSummary | null;
+} {
+  const config = getRedactionConfig();
+  if (!config.enabled) {
+    return { entries, variables, caseContext, redaction: null };
+  }
+  const redactor = new Redactor(config);
+  const redactedVariables = redactVariables(variables, redactor);
+  const redactedContext = redactVariables(caseContext, redactor);
+  const redactedEntries = redactEntries(entries, redactor);
+  return {
+    entries: redactedEntries,
+    variables: redactedVariables,
+    caseContext: redactedContext,
+    redaction: summarizeRedaction(redactor, config),
+  };
+}
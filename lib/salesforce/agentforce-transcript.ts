@@ -0,0 +1,46 @@
+import { SalesforceSession } from './client';
+import { getConversationEntries, getConversationIdentifierByMessagingSessionId } from './conversation';
+import { fetchSierraVariablesForCase, readCaseContext, summarizeCaseOutcome } from './case-context';
+import { redactTranscript, RedactionSummary } from '@/lib/redaction/pii';
+import { CaseOutcome, ConversationEntry } from '@/types/salesforce';
+
+/**
+ * Salesforce's current copy of a stored transcript's conversation, prepared the same way as at ingest
+ */
+export interface AgentforceTranscriptCopy {
+  entries: ConversationEntry[];
+  sierraVariables: Record<string, string>;
+  caseContext: Record<string, string>;
+  caseOutcome: CaseOutcome;
+  redaction: RedactionSummary | null;
+}
+
+/**
+ * Fetch the conversation of a messaging session again, e.g. to compare it with the stored transcript
+ * The entries are redacted together with the case variables and context, as at ingest, so unchanged
+ * entries come out identical to the stored ones.
+ */
+export async function fetchAgentforceTranscript(
+  session: SalesforceSession,
+  apiVersion: string,
+  messagingSessionId: string
+): Promise<AgentforceTranscriptCopy> {
+  const conversation = await getConversationIdentifierByMessagingSessionId(session, messagingSessionId, apiVersion);
+  if (!conversation) {
+    throw new Error(`No MessagingSession found with Id or Name: ${messagingSessionId}`);
+  }
+
+  const entries = await getConversationEntries(session, conversation.conversationIdentifier, apiVersion);
+  const sierraVariables = await fetchSierraVariablesForCase(session, conversation.caseId, apiVersion);
+  const caseContext = readCaseContext(conversation.caseContextRecord);
+  const caseOutcome = summarizeCaseOutcome(conversation.caseContextRecord, entries);
+  const redacted = redactTranscript(entries, sierraVariables, caseContext);
+
+  return {
+    entries: redacted.entries,
+    sierraVariables: redacted.variables,
+    caseContext: redacted.caseContext,
+    caseOutcome,
+    redaction: redacted.redaction,
+  };
+}
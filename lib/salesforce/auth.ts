@@ -0,0 +1,141 @@
+import { createHash, createSign } from 'crypto';
+import { SalesforceAuthConfig, SalesforceAuthFlow } from '@/lib/config/integrations';
+import { SalesforceAuthResponse } from '@/types/salesforce';
+
+/**
+ * OAuth grants a SalesforceSession can authenticate with, chosen by SALESFORCE_AUTH_FLOW
+ * - client_credentials: the connected app's key and secret
+ * - jwt_bearer: an assertion for a user, signed here with the connected app's private key
+ * - refresh_token: a per-user refresh token (kept up to date when the app rotates it)
+ */
+
+const JWT_BEARER_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:jwt-bearer';
+// Salesforce rejects assertions that expire more than 3 minutes out
+const JWT_ASSERTION_LIFETIME_SECONDS = 180;
+
+export interface SalesforceAuthStrategy {
+  flow: SalesforceAuthFlow;
+  /** Form fields of the token request */
+  buildTokenRequest(): URLSearchParams;
+  /** Called with every successful grant */
+  onGrant?(grant: SalesforceAuthResponse): void;
+}
+
+function base64Url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Sign a JWT bearer assertion (RS256) with the connected app's private key
+ */
+export function signJwtAssertion(
+  auth: Extract<SalesforceAuthConfig, { flow: 'jwt_bearer' }>,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): string {
+  const header = base64Url(JSON.stringify({ alg: 'RS256', typ: 'JWT' }));
+  const claims = base64Url(
+    JSON.stringify({
+      iss: auth.clientId,
+      sub: auth.username,
+      aud: auth.audience,
+      exp: nowSeconds + JWT_ASSERTION_LIFETIME_SECONDS,
+    })
+  );
+  const signingInput = `${header}.${claims}`;
+  const signature = createSign('RSA-SHA256').update(signingInput).sign(auth.privateKey);
+  return `${signingInput}.${base64Url(signature)}`;
+}
+
+// Refresh tokens are secrets; sessions are told apart by a digest
+function digest(value: string): string {
+  return createHash('sha256').update(value).digest('hex').slice(0, 12);
+}
+
+/**
+ * Whose token a configuration obtains (flow with client, user or refresh token), without secrets
+ */
+export function getAuthIdentity(auth: SalesforceAuthConfig): string {
+  switch (auth.flow) {
+    case 'client_credentials':
+      return `${auth.flow}|${auth.clientId}`;
+    case 'jwt_bearer':
+      return `${auth.flow}|${auth.clientId}|${auth.username}`;
+    case 'refresh_token':
+      return `${auth.flow}|${auth.clientId}|${digest(auth.refreshToken)}`;
+  }
+}
+
+export function createAuthStrategy(auth: SalesforceAuthConfig): SalesforceAuthStrategy {
+  switch (auth.flow) {
+    case 'client_credentials':
+      return {
+        flow: auth.flow,
+        buildTokenRequest: () =>
+          new URLSearchParams({
+            grant_type: 'client_credentials',
+            client_id: auth.clientId,
+            client_secret: auth.clientSecret,
+          }),
+      };
+
+    case 'jwt_bearer':
+      return {
+        flow: auth.flow,
+        // A fresh assertion per request, as each one expires within minutes
+        buildTokenRequest: () =>
+          new URLSearchParams({
+            grant_type: JWT_BEARER_GRANT_TYPE,
+            assertion: signJwtAssertion(auth),
+          }),
+      };
+
+    case 'refresh_token': {
+      let refreshToken = auth.refreshToken;
+      return {
+        flow: auth.flow,
+        buildTokenRequest: () => {
+          const form = new URLSearchParams({
+            grant_type: 'refresh_token',
+            client_id: auth.clientId,
+            refresh_token: refreshToken,
+          });
+          if (auth.clientSecret) {
+            form.append('client_secret', auth.clientSecret);
+          }
+          return form;
+        },
+        onGrant: (grant) => {
+          if (grant.refresh_token && grant.refresh_token !== refreshToken) {
+            console.log('Salesforce rotated the refresh token; using the new one until the server restarts');
+            refreshToken = grant.refresh_token;
+          }
+        },
+      };
+    }
+  }
+}
+
+/**
+ * Epoch milliseconds at which a granted token expires, or null when the grant does not say
+ * Uses `expires_in` when Salesforce sends it, else the `exp` claim of a JWT-based access token.
+ */
+export function getGrantExpiry(grant: SalesforceAuthResponse, issuedAt: number): number | null {
+  const expiresIn = Number(grant.expires_in);
+  if (grant.expires_in !== undefined && Number.isFinite(expiresIn) && expiresIn > 0) {
+    return issuedAt + expiresIn * 1000;
+  }
+
+  const parts = grant.access_token.split('.');
+  if (parts.length === 3 && parts[1]) {
+    try {
+      const { exp } = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')) as { exp?: unknown };
+      if (typeof exp === 'number' && exp > 0) {
+        return exp * 1000;
+      }
+    } catch {
+      // Opaque token that happens to contain dots
+    }
+  }
+
+  return null;
+}
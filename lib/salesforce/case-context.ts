@@ -0,0 +1,226 @@
+import { SalesforceSession } from './client';
+import { soql } from './soql';
+import { CaseOutcome, ConversationEntry, SalesforceQueryResponse } from '@/types/salesforce';
+
+/**
+ * Sierra variable name → Salesforce field path, e.g. { "customerName": "Contact.Name" }
+ */
+export type CaseContextMapping = Record<string, string>;
+
+const FIELD_PATH_PATTERN = /^(Case|Contact|Account)\.[A-Za-z_][A-Za-z0-9_]*$/;
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Read the Case/Contact/Account field → Sierra variable mapping from SIERRA_CONTEXT_VARIABLES
+ * Format: JSON object of variable name to field path, e.g.
+ * {"customerName":"Contact.Name","accountTier":"Account.Tier__c","caseSubject":"Case.Subject"}
+ */
+export function getCaseContextMapping(): CaseContextMapping {
+  const raw = process.env.SIERRA_CONTEXT_VARIABLES;
+  if (!raw) {
+    return {};
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('SIERRA_CONTEXT_VARIABLES must be valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('SIERRA_CONTEXT_VARIABLES must be a JSON object of variable name to field path');
+  }
+
+  const mapping: CaseContextMapping = {};
+  for (const [variable, fieldPath] of Object.entries(parsed)) {
+    if (!VARIABLE_NAME_PATTERN.test(variable)) {
+      throw new Error(`SIERRA_CONTEXT_VARIABLES has an invalid variable name: ${variable}`);
+    }
+    if (typeof fieldPath !== 'string' || !FIELD_PATH_PATTERN.test(fieldPath)) {
+      throw new Error(
+        `SIERRA_CONTEXT_VARIABLES field for "${variable}" must look like Case.Field, Contact.Field or Account.Field`
+      );
+    }
+    mapping[variable] = fieldPath;
+  }
+
+  return mapping;
+}
+
+/**
+ * Case, Contact, Account and Owner fields shown to evaluators when SALESFORCE_CASE_CONTEXT_FIELDS is not set
+ */
+export const DEFAULT_CASE_CONTEXT_FIELDS = [
+  'Case.Subject',
+  'Case.Description',
+  'Case.Status',
+  'Case.Type',
+  'Case.Reason',
+  'Owner.Name',
+  'Contact.Name',
+];
+
+const CONTEXT_FIELD_PATTERN = /^(Case|Contact|Account|Owner)\.[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Read the fields recorded in transcripts.metadata.case_context from SALESFORCE_CASE_CONTEXT_FIELDS
+ * Format: comma-separated field paths, e.g. Case.Subject,Case.Status,Owner.Name,Contact.Email
+ */
+export function getCaseContextFields(): string[] {
+  const raw = process.env.SALESFORCE_CASE_CONTEXT_FIELDS;
+  if (raw === undefined) {
+    return DEFAULT_CASE_CONTEXT_FIELDS;
+  }
+
+  const fields = raw.split(',').map((field) => field.trim()).filter(Boolean);
+  for (const field of fields) {
+    if (!CONTEXT_FIELD_PATTERN.test(field)) {
+      throw new Error(
+        `SALESFORCE_CASE_CONTEXT_FIELDS field "${field}" must look like Case.Field, Contact.Field, Account.Field or Owner.Field`
+      );
+    }
+  }
+  return Array.from(new Set(fields));
+}
+
+/**
+ * Field to select on Case for a field path: Case fields directly, the others through the Case relationships
+ */
+export function toCaseSelectField(fieldPath: string): string {
+  return fieldPath.startsWith('Case.') ? fieldPath.slice('Case.'.length) : fieldPath;
+}
+
+/**
+ * Read a field from a SOQL record by path, following Contact/Account/Owner relationships
+ */
+function getFieldValue(record: Record<string, unknown>, fieldPath: string): unknown {
+  const [object, field] = fieldPath.split('.');
+  if (object === 'Case') {
+    return record[field];
+  }
+  const related = record[object];
+  if (!related || typeof related !== 'object') {
+    return undefined;
+  }
+  return (related as Record<string, unknown>)[field];
+}
+
+/**
+ * Fetch the configured Case, Contact and Account fields for a case and map them to Sierra variables
+ * Fields that are empty in Salesforce are left out
+ */
+export async function getCaseContextVariables(
+  session: SalesforceSession,
+  caseId: string,
+  apiVersion: string,
+  mapping: CaseContextMapping = getCaseContextMapping()
+): Promise<Record<string, string>> {
+  const fieldPaths = Array.from(new Set(Object.values(mapping)));
+  if (fieldPaths.length === 0) {
+    return {};
+  }
+
+  const selectFields = fieldPaths.map(toCaseSelectField);
+
+  const instanceUrl = session.getInstanceUrl();
+  const query = soql('Case', { extraFields: selectFields })
+    .select(...selectFields)
+    .where('Id', '=', caseId)
+    .limit(1)
+    .toString();
+  const queryUrl = `${instanceUrl}/services/data/${apiVersion}/query?q=${encodeURIComponent(query)}`;
+  const response = await session.makeRequest('GET', queryUrl, {
+    headers: {},
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Failed to query case context: ${response.status} ${errorText}`);
+  }
+
+  const result: SalesforceQueryResponse<Record<string, unknown>> = await response.json();
+  const record = result.records?.[0];
+  if (!record) {
+    return {};
+  }
+
+  const variables: Record<string, string> = {};
+  for (const [variable, fieldPath] of Object.entries(mapping)) {
+    const value = getFieldValue(record, fieldPath);
+    if (value !== undefined && value !== null && value !== '') {
+      variables[variable] = String(value);
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Fetch the Sierra variables for a case during ingest
+ * Context is best-effort: a failed lookup is logged and the transcript is saved without it
+ */
+export async function fetchSierraVariablesForCase(
+  session: SalesforceSession,
+  caseId: string | null | undefined,
+  apiVersion: string
+): Promise<Record<string, string>> {
+  if (!caseId) {
+    return {};
+  }
+
+  try {
+    const mapping = getCaseContextMapping();
+    if (Object.keys(mapping).length === 0) {
+      return {};
+    }
+    const variables = await getCaseContextVariables(session, caseId, apiVersion, mapping);
+    console.log(`Fetched ${Object.keys(variables).length} Sierra context variables for case ${caseId}`);
+    return variables;
+  } catch (error: unknown) {
+    console.warn(
+      `Failed to fetch Sierra context variables for case ${caseId}:`,
+      error instanceof Error ? error.message : error
+    );
+    return {};
+  }
+}
+
+/**
+ * Configured case context fields of a Case record, by field path; empty fields are left out
+ */
+export function readCaseContext(
+  record: Record<string, unknown> | null | undefined,
+  fields?: string[]
+): Record<string, string> {
+  // No record when the context step was skipped, e.g. because the configured fields are invalid
+  if (!record) {
+    return {};
+  }
+
+  const context: Record<string, string> = {};
+  for (const fieldPath of fields || getCaseContextFields()) {
+    const value = getFieldValue(record, fieldPath);
+    if (value !== undefined && value !== null && value !== '') {
+      context[fieldPath] = String(value);
+    }
+  }
+  return context;
+}
+
+/**
+ * How the case ended: closed or not (Case.IsClosed; null when unknown), and whether a human agent
+ * took part in the conversation. A closed case is resolved by a human when one did, else by the bot.
+ */
+export function summarizeCaseOutcome(
+  record: Record<string, unknown> | null | undefined,
+  entries: ConversationEntry[]
+): CaseOutcome {
+  const closed = typeof record?.IsClosed === 'boolean' ? record.IsClosed : null;
+  const humanInvolved = entries.some((entry) => entry.sender?.role === 'Agent');
+  return {
+    closed,
+    human_involved: humanInvolved,
+    resolved_by: closed ? (humanInvolved ? 'human' : 'bot') : null,
+  };
+}
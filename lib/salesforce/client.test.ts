@@ -0,0 +1,44 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SalesforceSession } from './client';
+
+const fetchMock = vi.fn<typeof fetch>();
+
+function grant(issuedAt: number): Response {
+  return new Response(
+    JSON.stringify({
+      access_token: 'token-1',
+      instance_url: 'https://example.my.salesforce.com',
+      issued_at: String(issuedAt),
+    }),
+    { status: 200 }
+  );
+}
+
+beforeEach(() => {
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  fetchMock.mockReset();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('SalesforceSession token cache', () => {
+  it('caches a reused token with an old issued_at for the fallback lifetime', async () => {
+    vi.stubEnv('SALESFORCE_TOKEN_LIFETIME_SECONDS', '3600');
+    // Issued two hours ago: longer ago than the fallback lifetime
+    fetchMock.mockImplementation(async () => grant(Date.now() - 2 * 60 * 60 * 1000));
+    const session = new SalesforceSession(
+      { flow: 'client_credentials', clientId: 'id', clientSecret: 'secret' },
+      'https://login.example.com/services/oauth2/token'
+    );
+
+    expect(await session.getToken()).toBe('token-1');
+    expect(await session.getToken()).toBe('token-1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(session.getMetrics().cacheHits).toBe(1);
+    expect(Date.parse(session.getMetrics().expiresAt!)).toBeGreaterThan(Date.now() + 59 * 60 * 1000);
+  });
+});
@@ -1,70 +1,174 @@
 import {
   SalesforceAuthResponse,
 } from '@/types/salesforce';
+import { getHttpServiceConfig, resilientFetch } from '@/lib/http/resilient-fetch';
+import { SalesforceAuthConfig, SalesforceAuthFlow } from '@/lib/config/integrations';
+import { createAuthStrategy, getGrantExpiry, SalesforceAuthStrategy } from './auth';
+
+/**
+ * Token lifetime for grants that do not say when they expire, when SALESFORCE_TOKEN_LIFETIME_SECONDS
+ * is not set (the org's session timeout)
+ */
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+/** Tokens are refreshed this long before they expire, so requests never race the expiry */
+const TOKEN_REFRESH_MARGIN_SECONDS = 300;
+
+export interface SalesforceAuthMetrics {
+  flow: SalesforceAuthFlow;
+  /** OAuth token requests made (successful or not) */
+  tokenRequests: number;
+  tokenFailures: number;
+  /** Requests served by the cached token */
+  cacheHits: number;
+  /** Callers that waited on a refresh already in flight instead of starting their own */
+  sharedRefreshes: number;
+  /** Refreshes forced by a 401 from the API */
+  forcedRefreshes: number;
+  issuedAt: string | null;
+  expiresAt: string | null;
+}
 
 export class SalesforceSession {
-  private clientId: string;
-  private clientSecret: string;
+  private strategy: SalesforceAuthStrategy;
   private oauthUrl: string;
   private accessToken: string | null = null;
   private instanceUrl: string | null = null;
-  private tokenTimestamp: number | null = null;
-  private readonly tokenLifetime = 3600; // 1 hour in seconds
+  private tokenIssuedAt: number | null = null; // Epoch milliseconds, from the token's issued_at
+  private tokenReceivedAt: number | null = null; // Epoch milliseconds
+  private tokenExpiresAt: number | null = null; // Epoch milliseconds, from the grant when it says
+  private readonly fallbackLifetime: number; // Seconds, for grants without an expiry
+  private refreshing: Promise<void> | null = null;
+  private metrics: Omit<SalesforceAuthMetrics, 'flow' | 'issuedAt' | 'expiresAt'> = {
+    tokenRequests: 0,
+    tokenFailures: 0,
+    cacheHits: 0,
+    sharedRefreshes: 0,
+    forcedRefreshes: 0,
+  };
 
   constructor(
-    clientId: string,
-    clientSecret: string,
+    auth: SalesforceAuthConfig,
     oauthUrl: string
   ) {
-    this.clientId = clientId;
-    this.clientSecret = clientSecret;
+    this.strategy = createAuthStrategy(auth);
     this.oauthUrl = oauthUrl;
+    const lifetime = Number(process.env.SALESFORCE_TOKEN_LIFETIME_SECONDS);
+    this.fallbackLifetime = Number.isFinite(lifetime) && lifetime > 0 ? lifetime : DEFAULT_TOKEN_LIFETIME_SECONDS;
   }
 
   async authenticate(): Promise<void> {
-    const formData = new URLSearchParams();
-    formData.append('grant_type', 'client_credentials');
-    formData.append('client_id', this.clientId);
-    formData.append('client_secret', this.clientSecret);
-
-    const response = await fetch(this.oauthUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
+    this.metrics.tokenRequests++;
+
+    let formData: URLSearchParams;
+    try {
+      // Signs a new assertion for the JWT bearer flow
+      formData = this.strategy.buildTokenRequest();
+    } catch (error: unknown) {
+      this.metrics.tokenFailures++;
+      throw new Error(
+        `Salesforce authentication failed (${this.strategy.flow}): ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    // Requesting a token has no side effects, so it is safe to retry
+    const response = await resilientFetch(
+      this.oauthUrl,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: formData,
       },
-      body: formData,
+      { service: 'Salesforce OAuth', idempotent: true, ...getHttpServiceConfig('SALESFORCE') }
+    ).catch((error: unknown) => {
+      this.metrics.tokenFailures++;
+      throw error;
     });
 
     if (!response.ok) {
+      this.metrics.tokenFailures++;
       const errorText = await response.text();
       throw new Error(
-        `Salesforce authentication failed: ${response.status} ${errorText}`
+        `Salesforce authentication failed (${this.strategy.flow}): ${response.status} ${errorText}`
       );
     }
 
     const authData: SalesforceAuthResponse = await response.json();
+    const receivedAt = Date.now();
     this.accessToken = authData.access_token;
     this.instanceUrl = authData.instance_url;
-    this.tokenTimestamp = Date.now() / 1000;
+    // issued_at is epoch milliseconds as a string; Salesforce may hand back a token it issued
+    // earlier (e.g. reused for the same client)
+    const issuedAt = Number(authData.issued_at);
+    this.tokenIssuedAt = Number.isFinite(issuedAt) && issuedAt > 0 ? Math.min(issuedAt, receivedAt) : receivedAt;
+    this.tokenReceivedAt = receivedAt;
+    // Most grants do not say when the token expires; those fall back to the configured lifetime,
+    // counted from now - counting from an old issued_at would make a reused token look expired
+    // and re-authenticate on every request
+    const grantExpiry = getGrantExpiry(authData, this.tokenIssuedAt);
+    this.tokenExpiresAt =
+      grantExpiry !== null && grantExpiry > receivedAt ? grantExpiry : receivedAt + this.fallbackLifetime * 1000;
+    this.strategy.onGrant?.(authData);
+  }
+
+  private getRefreshMargin(): number {
+    if (this.tokenReceivedAt === null || this.tokenExpiresAt === null) {
+      return TOKEN_REFRESH_MARGIN_SECONDS;
+    }
+    return Math.min(TOKEN_REFRESH_MARGIN_SECONDS, (this.tokenExpiresAt - this.tokenReceivedAt) / 2000);
+  }
+
+  /**
+   * Epoch milliseconds after which the token is refreshed, or null without a token
+   */
+  private getRefreshAt(): number | null {
+    if (this.tokenExpiresAt === null) {
+      return null;
+    }
+    return this.tokenExpiresAt - this.getRefreshMargin() * 1000;
   }
 
-  async getToken(forceRefresh = false): Promise<string> {
-    const tokenAge =
-      this.tokenTimestamp !== null
-        ? Date.now() / 1000 - this.tokenTimestamp
-        : Infinity;
-
-    if (
-      forceRefresh ||
-      !this.accessToken ||
-      tokenAge > this.tokenLifetime
-    ) {
-      if (tokenAge > this.tokenLifetime) {
+  /**
+   * Authenticate, or wait for the authentication already in flight
+   */
+  private refresh(): Promise<void> {
+    if (this.refreshing) {
+      this.metrics.sharedRefreshes++;
+      return this.refreshing;
+    }
+    this.refreshing = this.authenticate().finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  /**
+   * The cached access token, refreshed when missing or about to expire
+   * `rejectedToken` forces a refresh after a 401 - unless another request already replaced
+   * that token, in which case the new one is used.
+   */
+  async getToken(forceRefresh = false, rejectedToken?: string): Promise<string> {
+    const refreshAt = this.getRefreshAt();
+    const expired = refreshAt === null || Date.now() >= refreshAt;
+    const rejected = forceRefresh && (rejectedToken === undefined || rejectedToken === this.accessToken);
+
+    if (!this.accessToken || expired || rejected) {
+      if (this.accessToken && expired && !this.refreshing) {
         console.log(
-          `Token expired (${Math.floor(tokenAge / 60)} minutes old), refreshing...`
+          `Salesforce token issued ${Math.floor((Date.now() - this.tokenIssuedAt!) / 60000)} minutes ago, refreshing...`
         );
       }
-      await this.authenticate();
+      if (rejected && !this.refreshing) {
+        this.metrics.forcedRefreshes++;
+      }
+      await this.refresh();
+    } else if (this.refreshing) {
+      // A forced refresh is in flight; the current token is about to be replaced
+      this.metrics.sharedRefreshes++;
+      await this.refreshing;
+    } else {
+      this.metrics.cacheHits++;
     }
 
     if (!this.accessToken) {
@@ -74,6 +178,15 @@ export class SalesforceSession {
     return this.accessToken;
   }
 
+  getMetrics(): SalesforceAuthMetrics {
+    return {
+      flow: this.strategy.flow,
+      ...this.metrics,
+      issuedAt: this.tokenIssuedAt !== null ? new Date(this.tokenIssuedAt).toISOString() : null,
+      expiresAt: this.tokenExpiresAt !== null ? new Date(this.tokenExpiresAt).toISOString() : null,
+    };
+  }
+
   async makeRequest(
     method: string,
     url: string,
@@ -86,22 +199,25 @@ export class SalesforceSession {
       ...options.headers,
     };
 
-    let response = await fetch(url, {
+    // Transient failures (429, 5xx, timeouts) are retried by resilientFetch
+    const fetchOptions = { service: 'Salesforce API', ...getHttpServiceConfig('SALESFORCE') };
+
+    let response = await resilientFetch(url, {
       ...options,
       method,
       headers,
-    });
+    }, fetchOptions);
 
     // Retry with refreshed token on 401
     if (response.status === 401) {
       console.log('Received 401 error, refreshing token and retrying...');
-      const refreshedToken = await this.getToken(true);
+      const refreshedToken = await this.getToken(true, token);
       headers.Authorization = `Bearer ${refreshedToken}`;
-      response = await fetch(url, {
+      response = await resilientFetch(url, {
         ...options,
         method,
         headers,
-      });
+      }, fetchOptions);
     }
 
     return response;
@@ -0,0 +1,125 @@
+import { SalesforceSession } from './client';
+import { SalesforceQueryResponse } from '@/types/salesforce';
+
+/**
+ * Salesforce Composite API helpers
+ * A chain of SOQL lookups (Case → MessagingSession → Conversation) runs as one Composite request:
+ * later queries use reference IDs such as @{refCase.records[0].Id} to read earlier results, so the
+ * whole chain costs one round trip instead of one per query.
+ */
+
+export interface CompositeQueryStep {
+  referenceId: string;
+  /** SOQL; may contain @{referenceId.path} references to earlier steps */
+  query: string;
+}
+
+export interface CompositeSubresponse {
+  referenceId: string;
+  httpStatusCode: number;
+  // Query result on success, a list of { errorCode, message } on failure
+  body: unknown;
+}
+
+export interface CompositeQueryResult {
+  /** Subresponses by reference ID */
+  steps: Record<string, CompositeSubresponse>;
+  durationMs: number;
+}
+
+const REFERENCE_PATTERN = /%40%7B([\w.%]+?)%7D/g;
+
+/**
+ * Query URL relative to the instance, as subrequests take it; @{...} references stay unencoded
+ * so Salesforce can substitute them
+ */
+function toSubrequestUrl(apiVersion: string, query: string): string {
+  const encoded = encodeURIComponent(query).replace(
+    REFERENCE_PATTERN,
+    (_, reference: string) => `@{${decodeURIComponent(reference)}}`
+  );
+  return `/services/data/${apiVersion}/query?q=${encoded}`;
+}
+
+/**
+ * Records of a successful query step, or null when the step failed
+ */
+export function getStepRecords<T>(result: CompositeQueryResult, referenceId: string): T[] | null {
+  const step = result.steps[referenceId];
+  if (!step || step.httpStatusCode < 200 || step.httpStatusCode >= 300) {
+    return null;
+  }
+  return (step.body as SalesforceQueryResponse<T>).records || [];
+}
+
+/**
+ * Status and body of a failed step, for error messages
+ */
+export function describeStepError(result: CompositeQueryResult, referenceId: string): string {
+  const step = result.steps[referenceId];
+  if (!step) {
+    return 'missing from composite response';
+  }
+  return `${step.httpStatusCode} ${JSON.stringify(step.body)}`;
+}
+
+function summarizeStep(step: CompositeSubresponse): string {
+  const ok = step.httpStatusCode >= 200 && step.httpStatusCode < 300;
+  if (!ok) {
+    const [firstError] = Array.isArray(step.body) ? step.body as Array<{ errorCode?: string }> : [];
+    return `${step.referenceId}=${step.httpStatusCode}${firstError?.errorCode ? ` ${firstError.errorCode}` : ''}`;
+  }
+  const records = (step.body as SalesforceQueryResponse<unknown>).records || [];
+  return `${step.referenceId}=${step.httpStatusCode} (${records.length} record${records.length === 1 ? '' : 's'})`;
+}
+
+/**
+ * Run query steps in one Composite request
+ * Steps run in order and do not roll back each other (allOrNone: false): a step whose reference
+ * cannot be resolved, e.g. because an earlier query found nothing, fails on its own. Throws when
+ * the composite request itself fails.
+ */
+export async function runCompositeQueries(
+  session: SalesforceSession,
+  apiVersion: string,
+  steps: CompositeQueryStep[],
+  label: string
+): Promise<CompositeQueryResult> {
+  const compositeUrl = `${session.getInstanceUrl()}/services/data/${apiVersion}/composite`;
+  const startedAt = Date.now();
+
+  const response = await session.makeRequest('POST', compositeUrl, {
+    body: JSON.stringify({
+      allOrNone: false,
+      compositeRequest: steps.map((step) => ({
+        method: 'GET',
+        url: toSubrequestUrl(apiVersion, step.query),
+        referenceId: step.referenceId,
+      })),
+    }),
+  });
+
+  const durationMs = Date.now() - startedAt;
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.warn(`Salesforce composite lookup (${label}) failed after ${durationMs}ms`);
+    throw new Error(`Failed to run composite request: ${response.status} ${errorText}`);
+  }
+
+  const data: { compositeResponse?: CompositeSubresponse[] } = await response.json();
+  const subresponses = data.compositeResponse || [];
+
+  const result: CompositeQueryResult = { steps: {}, durationMs };
+  subresponses.forEach((step) => {
+    result.steps[step.referenceId] = step;
+  });
+
+  // Subrequests share the round trip; Salesforce does not time them individually
+  console.log(
+    `Salesforce composite lookup (${label}): ${steps.length} queries in ${durationMs}ms - ` +
+      subresponses.map(summarizeStep).join(', ')
+  );
+
+  return result;
+}
@@ -1,6 +1,14 @@
 import { SalesforceSession } from './client';
+import { getCaseContextFields, toCaseSelectField } from './case-context';
+import {
+  CompositeQueryResult,
+  CompositeQueryStep,
+  describeStepError,
+  getStepRecords,
+  runCompositeQueries,
+} from './composite';
+import { soql, soqlReference, SoqlReference } from './soql';
 import {
-  SalesforceQueryResponse,
   SalesforceCase,
   SalesforceMessagingSession,
   SalesforceConversation,
@@ -9,105 +17,203 @@ import {
 } from '@/types/salesforce';
 
 /**
- * Result type for getConversationIdentifier
+ * Conversation of a messaging session, as resolved by the lookups below
  */
 export interface ConversationIdentifierResult {
   conversationIdentifier: string;
   messagingSessionId: string; // Always required
   messagingSessionName: string | null;
   caseNumber?: string | null; // Optional case number for saving transcript
+  caseId?: string | null; // Case Id, used to fetch case context for Sierra
+  caseContextRecord?: Record<string, unknown> | null; // Case context fields and IsClosed, see readCaseContext
 }
 
+// Reference IDs of the composite lookup steps
+const REF_CASE = 'refCase';
+const REF_SESSION = 'refSession';
+const REF_CONVERSATION = 'refConversation';
+const REF_CASE_CONTEXT = 'refCaseContext';
+
 /**
- * Get Conversation Identifier from Case Number via 3-step lookup:
- * 1. Case → Case Id
- * 2. MessagingSession → ConversationId and MessagingSessionId (Id)
- * 3. Conversation → ConversationIdentifier
+ * Conversation step shared by the composite lookups, keyed on the MessagingSession step
  */
-export async function getConversationIdentifier(
-  session: SalesforceSession,
-  caseNumber: string,
-  apiVersion: string
-): Promise<ConversationIdentifierResult | null> {
-  const instanceUrl = session.getInstanceUrl();
-  const baseQueryUrl = `${instanceUrl}/services/data/${apiVersion}/query`;
-
-  // Step 1: Get Case Id
-  const caseQuery = `SELECT Id FROM Case WHERE CaseNumber='${caseNumber}' LIMIT 1`;
-  const queryUrl = `${baseQueryUrl}?q=${encodeURIComponent(caseQuery)}`;
-  let response = await session.makeRequest('GET', queryUrl, {
-    headers: {},
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to query case: ${response.status} ${errorText}`);
+function conversationQuery(): string {
+  return soql('Conversation')
+    .select('ConversationIdentifier')
+    .where('Id', '=', soqlReference(`${REF_SESSION}.records[0].ConversationId`))
+    .limit(1)
+    .toString();
+}
+
+/**
+ * Step fetching the configured case context fields (SALESFORCE_CASE_CONTEXT_FIELDS) and IsClosed
+ * Its own step, so a field the org does not have only costs the context, not the lookup.
+ */
+function caseContextSteps(caseIdReference: SoqlReference): CompositeQueryStep[] {
+  let fields: string[];
+  try {
+    fields = getCaseContextFields();
+  } catch (error: unknown) {
+    console.warn('Skipping case context:', error instanceof Error ? error.message : error);
+    return [];
   }
 
-  const caseResult: SalesforceQueryResponse<SalesforceCase> =
-    await response.json();
+  const selectFields = Array.from(new Set([...fields.map(toCaseSelectField), 'IsClosed']));
+  return [
+    {
+      referenceId: REF_CASE_CONTEXT,
+      query: soql('Case', { extraFields: selectFields })
+        .select(...selectFields)
+        .where('Id', '=', caseIdReference)
+        .limit(1)
+        .toString(),
+    },
+  ];
+}
 
-  if (!caseResult.records || caseResult.records.length === 0) {
-    throw new Error(`No case found: ${caseNumber}`);
+/**
+ * Case record of the context step; null when it was skipped or failed (context is best-effort)
+ */
+function readCaseContextRecord(composite: CompositeQueryResult): Record<string, unknown> | null {
+  if (!composite.steps[REF_CASE_CONTEXT]) {
+    return null;
+  }
+  const records = getStepRecords<Record<string, unknown>>(composite, REF_CASE_CONTEXT);
+  if (!records) {
+    console.warn(`Failed to fetch case context: ${describeStepError(composite, REF_CASE_CONTEXT)}`);
+    return null;
   }
+  return records[0] || null;
+}
 
-  const caseId = caseResult.records[0].Id;
+/**
+ * Read the MessagingSession and Conversation steps of a composite lookup
+ */
+function readSessionAndConversation(
+  composite: CompositeQueryResult,
+  notFoundMessage: string
+): { messagingSession: SalesforceMessagingSession; conversationIdentifier: string } {
+  const sessions = getStepRecords<SalesforceMessagingSession>(composite, REF_SESSION);
+  if (!sessions) {
+    throw new Error(`Failed to query messaging session: ${describeStepError(composite, REF_SESSION)}`);
+  }
+  if (sessions.length === 0) {
+    throw new Error(notFoundMessage);
+  }
 
-  // Step 2: Get ConversationId, MessagingSessionId (Id), and Name
-  const messagingQuery = `SELECT Id, ConversationId, Name FROM MessagingSession WHERE CaseId='${caseId}' LIMIT 1`;
-  const messagingQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(messagingQuery)}`;
-  response = await session.makeRequest('GET', messagingQueryUrl, {
-    headers: {},
-  });
+  // Ensure messagingSessionId is always present
+  if (!sessions[0].Id) {
+    throw new Error('MessagingSessionId is required but was not found in Salesforce response');
+  }
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to query messaging session: ${response.status} ${errorText}`);
+  const conversations = getStepRecords<SalesforceConversation>(composite, REF_CONVERSATION);
+  if (!conversations) {
+    throw new Error(`Failed to query conversation: ${describeStepError(composite, REF_CONVERSATION)}`);
+  }
+  if (conversations.length === 0) {
+    throw new Error('No Conversation found');
   }
 
-  const messagingResult: SalesforceQueryResponse<SalesforceMessagingSession> =
-    await response.json();
+  return {
+    messagingSession: sessions[0],
+    conversationIdentifier: conversations[0].ConversationIdentifier,
+  };
+}
 
-  if (!messagingResult.records || messagingResult.records.length === 0) {
-    throw new Error('No MessagingSession found for this case');
-  }
+/**
+ * A messaging session of a case; a customer who chatted several times on one case has several
+ */
+export interface CaseMessagingSession extends ConversationIdentifierResult {
+  channelType: string | null;
+  startTime: string | null;
+}
 
-  const conversationId = messagingResult.records[0].ConversationId;
-  const messagingSessionId = messagingResult.records[0].Id; // This is the MessagingSessionId
-  const messagingSessionName = messagingResult.records[0].Name || null; // Name field
+/**
+ * Get every messaging session of a case, oldest first, in one composite request:
+ * 1. Case → Case Id
+ * 2. MessagingSession → Id, Name, ConversationId, channel and start time of each session
+ * 3. Conversation → ConversationIdentifier of each session's conversation
+ * Sessions without a conversation are left out.
+ */
+export async function getCaseMessagingSessions(
+  session: SalesforceSession,
+  caseNumber: string,
+  apiVersion: string
+): Promise<CaseMessagingSession[]> {
+  const caseIdReference = soqlReference(`${REF_CASE}.records[0].Id`);
+
+  const composite = await runCompositeQueries(
+    session,
+    apiVersion,
+    [
+      {
+        referenceId: REF_CASE,
+        query: soql('Case').select('Id').where('CaseNumber', '=', caseNumber).limit(1).toString(),
+      },
+      {
+        referenceId: REF_SESSION,
+        query: soql('MessagingSession')
+          .select('Id', 'ConversationId', 'Name', 'ChannelType', 'StartTime')
+          .where('CaseId', '=', caseIdReference)
+          .orderBy('StartTime', 'ASC')
+          .toString(),
+      },
+      {
+        referenceId: REF_CONVERSATION,
+        query: soql('Conversation')
+          .select('Id', 'ConversationIdentifier')
+          .whereInQuery(
+            'Id',
+            soql('MessagingSession').select('ConversationId').where('CaseId', '=', caseIdReference)
+          )
+          .toString(),
+      },
+      ...caseContextSteps(caseIdReference),
+    ],
+    `case ${caseNumber}`
+  );
 
-  // Ensure messagingSessionId is always present
-  if (!messagingSessionId) {
-    throw new Error('MessagingSessionId is required but was not found in Salesforce response');
+  const cases = getStepRecords<SalesforceCase>(composite, REF_CASE);
+  if (!cases) {
+    throw new Error(`Failed to query case: ${describeStepError(composite, REF_CASE)}`);
+  }
+  if (cases.length === 0) {
+    throw new Error(`No case found: ${caseNumber}`);
   }
 
-  // Step 3: Get ConversationIdentifier
-  const conversationQuery = `SELECT ConversationIdentifier FROM Conversation WHERE Id='${conversationId}' LIMIT 1`;
-  const conversationQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(conversationQuery)}`;
-  response = await session.makeRequest('GET', conversationQueryUrl, {
-    headers: {},
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to query conversation: ${response.status} ${errorText}`);
+  const sessions = getStepRecords<SalesforceMessagingSession>(composite, REF_SESSION);
+  if (!sessions) {
+    throw new Error(`Failed to query messaging session: ${describeStepError(composite, REF_SESSION)}`);
+  }
+  if (sessions.length === 0) {
+    throw new Error('No MessagingSession found for this case');
   }
 
-  const conversationResult: SalesforceQueryResponse<SalesforceConversation> =
-    await response.json();
+  const conversations = getStepRecords<SalesforceConversation>(composite, REF_CONVERSATION);
+  if (!conversations) {
+    throw new Error(`Failed to query conversation: ${describeStepError(composite, REF_CONVERSATION)}`);
+  }
 
-  if (!conversationResult.records || conversationResult.records.length === 0) {
+  const caseContextRecord = readCaseContextRecord(composite);
+  const identifiers = new Map(conversations.map((conversation) => [conversation.Id, conversation.ConversationIdentifier]));
+  const caseSessions = sessions
+    .filter((messagingSession) => messagingSession.Id && identifiers.has(messagingSession.ConversationId))
+    .map((messagingSession) => ({
+      conversationIdentifier: identifiers.get(messagingSession.ConversationId) as string,
+      messagingSessionId: messagingSession.Id,
+      messagingSessionName: messagingSession.Name || null,
+      caseNumber,
+      caseId: cases[0].Id,
+      caseContextRecord,
+      channelType: messagingSession.ChannelType || null,
+      startTime: messagingSession.StartTime || null,
+    }));
+
+  if (caseSessions.length === 0) {
     throw new Error('No Conversation found');
   }
 
-  const conversationIdentifier =
-    conversationResult.records[0].ConversationIdentifier;
-
-  return {
-    conversationIdentifier,
-    messagingSessionId,
-    messagingSessionName,
-  };
+  return caseSessions;
 }
 
 /**
@@ -161,278 +267,122 @@ function isValidSalesforceId(id: string): boolean {
   return /^[a-zA-Z0-9]{15}$|^[a-zA-Z0-9]{18}$/.test(id);
 }
 
+/**
+ * Look up a MessagingSession by Id or Name together with its Conversation and Case
+ * in one composite request
+ */
+async function queryMessagingSessionChain(
+  session: SalesforceSession,
+  apiVersion: string,
+  field: 'Id' | 'Name',
+  value: string
+): Promise<CompositeQueryResult> {
+  return runCompositeQueries(
+    session,
+    apiVersion,
+    [
+      {
+        referenceId: REF_SESSION,
+        query: soql('MessagingSession')
+          .select('Id', 'ConversationId', 'Name', 'CaseId')
+          .where(field, '=', value)
+          .limit(1)
+          .toString(),
+      },
+      {
+        referenceId: REF_CONVERSATION,
+        query: conversationQuery(),
+      },
+      {
+        referenceId: REF_CASE,
+        query: soql('Case')
+          .select('CaseNumber')
+          .where('Id', '=', soqlReference(`${REF_SESSION}.records[0].CaseId`))
+          .limit(1)
+          .toString(),
+      },
+      ...caseContextSteps(soqlReference(`${REF_SESSION}.records[0].CaseId`)),
+    ],
+    `messaging session ${field} ${value}`
+  );
+}
+
+/**
+ * Build the result of a messaging session chain; the case number is optional, so a failed
+ * Case step (session without a case) leaves it null
+ */
+function toMessagingSessionResult(
+  composite: CompositeQueryResult,
+  notFoundMessage: string
+): ConversationIdentifierResult {
+  const { messagingSession, conversationIdentifier } = readSessionAndConversation(composite, notFoundMessage);
+  const cases = getStepRecords<SalesforceCase>(composite, REF_CASE);
+
+  return {
+    conversationIdentifier,
+    messagingSessionId: messagingSession.Id, // Use the actual ID from Salesforce
+    messagingSessionName: messagingSession.Name || null,
+    caseNumber: cases && cases.length > 0 ? cases[0].CaseNumber : null, // Include case number for saving
+    caseId: messagingSession.CaseId || null,
+    // A session without a case has no context to read
+    caseContextRecord: messagingSession.CaseId ? readCaseContextRecord(composite) : null,
+  };
+}
+
 /**
  * Get Conversation Identifier from MessagingSessionId
  * 1. MessagingSession (by Id or Name) → ConversationId, Name
  * 2. Conversation → ConversationIdentifier
+ * 3. Case → CaseNumber
+ * One composite request; a second one by Name only when the Id lookup fails or finds nothing
  */
 export async function getConversationIdentifierByMessagingSessionId(
   session: SalesforceSession,
   messagingSessionId: string,
   apiVersion: string
 ): Promise<ConversationIdentifierResult | null> {
-  const instanceUrl = session.getInstanceUrl();
-  const baseQueryUrl = `${instanceUrl}/services/data/${apiVersion}/query`;
-
-  // Step 1: Get ConversationId and Name from MessagingSession
-  // Try by Id first if it looks like a valid Salesforce ID, otherwise try by Name
-  const escapedId = messagingSessionId.replace(/'/g, "''");
-  const isId = isValidSalesforceId(messagingSessionId);
-  
-  let messagingQuery: string;
-  if (isId) {
-    messagingQuery = `SELECT Id, ConversationId, Name, CaseId FROM MessagingSession WHERE Id='${escapedId}' LIMIT 1`;
-  } else {
-    // If it doesn't look like an ID, try querying by Name
-    messagingQuery = `SELECT Id, ConversationId, Name, CaseId FROM MessagingSession WHERE Name='${escapedId}' LIMIT 1`;
-  }
-  
-  const messagingQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(messagingQuery)}`;
-  const response = await session.makeRequest('GET', messagingQueryUrl, {
-    headers: {},
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    // If querying by ID failed and it looked like an ID, try by Name as fallback
-    if (isId && response.status === 400) {
-      console.log(`Query by ID failed, trying by Name as fallback for: ${messagingSessionId}`);
-      const fallbackQuery = `SELECT Id, ConversationId, Name, CaseId FROM MessagingSession WHERE Name='${escapedId}' LIMIT 1`;
-      const fallbackQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(fallbackQuery)}`;
-      const fallbackResponse = await session.makeRequest('GET', fallbackQueryUrl, {
-        headers: {},
-      });
-      
-      if (fallbackResponse.ok) {
-        const fallbackResult: SalesforceQueryResponse<SalesforceMessagingSession> =
-          await fallbackResponse.json();
-        
-        if (fallbackResult.records && fallbackResult.records.length > 0) {
-          // Use the fallback result
-          const conversationId = fallbackResult.records[0].ConversationId;
-          const messagingSessionName = fallbackResult.records[0].Name || null;
-          const caseId = fallbackResult.records[0].CaseId;
-          const actualMessagingSessionId = fallbackResult.records[0].Id;
-
-          // Continue with conversation lookup
-          const conversationQuery = `SELECT ConversationIdentifier FROM Conversation WHERE Id='${conversationId}' LIMIT 1`;
-          const conversationQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(conversationQuery)}`;
-          const conversationResponse = await session.makeRequest('GET', conversationQueryUrl, {
-            headers: {},
-          });
-
-          if (!conversationResponse.ok) {
-            const errorText = await conversationResponse.text();
-            throw new Error(`Failed to query conversation: ${conversationResponse.status} ${errorText}`);
-          }
-
-          const conversationResult: SalesforceQueryResponse<SalesforceConversation> =
-            await conversationResponse.json();
-
-          if (!conversationResult.records || conversationResult.records.length === 0) {
-            throw new Error('No Conversation found');
-          }
-
-          const conversationIdentifier =
-            conversationResult.records[0].ConversationIdentifier;
-
-          // Get Case Number for saving transcript
-          let caseNumber: string | null = null;
-          if (caseId) {
-            const caseQuery = `SELECT CaseNumber FROM Case WHERE Id='${caseId.replace(/'/g, "''")}' LIMIT 1`;
-            const caseQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(caseQuery)}`;
-            const caseResponse = await session.makeRequest('GET', caseQueryUrl, {
-              headers: {},
-            });
-
-            if (caseResponse.ok) {
-              const caseResult: SalesforceQueryResponse<SalesforceCase> =
-                await caseResponse.json();
-              if (caseResult.records && caseResult.records.length > 0) {
-                caseNumber = caseResult.records[0].CaseNumber;
-              }
-            }
-          }
-
-          return {
-            conversationIdentifier,
-            messagingSessionId: actualMessagingSessionId,
-            messagingSessionName,
-            caseNumber,
-          };
-        }
-      }
-    }
-    
-    throw new Error(`Failed to query messaging session: ${response.status} ${errorText}`);
-  }
-
-  let messagingResult: SalesforceQueryResponse<SalesforceMessagingSession> =
-    await response.json();
-
-  // If no results and we tried by ID, try by Name as fallback
-  if ((!messagingResult.records || messagingResult.records.length === 0) && isId) {
-    console.log(`No MessagingSession found by Id, trying by Name: ${messagingSessionId}`);
-    const nameQuery = `SELECT Id, ConversationId, Name, CaseId FROM MessagingSession WHERE Name='${escapedId}' LIMIT 1`;
-    const nameQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(nameQuery)}`;
-    const nameResponse = await session.makeRequest('GET', nameQueryUrl, {
-      headers: {},
-    });
+  const notFoundMessage = `No MessagingSession found with Id or Name: ${messagingSessionId}`;
 
-    if (nameResponse.ok) {
-      messagingResult = await nameResponse.json();
-    }
-  }
-
-  if (!messagingResult.records || messagingResult.records.length === 0) {
-    throw new Error(`No MessagingSession found with Id or Name: ${messagingSessionId}`);
-  }
-
-  const conversationId = messagingResult.records[0].ConversationId;
-  const messagingSessionName = messagingResult.records[0].Name || null;
-  const caseId = messagingResult.records[0].CaseId;
-  const actualMessagingSessionId = messagingResult.records[0].Id;
-
-  // Ensure messagingSessionId is always present
-  if (!actualMessagingSessionId) {
-    throw new Error('MessagingSessionId is required but was not found in Salesforce response');
+  // If it doesn't look like an ID, look it up by Name
+  if (!isValidSalesforceId(messagingSessionId)) {
+    const byName = await queryMessagingSessionChain(session, apiVersion, 'Name', messagingSessionId);
+    return toMessagingSessionResult(byName, notFoundMessage);
   }
 
-  // Step 2: Get ConversationIdentifier
-  const conversationQuery = `SELECT ConversationIdentifier FROM Conversation WHERE Id='${conversationId}' LIMIT 1`;
-  const conversationQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(conversationQuery)}`;
-  const conversationResponse = await session.makeRequest('GET', conversationQueryUrl, {
-    headers: {},
-  });
-
-  if (!conversationResponse.ok) {
-    const errorText = await conversationResponse.text();
-    throw new Error(`Failed to query conversation: ${conversationResponse.status} ${errorText}`);
-  }
-
-  const conversationResult: SalesforceQueryResponse<SalesforceConversation> =
-    await conversationResponse.json();
-
-  if (!conversationResult.records || conversationResult.records.length === 0) {
-    throw new Error('No Conversation found');
-  }
-
-  const conversationIdentifier =
-    conversationResult.records[0].ConversationIdentifier;
-
-  // Step 3: Get Case Number for saving transcript
-  let caseNumber: string | null = null;
-  if (caseId) {
-    const caseQuery = `SELECT CaseNumber FROM Case WHERE Id='${caseId}' LIMIT 1`;
-    const caseQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(caseQuery)}`;
-    const caseResponse = await session.makeRequest('GET', caseQueryUrl, {
-      headers: {},
-    });
-
-    if (caseResponse.ok) {
-      const caseResult: SalesforceQueryResponse<SalesforceCase> =
-        await caseResponse.json();
-      if (caseResult.records && caseResult.records.length > 0) {
-        caseNumber = caseResult.records[0].CaseNumber;
-      }
+  const byId = await queryMessagingSessionChain(session, apiVersion, 'Id', messagingSessionId);
+  const idRecords = getStepRecords<SalesforceMessagingSession>(byId, REF_SESSION);
+  const idStatus = byId.steps[REF_SESSION]?.httpStatusCode;
+
+  // A 400 (malformed Id) or no match by Id falls back to Name
+  if ((!idRecords && idStatus === 400) || idRecords?.length === 0) {
+    console.log(
+      idRecords
+        ? `No MessagingSession found by Id, trying by Name: ${messagingSessionId}`
+        : `Query by ID failed, trying by Name as fallback for: ${messagingSessionId}`
+    );
+    const byName = await queryMessagingSessionChain(session, apiVersion, 'Name', messagingSessionId);
+    const nameRecords = getStepRecords<SalesforceMessagingSession>(byName, REF_SESSION);
+    if (nameRecords && nameRecords.length > 0) {
+      return toMessagingSessionResult(byName, notFoundMessage);
     }
   }
 
-  return {
-    conversationIdentifier,
-    messagingSessionId: actualMessagingSessionId, // Use the actual ID from Salesforce
-    messagingSessionName,
-    caseNumber, // Include case number for saving
-  };
+  return toMessagingSessionResult(byId, notFoundMessage);
 }
 
 /**
- * Get Conversation Identifier from MessagingSessionName
+ * Get Conversation Identifier from MessagingSessionName in one composite request
  * 1. MessagingSession (by Name) → ConversationId, Id, CaseId
  * 2. Conversation → ConversationIdentifier
+ * 3. Case → CaseNumber
  */
 export async function getConversationIdentifierByMessagingSessionName(
   session: SalesforceSession,
   messagingSessionName: string,
   apiVersion: string
 ): Promise<ConversationIdentifierResult | null> {
-  const instanceUrl = session.getInstanceUrl();
-  const baseQueryUrl = `${instanceUrl}/services/data/${apiVersion}/query`;
-
-  // Step 1: Get ConversationId, Id, and CaseId from MessagingSession by Name
-  const messagingQuery = `SELECT Id, ConversationId, Name, CaseId FROM MessagingSession WHERE Name='${messagingSessionName.replace(/'/g, "''")}' LIMIT 1`;
-  const messagingQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(messagingQuery)}`;
-  const response = await session.makeRequest('GET', messagingQueryUrl, {
-    headers: {},
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to query messaging session: ${response.status} ${errorText}`);
-  }
-
-  const messagingResult: SalesforceQueryResponse<SalesforceMessagingSession> =
-    await response.json();
-
-  if (!messagingResult.records || messagingResult.records.length === 0) {
-    throw new Error(`No MessagingSession found with Name: ${messagingSessionName}`);
-  }
-
-  const conversationId = messagingResult.records[0].ConversationId;
-  const messagingSessionId = messagingResult.records[0].Id;
-  const caseId = messagingResult.records[0].CaseId;
-
-  // Ensure messagingSessionId is always present
-  if (!messagingSessionId) {
-    throw new Error('MessagingSessionId is required but was not found in Salesforce response');
-  }
-
-  // Step 2: Get ConversationIdentifier
-  const conversationQuery = `SELECT ConversationIdentifier FROM Conversation WHERE Id='${conversationId}' LIMIT 1`;
-  const conversationQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(conversationQuery)}`;
-  const conversationResponse = await session.makeRequest('GET', conversationQueryUrl, {
-    headers: {},
-  });
-
-  if (!conversationResponse.ok) {
-    const errorText = await conversationResponse.text();
-    throw new Error(`Failed to query conversation: ${conversationResponse.status} ${errorText}`);
-  }
-
-  const conversationResult: SalesforceQueryResponse<SalesforceConversation> =
-    await conversationResponse.json();
-
-  if (!conversationResult.records || conversationResult.records.length === 0) {
-    throw new Error('No Conversation found');
-  }
-
-  const conversationIdentifier =
-    conversationResult.records[0].ConversationIdentifier;
-
-  // Step 3: Get Case Number for saving transcript
-  let caseNumber: string | null = null;
-  if (caseId) {
-    const caseQuery = `SELECT CaseNumber FROM Case WHERE Id='${caseId}' LIMIT 1`;
-    const caseQueryUrl = `${baseQueryUrl}?q=${encodeURIComponent(caseQuery)}`;
-    const caseResponse = await session.makeRequest('GET', caseQueryUrl, {
-      headers: {},
-    });
-
-    if (caseResponse.ok) {
-      const caseResult: SalesforceQueryResponse<SalesforceCase> =
-        await caseResponse.json();
-      if (caseResult.records && caseResult.records.length > 0) {
-        caseNumber = caseResult.records[0].CaseNumber;
-      }
-    }
-  }
-
-  return {
-    conversationIdentifier,
-    messagingSessionId, // Always present, validated above
-    messagingSessionName: messagingResult.records[0].Name || null,
-    caseNumber, // Include case number for saving
-  };
+  const composite = await queryMessagingSessionChain(session, apiVersion, 'Name', messagingSessionName);
+  return toMessagingSessionResult(composite, `No MessagingSession found with Name: ${messagingSessionName}`);
 }
 
 /**
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { SalesforceSession } from './client';
+import {
+  EvaluationSyncConfig,
+  formatEvaluationFeedBody,
+  SyncableEvaluation,
+  syncEvaluationToSalesforce,
+} from './evaluation-sync';
+
+const evaluation: SyncableEvaluation = {
+  id: 'eval-1',
+  messaging_session_id: '0Mw000000000001',
+  messaging_session_name: 'MS-0001',
+  winner: 'sierra',
+  scores: { resolution: { af: 3, sierra: 5 } },
+  notes: null,
+  evaluator_email: 'reviewer@example.com',
+  evaluation_timestamp: '2026-01-02T03:04:05',
+};
+
+const feedItemConfig = { target: 'feed_item', objectName: '', fields: {} } as unknown as EvaluationSyncConfig;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Answers the messaging session query, the feed item query and the FeedItem post
+function fakeSession(feedItems: Array<{ Id: string; Body: string }>) {
+  const makeRequest = vi.fn(async (method: string, url: string) => {
+    if (method === 'POST') {
+      return json({ id: '0D5000000000NEW', success: true, errors: [] }, 201);
+    }
+    const query = decodeURIComponent(new URL(url).searchParams.get('q') || '');
+    if (query.includes('FROM MessagingSession')) {
+      return json({ totalSize: 1, done: true, records: [{ Id: evaluation.messaging_session_id, CaseId: '500000000000001' }] });
+    }
+    return json({ totalSize: feedItems.length, done: true, records: feedItems });
+  });
+  const session = { getInstanceUrl: () => 'https://example.my.salesforce.com', makeRequest };
+  return { session: session as unknown as SalesforceSession, makeRequest };
+}
+
+describe('formatEvaluationFeedBody', () => {
+  it('keeps the evaluation tag when the body is truncated', () => {
+    const body = formatEvaluationFeedBody({ ...evaluation, notes: 'x'.repeat(20000) });
+    expect(body.length).toBeLessThanOrEqual(10000);
+    expect(body.endsWith('(evaluation eval-1)')).toBe(true);
+    expect(body).toContain('x...\nEvaluated by reviewer@example.com');
+  });
+});
+
+describe('syncEvaluationToSalesforce feed items', () => {
+  it('posts a feed item when the case has none for the evaluation', async () => {
+    const { session, makeRequest } = fakeSession([{ Id: '0D5000000000OLD', Body: 'Evaluated at ... (evaluation eval-2)' }]);
+
+    const result = await syncEvaluationToSalesforce(session, 'v60.0', evaluation, feedItemConfig);
+
+    expect(result).toEqual({ status: 'synced', recordId: '0D5000000000NEW' });
+    expect(makeRequest.mock.calls.map(([method]) => method)).toEqual(['GET', 'GET', 'POST']);
+    expect(decodeURIComponent(makeRequest.mock.calls[1][1])).toContain(
+      "FROM FeedItem WHERE ParentId = '500000000000001' AND Type = 'TextPost' ORDER BY CreatedDate DESC"
+    );
+  });
+
+  it('does not post again when an earlier attempt already did', async () => {
+    const { session, makeRequest } = fakeSession([
+      { Id: '0D5000000000OLD', Body: formatEvaluationFeedBody(evaluation) },
+    ]);
+
+    const result = await syncEvaluationToSalesforce(session, 'v60.0', evaluation, feedItemConfig);
+
+    expect(result).toEqual({ status: 'synced', recordId: '0D5000000000OLD' });
+    expect(makeRequest.mock.calls.map(([method]) => method)).toEqual(['GET', 'GET']);
+  });
+});
@@ -0,0 +1,340 @@
+import { SalesforceSession } from './client';
+import { soql } from './soql';
+import { Database } from '@/lib/supabase/database.types';
+import { SalesforceQueryResponse } from '@/types/salesforce';
+
+/**
+ * Writing evaluation results back to Salesforce
+ * SALESFORCE_EVALUATION_SYNC selects the target: `custom_object` upserts one record per evaluation
+ * into SALESFORCE_EVALUATION_OBJECT, keyed by the evaluation ID in an external ID field so a retried
+ * write updates the same record; `feed_item` posts a text post on the Case of the evaluated
+ * messaging session, tagged with the evaluation ID so a retried write finds the post it already
+ * made. Retries and sync status are handled by lib/jobs/salesforce-sync-worker.ts.
+ */
+
+export type EvaluationSyncTarget = 'custom_object' | 'feed_item';
+
+export const EVALUATION_SYNC_FIELDS = [
+  'external_id',
+  'messaging_session',
+  'case',
+  'winner',
+  'scores',
+  'notes',
+  'evaluator',
+  'evaluated_at',
+] as const;
+
+export type EvaluationSyncField = (typeof EVALUATION_SYNC_FIELDS)[number];
+
+export interface EvaluationSyncConfig {
+  target: EvaluationSyncTarget;
+  /** Custom object API name (custom_object target only) */
+  objectName: string;
+  /** Field API name per evaluation value; an empty name leaves that value out */
+  fields: Record<EvaluationSyncField, string>;
+}
+
+/** The evaluation columns written to Salesforce */
+export type SyncableEvaluation = Pick<
+  Database['public']['Tables']['evaluations']['Row'],
+  'id' | 'messaging_session_id' | 'messaging_session_name' | 'winner' | 'scores' | 'notes' | 'evaluator_email' | 'evaluation_timestamp'
+>;
+
+export type EvaluationSyncResult =
+  | { status: 'synced'; recordId: string | null }
+  | { status: 'skipped'; reason: string };
+
+const DEFAULT_EVALUATION_OBJECT = 'Evaluation_Result__c';
+
+const DEFAULT_EVALUATION_FIELDS: Record<EvaluationSyncField, string> = {
+  external_id: 'Evaluation_Id__c',
+  messaging_session: 'Messaging_Session__c',
+  case: 'Case__c',
+  winner: 'Winner__c',
+  scores: 'Scores__c',
+  notes: 'Notes__c',
+  evaluator: 'Evaluator_Email__c',
+  evaluated_at: 'Evaluated_At__c',
+};
+
+const API_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+// FeedItem bodies are limited to 10,000 characters
+const MAX_FEED_BODY_LENGTH = 10000;
+
+// Recent text posts on a Case searched for one already made for an evaluation; a retry follows
+// the failed write within hours, so its post is among the latest
+const MAX_FEED_ITEMS_CHECKED = 200;
+
+const WINNER_LABELS: Record<string, string> = {
+  sierra: 'Sierra',
+  agentforce: 'Agentforce',
+  tie: 'Tie',
+  both_poor: 'Both poor',
+};
+
+/**
+ * A write Salesforce rejected; retryable when it may succeed later (rate limits, outages)
+ */
+export class EvaluationSyncError extends Error {
+  retryable: boolean;
+
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'EvaluationSyncError';
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Whether new evaluations should be queued for Salesforce (does not validate the field mapping)
+ */
+export function isEvaluationSyncEnabled(): boolean {
+  const target = (process.env.SALESFORCE_EVALUATION_SYNC || 'off').trim().toLowerCase();
+  return target !== '' && target !== 'off';
+}
+
+/**
+ * Read the sync settings; null when the sync is off, throws when they are invalid
+ * SALESFORCE_EVALUATION_FIELDS overrides field names as key=Field__c pairs (e.g.
+ * "winner=Verdict__c,notes=" renames the winner field and leaves notes out).
+ */
+export function getEvaluationSyncConfig(): EvaluationSyncConfig | null {
+  if (!isEvaluationSyncEnabled()) {
+    return null;
+  }
+
+  const target = (process.env.SALESFORCE_EVALUATION_SYNC || '').trim().toLowerCase();
+  if (target !== 'custom_object' && target !== 'feed_item') {
+    throw new Error(`SALESFORCE_EVALUATION_SYNC must be off, custom_object or feed_item, got "${target}"`);
+  }
+
+  const objectName = (process.env.SALESFORCE_EVALUATION_OBJECT || DEFAULT_EVALUATION_OBJECT).trim();
+  if (!API_NAME_PATTERN.test(objectName)) {
+    throw new Error(`Invalid SALESFORCE_EVALUATION_OBJECT: ${objectName}`);
+  }
+
+  const fields = { ...DEFAULT_EVALUATION_FIELDS };
+  const overrides = (process.env.SALESFORCE_EVALUATION_FIELDS || '').split(',').filter((pair) => pair.trim());
+  for (const pair of overrides) {
+    const [rawKey, ...rest] = pair.split('=');
+    const key = rawKey.trim() as EvaluationSyncField;
+    const fieldName = rest.join('=').trim();
+    if (!EVALUATION_SYNC_FIELDS.includes(key)) {
+      throw new Error(`Unknown SALESFORCE_EVALUATION_FIELDS key "${rawKey.trim()}"; expected one of ${EVALUATION_SYNC_FIELDS.join(', ')}`);
+    }
+    if (fieldName && !API_NAME_PATTERN.test(fieldName)) {
+      throw new Error(`Invalid field name in SALESFORCE_EVALUATION_FIELDS: ${fieldName}`);
+    }
+    fields[key] = fieldName;
+  }
+
+  if (target === 'custom_object' && !fields.external_id) {
+    throw new Error('SALESFORCE_EVALUATION_FIELDS cannot leave out external_id: custom object records are upserted by it');
+  }
+
+  return { target, objectName, fields };
+}
+
+/**
+ * Turn a failed response into an EvaluationSyncError with Salesforce's error code and message
+ */
+async function toSyncError(response: Response, action: string): Promise<EvaluationSyncError> {
+  const text = await response.text();
+  let detail = text;
+  try {
+    const [first] = JSON.parse(text) as Array<{ errorCode?: string; message?: string }>;
+    if (first?.errorCode) {
+      detail = `${first.errorCode}: ${first.message || ''}`.trim();
+    }
+  } catch {
+    // Not a Salesforce error list; keep the raw body
+  }
+  const retryable = response.status === 429 || response.status >= 500;
+  return new EvaluationSyncError(`Failed to ${action}: ${response.status} ${detail}`, retryable);
+}
+
+/**
+ * Look up the messaging session; null when Salesforce has no such session
+ */
+async function getMessagingSessionCase(
+  session: SalesforceSession,
+  apiVersion: string,
+  messagingSessionId: string
+): Promise<{ caseId: string | null } | null> {
+  const query = soql('MessagingSession')
+    .select('Id', 'CaseId')
+    .where('Id', '=', messagingSessionId)
+    .limit(1)
+    .toString();
+  const queryUrl = `${session.getInstanceUrl()}/services/data/${apiVersion}/query?q=${encodeURIComponent(query)}`;
+  const response = await session.makeRequest('GET', queryUrl, {
+    headers: {},
+  });
+
+  if (!response.ok) {
+    throw await toSyncError(response, 'query messaging session');
+  }
+
+  const result: SalesforceQueryResponse<{ Id: string; CaseId: string | null }> = await response.json();
+  const record = result.records?.[0];
+  return record ? { caseId: record.CaseId || null } : null;
+}
+
+/**
+ * The feed post already made for an evaluation on a Case, found by the evaluation tag in its body;
+ * null when there is none (Body cannot be filtered on in SOQL, so recent posts are read instead)
+ */
+async function findEvaluationFeedItem(
+  session: SalesforceSession,
+  apiVersion: string,
+  caseId: string,
+  evaluationId: string
+): Promise<string | null> {
+  const query = soql('FeedItem')
+    .select('Id', 'Body')
+    .where('ParentId', '=', caseId)
+    .where('Type', '=', 'TextPost')
+    .orderBy('CreatedDate', 'DESC')
+    .limit(MAX_FEED_ITEMS_CHECKED)
+    .toString();
+  const queryUrl = `${session.getInstanceUrl()}/services/data/${apiVersion}/query?q=${encodeURIComponent(query)}`;
+  const response = await session.makeRequest('GET', queryUrl, {
+    headers: {},
+  });
+
+  if (!response.ok) {
+    throw await toSyncError(response, 'query case feed items');
+  }
+
+  const result: SalesforceQueryResponse<{ Id: string; Body: string | null }> = await response.json();
+  const tag = evaluationFeedTag(evaluationId);
+  return result.records?.find((record) => record.Body?.includes(tag))?.Id || null;
+}
+
+function evaluationFeedTag(evaluationId: string): string {
+  return `(evaluation ${evaluationId})`;
+}
+
+/**
+ * One "Resolution: Agentforce 3, Sierra 5" line per metric for scores shaped { metric: { af, sierra } }
+ */
+function describeScores(scores: unknown): string[] {
+  if (!scores || typeof scores !== 'object') {
+    return [];
+  }
+  return Object.entries(scores as Record<string, unknown>)
+    .filter(([, value]) => value && typeof value === 'object')
+    .map(([metric, value]) => {
+      const { af, sierra } = value as { af?: unknown; sierra?: unknown };
+      const label = metric.charAt(0).toUpperCase() + metric.slice(1);
+      return `${label}: Agentforce ${af ?? '-'}, Sierra ${sierra ?? '-'}`;
+    });
+}
+
+/**
+ * Text of the feed post; the last line carries the evaluation tag, which truncation never cuts
+ */
+export function formatEvaluationFeedBody(evaluation: SyncableEvaluation): string {
+  const lines = [
+    `Chatbot evaluation of messaging session ${evaluation.messaging_session_name || evaluation.messaging_session_id}`,
+    `Winner: ${WINNER_LABELS[evaluation.winner] || evaluation.winner}`,
+    ...describeScores(evaluation.scores),
+  ];
+  if (evaluation.notes) {
+    lines.push(`Notes: ${evaluation.notes}`);
+  }
+  const body = lines.join('\n');
+  const footer = `\nEvaluated${evaluation.evaluator_email ? ` by ${evaluation.evaluator_email}` : ''} at ${evaluation.evaluation_timestamp} ${evaluationFeedTag(evaluation.id)}`;
+  const maxBodyLength = MAX_FEED_BODY_LENGTH - footer.length;
+  return `${body.length > maxBodyLength ? `${body.slice(0, maxBodyLength - 3)}...` : body}${footer}`;
+}
+
+/**
+ * Field values for the custom object record, by the configured field names
+ */
+function toCustomObjectFields(
+  evaluation: SyncableEvaluation,
+  caseId: string | null,
+  fields: Record<EvaluationSyncField, string>
+): Record<string, unknown> {
+  const values: Record<Exclude<EvaluationSyncField, 'external_id'>, unknown> = {
+    messaging_session: evaluation.messaging_session_id,
+    case: caseId,
+    winner: evaluation.winner,
+    scores: JSON.stringify(evaluation.scores),
+    notes: evaluation.notes,
+    evaluator: evaluation.evaluator_email,
+    // Timestamps are stored in UTC without a zone
+    evaluated_at: evaluation.evaluation_timestamp.endsWith('Z')
+      ? evaluation.evaluation_timestamp
+      : `${evaluation.evaluation_timestamp}Z`,
+  };
+
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    const fieldName = fields[key as EvaluationSyncField];
+    if (fieldName) {
+      record[fieldName] = value;
+    }
+  }
+  return record;
+}
+
+/**
+ * Write one evaluation to Salesforce
+ * Evaluations without a messaging session (custom chats) and, for feed items, sessions without a
+ * Case are skipped. Throws EvaluationSyncError when Salesforce rejects a request.
+ */
+export async function syncEvaluationToSalesforce(
+  session: SalesforceSession,
+  apiVersion: string,
+  evaluation: SyncableEvaluation,
+  config: EvaluationSyncConfig
+): Promise<EvaluationSyncResult> {
+  if (!evaluation.messaging_session_id) {
+    return { status: 'skipped', reason: 'Evaluation has no messaging session' };
+  }
+
+  const messagingSession = await getMessagingSessionCase(session, apiVersion, evaluation.messaging_session_id);
+  if (!messagingSession) {
+    throw new EvaluationSyncError(`Messaging session ${evaluation.messaging_session_id} was not found in Salesforce`, false);
+  }
+
+  const sobjectsUrl = `${session.getInstanceUrl()}/services/data/${apiVersion}/sobjects`;
+
+  if (config.target === 'feed_item') {
+    if (!messagingSession.caseId) {
+      return { status: 'skipped', reason: `Messaging session ${evaluation.messaging_session_id} has no case` };
+    }
+    // An earlier attempt may have posted before failing (e.g. a timeout after Salesforce saved it)
+    const existingId = await findEvaluationFeedItem(session, apiVersion, messagingSession.caseId, evaluation.id);
+    if (existingId) {
+      return { status: 'synced', recordId: existingId };
+    }
+    const response = await session.makeRequest('POST', `${sobjectsUrl}/FeedItem`, {
+      body: JSON.stringify({
+        ParentId: messagingSession.caseId,
+        Type: 'TextPost',
+        Body: formatEvaluationFeedBody(evaluation),
+      }),
+    });
+    if (!response.ok) {
+      throw await toSyncError(response, 'post case feed item');
+    }
+    const created: { id?: string } = await response.json();
+    return { status: 'synced', recordId: created.id || null };
+  }
+
+  // Upsert by external ID: 201 creates the record, 200 (or 204 on older API versions) updates it
+  const upsertUrl = `${sobjectsUrl}/${config.objectName}/${config.fields.external_id}/${encodeURIComponent(evaluation.id)}`;
+  const response = await session.makeRequest('PATCH', upsertUrl, {
+    body: JSON.stringify(toCustomObjectFields(evaluation, messagingSession.caseId, config.fields)),
+  });
+  if (!response.ok) {
+    throw await toSyncError(response, `upsert ${config.objectName}`);
+  }
+  const upserted: { id?: string } = response.status === 204 ? {} : await response.json().catch(() => ({}));
+  return { status: 'synced', recordId: upserted.id || null };
+}
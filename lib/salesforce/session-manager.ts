@@ -0,0 +1,52 @@
+import { SalesforceConfig } from '@/lib/config/integrations';
+import { SalesforceAuthMetrics, SalesforceSession } from './client';
+import { getAuthIdentity } from './auth';
+
+/**
+ * Process-wide Salesforce sessions, one per org (OAuth URL) and identity (auth flow with client ID,
+ * user or refresh token)
+ * Routes share the session - and with it the cached access token - instead of authenticating on
+ * every request. Concurrent requests that find the token missing or expiring wait on a single
+ * refresh. Reusing the session also reuses fetch's pooled keep-alive connections to the org.
+ */
+
+const sessions = new Map<string, SalesforceSession>();
+
+function getSessionKey(config: SalesforceConfig): string {
+  return `${config.oauthUrl}|${getAuthIdentity(config.auth)}`;
+}
+
+// The OAuth host identifies the org without exposing the client ID or user
+function getOrgLabel(key: string): string {
+  const oauthUrl = key.split('|')[0];
+  try {
+    return new URL(oauthUrl).host;
+  } catch {
+    return oauthUrl;
+  }
+}
+
+/**
+ * The shared session for an org, authenticated (from the token cache when possible)
+ */
+export async function getSalesforceSession(config: SalesforceConfig): Promise<SalesforceSession> {
+  const key = getSessionKey(config);
+  let session = sessions.get(key);
+  if (!session) {
+    session = new SalesforceSession(config.auth, config.oauthUrl);
+    sessions.set(key, session);
+  }
+
+  await session.getToken();
+  return session;
+}
+
+/**
+ * Token cache and OAuth call counts per org, for the health endpoint
+ */
+export function getSalesforceAuthMetrics(): Array<SalesforceAuthMetrics & { org: string }> {
+  return Array.from(sessions.entries()).map(([key, session]) => ({
+    org: getOrgLabel(key),
+    ...session.getMetrics(),
+  }));
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { soql, soqlLikePattern, soqlLiteral, soqlReference, SoqlObject } from './soql';
+
+describe('soqlLiteral', () => {
+  it('escapes quotes so a value cannot close the literal', () => {
+    expect(soqlLiteral("00001' OR Id != null OR CaseNumber = '")).toBe(
+      "'00001\\' OR Id != null OR CaseNumber = \\''"
+    );
+    expect(soqlLiteral('say "hi"')).toBe("'say \\\"hi\\\"'");
+  });
+
+  it('escapes backslashes before quotes so an escape cannot be cancelled', () => {
+    // A trailing backslash would otherwise escape the closing quote
+    expect(soqlLiteral('abc\\')).toBe("'abc\\\\'");
+    expect(soqlLiteral("\\' OR Name != '")).toBe("'\\\\\\' OR Name != \\''");
+  });
+
+  it('escapes newlines and other control characters', () => {
+    expect(soqlLiteral('line1\nline2\r\tend')).toBe("'line1\\nline2\\r\\tend'");
+    expect(soqlLiteral('\b\f')).toBe("'\\b\\f'");
+  });
+
+  it('renders non-string values', () => {
+    expect(soqlLiteral(null)).toBe('null');
+    expect(soqlLiteral(true)).toBe('true');
+    expect(soqlLiteral(42)).toBe('42');
+    expect(() => soqlLiteral(Number.NaN)).toThrow('finite');
+  });
+
+  it('renders composite references and rejects malformed ones', () => {
+    expect(soqlLiteral(soqlReference('refCase.records[0].Id'))).toBe("'@{refCase.records[0].Id}'");
+    expect(() => soqlReference("refCase.records[0].Id}' OR Id != '")).toThrow('Invalid SOQL reference');
+  });
+});
+
+describe('soqlLikePattern', () => {
+  it('escapes % and _ so they match literally', () => {
+    expect(soqlLikePattern('100%_off', 'exact')).toBe("'100\\%\\_off'");
+    expect(soqlLikePattern('a_b', 'starts_with')).toBe("'a\\_b%'");
+    expect(soqlLikePattern('%', 'contains')).toBe("'%\\%%'");
+  });
+
+  it('escapes quotes in LIKE patterns too', () => {
+    expect(soqlLikePattern("x' OR Name LIKE '%")).toBe("'%x\\' OR Name LIKE \\'\\%%'");
+  });
+
+  it('builds LIKE conditions on whitelisted fields', () => {
+    expect(soql('Case').select('Id').whereLike('Subject', 'refund_50%', 'starts_with').toString()).toBe(
+      "SELECT Id FROM Case WHERE Subject LIKE 'refund\\_50\\%%'"
+    );
+  });
+});
+
+describe('soql', () => {
+  it('builds a query with escaped values', () => {
+    const query = soql('Case').select('Id', 'CaseNumber').where('CaseNumber', '=', "1' OR '1'='1").limit(1).toString();
+    expect(query).toBe("SELECT Id, CaseNumber FROM Case WHERE CaseNumber = '1\\' OR \\'1\\'=\\'1' LIMIT 1");
+  });
+
+  it('rejects objects outside the whitelist', () => {
+    expect(() => soql('User' as SoqlObject)).toThrow('SOQL object is not allowed: User');
+    expect(() => soql('Case WHERE Id != null' as SoqlObject)).toThrow('SOQL object is not allowed');
+  });
+
+  it('rejects fields outside the whitelist', () => {
+    expect(() => soql('Case').select('Password__c')).toThrow('SOQL field is not allowed on Case');
+    expect(() => soql('Case').select('Id').where('OwnerId', '=', 'x')).toThrow('not allowed');
+    expect(() => soql('Case').select('Id').orderBy('CreatedDate')).toThrow('not allowed');
+  });
+
+  it('rejects field lists that smuggle in other clauses', () => {
+    expect(() => soql('Case').select('Id, Subject')).toThrow('not allowed');
+    expect(() => soql('Case').select('Id FROM User')).toThrow('not allowed');
+    expect(() => soql('Case', { extraFields: ['Id, Name FROM User'] })).toThrow('Invalid SOQL field name');
+    expect(() => soql('Case', { extraFields: ['Contact.Name FROM Contact'] })).toThrow('Invalid SOQL field name');
+  });
+
+  it('accepts validated extra fields', () => {
+    expect(soql('Case', { extraFields: ['Contact.Name', 'Reason__c'] }).select('Contact.Name', 'Reason__c').toString()).toBe(
+      'SELECT Contact.Name, Reason__c FROM Case'
+    );
+  });
+
+  it('builds IN lists with escaped values and rejects empty ones', () => {
+    expect(soql('MessagingSession').select('Id').whereIn('CaseId', ['a', "b'"]).toString()).toBe(
+      "SELECT Id FROM MessagingSession WHERE CaseId IN ('a', 'b\\'')"
+    );
+    expect(() => soql('MessagingSession').select('Id').whereIn('CaseId', [])).toThrow('IN list for CaseId is empty');
+  });
+
+  it('builds one-field semi-joins only', () => {
+    const sessions = soql('MessagingSession').select('CaseId');
+    expect(soql('Case').select('Id').whereInQuery('Id', sessions).toString()).toBe(
+      'SELECT Id FROM Case WHERE Id IN (SELECT CaseId FROM MessagingSession)'
+    );
+    expect(() => soql('Case').select('Id').whereInQuery('Id', soql('MessagingSession').select('Id', 'CaseId'))).toThrow(
+      'exactly one field'
+    );
+  });
+
+  it('rejects unsupported operators, directions and limits', () => {
+    // Casts stand in for untyped callers
+    expect(() => soql('Case').select('Id').where('Id', '= null OR Id =' as '=', 'x')).toThrow('Unsupported SOQL operator');
+    expect(() => soql('Case').select('Id').orderBy('Id', 'ASC; DELETE' as 'ASC')).toThrow('Unsupported SOQL sort direction');
+    expect(() => soql('Case').select('Id').limit(0)).toThrow('positive integer');
+    expect(() => soql('Case').toString()).toThrow('selects no fields');
+  });
+});
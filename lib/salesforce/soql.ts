@@ -0,0 +1,200 @@
+/**
+ * Typed SOQL builder used for every Salesforce query this app issues
+ * Objects and fields come from a whitelist (plus fields a caller validated itself, such as the
+ * configured case context fields), and values are always rendered as escaped literals, so input
+ * such as a case number can never change the shape of a query.
+ */
+
+/**
+ * Queryable objects and the fields that may be selected or filtered on
+ */
+const SOQL_FIELDS = {
+  Case: ['Id', 'CaseNumber', 'Subject', 'Status', 'Origin', 'Priority', 'ContactId', 'AccountId', 'IsClosed'],
+  MessagingSession: ['Id', 'Name', 'ConversationId', 'CaseId', 'ChannelType', 'StartTime'],
+  Conversation: ['Id', 'ConversationIdentifier'],
+  FeedItem: ['Id', 'ParentId', 'Type', 'Body', 'CreatedDate'],
+} as const;
+
+export type SoqlObject = keyof typeof SOQL_FIELDS;
+export type SoqlOperator = '=' | '!=';
+export type SoqlValue = string | number | boolean | null | SoqlReference;
+
+/**
+ * A Composite API reference such as @{refCase.records[0].Id}, substituted by Salesforce
+ */
+export interface SoqlReference {
+  reference: string;
+}
+
+// A field, optionally through one relationship (Contact.Name); custom fields end in __c
+const FIELD_NAME_PATTERN = /^([A-Za-z][A-Za-z0-9_]*\.)?[A-Za-z][A-Za-z0-9_]*$/;
+const REFERENCE_PATTERN = /^[A-Za-z][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*|\[\d+\])+$/;
+
+const LITERAL_ESCAPES: Record<string, string> = {
+  '\\': '\\\\',
+  "'": "\\'",
+  '"': '\\"',
+  '\n': '\\n',
+  '\r': '\\r',
+  '\t': '\\t',
+  '\b': '\\b',
+  '\f': '\\f',
+};
+
+/**
+ * Reference an earlier Composite API subrequest's result, e.g. soqlReference('refCase.records[0].Id')
+ */
+export function soqlReference(reference: string): SoqlReference {
+  if (!REFERENCE_PATTERN.test(reference)) {
+    throw new Error(`Invalid SOQL reference: ${reference}`);
+  }
+  return { reference };
+}
+
+/**
+ * Render a value as a SOQL literal
+ */
+export function soqlLiteral(value: SoqlValue): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new Error(`SOQL numbers must be finite: ${value}`);
+    }
+    return String(value);
+  }
+  if (typeof value === 'object') {
+    return `'@{${value.reference}}'`;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Unsupported SOQL value: ${typeof value}`);
+  }
+  return `'${value.replace(/[\\'"\n\r\t\b\f]/g, (char) => LITERAL_ESCAPES[char])}'`;
+}
+
+/**
+ * Render text as a LIKE pattern that matches it literally, with `%` wildcards where `match` asks
+ * for them; `%` and `_` in the text are escaped so they are not wildcards
+ */
+export function soqlLikePattern(text: string, match: 'exact' | 'starts_with' | 'contains' = 'contains'): string {
+  const escaped = soqlLiteral(text).slice(1, -1).replace(/[%_]/g, (char) => `\\${char}`);
+  const pattern = match === 'exact' ? escaped : match === 'starts_with' ? `${escaped}%` : `%${escaped}%`;
+  return `'${pattern}'`;
+}
+
+/**
+ * Query builder for one object; build with soql('Case').select(...).where(...).limit(1)
+ */
+export class SoqlQuery {
+  private fields: string[] = [];
+  private conditions: string[] = [];
+  private order: string | null = null;
+  private maxRows: number | null = null;
+  private object: SoqlObject;
+  private allowedFields: Set<string>;
+
+  constructor(object: SoqlObject, options: { extraFields?: string[] } = {}) {
+    if (!Object.prototype.hasOwnProperty.call(SOQL_FIELDS, object)) {
+      throw new Error(`SOQL object is not allowed: ${object}`);
+    }
+    this.object = object;
+    this.allowedFields = new Set<string>(SOQL_FIELDS[object]);
+    for (const field of options.extraFields || []) {
+      if (!FIELD_NAME_PATTERN.test(field)) {
+        throw new Error(`Invalid SOQL field name: ${field}`);
+      }
+      this.allowedFields.add(field);
+    }
+  }
+
+  private checkField(field: string): string {
+    if (!this.allowedFields.has(field)) {
+      throw new Error(`SOQL field is not allowed on ${this.object}: ${field}`);
+    }
+    return field;
+  }
+
+  select(...fields: string[]): this {
+    this.fields.push(...fields.map((field) => this.checkField(field)));
+    return this;
+  }
+
+  /**
+   * Add a condition; conditions are joined with AND
+   */
+  where(field: string, operator: SoqlOperator, value: SoqlValue): this {
+    if (operator !== '=' && operator !== '!=') {
+      throw new Error(`Unsupported SOQL operator: ${operator}`);
+    }
+    this.conditions.push(`${this.checkField(field)} ${operator} ${soqlLiteral(value)}`);
+    return this;
+  }
+
+  /**
+   * LIKE condition matching text literally (see soqlLikePattern)
+   */
+  whereLike(field: string, text: string, match: 'exact' | 'starts_with' | 'contains' = 'contains'): this {
+    this.conditions.push(`${this.checkField(field)} LIKE ${soqlLikePattern(text, match)}`);
+    return this;
+  }
+
+  whereIn(field: string, values: SoqlValue[]): this {
+    if (values.length === 0) {
+      throw new Error(`SOQL IN list for ${field} is empty`);
+    }
+    this.conditions.push(`${this.checkField(field)} IN (${values.map(soqlLiteral).join(', ')})`);
+    return this;
+  }
+
+  /**
+   * Semi-join: field IN (SELECT ... ) with a one-field subquery on another object
+   */
+  whereInQuery(field: string, subquery: SoqlQuery): this {
+    if (subquery.fields.length !== 1) {
+      throw new Error(`SOQL semi-join on ${field} must select exactly one field`);
+    }
+    this.conditions.push(`${this.checkField(field)} IN (${subquery.toString()})`);
+    return this;
+  }
+
+  orderBy(field: string, direction: 'ASC' | 'DESC' = 'ASC'): this {
+    if (direction !== 'ASC' && direction !== 'DESC') {
+      throw new Error(`Unsupported SOQL sort direction: ${direction}`);
+    }
+    this.order = `${this.checkField(field)} ${direction}`;
+    return this;
+  }
+
+  limit(rows: number): this {
+    if (!Number.isInteger(rows) || rows < 1) {
+      throw new Error(`SOQL LIMIT must be a positive integer: ${rows}`);
+    }
+    this.maxRows = rows;
+    return this;
+  }
+
+  toString(): string {
+    if (this.fields.length === 0) {
+      throw new Error(`SOQL query on ${this.object} selects no fields`);
+    }
+    let query = `SELECT ${Array.from(new Set(this.fields)).join(', ')} FROM ${this.object}`;
+    if (this.conditions.length > 0) {
+      query += ` WHERE ${this.conditions.join(' AND ')}`;
+    }
+    if (this.order) {
+      query += ` ORDER BY ${this.order}`;
+    }
+    if (this.maxRows !== null) {
+      query += ` LIMIT ${this.maxRows}`;
+    }
+    return query;
+  }
+}
+
+export function soql(object: SoqlObject, options: { extraFields?: string[] } = {}): SoqlQuery {
+  return new SoqlQuery(object, options);
+}
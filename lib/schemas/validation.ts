@@ -46,6 +46,8 @@ export const evaluationSchema = z.object({
   time_spent_seconds: z.number().int().min(0).max(86400).optional(), // Max 24 hours
   messaging_session_id: z.string().max(255, "MessagingSessionId too long").optional(),
   messaging_session_name: z.string().max(255, "MessagingSessionName too long").optional(),
+  sierra_run_id: z.string().uuid("Invalid Sierra run ID").optional(), // Sample shown to the evaluator
+  agentforce_version: z.number().int().min(1).optional(), // Version of the Agentforce transcript shown to the evaluator
 }).refine(
   (data) => {
     // Must have either transcript_id or chat_session_id, not both
@@ -77,3 +79,58 @@ export const chatEvaluationSchema = z.object({
   time_spent_seconds: z.number().int().min(0).max(86400).optional(),
 });
 
+
+// Replay rule validation (patterns must compile as regular expressions)
+export const replayRuleSchema = z.object({
+  name: z.string().trim().min(1, "Rule name is required").max(100),
+  action: z.enum(['skip', 'rewrite', 'stop']),
+  pattern: z.string().max(500).optional(),
+  flags: z.string().regex(/^[imsu]*$/, "Flags may only contain i, m, s and u").optional(),
+  role: z.string().max(50).optional(),
+  type: z.string().max(50).optional(),
+  replacement: z.string().max(2000).optional(),
+}).refine(
+  (rule) => {
+    if (!rule.pattern) return true;
+    try {
+      new RegExp(rule.pattern, rule.flags ?? 'i');
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Pattern must be a valid regular expression", path: ['pattern'] }
+).refine(
+  (rule) => rule.action !== 'rewrite' || rule.replacement !== undefined,
+  { message: "Rewrite rules need a replacement", path: ['replacement'] }
+).refine(
+  (rule) => !!(rule.pattern || rule.role || rule.type),
+  { message: "Rules need a pattern, role or type to match" }
+);
+
+export const replayRuleSetSchema = z.object({
+  stop_at_human_handoff: z.boolean().default(false),
+  rules: z.array(replayRuleSchema).max(50, "Too many rules (max 50)").default([]),
+});
+
+export const testBatchIdSchema = z.string()
+  .regex(/^[A-Za-z0-9._:-]+$/, "Invalid test batch ID")
+  .min(1)
+  .max(100);
+
+export const generationJobSchema = z.object({
+  test_batch_id: testBatchIdSchema,
+  release: z.string().max(100).optional(),
+});
+
+export const generationJobRetrySchema = z.object({
+  item_ids: z.array(z.string().uuid()).max(500).optional(),
+});
+
+// Queue evaluations for the Salesforce sync (backfill and retrying failures)
+export const evaluationSyncQueueSchema = z.object({
+  evaluation_ids: z.array(z.string().uuid()).max(500).optional(),
+  since: z.string().datetime({ offset: true }).optional(),
+  include_unsynced: z.boolean().default(true),
+  include_failed: z.boolean().default(true),
+});
@@ -1,4 +1,22 @@
 import { ConversationEntry } from '@/types/salesforce';
+import {
+  AgentCheckpoint,
+  AgentEvent,
+  AgentMessageResponse,
+  AgentResponseTiming,
+  AgentSendOptions,
+  ConversationalAgent,
+} from '@/lib/agents/types';
+import { toAgentEvent } from './events';
+import {
+  CircuitOpenError,
+  RequestAbortedError,
+  RequestTimeoutError,
+  RetryInfo,
+  getHttpServiceConfig,
+  readTextTimed,
+  resilientFetch,
+} from '@/lib/http/resilient-fetch';
 
 export interface MessageAttachment {
   // Define attachment structure if needed
@@ -48,6 +66,7 @@ export interface SierraResponse {
     type: string;
     message?: {
       content: string;
+      text?: string;
     };
     [key: string]: any;
   };
@@ -55,38 +74,63 @@ export interface SierraResponse {
   [key: string]: any;
 }
 
-export interface SierraMessageResponse {
-  message: string;
+export interface SierraMessageResponse extends AgentMessageResponse {
   token?: string; // Updated token for next message
+  events: AgentEvent[]; // request-complete, transfer and other non-message events
 }
 
-export class SierraClient {
+/**
+ * Incremental events yielded by SierraClient.streamMessage
+ */
+export type SierraStreamEvent =
+  | { type: 'message'; text: string }
+  | { type: 'state'; state: string }
+  | { type: 'token'; token: string }
+  | { type: 'event'; event: AgentEvent };
+
+export class SierraClient implements ConversationalAgent {
+  readonly name = 'sierra';
   private apiUrl: string;
   private apiKey: string;
   private apiToken: string;
   private compatibilityDate: string;
   private conversationState: string | undefined;
+  private conversationToken: string | undefined; // Token issued by Sierra for this conversation, if any
+  private release: string | undefined;
 
   constructor(
     apiUrl: string,
     apiKey: string,
     apiToken: string,
     compatibilityDate = '2025-02-01',
-    conversationState?: string // Case ID or conversation state identifier
+    conversationState?: string, // Case ID or conversation state identifier
+    release?: string // Release ID or target name (e.g. "QA"); the default release when omitted
   ) {
     this.apiUrl = apiUrl;
     this.apiKey = apiKey;
     this.apiToken = apiToken;
     this.compatibilityDate = compatibilityDate;
     this.conversationState = conversationState;
+    this.release = release;
   }
 
   /**
-   * Send a message to Sierra API and return both the response and any token/state updates
-   * The state parameter ensures a single conversation per case ID
-   * The token maintains conversation state - if Sierra returns a new token, use it for subsequent messages
+   * Sierra establishes the conversation (and returns its state) on the first message,
+   * so there is nothing to do up front
+   */
+  async start(): Promise<void> {}
+
+  /**
+   * ConversationalAgent entry point - same as sendMessage
+   */
+  send(message: string, options?: AgentSendOptions): Promise<SierraMessageResponse> {
+    return this.sendMessage(message, options);
+  }
+
+  /**
+   * Build the request body for a user message, including the conversation state if we have one
    */
-  async sendMessage(message: string): Promise<SierraMessageResponse> {
+  private buildRequestBody(message: string, variables?: Record<string, string>): SierraRequest {
     // Validate and clean message
     if (!message || typeof message !== 'string') {
       throw new Error('Message must be a non-empty string');
@@ -98,7 +142,7 @@ export class SierraClient {
       throw new Error('Message cannot be empty');
     }
 
-    const requestBody: SierraRequest = {
+    return {
       token: this.apiToken,
       clientEvent: {
         type: 'message',
@@ -109,8 +153,22 @@ export class SierraClient {
       // Only include state if we have it from a previous response
       // First request should NOT include state - Sierra will return it
       ...(this.conversationState && { state: this.conversationState }),
+      ...(this.release && { release: this.release }),
+      ...(variables && Object.keys(variables).length > 0 && { variables }),
     };
+  }
 
+  /**
+   * POST a request to the Sierra chat endpoint and return the (successful) raw response
+   * A turn may have been recorded even when its attempt failed, so it is only retried when Sierra
+   * answered 429 or 503 (not processed), unless SIERRA_IDEMPOTENCY_KEYS says Sierra deduplicates
+   * by Idempotency-Key: then every attempt carries the same key and timeouts and 5xx are retried too
+   */
+  private async postChat(
+    requestBody: SierraRequest,
+    onRetry?: (info: RetryInfo) => void,
+    signal?: AbortSignal
+  ): Promise<Response> {
     // Stringify the request body
     const requestBodyJson = JSON.stringify(requestBody);
     
@@ -126,14 +184,13 @@ export class SierraClient {
       },
     });
 
+    const { timeoutMs, maxRetries, idempotencyKeys } = getHttpServiceConfig('SIERRA');
+
     let response: Response;
     try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-      
-      try {
-        response = await fetch(`${this.apiUrl}/chat`, {
+      response = await resilientFetch(
+        `${this.apiUrl}/chat`,
+        {
           method: 'POST',
           headers: {
             'Sierra-API-Compatibility-Date': this.compatibilityDate,
@@ -142,21 +199,26 @@ export class SierraClient {
             Authorization: `Bearer ${this.apiKey}`,
           },
           body: requestBodyJson,
-          signal: controller.signal,
-        });
-        clearTimeout(timeoutId);
-      } catch (fetchError: unknown) {
-        clearTimeout(timeoutId);
-        throw fetchError;
-      }
+        },
+        {
+          service: 'Sierra API',
+          timeoutMs,
+          maxRetries,
+          ...(idempotencyKeys && { idempotencyKey: crypto.randomUUID() }),
+          onRetry,
+          signal,
+        }
+      );
     } catch (fetchError: unknown) {
       // Handle network errors
-      const errorName = (fetchError as { name?: string })?.name;
       const errorMessage = fetchError instanceof Error ? fetchError.message : String(fetchError);
-      const errorCode = (fetchError as { code?: string })?.code;
+      const errorCode = (fetchError as { cause?: { code?: string } })?.cause?.code || (fetchError as { code?: string })?.code;
       
-      if (errorName === 'AbortError' || errorMessage.includes('aborted')) {
-        throw new Error(`Sierra API request timed out after 30 seconds. Please check your network connection and Sierra API availability.`);
+      if (fetchError instanceof RequestTimeoutError) {
+        throw new Error(`Sierra API request timed out after ${fetchError.timeoutMs / 1000} seconds. Please check your network connection and Sierra API availability.`);
+      }
+      if (fetchError instanceof CircuitOpenError || fetchError instanceof RequestAbortedError) {
+        throw fetchError;
       }
       if (errorCode === 'ENOTFOUND' || errorCode === 'ECONNREFUSED' || errorMessage.includes('fetch failed')) {
         throw new Error(`Cannot connect to Sierra API at ${this.apiUrl}. Please check: 1) API URL is correct, 2) Network connection, 3) API credentials are valid. Error: ${errorMessage}`);
@@ -176,13 +238,35 @@ export class SierraClient {
       );
     }
 
+    return response;
+  }
+
+  /**
+   * Send a message to Sierra API and return both the response and any token/state updates
+   * The state parameter ensures a single conversation per case ID
+   * The token maintains conversation state - if Sierra returns a new token, use it for subsequent messages
+   */
+  async sendMessage(message: string, options?: AgentSendOptions): Promise<SierraMessageResponse> {
+    // Latency is measured from when the request that succeeds is sent, so retry delays are not counted
+    let requestStartedAt = Date.now();
+    const response = await this.postChat(this.buildRequestBody(message, options?.variables), (info) => {
+      requestStartedAt = Date.now() + info.delayMs;
+      options?.onRetry?.(info);
+    }, options?.signal);
+
     // Get response text first to handle potential JSON parsing issues
-    const responseText = await response.text();
+    const { text: responseText, firstByteAt, completedAt } = await readTextTimed(response);
+    const timing: AgentResponseTiming = {
+      timeToFirstByteMs: firstByteAt - requestStartedAt,
+      totalMs: completedAt - requestStartedAt,
+    };
     
     // Log response for debugging
     console.log('Sierra API Response:', {
       status: response.status,
       statusText: response.statusText,
+      timeToFirstByteMs: timing.timeToFirstByteMs,
+      totalMs: timing.totalMs,
       bodyLength: responseText.length,
       bodyPreview: responseText.substring(0, 500),
     });
@@ -194,6 +278,7 @@ export class SierraClient {
     
     const lines = responseText.split('\n').filter(line => line.trim());
     const messageTexts: string[] = [];
+    const events: AgentEvent[] = [];
     let updatedToken: string | undefined = undefined;
     
     for (const line of lines) {
@@ -204,6 +289,12 @@ export class SierraClient {
       
       try {
         const parsed = JSON.parse(trimmedLine);
+
+        // Keep non-message events (request-complete, transfers, tool calls, ...)
+        const event = this.parseServerEvent(parsed);
+        if (event) {
+          events.push(event);
+        }
         
         // Check for token updates (maintains conversation state)
         if (parsed.token && typeof parsed.token === 'string') {
@@ -259,6 +350,7 @@ export class SierraClient {
       // Update token if Sierra returned a new one
       if (updatedToken && typeof updatedToken === 'string') {
         this.apiToken = updatedToken;
+        this.conversationToken = updatedToken;
         console.log('Updated conversation token for maintaining state');
       }
       
@@ -271,6 +363,8 @@ export class SierraClient {
       return {
         message: combinedMessage,
         token: updatedToken,
+        events,
+        timing,
       };
     }
     
@@ -285,6 +379,7 @@ export class SierraClient {
       if (singleJson.token && typeof singleJson.token === 'string') {
         updatedToken = singleJson.token;
         this.apiToken = singleJson.token;
+        this.conversationToken = singleJson.token;
       }
       
       // Check for state in single JSON response
@@ -303,24 +398,32 @@ export class SierraClient {
         return {
           message: singleJson.serverEvent.message.content,
           token: updatedToken,
+          events,
+          timing,
         };
       }
       if (singleJson.serverEvent?.message?.text) {
         return {
           message: singleJson.serverEvent.message.text,
           token: updatedToken,
+          events,
+          timing,
         };
       }
       if (singleJson.message?.text) {
         return {
           message: singleJson.message.text,
           token: updatedToken,
+          events,
+          timing,
         };
       }
       if (singleJson.message?.content) {
         return {
           message: singleJson.message.content,
           token: updatedToken,
+          events,
+          timing,
         };
       }
     } catch {
@@ -332,9 +435,100 @@ export class SierraClient {
     return {
       message: '',
       token: updatedToken,
+      events,
+      timing,
     };
   }
   
+  /**
+   * Send a message to Sierra API and yield the reply as it arrives
+   * Yields message fragments as well as state and token updates; the client's own
+   * state and token are updated as they stream in, same as with sendMessage. Aborting `signal`
+   * (e.g. the client disconnected) stops the request to Sierra.
+   */
+  async *streamMessage(message: string, options?: { signal?: AbortSignal }): AsyncGenerator<SierraStreamEvent> {
+    const response = await this.postChat(this.buildRequestBody(message), undefined, options?.signal);
+
+    if (!response.body) {
+      throw new Error('Sierra API returned an empty response body');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        yield* this.parseStreamLine(line);
+      }
+    }
+
+    // Flush whatever is left after the last newline
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      yield* this.parseStreamLine(buffer);
+    }
+  }
+
+  /**
+   * Parse a single NDJSON line from the Sierra stream into stream events
+   */
+  private *parseStreamLine(line: string): Generator<SierraStreamEvent> {
+    const trimmedLine = line.trim();
+    if (!trimmedLine || !trimmedLine.startsWith('{')) {
+      return;
+    }
+
+    let parsed: SierraResponse;
+    try {
+      parsed = JSON.parse(trimmedLine);
+    } catch {
+      // Skip invalid JSON lines (like incomplete JSON)
+      return;
+    }
+
+    const token = parsed.token || parsed.serverEvent?.token;
+    if (token && typeof token === 'string') {
+      this.apiToken = token;
+      this.conversationToken = token;
+      yield { type: 'token', token };
+    }
+
+    const state = parsed.state || parsed.serverEvent?.state;
+    if (state && typeof state === 'string') {
+      this.conversationState = state;
+      yield { type: 'state', state };
+    }
+
+    // Sierra returns messages with "text" field, not "content"; also check legacy serverEvent format
+    const messagePayload = parsed.type === 'message' ? parsed.message : parsed.serverEvent?.message;
+    const text = messagePayload?.text || messagePayload?.content;
+    if (text && typeof text === 'string') {
+      yield { type: 'message', text };
+    }
+
+    const event = this.parseServerEvent(parsed);
+    if (event) {
+      yield { type: 'event', event };
+    }
+  }
+
+  /**
+   * Extract a non-message event from a parsed NDJSON line (top-level or legacy serverEvent format)
+   */
+  private parseServerEvent(parsed: SierraResponse): AgentEvent | null {
+    return toAgentEvent(parsed) || (parsed.serverEvent ? toAgentEvent(parsed.serverEvent) : null);
+  }
+
   /**
    * Get the current conversation token
    */
@@ -355,5 +549,23 @@ export class SierraClient {
   setState(state: string): void {
     this.conversationState = state;
   }
+
+  /**
+   * Conversation state plus the token Sierra issued for it (never the configured API token)
+   */
+  checkpoint(): AgentCheckpoint {
+    return {
+      state: this.conversationState,
+      token: this.conversationToken,
+    };
+  }
+
+  restore(checkpoint: AgentCheckpoint): void {
+    this.conversationState = checkpoint.state;
+    if (checkpoint.token) {
+      this.apiToken = checkpoint.token;
+      this.conversationToken = checkpoint.token;
+    }
+  }
 }
 
@@ -0,0 +1,102 @@
+import { ConversationEntry } from '@/types/salesforce';
+import { decodeHtmlEntities } from '@/lib/utils/html-entities';
+
+/**
+ * Run-to-run consistency of Sierra across independent samples of the same replay
+ * Every sample sends the same customer messages, so the replies to turn N can be compared
+ * directly. Similarity is the cosine of word counts: 1 for the same wording, 0 for no words in common.
+ */
+
+const REPLY_TURN_PATTERN = /^sierra-bot-(\d+)$/;
+
+/** Turns below this score are flagged as inconsistent */
+export const LOW_CONSISTENCY = 0.5;
+
+export interface TurnConsistency {
+  /** Mean pairwise similarity of the samples' replies, 0-1 */
+  score: number;
+  /** Samples that replied to the turn */
+  samples: number;
+}
+
+/**
+ * Replay turn a Sierra reply belongs to, or null for other entries
+ */
+export function getReplyTurn(entry: ConversationEntry): number | null {
+  const match = entry.identifier?.match(REPLY_TURN_PATTERN);
+  return match ? Number(match[1]) : null;
+}
+
+function countWords(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  (decodeHtmlEntities(text).toLowerCase().match(/[a-z0-9']+/g) || []).forEach((word) => {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  });
+  return counts;
+}
+
+/**
+ * Cosine similarity of the word counts of two replies
+ */
+export function textSimilarity(a: string, b: string): number {
+  const wordsA = countWords(a);
+  const wordsB = countWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return wordsA.size === wordsB.size ? 1 : 0;
+  }
+
+  let dot = 0;
+  wordsA.forEach((count, word) => {
+    dot += count * (wordsB.get(word) || 0);
+  });
+  const norm = (words: Map<string, number>) =>
+    Math.sqrt(Array.from(words.values()).reduce((sum, count) => sum + count * count, 0));
+  return dot / (norm(wordsA) * norm(wordsB));
+}
+
+/**
+ * Consistency of every turn that at least two samples replied to, keyed by turn number
+ */
+export function analyzeConsistency(samples: ConversationEntry[][]): Map<number, TurnConsistency> {
+  const repliesByTurn = new Map<number, string[]>();
+  samples.forEach((entries) => {
+    entries.forEach((entry) => {
+      const turn = getReplyTurn(entry);
+      if (turn !== null) {
+        repliesByTurn.set(turn, [...(repliesByTurn.get(turn) || []), entry.messageText || '']);
+      }
+    });
+  });
+
+  const results = new Map<number, TurnConsistency>();
+  repliesByTurn.forEach((replies, turn) => {
+    if (replies.length < 2) {
+      return;
+    }
+    let total = 0;
+    let pairs = 0;
+    for (let i = 0; i < replies.length; i++) {
+      for (let j = i + 1; j < replies.length; j++) {
+        total += textSimilarity(replies[i], replies[j]);
+        pairs++;
+      }
+    }
+    results.set(turn, { score: total / pairs, samples: replies.length });
+  });
+  return results;
+}
+
+/**
+ * Mean consistency across turns; null when fewer than two samples replied to any turn
+ */
+export function summarizeConsistency(consistency: Map<number, TurnConsistency>): number | null {
+  if (consistency.size === 0) {
+    return null;
+  }
+  const scores = Array.from(consistency.values()).map((turn) => turn.score);
+  return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+}
+
+export function formatConsistency(score: number): string {
+  return `${Math.round(score * 100)}%`;
+}
@@ -0,0 +1,289 @@
+import { ConversationEntry, DivergenceStatus, TurnDivergence } from '@/types/salesforce';
+
+/**
+ * Divergence detection for replayed transcripts
+ * Replay sends the original customer messages in order, whatever Sierra said in between. These
+ * heuristics flag the turns where that stops being a fair comparison, so evaluators can discount them.
+ */
+
+const BOT_ROLES = ['bot', 'chatbot', 'virtualagent'];
+const REPLAY_TURN_PATTERN = /^sierra-(user|bot|error|event)-(\d+)/;
+
+// Consecutive drifted turns after which the conversation is considered broken
+const DRIFT_LIMIT = 3;
+
+const DIVERGENCE_SEVERITY: Record<DivergenceStatus, number> = {
+  on_track: 0,
+  drifted: 1,
+  broken: 2,
+};
+
+/**
+ * Information an agent may ask for, and how to tell whether a customer message provides it
+ */
+const REQUESTED_INFO: Array<{ label: string; asks: RegExp; provides: RegExp }> = [
+  {
+    label: 'an email address',
+    asks: /\be-?mail\b/i,
+    provides: /[^\s@]+@[^\s@]+\.[^\s@]+/,
+  },
+  {
+    label: 'a phone number',
+    asks: /\b(?:phone|mobile|cell)(?: number)?\b/i,
+    provides: /\+?\d[\d\s().-]{6,}\d/,
+  },
+  {
+    label: 'an order or account number',
+    asks: /\b(?:order|account|reference|confirmation|tracking|case)\s*(?:number|no\.?|id|#)/i,
+    provides: /\b[A-Z]{0,4}-?\d{4,}\b/i,
+  },
+  {
+    label: 'an address',
+    asks: /\b(?:shipping|billing|mailing|home|street|postal|delivery|your)\s+address\b/i,
+    provides: /\b\d+\s+\w+(?:\s+\w+)*\s+(?:street|st|avenue|ave|road|rd|drive|dr|lane|ln|boulevard|blvd|way|court|ct)\b|\b\d{5}(?:-\d{4})?\b/i,
+  },
+];
+
+// The agent considers the issue handled and is wrapping up
+const RESOLVED_PATTERN =
+  /\b(?:is there anything else|anything else i can (?:help|do)|glad (?:i|we) could help|(?:has|have) been (?:resolved|processed|refunded|cancell?ed|updated|submitted)|you(?:'re| are) all set|have a (?:great|good|nice) (?:day|one))\b/i;
+
+// Customer messages that close a conversation rather than continue it
+const CLOSING_PATTERN =
+  /^\W*(?:thanks?|thank you|thx|ty|ok(?:ay)?|great|perfect|awesome|cool|bye|goodbye|no(?:pe)?|that'?s (?:all|it)|all good|nothing else)\b/i;
+
+// Words that turn a "thanks" into a follow-up question
+const FOLLOW_UP_PATTERN = /\b(?:and|but|also|can|could|how|what|why|when)\b/i;
+
+const CLOSING_MAX_WORDS = 8;
+
+interface TurnContext {
+  /** Text of the last bot reply before the customer's turn, if there was one */
+  reply: string | null;
+  /** Sender role of the last non-customer message before the turn */
+  responderRole: string | null;
+}
+
+/**
+ * Sentences in a reply that ask the customer for something
+ */
+function getRequests(text: string): string[] {
+  return (text.match(/[^.?!\n]+[.?!]*/g) || [])
+    .filter((sentence) => /\?\s*$/.test(sentence) || /\b(?:please|provide|share|confirm|send|enter)\b/i.test(sentence));
+}
+
+/**
+ * Labels of the information a reply asks the customer for
+ */
+function getRequestedInfo(text: string | null): string[] {
+  if (!text) {
+    return [];
+  }
+  const requests = getRequests(text);
+  return REQUESTED_INFO.filter((info) => requests.some((sentence) => info.asks.test(sentence))).map(
+    (info) => info.label
+  );
+}
+
+function providesInfo(message: string, label: string): boolean {
+  const info = REQUESTED_INFO.find((candidate) => candidate.label === label);
+  return !!info && info.provides.test(message);
+}
+
+function isClosingMessage(message: string): boolean {
+  return (
+    CLOSING_PATTERN.test(message) &&
+    !FOLLOW_UP_PATTERN.test(message) &&
+    message.trim().split(/\s+/).length <= CLOSING_MAX_WORDS
+  );
+}
+
+/**
+ * Customer turns of the original transcript with the reply each one followed, keyed by the
+ * message timestamp (replayed customer turns keep it, even when replay rules skip messages)
+ */
+function getAgentforceTurns(entries: ConversationEntry[]): Map<number, TurnContext> {
+  const sorted = [...entries].sort((a, b) => a.clientTimestamp - b.clientTimestamp);
+  const turns = new Map<number, TurnContext>();
+  let context: TurnContext = { reply: null, responderRole: null };
+
+  for (const entry of sorted) {
+    const role = entry.sender?.role?.toLowerCase() || '';
+    if (role === 'enduser') {
+      if (entry.messageText?.trim() && entry.clientTimestamp) {
+        turns.set(entry.clientTimestamp, context);
+      }
+      continue;
+    }
+    if (BOT_ROLES.includes(role) || role === 'agent') {
+      context = { reply: entry.messageText || null, responderRole: role };
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Flag every replayed customer turn as on track, drifted or broken, keyed by turn number
+ * Heuristics, checked against what the replayed agent said before the turn:
+ * - the agent had already ended the conversation or transferred the customer (broken)
+ * - the agent failed to answer the previous turn (drifted)
+ * - the agent asked for information the customer's message does not contain (drifted)
+ * - the customer answers a question from the original bot that the agent never asked (drifted)
+ * - the customer was talking to a human rep at this point in the original conversation (drifted)
+ * - the agent had wrapped up the issue but the customer keeps going (drifted)
+ * Turns that drift several times in a row escalate to broken.
+ */
+export function analyzeDivergence(
+  agentforceEntries: ConversationEntry[],
+  replayedEntries: ConversationEntry[]
+): Map<number, TurnDivergence> {
+  const agentforceTurns = getAgentforceTurns(agentforceEntries);
+  const byTurn = new Map<number, { user?: ConversationEntry; bot?: ConversationEntry; error: boolean; events: ConversationEntry[] }>();
+
+  for (const entry of replayedEntries) {
+    const match = entry.identifier?.match(REPLAY_TURN_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const turn = Number(match[2]);
+    const slot = byTurn.get(turn) || { error: false, events: [] };
+    if (match[1] === 'user') {
+      slot.user = entry;
+    } else if (match[1] === 'bot') {
+      slot.bot = entry;
+    } else if (match[1] === 'error') {
+      slot.error = true;
+    } else {
+      slot.events.push(entry);
+    }
+    byTurn.set(turn, slot);
+  }
+
+  const results = new Map<number, TurnDivergence>();
+  const turns = Array.from(byTurn.keys()).sort((a, b) => a - b);
+  let previous: { reply: string | null; error: boolean; events: ConversationEntry[] } | null = null;
+  let endedReason: string | null = null;
+  let consecutiveDrift = 0;
+
+  for (const turn of turns) {
+    const slot = byTurn.get(turn)!;
+    const message = slot.user?.messageText?.trim();
+
+    if (message) {
+      const reasons: string[] = [];
+      let status: DivergenceStatus = 'on_track';
+
+      if (!endedReason && previous) {
+        const ended = previous.events.find((event) => event.type === 'ConversationEnded');
+        const transferred = previous.events.find((event) => event.type === 'Transfer');
+        if (ended) {
+          endedReason = 'Sierra had already ended the conversation';
+        } else if (transferred) {
+          endedReason = 'Sierra had already transferred the customer';
+        }
+      }
+
+      if (endedReason) {
+        status = 'broken';
+        reasons.push(endedReason);
+      } else if (previous) {
+        if (previous.error) {
+          reasons.push('Sierra did not answer the previous message');
+        }
+
+        const sierraAsked = getRequestedInfo(previous.reply);
+        sierraAsked
+          .filter((label) => !providesInfo(message, label))
+          .forEach((label) => reasons.push(`Sierra asked for ${label}, which this message does not provide`));
+
+        const original = agentforceTurns.get(slot.user!.clientTimestamp);
+        getRequestedInfo(original?.reply ?? null)
+          .filter((label) => !sierraAsked.includes(label) && providesInfo(message, label))
+          .forEach((label) => reasons.push(`Answers the original bot's request for ${label}, which Sierra did not ask for`));
+
+        if (original?.responderRole === 'agent') {
+          reasons.push('The customer was talking to a human rep at this point in the original conversation');
+        }
+
+        if (previous.reply && RESOLVED_PATTERN.test(previous.reply) && !isClosingMessage(message)) {
+          reasons.push('Sierra had already wrapped up the issue, but the customer keeps going');
+        }
+
+        if (reasons.length > 0) {
+          consecutiveDrift++;
+          status = consecutiveDrift >= DRIFT_LIMIT ? 'broken' : 'drifted';
+          if (status === 'broken') {
+            reasons.push(`The conversation has drifted for ${consecutiveDrift} turns in a row`);
+          }
+        } else {
+          consecutiveDrift = 0;
+        }
+      }
+
+      results.set(turn, { status, reasons });
+    }
+
+    previous = { reply: slot.bot?.messageText || null, error: slot.error, events: slot.events };
+  }
+
+  return results;
+}
+
+/**
+ * Copy of the replayed entries with each customer turn's divergence recorded on it
+ */
+export function annotateDivergence(
+  agentforceEntries: ConversationEntry[],
+  replayedEntries: ConversationEntry[]
+): ConversationEntry[] {
+  const divergence = analyzeDivergence(agentforceEntries, replayedEntries);
+  return replayedEntries.map((entry) => {
+    const match = entry.identifier?.match(REPLAY_TURN_PATTERN);
+    const turnDivergence = match?.[1] === 'user' ? divergence.get(Number(match[2])) : undefined;
+    return turnDivergence ? { ...entry, divergence: turnDivergence } : entry;
+  });
+}
+
+/**
+ * Replayed entries with divergence flags, analyzing them now if they were generated before divergence detection
+ */
+export function withDivergence(
+  agentforceEntries: ConversationEntry[],
+  replayedEntries: ConversationEntry[]
+): ConversationEntry[] {
+  return replayedEntries.some((entry) => entry.divergence) ? replayedEntries : annotateDivergence(agentforceEntries, replayedEntries);
+}
+
+/**
+ * Worst divergence across a replayed transcript; null when no turn has been analyzed
+ */
+export function summarizeDivergence(entries: ConversationEntry[]): DivergenceStatus | null {
+  let worst: DivergenceStatus | null = null;
+  for (const entry of entries) {
+    const status = entry.divergence?.status;
+    if (status && (worst === null || DIVERGENCE_SEVERITY[status] > DIVERGENCE_SEVERITY[worst])) {
+      worst = status;
+    }
+  }
+  return worst;
+}
+
+/**
+ * Number of customer turns per divergence status
+ */
+export function countDivergence(entries: ConversationEntry[]): Record<DivergenceStatus, number> {
+  const counts: Record<DivergenceStatus, number> = { on_track: 0, drifted: 0, broken: 0 };
+  entries.forEach((entry) => {
+    if (entry.divergence) {
+      counts[entry.divergence.status]++;
+    }
+  });
+  return counts;
+}
+
+export const DIVERGENCE_LABELS: Record<DivergenceStatus, string> = {
+  on_track: 'On track',
+  drifted: 'Drifted',
+  broken: 'Broken',
+};
@@ -0,0 +1,69 @@
+import { AgentEvent } from '@/lib/agents/types';
+import { ConversationEntry } from '@/types/salesforce';
+
+/**
+ * Transcript entry `type` recorded for each kind of agent event
+ */
+export const AGENT_EVENT_ENTRY_TYPES: Record<AgentEvent['kind'], string> = {
+  'request-complete': 'RequestComplete',
+  transfer: 'Transfer',
+  'end-conversation': 'ConversationEnded',
+  tool: 'ToolCall',
+  other: 'ServerEvent',
+};
+
+const AGENT_EVENT_LABELS: Record<AgentEvent['kind'], string> = {
+  'request-complete': 'Request complete',
+  transfer: 'Transferred',
+  'end-conversation': 'Conversation ended',
+  tool: 'Tool call',
+  other: 'Event',
+};
+
+/**
+ * Classify a Sierra NDJSON object (or its `serverEvent`) as an agent event
+ * Returns null for message fragments and state/token-only lines
+ */
+export function toAgentEvent(payload: Record<string, unknown>): AgentEvent | null {
+  const type = payload.type;
+  if (typeof type !== 'string' || !type || type === 'message') {
+    return null;
+  }
+
+  const normalized = type.toLowerCase();
+  let kind: AgentEvent['kind'] = 'other';
+  if (normalized === 'request-complete') {
+    kind = 'request-complete';
+  } else if (/transfer|handoff|escalat/.test(normalized)) {
+    kind = 'transfer';
+  } else if (/end/.test(normalized) && /conversation|chat|session/.test(normalized)) {
+    kind = 'end-conversation';
+  } else if (/tool|action|function/.test(normalized)) {
+    kind = 'tool';
+  }
+
+  const nested = payload[type] ?? payload[normalized.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase())];
+  const reason =
+    typeof payload.reason === 'string'
+      ? payload.reason
+      : nested && typeof nested === 'object' && typeof (nested as { reason?: unknown }).reason === 'string'
+      ? (nested as { reason: string }).reason
+      : undefined;
+
+  return { kind, type, reason, data: payload };
+}
+
+/**
+ * Human-readable text for an agent event, stored as the entry's messageText
+ */
+export function describeAgentEvent(event: AgentEvent): string {
+  const label = event.kind === 'other' ? `Event: ${event.type}` : AGENT_EVENT_LABELS[event.kind];
+  return event.reason ? `${label} (${event.reason})` : label;
+}
+
+/**
+ * Whether a transcript entry records an agent event rather than a message
+ */
+export function isAgentEventEntry(entry: Pick<ConversationEntry, 'type'>): boolean {
+  return !!entry.type && Object.values(AGENT_EVENT_ENTRY_TYPES).includes(entry.type);
+}
@@ -0,0 +1,324 @@
+import { createServiceClient } from '@/lib/supabase/server';
+import { Database } from '@/lib/supabase/database.types';
+import { createReplayAgent } from '@/lib/agents';
+import { getReplayRuleSet } from '@/lib/supabase/replay-rules';
+import {
+  claimSierraRun,
+  DEFAULT_SIERRA_RELEASE,
+  getSierraRun,
+  getTranscriptSierraVariables,
+  isSierraRunActive,
+  isSierraRunComplete,
+  saveSierraRun,
+  saveSierraRunCheckpoint,
+  setSierraRunStatus,
+} from '@/lib/supabase/transcripts';
+import { SierraRunCheckpoint } from '@/types';
+import { ConversationEntry } from '@/types/salesforce';
+import { SendEvent } from '@/lib/utils/sse';
+import { ProgressCallback, replayToSierra, ReplayCancelledError } from './replay';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type Transcript = Database['public']['Tables']['transcripts']['Row'];
+type SierraRun = Database['public']['Tables']['sierra_runs']['Row'];
+
+/**
+ * Thrown when a Sierra run cannot be generated (missing configuration, database errors, a run
+ * already in progress); `details` is safe to show to the user
+ */
+export class SierraGenerationError extends Error {
+  details?: string;
+
+  constructor(message: string, details?: string) {
+    super(message);
+    this.name = 'SierraGenerationError';
+    this.details = details;
+  }
+}
+
+/**
+ * Thrown when another generation is already replaying the same release and sample
+ */
+export class SierraRunInProgressError extends SierraGenerationError {
+  constructor(runLabel: string) {
+    super(
+      `Sierra transcript generation is already in progress for ${runLabel}`,
+      'If that generation was interrupted, it can be resumed after two minutes without progress.'
+    );
+    this.name = 'SierraRunInProgressError';
+  }
+}
+
+export interface GenerateSierraRunOptions {
+  release: string;
+  sampleIndex?: number;
+  /** Start over instead of reusing a complete run or resuming an incomplete one */
+  restart?: boolean;
+  signal?: AbortSignal;
+  onProgress?: ProgressCallback;
+  /** Called with each Sierra transcript entry as soon as replay produces it */
+  onEntry?: (entry: ConversationEntry) => void;
+  /** Called once the run is claimed, before the first turn is replayed */
+  onStart?: (resuming: boolean) => void;
+  /** Called when replay has finished and the run is being saved */
+  onSaving?: () => void;
+}
+
+/**
+ * Generate (or resume) one Sierra run for a transcript, release and sample
+ * A complete run is returned as-is unless `restart` is set. Every replayed turn is checkpointed;
+ * when replay fails or is cancelled the run is marked failed or cancelled and the error rethrown
+ * (ReplayCancelledError for cancellation).
+ */
+export async function generateSierraRun(
+  supabase: ServiceClient,
+  transcript: Transcript,
+  options: GenerateSierraRunOptions
+): Promise<{ run: SierraRun; transcript: Transcript | null; reused: boolean }> {
+  const { release, sampleIndex = 0, restart = false } = options;
+  const runLabel = `release "${release}"${sampleIndex > 0 ? `, sample ${sampleIndex + 1}` : ''}`;
+
+  // Check if a Sierra transcript already exists for this release and sample
+  const { data: existingRun, error: runError } = await getSierraRun(supabase, transcript.id, release, sampleIndex);
+
+  if (runError) {
+    throw new SierraGenerationError('Failed to fetch Sierra runs from database', runError.message);
+  }
+
+  if (existingRun && isSierraRunActive(existingRun)) {
+    throw new SierraRunInProgressError(runLabel);
+  }
+
+  if (existingRun && !restart && isSierraRunComplete(existingRun)) {
+    return { run: existingRun, transcript: null, reused: true };
+  }
+
+  // A fresh agent per run, so every sample is an independent conversation
+  // (Sierra unless REPLAY_AGENT selects another adapter)
+  const agentResult = createReplayAgent({
+    release: release === DEFAULT_SIERRA_RELEASE ? undefined : release,
+  });
+
+  if ('missing' in agentResult) {
+    throw new SierraGenerationError(
+      'Missing required environment variables',
+      `Please configure: ${agentResult.missing.join(', ')}`
+    );
+  }
+
+  // Replay rules configured for the transcript's test batch
+  const { ruleSet: rules, error: rulesError } = await getReplayRuleSet(supabase, transcript.test_batch_id);
+
+  if (rulesError) {
+    throw new SierraGenerationError('Failed to fetch replay rules from database', rulesError.message);
+  }
+
+  // Continue an incomplete run from its checkpoints instead of starting over
+  const resume =
+    existingRun && !restart && Array.isArray(existingRun.sierra_transcript) && existingRun.sierra_transcript.length > 0
+      ? {
+          entries: existingRun.sierra_transcript as unknown as ConversationEntry[],
+          checkpoints: (existingRun.checkpoints || []) as unknown as SierraRunCheckpoint[],
+        }
+      : undefined;
+  let checkpoints: SierraRunCheckpoint[] = resume?.checkpoints || [];
+
+  // Claim the run while replaying, so a second generate for this sample does not start in parallel
+  const { claimed, error: claimError } = await claimSierraRun(
+    supabase,
+    existingRun,
+    transcript.id,
+    release,
+    agentResult.version,
+    resume?.entries || [],
+    checkpoints,
+    sampleIndex
+  );
+
+  if (claimError) {
+    throw new SierraGenerationError('Failed to save Sierra run to database', claimError.message);
+  }
+
+  if (!claimed) {
+    throw new SierraRunInProgressError(runLabel);
+  }
+
+  options.onStart?.(!!resume);
+
+  let sierraEntries: ConversationEntry[];
+  try {
+    sierraEntries = await replayToSierra(
+      transcript.agentforce_transcript as unknown as ConversationEntry[],
+      agentResult.agent,
+      options.onProgress,
+      // Use case number if available, otherwise use transcript ID for Sierra conversation ID
+      transcript.case_number || transcript.id,
+      {
+        variables: getTranscriptSierraVariables(transcript),
+        rules,
+        resume,
+        signal: options.signal,
+        onEntry: options.onEntry,
+        onCheckpoint: async (progress) => {
+          checkpoints = progress.checkpoints;
+          const { error: checkpointError } = await saveSierraRunCheckpoint(
+            supabase,
+            transcript.id,
+            release,
+            agentResult.version,
+            progress.entries,
+            progress.checkpoints,
+            sampleIndex
+          );
+          if (checkpointError) {
+            console.warn('Failed to checkpoint Sierra run:', checkpointError.message);
+          }
+        },
+      }
+    );
+  } catch (replayError: unknown) {
+    // Keep the checkpoints and let the next generate resume right away
+    const status = replayError instanceof ReplayCancelledError ? 'cancelled' : 'failed';
+    await setSierraRunStatus(supabase, transcript.id, release, status, sampleIndex);
+    if (status === 'cancelled') {
+      console.log(`Sierra generation for ${runLabel} cancelled`);
+    }
+    throw replayError;
+  }
+
+  // Save the run for this release and sample
+  options.onSaving?.();
+
+  const { run, transcript: updatedTranscript, error: saveError } = await saveSierraRun(
+    supabase,
+    transcript.id,
+    release,
+    agentResult.version,
+    sierraEntries,
+    checkpoints,
+    sampleIndex
+  );
+
+  if (saveError || !run) {
+    throw new SierraGenerationError('Failed to update transcript with Sierra data', saveError?.message);
+  }
+
+  return { run, transcript: updatedTranscript, reused: false };
+}
+
+/**
+ * Generate one or more samples of a release for a transcript, reporting progress as events
+ * Sends start, progress, entry (each Sierra transcript entry as it arrives), saving and
+ * sample_complete events, then exactly one complete, cancelled or error event. Never throws.
+ * The complete event lists every sample's status and counts those with failed turns.
+ */
+export async function generateSierraSamples(
+  supabase: ServiceClient,
+  transcript: Transcript,
+  options: { release: string; sampleIndexes: number[]; restart?: boolean; signal?: AbortSignal },
+  sendEvent: SendEvent
+): Promise<void> {
+  const { release, sampleIndexes, restart = false } = options;
+
+  try {
+    let latestRun: SierraRun | null = null;
+    let latestTranscript: Transcript = transcript;
+    let generatedSamples = 0;
+    // Every sample's outcome, so a failure in an earlier sample is not hidden by a later success
+    const samples: Array<{ sample: number; status: SierraRun['status']; reused: boolean }> = [];
+
+    for (const sampleIndex of sampleIndexes) {
+      const sampleLabel = sampleIndexes.length > 1 ? `Sample ${sampleIndex + 1}/${sampleIndexes.length}: ` : '';
+      const runLabel = `release: ${release}${sampleIndex > 0 ? `, sample ${sampleIndex + 1}` : ''}`;
+
+      const { run, transcript: updatedTranscript, reused } = await generateSierraRun(supabase, transcript, {
+        release,
+        sampleIndex,
+        restart,
+        signal: options.signal,
+        onProgress: (progress) => {
+          sendEvent({
+            type: 'progress',
+            ...progress,
+            message: `${sampleLabel}${progress.message}`,
+            sample: sampleIndex,
+          });
+        },
+        onEntry: (entry) => {
+          sendEvent({ type: 'entry', entry, sample: sampleIndex });
+        },
+        onStart: (resuming) => {
+          sendEvent({
+            type: 'start',
+            message: `${sampleLabel}${resuming ? 'Resuming' : 'Starting'} Sierra transcript generation (${runLabel})...`,
+            release,
+            sample: sampleIndex,
+          });
+        },
+        onSaving: () => {
+          sendEvent({
+            type: 'saving',
+            message: `${sampleLabel}Saving Sierra transcript to database...`,
+          });
+        },
+      });
+
+      latestRun = run;
+      samples.push({ sample: sampleIndex, status: run.status, reused });
+      if (!reused) {
+        latestTranscript = updatedTranscript || latestTranscript;
+        generatedSamples++;
+      }
+
+      if (sampleIndex < sampleIndexes[sampleIndexes.length - 1]) {
+        sendEvent({
+          type: 'sample_complete',
+          message: `${sampleLabel}${reused ? 'Sierra transcript already exists' : 'Sierra transcript generated'}`,
+          sample: sampleIndex,
+          run,
+        });
+      }
+    }
+
+    const sampleSummary = sampleIndexes.length > 1 ? ` (${sampleIndexes.length} samples)` : '';
+    const failedSamples = samples.filter(({ status }) => status === 'failed');
+    sendEvent({
+      type: 'complete',
+      message:
+        failedSamples.length > 0
+          ? sampleIndexes.length > 1
+            ? `Sierra transcript generated with failed turns in ${failedSamples.length} of ${sampleIndexes.length} samples (${failedSamples
+                .map(({ sample }) => `sample ${sample + 1}`)
+                .join(', ')}) - generate again to resume from the first failure`
+            : 'Sierra transcript generated with failed turns - generate again to resume from the first failure'
+          : generatedSamples === 0
+            ? `Sierra transcript already exists for release "${release}"${sampleSummary}`
+            : `Sierra transcript generated successfully${sampleSummary}`,
+      transcript: generatedSamples === 0 && latestRun
+        ? { ...latestTranscript, sierra_transcript: latestRun.sierra_transcript }
+        : latestTranscript,
+      run: latestRun,
+      samples,
+      failed_samples: failedSamples.length,
+    });
+  } catch (error: unknown) {
+    if (error instanceof SierraGenerationError) {
+      sendEvent({ type: 'error', message: error.message, details: error.details });
+      return;
+    }
+    // The partial run was kept as cancelled by generateSierraRun
+    if (error instanceof ReplayCancelledError) {
+      sendEvent({
+        type: 'cancelled',
+        message: `${error.message}. The partial run was saved as cancelled and can be resumed.`,
+      });
+      return;
+    }
+    console.error('Error in Sierra generation:', error);
+    sendEvent({
+      type: 'error',
+      message: 'Failed to generate Sierra transcript',
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
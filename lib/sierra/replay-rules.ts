@@ -0,0 +1,171 @@
+import { ConversationEntry } from '@/types/salesforce';
+import { decodeHtmlEntities } from '@/lib/utils/html-entities';
+
+/**
+ * Rules deciding which Agentforce customer messages are replayed to Sierra, and how
+ * Configured per test batch (replay_rule_sets); transcripts without a batch use the "default" set.
+ */
+
+export type ReplayRuleAction = 'skip' | 'rewrite' | 'stop';
+
+export interface ReplayRule {
+  /** Shown in the preview as the reason a turn was skipped, rewritten or stopped */
+  name: string;
+  action: ReplayRuleAction;
+  /** Regular expression the message text must match */
+  pattern?: string;
+  /** Flags for `pattern`; "i" when omitted */
+  flags?: string;
+  /** Sender role the entry must have (case-insensitive); "EndUser" when omitted */
+  role?: string;
+  /** Entry type the entry must have, e.g. "Message" (case-insensitive) */
+  type?: string;
+  /** For rewrite: replaces every match of `pattern` ($1 etc. allowed), or the whole message without a pattern */
+  replacement?: string;
+}
+
+export interface ReplayRuleSet {
+  /** Stop replaying once a human rep sends a message; later customer turns were meant for the rep */
+  stopAtHumanHandoff: boolean;
+  /** Applied in order; the first skip or stop rule that matches decides the turn */
+  rules: ReplayRule[];
+}
+
+export const DEFAULT_REPLAY_RULES: ReplayRuleSet = { stopAtHumanHandoff: false, rules: [] };
+
+export type ReplayTurnDecision = 'send' | 'skip' | 'stop';
+
+export interface ReplayTurnPlan {
+  /** Identifier of the Agentforce entry */
+  identifier: string;
+  /** Customer message as recorded (HTML entities decoded) */
+  original: string;
+  /** Text sent to the agent after rewrites; null when the turn is not sent */
+  message: string | null;
+  timestamp: number;
+  serverReceivedTimestamp: number;
+  decision: ReplayTurnDecision;
+  /** Rules that rewrote or dropped the turn */
+  reasons: string[];
+}
+
+/**
+ * Thrown when a rule's pattern is not a valid regular expression
+ */
+export class InvalidReplayRuleError extends Error {
+  constructor(rule: ReplayRule, cause: unknown) {
+    super(`Invalid pattern in replay rule "${rule.name}": ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'InvalidReplayRuleError';
+  }
+}
+
+/**
+ * Compile a rule's pattern, with the global flag for rewriting every match
+ */
+export function compileRulePattern(rule: ReplayRule, global = false): RegExp | null {
+  if (!rule.pattern) {
+    return null;
+  }
+  const flags = (rule.flags ?? 'i').replace('g', '') + (global ? 'g' : '');
+  try {
+    return new RegExp(rule.pattern, flags);
+  } catch (error) {
+    throw new InvalidReplayRuleError(rule, error);
+  }
+}
+
+function matchesRule(rule: ReplayRule, entry: ConversationEntry, text: string): boolean {
+  const role = (rule.role || 'EndUser').toLowerCase();
+  if ((entry.sender?.role || '').toLowerCase() !== role) {
+    return false;
+  }
+  if (rule.type && (entry.type || '').toLowerCase() !== rule.type.toLowerCase()) {
+    return false;
+  }
+  const pattern = compileRulePattern(rule);
+  return !pattern || pattern.test(text);
+}
+
+function isCustomerTurn(entry: ConversationEntry): boolean {
+  return (
+    entry.sender?.role === 'EndUser' &&
+    typeof entry.messageText === 'string' &&
+    entry.messageText.trim().length > 0 &&
+    !!entry.clientTimestamp
+  );
+}
+
+/**
+ * Decide, for every customer message in an Agentforce transcript, whether it is sent to the agent,
+ * skipped, or dropped because replay stopped before it. Used both for replay and the dry-run preview.
+ */
+export function planReplay(
+  entries: ConversationEntry[],
+  ruleSet: ReplayRuleSet = DEFAULT_REPLAY_RULES
+): ReplayTurnPlan[] {
+  const sorted = [...entries].sort((a, b) => (a.clientTimestamp || 0) - (b.clientTimestamp || 0));
+  const stopRules = ruleSet.rules.filter((rule) => rule.action === 'stop');
+  const plan: ReplayTurnPlan[] = [];
+  let stopReason: string | null = null;
+
+  for (const entry of sorted) {
+    const text = entry.messageText ? decodeHtmlEntities(entry.messageText.trim()) : '';
+
+    if (!stopReason) {
+      if (ruleSet.stopAtHumanHandoff && entry.sender?.role?.toLowerCase() === 'agent') {
+        stopReason = 'Stopped at human handoff';
+      } else {
+        const stopRule = stopRules.find((rule) => matchesRule(rule, entry, text));
+        if (stopRule) {
+          stopReason = stopRule.name;
+        }
+      }
+    }
+
+    if (!isCustomerTurn(entry)) {
+      continue;
+    }
+
+    const turn: ReplayTurnPlan = {
+      identifier: entry.identifier,
+      original: text,
+      message: null,
+      timestamp: entry.clientTimestamp,
+      serverReceivedTimestamp: entry.serverReceivedTimestamp || entry.clientTimestamp,
+      decision: 'send',
+      reasons: [],
+    };
+    plan.push(turn);
+
+    if (stopReason) {
+      turn.decision = 'stop';
+      turn.reasons.push(stopReason);
+      continue;
+    }
+
+    let message = text;
+    for (const rule of ruleSet.rules) {
+      if (rule.action === 'stop' || !matchesRule(rule, entry, message)) {
+        continue;
+      }
+      if (rule.action === 'skip') {
+        turn.decision = 'skip';
+        turn.reasons.push(rule.name);
+        break;
+      }
+      const pattern = compileRulePattern(rule, true);
+      message = (pattern ? message.replace(pattern, rule.replacement ?? '') : rule.replacement ?? '').trim();
+      turn.reasons.push(rule.name);
+    }
+
+    if (turn.decision === 'send' && !message) {
+      turn.decision = 'skip';
+      turn.reasons.push('Empty after rewriting');
+    }
+    if (turn.decision === 'send') {
+      turn.message = message;
+    }
+  }
+
+  return plan;
+}
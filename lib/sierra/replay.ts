@@ -1,32 +1,29 @@
-import { SierraClient } from './client';
+import { AgentMessageResponse, AgentSendOptions, ConversationalAgent } from '@/lib/agents/types';
+import { CircuitOpenError } from '@/lib/http/resilient-fetch';
 import { ConversationEntry } from '@/types/salesforce';
-import { decodeHtmlEntities } from '@/lib/utils/html-entities';
+import { SierraRunCheckpoint } from '@/types';
+import { AGENT_EVENT_ENTRY_TYPES, describeAgentEvent } from './events';
+import { annotateDivergence } from './divergence';
+import { planReplay, ReplayRuleSet } from './replay-rules';
+import { Redactor, redactVariables } from '@/lib/redaction/pii';
 
 /**
- * Extract end-user messages from Agentforce transcript
+ * Extract the end-user messages to send from an Agentforce transcript, after the replay rules
+ * (skips, rewrites, stopping at handoff). Without rules every non-empty customer message is sent.
  */
 function extractEndUserMessages(
-  entries: ConversationEntry[]
-): Array<{ message: string; timestamp: number }> {
-  return entries
-    .filter((entry) => {
-      // Filter for EndUser messages that have valid message text
-      return (
-        entry.sender?.role === 'EndUser' &&
-        entry.messageText &&
-        typeof entry.messageText === 'string' &&
-        entry.messageText.trim().length > 0 &&
-        entry.clientTimestamp
-      );
-    })
-    .map((entry) => {
-      // Decode HTML entities before sending to Sierra API
-      const decodedMessage = decodeHtmlEntities(entry.messageText!.trim());
-      return {
-        message: decodedMessage,
-        timestamp: entry.clientTimestamp!,
-      };
-    });
+  entries: ConversationEntry[],
+  rules?: ReplayRuleSet
+): { messages: Array<{ message: string; timestamp: number; serverReceivedTimestamp: number }>; dropped: number } {
+  const plan = planReplay(entries, rules);
+  const messages = plan
+    .filter((turn) => turn.decision === 'send')
+    .map((turn) => ({
+      message: turn.message!,
+      timestamp: turn.timestamp,
+      serverReceivedTimestamp: turn.serverReceivedTimestamp,
+    }));
+  return { messages, dropped: plan.length - messages.length };
 }
 
 export interface ProgressCallback {
@@ -35,27 +32,132 @@ export interface ProgressCallback {
     total: number;
     message: string;
     status: 'processing' | 'complete' | 'error';
+    /** Requests retried so far in this replay (transient Sierra failures) */
+    retries?: number;
   }): void;
 }
 
 /**
- * Replay Agentforce transcript messages to Sierra API and generate Sierra transcript
+ * Thrown by replayToSierra when its abort signal fires; entries checkpointed so far are kept
+ */
+export class ReplayCancelledError extends Error {
+  constructor(completedTurns: number, totalTurns: number) {
+    super(`Replay cancelled after ${completedTurns}/${totalTurns} messages`);
+    this.name = 'ReplayCancelledError';
+  }
+}
+
+/**
+ * Wait for `ms`, returning early if the signal aborts
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    }
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Send one turn to the agent. If the agent's circuit breaker is open, wait for it to
+ * half-open and try again (REPLAY_TURN_RETRIES times, default 1) instead of failing the turn
+ */
+async function sendTurn(
+  agent: ConversationalAgent,
+  message: string,
+  options: AgentSendOptions,
+  onCircuitWait: (waitMs: number) => void
+): Promise<AgentMessageResponse> {
+  const maxTurnRetries = Number(process.env.REPLAY_TURN_RETRIES ?? 1);
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await agent.send(message, options);
+    } catch (error) {
+      if (!(error instanceof CircuitOpenError) || attempt >= maxTurnRetries || options.signal?.aborted) {
+        throw error;
+      }
+      const waitMs = error.retryAfterMs + 100;
+      onCircuitWait(waitMs);
+      await wait(waitMs, options.signal);
+    }
+  }
+}
+
+export interface ReplayOptions {
+  /** Context variables sent with the first replayed turn, e.g. from SIERRA_CONTEXT_VARIABLES */
+  variables?: Record<string, string>;
+  /** A previous, incomplete replay to continue from its first failed or missing turn */
+  resume?: {
+    entries: ConversationEntry[];
+    checkpoints: SierraRunCheckpoint[];
+  };
+  /** Called with each entry as soon as it is added (including entries kept from `resume`) */
+  onEntry?: (entry: ConversationEntry) => void;
+  /** Called after each successful turn with everything needed to resume after it */
+  onCheckpoint?: (progress: { entries: ConversationEntry[]; checkpoints: SierraRunCheckpoint[] }) => Promise<void>;
+  /** Stops the replay, including the in-flight agent request; replayToSierra then throws ReplayCancelledError */
+  signal?: AbortSignal;
+  /** Which customer messages to send and how to rewrite them; every non-empty message when omitted */
+  rules?: ReplayRuleSet;
+}
+
+const REPLAY_ENTRY_TURN_PATTERN = /^sierra-(?:user|bot|error|event)-(\d+)/;
+
+/**
+ * Whether a replayed transcript contains error placeholders for failed turns
+ */
+export function hasReplayErrors(entries: ConversationEntry[]): boolean {
+  return entries.some((entry) => entry.identifier?.startsWith('sierra-error-'));
+}
+
+/**
+ * First turn without a checkpoint - where an interrupted or failed replay picks up again
+ */
+export function getResumeTurn(checkpoints: SierraRunCheckpoint[], totalTurns: number): number {
+  const completed = new Set(checkpoints.map((checkpoint) => checkpoint.turn));
+  let turn = 0;
+  while (turn < totalTurns && completed.has(turn)) {
+    turn++;
+  }
+  return turn;
+}
+
+/**
+ * Replay Agentforce transcript messages to a conversational agent (Sierra by default) and generate its transcript
  * @param agentforceEntries - The Agentforce conversation entries to replay
- * @param sierraClient - The Sierra client instance (will receive state from Sierra on first message)
+ * @param agent - The agent to replay against, e.g. a SierraClient (will receive state from Sierra on first message)
  * @param onProgress - Optional progress callback
  * @param caseId - The case ID for logging purposes (not sent as state - Sierra returns its own state)
+ * @param options - Optional replay options (context variables, replay rules, resuming and checkpointing)
  */
 export async function replayToSierra(
   agentforceEntries: ConversationEntry[],
-  sierraClient: SierraClient,
+  agent: ConversationalAgent,
   onProgress?: ProgressCallback,
-  caseId?: string
+  caseId?: string,
+  options: ReplayOptions = {}
 ): Promise<ConversationEntry[]> {
   // Note: We don't set state initially - Sierra will return state in the first response
   // and we'll use that state for subsequent messages in this conversation
-  const userMessages = extractEndUserMessages(agentforceEntries);
+  const { messages: userMessages, dropped } = extractEndUserMessages(agentforceEntries, options.rules);
   const sierraEntries: ConversationEntry[] = [];
 
+  // Nothing reaches the agent unredacted, including transcripts stored before redaction was enabled.
+  // Every message is redacted up front so pseudonyms stay the same when a replay is resumed.
+  const redactor = new Redactor();
+  const contextVariables = options.variables && redactVariables(options.variables, redactor);
+  userMessages.forEach((userMessage) => {
+    userMessage.message = redactor.redact(userMessage.message);
+  });
+  if (redactor.total > 0) {
+    console.log(`Redacted ${redactor.total} PII values before replay:`, redactor.counts);
+  }
+
   // Sort user messages by timestamp
   const sortedMessages = userMessages.sort(
     (a, b) => a.timestamp - b.timestamp
@@ -67,23 +169,63 @@ export async function replayToSierra(
   onProgress?.({
     current: 0,
     total: totalMessages,
-    message: `Starting Sierra transcript generation for ${totalMessages} messages...`,
+    message: `Starting Sierra transcript generation for ${totalMessages} messages${dropped ? ` (${dropped} left out by replay rules)` : ''}...`,
     status: 'processing',
   });
 
   const conversationStartTime = sortedMessages[0]?.timestamp || Date.now();
 
-  console.log(`Starting replay loop with ${sortedMessages.length} messages`);
+  const addEntry = (entry: ConversationEntry) => {
+    sierraEntries.push(entry);
+    options.onEntry?.(entry);
+  };
+
+  // Resume after the last checkpointed turn, dropping whatever came after it (error placeholders,
+  // later turns that ran after a failure) and continuing the same agent conversation
+  const startTurn = options.resume ? getResumeTurn(options.resume.checkpoints, totalMessages) : 0;
+  const checkpoints = (options.resume?.checkpoints || []).filter((checkpoint) => checkpoint.turn < startTurn);
+  const lastCheckpoint = checkpoints.find((checkpoint) => checkpoint.turn === startTurn - 1);
+
+  if (lastCheckpoint) {
+    options.resume!.entries
+      .filter((entry) => {
+        const match = entry.identifier?.match(REPLAY_ENTRY_TURN_PATTERN);
+        return !!match && Number(match[1]) < startTurn;
+      })
+      .forEach(addEntry);
+    agent.restore(lastCheckpoint);
+    console.log(`Resuming replay at message ${startTurn + 1}/${totalMessages} with ${sierraEntries.length} entries kept`);
+    onProgress?.({
+      current: startTurn,
+      total: totalMessages,
+      message: `Resuming from message ${startTurn + 1}/${totalMessages} (${startTurn} already replayed)...`,
+      status: 'processing',
+    });
+  } else {
+    checkpoints.length = 0;
+    await agent.start();
+  }
+
+  // Context variables went out with the first turn of the conversation being resumed
+  let variablesSent = !!lastCheckpoint;
+  let totalRetries = 0;
+
+  console.log(`Starting replay loop with ${sortedMessages.length} messages to ${agent.name}`);
 
-  for (let i = 0; i < sortedMessages.length; i++) {
+  for (let i = lastCheckpoint ? startTurn : 0; i < sortedMessages.length; i++) {
     const userMessage = sortedMessages[i];
     const currentIndex = i + 1;
 
+    if (options.signal?.aborted) {
+      throw new ReplayCancelledError(i, totalMessages);
+    }
+
     console.log(`Processing message ${currentIndex}/${totalMessages} (loop index ${i})`);
 
     // Validate message before processing
     if (!userMessage.message || !userMessage.message.trim()) {
       console.warn(`Skipping empty message at index ${i}`);
+      checkpoints.push({ turn: i, ...agent.checkpoint() });
       onProgress?.({
         current: currentIndex,
         total: totalMessages,
@@ -93,12 +235,13 @@ export async function replayToSierra(
       continue;
     }
 
-    // Add user message to Sierra transcript
-    sierraEntries.push({
+    // Add user message to Sierra transcript, keeping the original Agentforce timestamps
+    // so both transcripts share one timeline for the customer's turns
+    addEntry({
       identifier: `sierra-user-${i}`,
       messageText: userMessage.message,
       clientTimestamp: userMessage.timestamp,
-      serverReceivedTimestamp: userMessage.timestamp + 100,
+      serverReceivedTimestamp: userMessage.serverReceivedTimestamp,
       sender: {
         role: 'EndUser',
       },
@@ -109,49 +252,106 @@ export async function replayToSierra(
     onProgress?.({
       current: currentIndex,
       total: totalMessages,
-      message: `Sending message ${currentIndex}/${totalMessages} to Sierra...`,
+      message: `Sending message ${currentIndex}/${totalMessages} to ${agent.name}...`,
       status: 'processing',
     });
 
-    // Send to Sierra API and get response
-    // Note: We're using the same SierraClient instance, which maintains conversation state
+    // Send to the agent and get response
+    // Note: We're using the same agent instance, which maintains conversation state
     // via the state parameter (returned by Sierra) and token. First message has no state,
     // Sierra returns state in response, and subsequent messages use that state.
     // This ensures one continuous conversation per case.
+    const turnStartedAt = Date.now();
     try {
-      const hasState = sierraClient.getState();
-      const stateInfo = hasState ? `state: ${hasState.substring(0, 20)}..., ` : 'no state (first message), ';
+      const hasState = agent.getState();
+      const stateInfo = hasState ? `state: ${hasState.substring(0, 20)}...` : 'no state (first message)';
       const caseInfo = caseId ? `case: ${caseId}, ` : '';
-      console.log(`Sending message ${currentIndex}/${totalMessages} to Sierra (${caseInfo}${stateInfo}token: ${sierraClient.getToken().substring(0, 20)}...):`, userMessage.message.substring(0, 100));
-      const sierraResponse = await sierraClient.sendMessage(
-        userMessage.message
+      console.log(`Sending message ${currentIndex}/${totalMessages} to ${agent.name} (${caseInfo}${stateInfo}):`, userMessage.message.substring(0, 100));
+      // Context variables go with the first turn that reaches the agent
+      const variables = !variablesSent ? contextVariables : undefined;
+      const sierraResponse = await sendTurn(
+        agent,
+        userMessage.message,
+        {
+          ...(variables && Object.keys(variables).length > 0 && { variables }),
+          signal: options.signal,
+          onRetry: (retry) => {
+            totalRetries++;
+            onProgress?.({
+              current: currentIndex,
+              total: totalMessages,
+              message: `Retrying message ${currentIndex}/${totalMessages} (${retry.reason}, retry ${retry.attempt}/${retry.maxRetries})...`,
+              status: 'processing',
+              retries: totalRetries,
+            });
+          },
+        },
+        (waitMs) => {
+          onProgress?.({
+            current: currentIndex,
+            total: totalMessages,
+            message: `${agent.name} is failing repeatedly, waiting ${Math.ceil(waitMs / 1000)}s before retrying message ${currentIndex}/${totalMessages}...`,
+            status: 'processing',
+            retries: totalRetries,
+          });
+        }
       );
+      variablesSent = true;
 
-      console.log(`Received Sierra response for message ${currentIndex}, message length: ${sierraResponse.message?.length || 0}`);
+      console.log(
+        `Received ${agent.name} response for message ${currentIndex}, message length: ${sierraResponse.message?.length || 0}` +
+          (sierraResponse.timing ? `, ${sierraResponse.timing.totalMs}ms (first byte ${sierraResponse.timing.timeToFirstByteMs}ms)` : '')
+      );
 
-      // Log if token or state was updated (confirms conversation state is being maintained)
-      if (sierraResponse.token && sierraResponse.token !== sierraClient.getToken()) {
-        console.log(`Token updated for message ${currentIndex}`);
-      }
-      if (sierraClient.getState() && !hasState) {
+      // Log if state was established (confirms conversation state is being maintained)
+      if (agent.getState() && !hasState) {
         console.log(`State received from Sierra for message ${currentIndex}, conversation state established`);
       }
 
-      // Add Sierra bot response
-      const responseTimestamp = userMessage.timestamp + 2000; // Assume 2s delay
-      sierraEntries.push({
+      // Add Sierra bot response, placed after the customer's turn by the measured response time
+      // (wall clock around the turn if the agent does not report its own timing)
+      const responseTimeMs = sierraResponse.timing?.totalMs ?? Date.now() - turnStartedAt;
+      const responseTimestamp = userMessage.timestamp + responseTimeMs;
+      addEntry({
         identifier: `sierra-bot-${i}`,
         messageText: sierraResponse.message || '',
         clientTimestamp: responseTimestamp,
-        serverReceivedTimestamp: responseTimestamp + 100,
+        serverReceivedTimestamp: responseTimestamp,
         sender: {
           role: 'Bot',
           appType: 'chatbot',
         },
         type: 'Message',
+        clientDuration: responseTimeMs,
+        ...(sierraResponse.timing && { timeToFirstByte: sierraResponse.timing.timeToFirstByteMs }),
       });
 
-      console.log(`Added Sierra bot response for message ${currentIndex}, total entries: ${sierraEntries.length}`);
+      // Add non-message events (transfers, conversation end, ...) right after the reply
+      // Plain request-complete events carry no information unless they give a reason
+      const events = (sierraResponse.events || []).filter(
+        (event) => event.kind !== 'request-complete' || event.reason
+      );
+      events.forEach((event, n) => {
+        const eventTimestamp = responseTimestamp + n + 1;
+        addEntry({
+          identifier: `sierra-event-${i}-${n}`,
+          messageText: describeAgentEvent(event),
+          clientTimestamp: eventTimestamp,
+          serverReceivedTimestamp: eventTimestamp,
+          sender: {
+            role: 'System',
+            appType: 'sierra',
+            subject: event.type,
+          },
+          type: AGENT_EVENT_ENTRY_TYPES[event.kind],
+        });
+      });
+
+      console.log(`Added Sierra bot response for message ${currentIndex}${events.length ? ` with ${events.length} events` : ''}, total entries: ${sierraEntries.length}`);
+
+      // Checkpoint the turn so an interrupted replay can continue from here
+      checkpoints.push({ turn: i, ...agent.checkpoint() });
+      await options.onCheckpoint?.({ entries: [...sierraEntries], checkpoints: [...checkpoints] });
 
       // Notify progress: message completed
       onProgress?.({
@@ -166,19 +366,24 @@ export async function replayToSierra(
       // Add a small delay between messages to avoid rate limiting
       if (i < sortedMessages.length - 1) {
         console.log(`Waiting 500ms before next message (${i + 1}/${sortedMessages.length})`);
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        await wait(500, options.signal);
         console.log(`Delay complete, continuing to next message`);
       } else {
         console.log(`All messages processed (${currentIndex}/${totalMessages})`);
       }
     } catch (error) {
-      console.error(`Error sending message to Sierra: ${error}`);
-      // Add error message to transcript
-      sierraEntries.push({
+      // A cancelled turn is not a failed turn - stop without writing an error placeholder
+      if (options.signal?.aborted) {
+        throw new ReplayCancelledError(i, totalMessages);
+      }
+      console.error(`Error sending message to ${agent.name}: ${error}`);
+      // Add error message to transcript, at the time the turn failed
+      const errorTimestamp = userMessage.timestamp + (Date.now() - turnStartedAt);
+      addEntry({
         identifier: `sierra-error-${i}`,
         messageText: `[Error: Failed to get Sierra response]`,
-        clientTimestamp: userMessage.timestamp + 2000,
-        serverReceivedTimestamp: userMessage.timestamp + 2100,
+        clientTimestamp: errorTimestamp,
+        serverReceivedTimestamp: errorTimestamp,
         sender: {
           role: 'System',
         },
@@ -191,6 +396,7 @@ export async function replayToSierra(
         total: totalMessages,
         message: `Error processing message ${currentIndex}/${totalMessages}: ${error instanceof Error ? error.message : String(error)}`,
         status: 'error',
+        retries: totalRetries,
       });
     }
   }
@@ -200,11 +406,13 @@ export async function replayToSierra(
   onProgress?.({
     current: totalMessages,
     total: totalMessages,
-    message: `Successfully generated Sierra transcript with ${sierraEntries.length} entries`,
+    message: `Successfully generated Sierra transcript with ${sierraEntries.length} entries${totalRetries ? ` (${totalRetries} retried ${totalRetries === 1 ? 'request' : 'requests'})` : ''}`,
     status: 'complete',
+    retries: totalRetries,
   });
 
   console.log(`Returning ${sierraEntries.length} Sierra entries`);
-  return sierraEntries;
+  // Flag customer turns that no longer fit the agent's side of the conversation
+  return annotateDivergence(agentforceEntries, sierraEntries);
 }
 
@@ -25,6 +25,7 @@ export interface Database {
           metadata: Json | null
           messaging_session_id: string
           messaging_session_name: string | null
+          agentforce_version: number
         }
         Insert: {
           id?: string
@@ -38,6 +39,7 @@ export interface Database {
           metadata?: Json | null
           messaging_session_id: string
           messaging_session_name?: string | null
+          agentforce_version?: number
         }
         Update: {
           id?: string
@@ -51,6 +53,225 @@ export interface Database {
           metadata?: Json | null
           messaging_session_id?: string
           messaging_session_name?: string | null
+          agentforce_version?: number
+        }
+      }
+      sierra_runs: {
+        Row: {
+          id: string
+          transcript_id: string
+          release: string
+          sierra_version: string | null
+          sierra_transcript: Json
+          status: 'in_progress' | 'complete' | 'failed' | 'cancelled'
+          checkpoints: Json
+          divergence_status: 'on_track' | 'drifted' | 'broken' | null
+          sample_index: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          transcript_id: string
+          release?: string
+          sierra_version?: string | null
+          sierra_transcript?: Json
+          status?: 'in_progress' | 'complete' | 'failed' | 'cancelled'
+          checkpoints?: Json
+          divergence_status?: 'on_track' | 'drifted' | 'broken' | null
+          sample_index?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          transcript_id?: string
+          release?: string
+          sierra_version?: string | null
+          sierra_transcript?: Json
+          status?: 'in_progress' | 'complete' | 'failed' | 'cancelled'
+          checkpoints?: Json
+          divergence_status?: 'on_track' | 'drifted' | 'broken' | null
+          sample_index?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      replay_rule_sets: {
+        Row: {
+          id: string
+          test_batch_id: string
+          stop_at_human_handoff: boolean
+          rules: Json
+          updated_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          test_batch_id: string
+          stop_at_human_handoff?: boolean
+          rules?: Json
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          test_batch_id?: string
+          stop_at_human_handoff?: boolean
+          rules?: Json
+          updated_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      generation_jobs: {
+        Row: {
+          id: string
+          test_batch_id: string
+          release: string
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          test_batch_id: string
+          release?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          test_batch_id?: string
+          release?: string
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      generation_job_items: {
+        Row: {
+          id: string
+          job_id: string
+          transcript_id: string
+          status: 'queued' | 'running' | 'complete' | 'failed' | 'cancelled'
+          attempts: number
+          error: string | null
+          sierra_run_id: string | null
+          started_at: string | null
+          finished_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          job_id: string
+          transcript_id: string
+          status?: 'queued' | 'running' | 'complete' | 'failed' | 'cancelled'
+          attempts?: number
+          error?: string | null
+          sierra_run_id?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          job_id?: string
+          transcript_id?: string
+          status?: 'queued' | 'running' | 'complete' | 'failed' | 'cancelled'
+          attempts?: number
+          error?: string | null
+          sierra_run_id?: string | null
+          started_at?: string | null
+          finished_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      generation_streams: {
+        Row: {
+          id: string
+          transcript_id: string
+          release: string
+          status: 'running' | 'complete' | 'error' | 'cancelled'
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          transcript_id: string
+          release?: string
+          status?: 'running' | 'complete' | 'error' | 'cancelled'
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          transcript_id?: string
+          release?: string
+          status?: 'running' | 'complete' | 'error' | 'cancelled'
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      generation_events: {
+        Row: {
+          stream_id: string
+          seq: number
+          type: string
+          data: Json
+          created_at: string
+        }
+        Insert: {
+          stream_id: string
+          seq: number
+          type: string
+          data: Json
+          created_at?: string
+        }
+        Update: {
+          stream_id?: string
+          seq?: number
+          type?: string
+          data?: Json
+          created_at?: string
+        }
+      }
+      agentforce_transcript_versions: {
+        Row: {
+          id: string
+          transcript_id: string
+          version: number
+          agentforce_transcript: Json
+          diff_summary: Json | null
+          superseded_by: string | null
+          superseded_at: string
+        }
+        Insert: {
+          id?: string
+          transcript_id: string
+          version: number
+          agentforce_transcript: Json
+          diff_summary?: Json | null
+          superseded_by?: string | null
+          superseded_at?: string
+        }
+        Update: {
+          id?: string
+          transcript_id?: string
+          version?: number
+          agentforce_transcript?: Json
+          diff_summary?: Json | null
+          superseded_by?: string | null
+          superseded_at?: string
         }
       }
       evaluations: {
@@ -69,6 +290,14 @@ export interface Database {
           created_at: string
           messaging_session_id: string | null
           messaging_session_name: string | null
+          sierra_run_id: string | null
+          salesforce_sync_status: 'pending' | 'syncing' | 'synced' | 'failed' | 'skipped' | null
+          salesforce_sync_attempts: number
+          salesforce_sync_error: string | null
+          salesforce_sync_next_attempt_at: string | null
+          salesforce_record_id: string | null
+          salesforce_synced_at: string | null
+          agentforce_version: number | null
         }
         Insert: {
           id?: string
@@ -85,6 +314,14 @@ export interface Database {
           created_at?: string
           messaging_session_id?: string | null
           messaging_session_name?: string | null
+          sierra_run_id?: string | null
+          salesforce_sync_status?: 'pending' | 'syncing' | 'synced' | 'failed' | 'skipped' | null
+          salesforce_sync_attempts?: number
+          salesforce_sync_error?: string | null
+          salesforce_sync_next_attempt_at?: string | null
+          salesforce_record_id?: string | null
+          salesforce_synced_at?: string | null
+          agentforce_version?: number | null
         }
         Update: {
           id?: string
@@ -101,6 +338,14 @@ export interface Database {
           created_at?: string
           messaging_session_id?: string | null
           messaging_session_name?: string | null
+          sierra_run_id?: string | null
+          salesforce_sync_status?: 'pending' | 'syncing' | 'synced' | 'failed' | 'skipped' | null
+          salesforce_sync_attempts?: number
+          salesforce_sync_error?: string | null
+          salesforce_sync_next_attempt_at?: string | null
+          salesforce_record_id?: string | null
+          salesforce_synced_at?: string | null
+          agentforce_version?: number | null
         }
       }
       chat_sessions: {
@@ -0,0 +1,211 @@
+import { createServiceClient } from './server';
+import { Database } from './database.types';
+import { SalesforceSyncStatus } from '@/types';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type EvaluationRow = Database['public']['Tables']['evaluations']['Row'];
+
+/** A syncing evaluation whose worker has not finished within this long was interrupted */
+export const EVALUATION_SYNC_LEASE_MS = 2 * 60 * 1000;
+
+const SYNC_STATUSES: SalesforceSyncStatus[] = ['pending', 'syncing', 'synced', 'failed', 'skipped'];
+
+// Columns are TIMESTAMP without time zone, written in UTC
+export function toTimestamp(epochMs: number): string {
+  return new Date(epochMs).toISOString().replace('Z', '');
+}
+
+function fromTimestamp(value: string): number {
+  return new Date(value.endsWith('Z') ? value : `${value}Z`).getTime();
+}
+
+export interface EvaluationSyncQueueOptions {
+  /** Only these evaluations */
+  evaluationIds?: string[];
+  /** Only evaluations created at or after this time (ISO 8601) */
+  since?: string;
+  /** Queue evaluations never queued before, e.g. created before the sync was enabled */
+  includeUnsynced: boolean;
+  /** Queue evaluations whose sync failed */
+  includeFailed: boolean;
+}
+
+/**
+ * Queue evaluations with a messaging session for the sync worker (backfill and retries)
+ * Attempts start over; synced, skipped and in-progress evaluations are left alone.
+ */
+export async function queueEvaluationSyncs(
+  supabase: ServiceClient,
+  options: EvaluationSyncQueueOptions
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ queued: number; error: any }> {
+  const statusFilters = [
+    ...(options.includeUnsynced ? ['salesforce_sync_status.is.null'] : []),
+    ...(options.includeFailed ? ['salesforce_sync_status.eq.failed'] : []),
+  ];
+  if (statusFilters.length === 0) {
+    return { queued: 0, error: null };
+  }
+
+  // Type assertion needed due to Supabase type inference limitations
+  let query = (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('evaluations') as any)
+    .update({
+      salesforce_sync_status: 'pending',
+      salesforce_sync_attempts: 0,
+      salesforce_sync_error: null,
+      salesforce_sync_next_attempt_at: toTimestamp(Date.now()),
+    })
+    .not('messaging_session_id', 'is', null)
+    .or(statusFilters.join(','));
+
+  if (options.evaluationIds) {
+    query = query.in('id', options.evaluationIds);
+  }
+  if (options.since) {
+    query = query.gte('created_at', toTimestamp(new Date(options.since).getTime()));
+  }
+
+  const { data, error } = await query.select('id');
+  return { queued: data?.length || 0, error };
+}
+
+/**
+ * Claim the pending evaluation whose next attempt is due the longest; null when none is due
+ * The claim holds a lease (the next attempt time moves past EVALUATION_SYNC_LEASE_MS), and the
+ * status check in the update keeps two workers from claiming the same evaluation.
+ */
+export async function claimNextEvaluationSync(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ evaluation: EvaluationRow | null; error: any }> {
+  const { data: candidates, error } = await supabase
+    .from('evaluations')
+    .select('*')
+    .eq('salesforce_sync_status', 'pending')
+    .lte('salesforce_sync_next_attempt_at', toTimestamp(Date.now()))
+    .order('salesforce_sync_next_attempt_at', { ascending: true })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .limit(5) as { data: EvaluationRow[] | null; error: any };
+
+  if (error) {
+    return { evaluation: null, error };
+  }
+
+  for (const candidate of candidates || []) {
+    // Type assertion needed due to Supabase type inference limitations
+    const { data: claimed } = await (supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('evaluations') as any)
+      .update({
+        salesforce_sync_status: 'syncing',
+        salesforce_sync_attempts: candidate.salesforce_sync_attempts + 1,
+        salesforce_sync_next_attempt_at: toTimestamp(Date.now() + EVALUATION_SYNC_LEASE_MS),
+      })
+      .eq('id', candidate.id)
+      .eq('salesforce_sync_status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (claimed) {
+      return { evaluation: claimed as EvaluationRow, error: null };
+    }
+  }
+
+  return { evaluation: null, error: null };
+}
+
+/**
+ * When the next pending evaluation is due (epoch milliseconds); null when nothing is pending
+ */
+export async function getNextEvaluationSyncDue(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ dueAt: number | null; error: any }> {
+  const { data, error } = await supabase
+    .from('evaluations')
+    .select('salesforce_sync_next_attempt_at')
+    .eq('salesforce_sync_status', 'pending')
+    .order('salesforce_sync_next_attempt_at', { ascending: true })
+    .limit(1)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: Pick<EvaluationRow, 'salesforce_sync_next_attempt_at'> | null; error: any };
+
+  if (error || !data) {
+    return { dueAt: null, error };
+  }
+  const nextAttemptAt = data.salesforce_sync_next_attempt_at;
+  return { dueAt: nextAttemptAt ? fromTimestamp(nextAttemptAt) : Date.now(), error: null };
+}
+
+/**
+ * Record the outcome of a sync attempt
+ */
+export async function updateEvaluationSync(
+  supabase: ServiceClient,
+  evaluationId: string,
+  fields: Pick<
+    Database['public']['Tables']['evaluations']['Update'],
+    'salesforce_sync_status' | 'salesforce_sync_error' | 'salesforce_sync_next_attempt_at' | 'salesforce_record_id' | 'salesforce_synced_at'
+  >
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('evaluations') as any)
+    .update(fields)
+    .eq('id', evaluationId);
+
+  return { error };
+}
+
+/**
+ * Queue syncing evaluations again whose lease expired (server restart, crash)
+ */
+export async function requeueStaleEvaluationSyncs(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ requeued: number; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('evaluations') as any)
+    .update({ salesforce_sync_status: 'pending' })
+    .eq('salesforce_sync_status', 'syncing')
+    .lt('salesforce_sync_next_attempt_at', toTimestamp(Date.now()))
+    .select('id');
+
+  return { requeued: data?.length || 0, error };
+}
+
+/**
+ * Evaluations per sync status, and how many with a messaging session were never queued
+ */
+export async function getEvaluationSyncCounts(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ counts: Record<SalesforceSyncStatus, number>; unsynced: number; error: any }> {
+  const [unsyncedResult, ...statusResults] = await Promise.all([
+    supabase
+      .from('evaluations')
+      .select('id', { count: 'exact', head: true })
+      .is('salesforce_sync_status', null)
+      .not('messaging_session_id', 'is', null),
+    ...SYNC_STATUSES.map((status) =>
+      supabase
+        .from('evaluations')
+        .select('id', { count: 'exact', head: true })
+        .eq('salesforce_sync_status', status)
+    ),
+  ]);
+
+  const counts = SYNC_STATUSES.reduce(
+    (result, status, index) => ({ ...result, [status]: statusResults[index].count || 0 }),
+    {} as Record<SalesforceSyncStatus, number>
+  );
+  const error = unsyncedResult.error || statusResults.find((result) => result.error)?.error || null;
+
+  return { counts, unsynced: unsyncedResult.count || 0, error };
+}
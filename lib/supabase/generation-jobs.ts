@@ -0,0 +1,328 @@
+import { createServiceClient } from './server';
+import { Database } from './database.types';
+import { GenerationJobItemStatus } from '@/types';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type GenerationJobRow = Database['public']['Tables']['generation_jobs']['Row'];
+type GenerationJobItemRow = Database['public']['Tables']['generation_job_items']['Row'];
+
+type JobItemWithTranscript = GenerationJobItemRow & {
+  transcripts: { case_number: string | null; messaging_session_name: string | null } | null;
+};
+
+/** A claimed item, with the release of its job */
+export type ClaimedJobItem = GenerationJobItemRow & { release: string };
+
+/** A running item without a heartbeat for this long was interrupted (server restart, crash) */
+export const JOB_ITEM_STALE_MS = 2 * 60 * 1000;
+
+const EMPTY_COUNTS: Record<GenerationJobItemStatus, number> = {
+  queued: 0,
+  running: 0,
+  complete: 0,
+  failed: 0,
+  cancelled: 0,
+};
+
+/**
+ * Queue every transcript of a test batch without a complete Sierra run for the release
+ * Transcripts already queued or running in another job are left out. Returns a null job when
+ * there is nothing to queue.
+ */
+export async function createGenerationJob(
+  supabase: ServiceClient,
+  testBatchId: string,
+  release: string,
+  createdBy: string | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ job: GenerationJobRow | null; queued: number; error: any }> {
+  const { data: transcripts, error: transcriptsError } = await supabase
+    .from('transcripts')
+    .select('id')
+    .eq('test_batch_id', testBatchId)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .order('created_at', { ascending: true }) as { data: Array<{ id: string }> | null; error: any };
+
+  if (transcriptsError || !transcripts?.length) {
+    return { job: null, queued: 0, error: transcriptsError };
+  }
+
+  const transcriptIds = transcripts.map((transcript) => transcript.id);
+
+  const { data: completeRuns, error: runsError } = await supabase
+    .from('sierra_runs')
+    .select('transcript_id')
+    .in('transcript_id', transcriptIds)
+    .eq('release', release)
+    .eq('sample_index', 0)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .eq('status', 'complete') as { data: Array<{ transcript_id: string }> | null; error: any };
+
+  if (runsError) {
+    return { job: null, queued: 0, error: runsError };
+  }
+
+  const { data: pendingItems, error: pendingError } = await supabase
+    .from('generation_job_items')
+    .select('transcript_id')
+    .in('transcript_id', transcriptIds)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .in('status', ['queued', 'running']) as { data: Array<{ transcript_id: string }> | null; error: any };
+
+  if (pendingError) {
+    return { job: null, queued: 0, error: pendingError };
+  }
+
+  const skip = new Set([...(completeRuns || []), ...(pendingItems || [])].map((row) => row.transcript_id));
+  const toQueue = transcriptIds.filter((id) => !skip.has(id));
+
+  if (toQueue.length === 0) {
+    return { job: null, queued: 0, error: null };
+  }
+
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: job, error: jobError } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_jobs') as any)
+    .insert({ test_batch_id: testBatchId, release, created_by: createdBy })
+    .select()
+    .single();
+
+  if (jobError) {
+    return { job: null, queued: 0, error: jobError };
+  }
+
+  const { error: itemsError } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_job_items') as any)
+    .insert(toQueue.map((transcriptId) => ({ job_id: job.id, transcript_id: transcriptId })));
+
+  return { job: job as GenerationJobRow, queued: itemsError ? 0 : toQueue.length, error: itemsError };
+}
+
+/**
+ * Item counts per status for each job
+ */
+async function countJobItems(
+  supabase: ServiceClient,
+  jobIds: string[]
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ counts: Map<string, Record<GenerationJobItemStatus, number>>; error: any }> {
+  const counts = new Map<string, Record<GenerationJobItemStatus, number>>();
+  if (jobIds.length === 0) {
+    return { counts, error: null };
+  }
+
+  const { data: items, error } = await supabase
+    .from('generation_job_items')
+    .select('job_id, status')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .in('job_id', jobIds) as { data: Array<Pick<GenerationJobItemRow, 'job_id' | 'status'>> | null; error: any };
+
+  jobIds.forEach((jobId) => counts.set(jobId, { ...EMPTY_COUNTS }));
+  (items || []).forEach((item) => {
+    counts.get(item.job_id)![item.status]++;
+  });
+  return { counts, error };
+}
+
+/**
+ * Most recent jobs, with item counts per status
+ */
+export async function listGenerationJobs(
+  supabase: ServiceClient,
+  limit = 20
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ jobs: Array<GenerationJobRow & { counts: Record<GenerationJobItemStatus, number> }>; error: any }> {
+  const { data: jobs, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .limit(limit) as { data: GenerationJobRow[] | null; error: any };
+
+  if (error || !jobs) {
+    return { jobs: [], error };
+  }
+
+  const { counts, error: countError } = await countJobItems(supabase, jobs.map((job) => job.id));
+  return {
+    jobs: jobs.map((job) => ({ ...job, counts: counts.get(job.id) || { ...EMPTY_COUNTS } })),
+    error: countError,
+  };
+}
+
+/**
+ * A job with its items (and each item's case number), or null when it does not exist
+ */
+export async function getGenerationJob(
+  supabase: ServiceClient,
+  jobId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ job: (GenerationJobRow & { counts: Record<GenerationJobItemStatus, number>; items: JobItemWithTranscript[] }) | null; error: any }> {
+  const { data: job, error } = await supabase
+    .from('generation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: GenerationJobRow | null; error: any };
+
+  if (error || !job) {
+    return { job: null, error };
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('generation_job_items')
+    .select('*, transcripts(case_number, messaging_session_name)')
+    .eq('job_id', jobId)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .order('created_at', { ascending: true }) as { data: JobItemWithTranscript[] | null; error: any };
+
+  const counts = { ...EMPTY_COUNTS };
+  (items || []).forEach((item) => counts[item.status]++);
+  return { job: { ...job, counts, items: items || [] }, error: itemsError };
+}
+
+/**
+ * Claim the oldest queued item for this worker; null when nothing is queued
+ * The status check in the update keeps two workers from claiming the same item.
+ */
+export async function claimNextJobItem(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ item: ClaimedJobItem | null; error: any }> {
+  const { data: candidates, error } = await supabase
+    .from('generation_job_items')
+    .select('*, generation_jobs(release)')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true })
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .limit(5) as { data: Array<GenerationJobItemRow & { generation_jobs: { release: string } | null }> | null; error: any };
+
+  if (error) {
+    return { item: null, error };
+  }
+
+  for (const candidate of candidates || []) {
+    // Type assertion needed due to Supabase type inference limitations
+    const { data: claimed } = await (supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('generation_job_items') as any)
+      .update({
+        status: 'running',
+        attempts: candidate.attempts + 1,
+        error: null,
+        started_at: new Date().toISOString(),
+        finished_at: null,
+      })
+      .eq('id', candidate.id)
+      .eq('status', 'queued')
+      .select()
+      .maybeSingle();
+
+    if (claimed) {
+      return { item: { ...(claimed as GenerationJobItemRow), release: candidate.generation_jobs?.release || 'default' }, error: null };
+    }
+  }
+
+  return { item: null, error: null };
+}
+
+/**
+ * Update a job item (finish it, or refresh `updated_at` as a heartbeat with no fields)
+ */
+export async function updateJobItem(
+  supabase: ServiceClient,
+  itemId: string,
+  fields: Database['public']['Tables']['generation_job_items']['Update'] = {}
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  return await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_job_items') as any)
+    .update({ ...fields, updated_at: new Date().toISOString() })
+    .eq('id', itemId);
+}
+
+/**
+ * Queue failed and cancelled items of a job again (only `itemIds` when given)
+ */
+export async function requeueJobItems(
+  supabase: ServiceClient,
+  jobId: string,
+  itemIds?: string[]
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ requeued: number; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  let query = (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_job_items') as any)
+    .update({ status: 'queued', error: null, finished_at: null })
+    .eq('job_id', jobId)
+    .in('status', ['failed', 'cancelled']);
+
+  if (itemIds?.length) {
+    query = query.in('id', itemIds);
+  }
+
+  const { data, error } = await query.select('id');
+  return { requeued: data?.length || 0, error };
+}
+
+/**
+ * Cancel the queued items of a job; returns the items still running, which the worker must abort
+ */
+export async function cancelJobItems(
+  supabase: ServiceClient,
+  jobId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ cancelled: number; runningItemIds: string[]; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: cancelled, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_job_items') as any)
+    .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+    .eq('job_id', jobId)
+    .eq('status', 'queued')
+    .select('id');
+
+  if (error) {
+    return { cancelled: 0, runningItemIds: [], error };
+  }
+
+  const { data: running, error: runningError } = await supabase
+    .from('generation_job_items')
+    .select('id')
+    .eq('job_id', jobId)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .eq('status', 'running') as { data: Array<{ id: string }> | null; error: any };
+
+  return {
+    cancelled: cancelled?.length || 0,
+    runningItemIds: (running || []).map((item) => item.id),
+    error: runningError,
+  };
+}
+
+/**
+ * Queue running items again whose worker stopped sending heartbeats
+ */
+export async function requeueStaleJobItems(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ requeued: number; error: any }> {
+  // Columns are TIMESTAMP without time zone, written in UTC
+  const staleBefore = new Date(Date.now() - JOB_ITEM_STALE_MS).toISOString().replace('Z', '');
+
+  // Type assertion needed due to Supabase type inference limitations
+  const { data, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_job_items') as any)
+    .update({ status: 'queued' })
+    .eq('status', 'running')
+    .lt('updated_at', staleBefore)
+    .select('id');
+
+  return { requeued: data?.length || 0, error };
+}
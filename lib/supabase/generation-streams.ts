@@ -0,0 +1,185 @@
+import { createServiceClient } from './server';
+import { Database, Json } from './database.types';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type GenerationStreamRow = Database['public']['Tables']['generation_streams']['Row'];
+type GenerationEventRow = Database['public']['Tables']['generation_events']['Row'];
+
+export type GenerationStreamStatus = GenerationStreamRow['status'];
+
+/**
+ * A running stream without a stored event or heartbeat for this long was interrupted (server
+ * restart, crash). Heartbeats keep it alive through calls that send no events, such as a slow
+ * Sierra turn being retried.
+ */
+export const GENERATION_STREAM_STALE_MS = 2 * 60 * 1000;
+
+/** How often the process running a stream marks it as alive */
+export const GENERATION_STREAM_HEARTBEAT_MS = 30 * 1000;
+
+/** Streams and their events are deleted after this long */
+const GENERATION_STREAM_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Columns are TIMESTAMP without time zone, written in UTC
+function toTimestamp(time: number): string {
+  return new Date(time).toISOString().replace('Z', '');
+}
+
+/**
+ * Start a generation stream for a transcript and release
+ */
+export async function createGenerationStream(
+  supabase: ServiceClient,
+  transcriptId: string,
+  release: string,
+  createdBy: string | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ stream: GenerationStreamRow | null; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_streams') as any)
+    .insert({ transcript_id: transcriptId, release, created_by: createdBy })
+    .select()
+    .single();
+
+  return { stream: data as GenerationStreamRow | null, error };
+}
+
+export async function getGenerationStream(
+  supabase: ServiceClient,
+  streamId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ stream: GenerationStreamRow | null; error: any }> {
+  const { data, error } = await supabase
+    .from('generation_streams')
+    .select('*')
+    .eq('id', streamId)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: GenerationStreamRow | null; error: any };
+
+  return { stream: data, error };
+}
+
+/**
+ * Most recent running stream of a transcript that is still making progress, or null
+ */
+export async function findRunningGenerationStream(
+  supabase: ServiceClient,
+  transcriptId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ stream: GenerationStreamRow | null; error: any }> {
+  const { data, error } = await supabase
+    .from('generation_streams')
+    .select('*')
+    .eq('transcript_id', transcriptId)
+    .eq('status', 'running')
+    .gt('updated_at', toTimestamp(Date.now() - GENERATION_STREAM_STALE_MS))
+    .order('created_at', { ascending: false })
+    .limit(1)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: GenerationStreamRow | null; error: any };
+
+  return { stream: data, error };
+}
+
+export function isGenerationStreamStale(stream: GenerationStreamRow): boolean {
+  return Date.now() - new Date(`${stream.updated_at.replace('Z', '')}Z`).getTime() > GENERATION_STREAM_STALE_MS;
+}
+
+/**
+ * Store an event of a stream, and its final status with the last event
+ * Storing also refreshes the stream's `updated_at`, so attached clients can tell it is alive.
+ */
+export async function appendGenerationEvent(
+  supabase: ServiceClient,
+  streamId: string,
+  seq: number,
+  event: { type: string } & Record<string, unknown>,
+  status: GenerationStreamStatus = 'running'
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_events') as any)
+    .insert({ stream_id: streamId, seq, type: event.type, data: event as unknown as Json });
+
+  if (error) {
+    return { error };
+  }
+
+  return await setGenerationStreamStatus(supabase, streamId, status);
+}
+
+export async function setGenerationStreamStatus(
+  supabase: ServiceClient,
+  streamId: string,
+  status: GenerationStreamStatus
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_streams') as any)
+    .update({ status })
+    .eq('id', streamId);
+
+  return { error };
+}
+
+/**
+ * Refresh a running stream's `updated_at` without storing an event
+ * Matches running streams only, so a late heartbeat cannot undo a final status.
+ */
+export async function touchGenerationStream(
+  supabase: ServiceClient,
+  streamId: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('generation_streams') as any)
+    .update({ status: 'running' })
+    .eq('id', streamId)
+    .eq('status', 'running');
+
+  return { error };
+}
+
+/**
+ * Events of a stream after `afterSeq`, in order
+ */
+export async function listGenerationEvents(
+  supabase: ServiceClient,
+  streamId: string,
+  afterSeq = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ events: GenerationEventRow[]; error: any }> {
+  const { data, error } = await supabase
+    .from('generation_events')
+    .select('*')
+    .eq('stream_id', streamId)
+    .gt('seq', afterSeq)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .order('seq', { ascending: true }) as { data: GenerationEventRow[] | null; error: any };
+
+  return { events: data || [], error };
+}
+
+/**
+ * Delete streams (and their events) past the retention period
+ */
+export async function pruneGenerationStreams(
+  supabase: ServiceClient
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  const { error } = await supabase
+    .from('generation_streams')
+    .delete()
+    .neq('status', 'running')
+    .lt('created_at', toTimestamp(Date.now() - GENERATION_STREAM_RETENTION_MS));
+
+  return { error };
+}
@@ -0,0 +1,74 @@
+import { createServiceClient } from './server';
+import { Database } from './database.types';
+import { DEFAULT_REPLAY_RULES, ReplayRule, ReplayRuleSet } from '@/lib/sierra/replay-rules';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type ReplayRuleSetRow = Database['public']['Tables']['replay_rule_sets']['Row'];
+
+/** Rule set used for transcripts without a test batch, or whose batch has no rule set of its own */
+export const DEFAULT_RULE_SET_BATCH = 'default';
+
+export function toReplayRuleSet(row: ReplayRuleSetRow): ReplayRuleSet {
+  return {
+    stopAtHumanHandoff: row.stop_at_human_handoff,
+    rules: Array.isArray(row.rules) ? (row.rules as unknown as ReplayRule[]) : [],
+  };
+}
+
+/**
+ * Replay rules for a test batch, falling back to the default rule set and then to no rules
+ * `testBatchId` is the batch whose row was used, or null when no rule set is configured
+ */
+export async function getReplayRuleSet(
+  supabase: ServiceClient,
+  testBatchId: string | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ ruleSet: ReplayRuleSet; testBatchId: string | null; error: any }> {
+  const batches = testBatchId && testBatchId !== DEFAULT_RULE_SET_BATCH
+    ? [testBatchId, DEFAULT_RULE_SET_BATCH]
+    : [DEFAULT_RULE_SET_BATCH];
+
+  const { data: rows, error } = await supabase
+    .from('replay_rule_sets')
+    .select('*')
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .in('test_batch_id', batches) as { data: ReplayRuleSetRow[] | null; error: any };
+
+  if (error) {
+    return { ruleSet: DEFAULT_REPLAY_RULES, testBatchId: null, error };
+  }
+
+  const row = batches.map((batch) => rows?.find((candidate) => candidate.test_batch_id === batch)).find(Boolean);
+  return row
+    ? { ruleSet: toReplayRuleSet(row), testBatchId: row.test_batch_id, error: null }
+    : { ruleSet: DEFAULT_REPLAY_RULES, testBatchId: null, error: null };
+}
+
+/**
+ * Create or replace the rule set for a test batch
+ */
+export async function saveReplayRuleSet(
+  supabase: ServiceClient,
+  testBatchId: string,
+  ruleSet: ReplayRuleSet,
+  updatedBy: string | null
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ row: ReplayRuleSetRow | null; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: row, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('replay_rule_sets') as any)
+    .upsert(
+      {
+        test_batch_id: testBatchId,
+        stop_at_human_handoff: ruleSet.stopAtHumanHandoff,
+        rules: ruleSet.rules,
+        updated_by: updatedBy,
+      },
+      { onConflict: 'test_batch_id' }
+    )
+    .select()
+    .single();
+
+  return { row: row as ReplayRuleSetRow | null, error };
+}
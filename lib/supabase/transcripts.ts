@@ -0,0 +1,434 @@
+import { createServiceClient } from './server';
+import { Database } from './database.types';
+import { ConversationEntry } from '@/types/salesforce';
+import { SierraRunCheckpoint, TranscriptEntry, TranscriptStaleness } from '@/types';
+import { hasReplayErrors } from '@/lib/sierra/replay';
+import { summarizeDivergence } from '@/lib/sierra/divergence';
+import {
+  diffTranscriptEntries,
+  isTranscriptDiffEmpty,
+  summarizeTranscriptDiff,
+  TranscriptDiff,
+} from '@/lib/utils/transcript-diff';
+
+type ServiceClient = Awaited<ReturnType<typeof createServiceClient>>;
+type Transcript = Database['public']['Tables']['transcripts']['Row'];
+type SierraRun = Database['public']['Tables']['sierra_runs']['Row'];
+
+/** Release recorded for generations that did not request a specific Sierra release */
+export const DEFAULT_SIERRA_RELEASE = 'default';
+
+/** Most samples generated for one transcript and release in a single request */
+export const MAX_SIERRA_SAMPLES = 10;
+
+/** An in-progress run checkpointed this recently is treated as still being generated */
+const SIERRA_RUN_ACTIVE_MS = 2 * 60 * 1000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const RELEASE_PATTERN = /^[A-Za-z0-9._:-]{1,100}$/;
+
+/**
+ * Normalize a requested release or target name
+ * Returns null when the value is not a valid release name
+ */
+export function normalizeSierraRelease(release: unknown): string | null {
+  if (release === undefined || release === null || release === '') {
+    return DEFAULT_SIERRA_RELEASE;
+  }
+  if (typeof release !== 'string') {
+    return null;
+  }
+  const trimmed = release.trim();
+  if (!trimmed) {
+    return DEFAULT_SIERRA_RELEASE;
+  }
+  return RELEASE_PATTERN.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Find a transcript by ID (UUID) or case number, retrying case numbers without leading zeros
+ * A case with several messaging sessions has a transcript per session; its case number finds
+ * the most recently loaded one.
+ */
+export async function findTranscriptByIdentifier(
+  supabase: ServiceClient,
+  identifier: string
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ data: Transcript | null; error: any }> {
+  if (UUID_PATTERN.test(identifier)) {
+    return await supabase
+      .from('transcripts')
+      .select('*')
+      .eq('id', identifier)
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .maybeSingle() as { data: Transcript | null; error: any };
+  }
+
+  const result = await supabase
+    .from('transcripts')
+    .select('*')
+    .eq('case_number', identifier)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: Transcript | null; error: any };
+
+  // Fallback for case number format (without leading zeros)
+  if (!result.data && !result.error) {
+    const caseWithoutZeros = identifier.replace(/^0+/, '');
+    if (caseWithoutZeros !== identifier) {
+      return await supabase
+        .from('transcripts')
+        .select('*')
+        .eq('case_number', caseWithoutZeros)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        .maybeSingle() as { data: Transcript | null; error: any };
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Context variables recorded on the transcript at ingest (metadata.sierra_variables)
+ */
+export function getTranscriptSierraVariables(transcript: Transcript): Record<string, string> | undefined {
+  const metadata = transcript.metadata as Record<string, unknown> | null;
+  const variables = metadata?.sierra_variables;
+  if (!variables || typeof variables !== 'object' || Array.isArray(variables)) {
+    return undefined;
+  }
+  return variables as Record<string, string>;
+}
+
+/**
+ * Get the Sierra run for a transcript, release and sample, if one has been generated
+ */
+export async function getSierraRun(
+  supabase: ServiceClient,
+  transcriptId: string,
+  release: string,
+  sampleIndex = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ data: SierraRun | null; error: any }> {
+  return await supabase
+    .from('sierra_runs')
+    .select('*')
+    .eq('transcript_id', transcriptId)
+    .eq('release', release)
+    .eq('sample_index', sampleIndex)
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .maybeSingle() as { data: SierraRun | null; error: any };
+}
+
+/**
+ * Whether a run finished with every turn replayed, so it can be reused as-is
+ */
+export function isSierraRunComplete(run: SierraRun): boolean {
+  return run.status === 'complete' && Array.isArray(run.sierra_transcript) && run.sierra_transcript.length > 0;
+}
+
+/**
+ * Whether another generation is probably still writing this run
+ * Runs stuck in progress (closed tab, crashed server) become resumable after two minutes without a checkpoint
+ */
+export function isSierraRunActive(run: SierraRun): boolean {
+  if (run.status !== 'in_progress') {
+    return false;
+  }
+  // Columns are TIMESTAMP without time zone, written in UTC
+  const updatedAt = Date.parse(/Z|[+-]\d{2}:?\d{2}$/.test(run.updated_at) ? run.updated_at : `${run.updated_at}Z`);
+  return Date.now() - updatedAt < SIERRA_RUN_ACTIVE_MS;
+}
+
+/**
+ * Save the turns replayed so far, with the agent checkpoints needed to resume after the last one
+ */
+export async function saveSierraRunCheckpoint(
+  supabase: ServiceClient,
+  transcriptId: string,
+  release: string,
+  sierraVersion: string,
+  sierraEntries: ConversationEntry[],
+  checkpoints: SierraRunCheckpoint[],
+  sampleIndex = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ run: SierraRun | null; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: run, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('sierra_runs') as any)
+    .upsert(
+      {
+        transcript_id: transcriptId,
+        release,
+        sierra_version: sierraVersion,
+        sierra_transcript: sierraEntries,
+        status: 'in_progress',
+        checkpoints,
+        sample_index: sampleIndex,
+      },
+      { onConflict: 'transcript_id,release,sample_index' }
+    )
+    .select()
+    .single();
+
+  return { run: run as SierraRun | null, error };
+}
+
+/**
+ * Claim a run for generation, as one conditional write so two generations cannot both claim it
+ * Without an existing run the row is inserted and a unique violation means another generation
+ * created it first; an existing run is only updated while its updated_at is still the one that was
+ * read (the trigger bumps it on every write). `claimed` is false when another generation won.
+ */
+export async function claimSierraRun(
+  supabase: ServiceClient,
+  existingRun: SierraRun | null,
+  transcriptId: string,
+  release: string,
+  sierraVersion: string,
+  sierraEntries: ConversationEntry[],
+  checkpoints: SierraRunCheckpoint[],
+  sampleIndex = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ claimed: boolean; error: any }> {
+  const values = {
+    sierra_version: sierraVersion,
+    sierra_transcript: sierraEntries,
+    status: 'in_progress',
+    checkpoints,
+  };
+
+  if (!existingRun) {
+    // Type assertion needed due to Supabase type inference limitations
+    const { error } = await (supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('sierra_runs') as any)
+      .insert({ ...values, transcript_id: transcriptId, release, sample_index: sampleIndex });
+
+    if (error) {
+      return error.code === '23505' ? { claimed: false, error: null } : { claimed: false, error };
+    }
+    return { claimed: true, error: null };
+  }
+
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: claimed, error } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('sierra_runs') as any)
+    .update(values)
+    .eq('id', existingRun.id)
+    .eq('updated_at', existingRun.updated_at)
+    .select('id');
+
+  if (error) {
+    return { claimed: false, error };
+  }
+  return { claimed: Array.isArray(claimed) && claimed.length > 0, error: null };
+}
+
+/**
+ * Mark a run as failed or cancelled after its generation stopped early; the checkpointed
+ * turns are kept and the run can be resumed right away
+ */
+export async function setSierraRunStatus(
+  supabase: ServiceClient,
+  transcriptId: string,
+  release: string,
+  status: 'failed' | 'cancelled',
+  sampleIndex = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  return await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('sierra_runs') as any)
+    .update({ status })
+    .eq('transcript_id', transcriptId)
+    .eq('release', release)
+    .eq('sample_index', sampleIndex);
+}
+
+/**
+ * Save a generated Sierra transcript as the run for its release and sample, and mirror it onto
+ * `transcripts.sierra_transcript` so the latest generation is what gets evaluated
+ * The run is marked failed when any turn errored, so a later generate resumes it, and records
+ * its worst turn divergence for filtering
+ */
+export async function saveSierraRun(
+  supabase: ServiceClient,
+  transcriptId: string,
+  release: string,
+  sierraVersion: string,
+  sierraEntries: ConversationEntry[],
+  checkpoints: SierraRunCheckpoint[] = [],
+  sampleIndex = 0
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ run: SierraRun | null; transcript: Transcript | null; error: any }> {
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: run, error: runError } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('sierra_runs') as any)
+    .upsert(
+      {
+        transcript_id: transcriptId,
+        release,
+        sierra_version: sierraVersion,
+        sierra_transcript: sierraEntries,
+        status: hasReplayErrors(sierraEntries) ? 'failed' : 'complete',
+        checkpoints,
+        divergence_status: summarizeDivergence(sierraEntries),
+        sample_index: sampleIndex,
+      },
+      { onConflict: 'transcript_id,release,sample_index' }
+    )
+    .select()
+    .single();
+
+  if (runError) {
+    return { run: null, transcript: null, error: runError };
+  }
+
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: transcript, error: updateError } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('transcripts') as any)
+    .update({
+      sierra_transcript: sierraEntries,
+      sierra_version: sierraVersion,
+    })
+    .eq('id', transcriptId)
+    .select()
+    .single();
+
+  return {
+    run: run as SierraRun,
+    transcript: transcript as Transcript | null,
+    error: updateError,
+  };
+}
+
+/**
+ * Store a newly fetched copy of a transcript's Agentforce entries, with its metadata and columns
+ * When the entries differ from the stored ones, the stored copy is archived under the current
+ * version and the transcript moves to the next one, so evaluations of the old copy show as
+ * outdated; otherwise only the metadata and columns are updated. Either way the recorded staleness
+ * check is dropped. Returns conflict when another write of new entries got there first: the archive
+ * already has this version, or the transcript is no longer at the version that was read.
+ */
+export async function updateAgentforceTranscript(
+  supabase: ServiceClient,
+  transcript: Transcript,
+  entries: ConversationEntry[],
+  metadata: Record<string, unknown>,
+  refreshedBy: string | null,
+  fields: Partial<Pick<Transcript, 'case_number' | 'messaging_session_name'>> = {}
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ transcript: Transcript | null; diff: TranscriptDiff; conflict: boolean; error: any }> {
+  const diff = diffTranscriptEntries(
+    transcript.agentforce_transcript as unknown as TranscriptEntry[],
+    entries as TranscriptEntry[]
+  );
+  const changed = !isTranscriptDiffEmpty(diff);
+
+  const nextMetadata = { ...metadata };
+  delete nextMetadata.staleness;
+
+  if (changed) {
+    // Type assertion needed due to Supabase type inference limitations
+    const { error: archiveError } = await (supabase
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      .from('agentforce_transcript_versions') as any)
+      .insert({
+        transcript_id: transcript.id,
+        version: transcript.agentforce_version,
+        agentforce_transcript: transcript.agentforce_transcript,
+        diff_summary: summarizeTranscriptDiff(diff),
+        superseded_by: refreshedBy,
+      });
+
+    if (archiveError) {
+      // Unique (transcript_id, version): a concurrent refresh archived this version
+      return archiveError.code === '23505'
+        ? { transcript: null, diff, conflict: true, error: null }
+        : { transcript: null, diff, conflict: false, error: archiveError };
+    }
+  }
+
+  // Type assertion needed due to Supabase type inference limitations
+  const { data: updated, error: updateError } = await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('transcripts') as any)
+    .update({
+      ...fields,
+      metadata: nextMetadata,
+      ...(changed && {
+        agentforce_transcript: entries,
+        agentforce_version: transcript.agentforce_version + 1,
+      }),
+    })
+    .eq('id', transcript.id)
+    .eq('agentforce_version', transcript.agentforce_version)
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    return { transcript: null, diff, conflict: false, error: updateError };
+  }
+
+  return { transcript: updated as Transcript | null, diff, conflict: !updated, error: null };
+}
+
+/**
+ * Record the latest staleness check on the transcript (metadata.staleness), leaving the rest of
+ * the metadata and the entries as they are
+ */
+export async function saveTranscriptStaleness(
+  supabase: ServiceClient,
+  transcript: Transcript,
+  staleness: Omit<TranscriptStaleness, 'outdated_evaluations'>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ error: any }> {
+  const metadata = (transcript.metadata as Record<string, unknown> | null) || {};
+  // Type assertion needed due to Supabase type inference limitations
+  return await (supabase
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    .from('transcripts') as any)
+    .update({ metadata: { ...metadata, staleness } })
+    .eq('id', transcript.id)
+    .eq('agentforce_version', transcript.agentforce_version);
+}
+
+/**
+ * Staleness check recorded on the transcript, if one was made for its current version
+ */
+export function getRecordedTranscriptStaleness(
+  transcript: Transcript
+): Omit<TranscriptStaleness, 'outdated_evaluations'> | null {
+  const metadata = transcript.metadata as Record<string, unknown> | null;
+  const staleness = metadata?.staleness as Omit<TranscriptStaleness, 'outdated_evaluations'> | undefined;
+  if (!staleness || typeof staleness !== 'object' || staleness.agentforce_version !== transcript.agentforce_version) {
+    return null;
+  }
+  return staleness;
+}
+
+/**
+ * Count the evaluations of a transcript made against an earlier version of its Agentforce entries
+ */
+export async function countOutdatedEvaluations(
+  supabase: ServiceClient,
+  transcript: Pick<Transcript, 'id' | 'agentforce_version'>
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+): Promise<{ count: number; error: any }> {
+  const { count, error } = await supabase
+    .from('evaluations')
+    .select('id', { count: 'exact', head: true })
+    .eq('transcript_id', transcript.id)
+    .lt('agentforce_version', transcript.agentforce_version);
+
+  return { count: count || 0, error };
+}
@@ -0,0 +1,59 @@
+import { Transcript } from '@/types';
+import { CaseOutcome } from '@/types/salesforce';
+
+/**
+ * Reading the Salesforce case context and outcome recorded on transcripts at ingest
+ * (metadata.case_context and metadata.case_outcome), shared by the dashboard and analytics
+ */
+
+export type CaseOutcomeFilter = 'resolved_by_bot' | 'resolved_by_human' | 'open';
+
+export const CASE_OUTCOME_LABELS: Record<CaseOutcomeFilter, string> = {
+  resolved_by_bot: 'Resolved by the bot',
+  resolved_by_human: 'Resolved by a human',
+  open: 'Not resolved',
+};
+
+/**
+ * Case context fields by field path (e.g. "Case.Subject"); empty for transcripts loaded before
+ * case context was recorded
+ */
+export function getTranscriptCaseContext(transcript: Pick<Transcript, 'metadata'> | null | undefined): Record<string, string> {
+  const context = transcript?.metadata?.case_context;
+  if (!context || typeof context !== 'object' || Array.isArray(context)) {
+    return {};
+  }
+  return context as Record<string, string>;
+}
+
+export function getTranscriptCaseOutcome(transcript: Pick<Transcript, 'metadata'> | null | undefined): CaseOutcome | null {
+  const outcome = transcript?.metadata?.case_outcome;
+  if (!outcome || typeof outcome !== 'object') {
+    return null;
+  }
+  return outcome as CaseOutcome;
+}
+
+/**
+ * Bucket of an outcome for display and filtering; null when the case state is unknown
+ */
+export function classifyCaseOutcome(outcome: CaseOutcome | null): CaseOutcomeFilter | null {
+  if (!outcome || outcome.closed === null) {
+    return null;
+  }
+  if (!outcome.closed) {
+    return 'open';
+  }
+  return outcome.resolved_by === 'human' ? 'resolved_by_human' : 'resolved_by_bot';
+}
+
+/**
+ * Label of a field path: "Case.Subject" → "Subject", "Owner.Name" → "Owner", "Contact.Email" → "Contact Email"
+ */
+export function formatCaseContextField(fieldPath: string): string {
+  const [object, field] = fieldPath.split('.');
+  if (object === 'Case') {
+    return field;
+  }
+  return field === 'Name' ? object : `${object} ${field}`;
+}
@@ -0,0 +1,139 @@
+import { ConversationEntry } from '@/types/salesforce';
+
+/**
+ * Bot response time for one customer turn
+ */
+export interface TurnResponseTime {
+  /** Identifier of the customer message */
+  userEntryId: string;
+  customerMessage: string;
+  /** Identifier of the bot reply the time belongs to, if the bot replied */
+  botEntryId: string | null;
+  responseMs: number | null;
+  timeToFirstByteMs: number | null;
+}
+
+export interface TurnComparison {
+  /** 1-based customer turn number */
+  turn: number;
+  customerMessage: string;
+  agentforceMs: number | null;
+  sierraMs: number | null;
+  sierraTimeToFirstByteMs: number | null;
+}
+
+export interface DurationSummary {
+  count: number;
+  meanMs: number;
+  medianMs: number;
+  p90Ms: number;
+}
+
+const BOT_ROLES = ['bot', 'chatbot', 'virtualagent'];
+
+function isReplayedEntry(entry: ConversationEntry): boolean {
+  return !!entry.identifier?.startsWith('sierra-');
+}
+
+/**
+ * Response time of the first bot reply after each customer message
+ * Agentforce replies are timed by the gap between timestamps. Replayed (Sierra) replies only use
+ * the measured clientDuration, because replays from before latency was recorded carry synthetic timestamps.
+ */
+export function getTurnResponseTimes(entries: ConversationEntry[]): TurnResponseTime[] {
+  const sorted = [...entries].sort((a, b) => a.clientTimestamp - b.clientTimestamp);
+  const turns: TurnResponseTime[] = [];
+  let pending: { turn: TurnResponseTime; timestamp: number } | null = null;
+
+  for (const entry of sorted) {
+    const role = entry.sender?.role?.toLowerCase() || '';
+
+    // Customer turns are counted the same way replay picks them, so turns line up across bots
+    if (role === 'enduser' && entry.messageText?.trim()) {
+      const turn: TurnResponseTime = {
+        userEntryId: entry.identifier,
+        customerMessage: entry.messageText.trim(),
+        botEntryId: null,
+        responseMs: null,
+        timeToFirstByteMs: null,
+      };
+      turns.push(turn);
+      pending = { turn, timestamp: entry.clientTimestamp };
+      continue;
+    }
+
+    if (!pending || !BOT_ROLES.includes(role)) {
+      continue;
+    }
+
+    pending.turn.botEntryId = entry.identifier;
+    if (isReplayedEntry(entry)) {
+      pending.turn.responseMs = typeof entry.clientDuration === 'number' ? entry.clientDuration : null;
+      pending.turn.timeToFirstByteMs = typeof entry.timeToFirstByte === 'number' ? entry.timeToFirstByte : null;
+    } else {
+      pending.turn.responseMs = Math.max(0, entry.clientTimestamp - pending.timestamp);
+    }
+    pending = null;
+  }
+
+  return turns;
+}
+
+/**
+ * Pair Agentforce and Sierra response times for the same customer turns
+ */
+export function compareTurnResponseTimes(
+  agentforceEntries: ConversationEntry[],
+  sierraEntries: ConversationEntry[]
+): TurnComparison[] {
+  const agentforceTurns = getTurnResponseTimes(agentforceEntries);
+  const sierraTurns = getTurnResponseTimes(sierraEntries);
+
+  return agentforceTurns.map((agentforceTurn, index) => {
+    const sierraTurn = sierraTurns[index];
+    return {
+      turn: index + 1,
+      customerMessage: agentforceTurn.customerMessage,
+      agentforceMs: agentforceTurn.responseMs,
+      sierraMs: sierraTurn?.responseMs ?? null,
+      sierraTimeToFirstByteMs: sierraTurn?.timeToFirstByteMs ?? null,
+    };
+  });
+}
+
+/**
+ * Count, mean, median and 90th percentile of a set of durations; null when empty
+ */
+export function summarizeDurations(values: Array<number | null | undefined>): DurationSummary | null {
+  const sorted = values
+    .filter((value): value is number => typeof value === 'number' && Number.isFinite(value))
+    .sort((a, b) => a - b);
+
+  if (sorted.length === 0) {
+    return null;
+  }
+
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  const middle = Math.floor(sorted.length / 2);
+
+  return {
+    count: sorted.length,
+    meanMs: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    medianMs: sorted.length % 2 === 0 ? Math.round((sorted[middle - 1] + sorted[middle]) / 2) : sorted[middle],
+    p90Ms: percentile(0.9),
+  };
+}
+
+/**
+ * Format a duration for display, e.g. "850ms", "1.2s" or "2m 5s"
+ */
+export function formatDuration(ms: number): string {
+  if (ms < 1000) {
+    return `${Math.round(ms)}ms`;
+  }
+  if (ms < 60000) {
+    return `${(ms / 1000).toFixed(1)}s`;
+  }
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}m ${totalSeconds % 60}s`;
+}
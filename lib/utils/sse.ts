@@ -0,0 +1,125 @@
+/**
+ * Server-Sent Events helpers shared by streaming API routes and the client pages that consume them
+ */
+
+/** Send one event; `id` becomes the SSE event ID that clients resume from (Last-Event-ID) */
+export type SendEvent = (data: unknown, id?: string | number) => void;
+
+/**
+ * Create a `text/event-stream` Response whose events are produced by the given handler
+ * Sending after the client has disconnected is a no-op, and the stream is always closed
+ * once the handler settles. The handler's signal aborts when the client disconnects
+ * (stream cancelled, or `options.signal` - usually `request.signal` - aborted), so work
+ * such as a replay can stop instead of running on for nobody.
+ */
+export function createEventStreamResponse(
+  handler: (sendEvent: SendEvent, signal: AbortSignal) => Promise<void>,
+  options: { signal?: AbortSignal } = {}
+): Response {
+  const disconnect = new AbortController();
+  if (options.signal?.aborted) {
+    disconnect.abort();
+  } else {
+    options.signal?.addEventListener('abort', () => disconnect.abort(), { once: true });
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let isClosed = false;
+
+      const sendEvent: SendEvent = (data, id) => {
+        if (isClosed || controller.desiredSize === null) {
+          isClosed = true;
+          return;
+        }
+        try {
+          const idLine = id !== undefined ? `id: ${id}\n` : '';
+          controller.enqueue(encoder.encode(`${idLine}data: ${JSON.stringify(data)}\n\n`));
+        } catch (err: unknown) {
+          // Enqueueing on a closed controller throws ERR_INVALID_STATE - treat as closed
+          isClosed = true;
+          const errorMessage = err instanceof Error ? err.message : String(err);
+          if (!errorMessage.includes('closed')) {
+            console.error('Error sending event:', err);
+          }
+        }
+      };
+
+      try {
+        await handler(sendEvent, disconnect.signal);
+      } catch (error: unknown) {
+        console.error('Error in event stream:', error);
+        sendEvent({
+          type: 'error',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        if (!isClosed && controller.desiredSize !== null) {
+          isClosed = true;
+          try {
+            controller.close();
+          } catch {
+            // Already closed by the client
+          }
+        }
+      }
+    },
+    cancel() {
+      disconnect.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable buffering for nginx
+    },
+  });
+}
+
+/**
+ * Read a `text/event-stream` response body and yield each `data:` payload parsed as JSON
+ * `options.onEventId` receives each event's `id:` before its payload is yielded, so a reader can
+ * reconnect with Last-Event-ID.
+ */
+export async function* readEventStream<T = unknown>(
+  response: Response,
+  options: { onEventId?: (id: string) => void } = {}
+): AsyncGenerator<T> {
+  const reader = response.body?.getReader();
+  if (!reader) {
+    throw new Error('Failed to get response stream');
+  }
+
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('id: ')) {
+        options.onEventId?.(line.slice(4));
+        continue;
+      }
+      if (!line.startsWith('data: ')) {
+        continue;
+      }
+      try {
+        yield JSON.parse(line.slice(6)) as T;
+      } catch (parseError) {
+        console.error('Error parsing SSE message:', parseError);
+      }
+    }
+  }
+}
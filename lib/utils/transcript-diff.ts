@@ -0,0 +1,65 @@
+import { TranscriptDiffSummary, TranscriptEntry, TranscriptEntrySummary } from '@/types';
+
+/**
+ * Comparing two copies of an Agentforce transcript, e.g. the stored one and Salesforce's current
+ * one. Entries are matched by their Salesforce identifier; an entry whose text or sender changed
+ * (for example after the redaction settings changed) counts as changed.
+ */
+
+export interface TranscriptDiff {
+  added: TranscriptEntry[];
+  removed: TranscriptEntry[];
+  changed: Array<{ before: TranscriptEntry; after: TranscriptEntry }>;
+}
+
+function entryTime(entry: TranscriptEntry): number {
+  return entry.serverReceivedTimestamp || entry.clientTimestamp || 0;
+}
+
+/**
+ * Entry count and the time of the latest entry
+ */
+export function summarizeTranscriptEntries(entries: TranscriptEntry[]): TranscriptEntrySummary {
+  const lastEntryTime = entries.reduce((latest, entry) => Math.max(latest, entryTime(entry)), 0);
+  return {
+    entry_count: entries.length,
+    last_entry_at: lastEntryTime > 0 ? new Date(lastEntryTime).toISOString() : null,
+  };
+}
+
+/**
+ * Whether the stored copy no longer matches Salesforce's: the entry counts or last entry times differ
+ */
+export function isTranscriptStale(stored: TranscriptEntrySummary, current: TranscriptEntrySummary): boolean {
+  return stored.entry_count !== current.entry_count || stored.last_entry_at !== current.last_entry_at;
+}
+
+export function diffTranscriptEntries(previous: TranscriptEntry[], next: TranscriptEntry[]): TranscriptDiff {
+  const previousById = new Map(previous.map((entry) => [entry.identifier, entry]));
+  const nextIds = new Set(next.map((entry) => entry.identifier));
+
+  const added: TranscriptEntry[] = [];
+  const changed: TranscriptDiff['changed'] = [];
+  for (const entry of next) {
+    const before = previousById.get(entry.identifier);
+    if (!before) {
+      added.push(entry);
+    } else if (before.messageText !== entry.messageText || before.sender?.role !== entry.sender?.role) {
+      changed.push({ before, after: entry });
+    }
+  }
+
+  return {
+    added,
+    removed: previous.filter((entry) => !nextIds.has(entry.identifier)),
+    changed,
+  };
+}
+
+export function summarizeTranscriptDiff(diff: TranscriptDiff): TranscriptDiffSummary {
+  return { added: diff.added.length, removed: diff.removed.length, changed: diff.changed.length };
+}
+
+export function isTranscriptDiffEmpty(diff: TranscriptDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
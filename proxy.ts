@@ -21,9 +21,33 @@ const expensiveEndpointLimiter = new RateLimiter({
   keyPrefix: 'expensive',
 });
 
+// Transcript endpoints that only read stored data, e.g. what a dashboard load fetches besides the
+// transcript itself; they share the normal API limit
+const CHEAP_TRANSCRIPT_ENDPOINT = /^\/api\/transcripts\/(navigation|next|[^/]+\/(runs|staleness|replay-preview))$/;
+
+/**
+ * Whether a request gets the stricter limit: starting a generation, and the transcript loads and
+ * refreshes that call Salesforce
+ */
+function isExpensiveRequest(pathname: string, method: string): boolean {
+  if (pathname.endsWith('/generate')) {
+    // Re-attaching to (GET) or cancelling (DELETE) a generation is cheap
+    return method === 'POST';
+  }
+  if (CHEAP_TRANSCRIPT_ENDPOINT.test(pathname)) {
+    return false;
+  }
+  return pathname.includes('/transcripts/') || pathname.includes('/messages/');
+}
+
 export async function proxy(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
+  // Fake Salesforce/Sierra servers are called server-to-server in offline mode (no user session)
+  if (pathname.startsWith('/api/fake/')) {
+    return NextResponse.next();
+  }
+
   // Rate limiting for API routes
   if (pathname.startsWith('/api/')) {
     const ip = request.headers.get('x-forwarded-for')?.split(',')[0] || 
@@ -38,11 +62,7 @@ export async function proxy(request: NextRequest) {
     }
 
     // Use stricter limits for expensive endpoints
-    if (
-      pathname.includes('/transcripts/') ||
-      pathname.includes('/messages/') ||
-      pathname.includes('/generate')
-    ) {
+    if (isExpensiveRequest(pathname, request.method)) {
       limiter = expensiveEndpointLimiter;
     }
 
@@ -0,0 +1,41 @@
+-- Migration: Keep every Sierra generation per transcript and release
+-- This allows replaying the same Agentforce transcript against multiple Sierra releases
+-- (e.g. QA and production builds) without overwriting earlier generations
+
+CREATE TABLE sierra_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID REFERENCES transcripts(id) ON DELETE CASCADE NOT NULL,
+  release VARCHAR(100) NOT NULL DEFAULT 'default',
+  sierra_version VARCHAR(100),
+  sierra_transcript JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT sierra_runs_transcript_release_unique UNIQUE (transcript_id, release)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_sierra_runs_transcript_id ON sierra_runs(transcript_id);
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_sierra_runs_updated_at BEFORE UPDATE ON sierra_runs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (all authenticated users can read, only service role can write)
+ALTER TABLE sierra_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read sierra runs"
+  ON sierra_runs FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Backfill existing generations as the default release
+INSERT INTO sierra_runs (transcript_id, release, sierra_version, sierra_transcript, created_at, updated_at)
+SELECT id, 'default', sierra_version, sierra_transcript, updated_at, updated_at
+FROM transcripts
+WHERE jsonb_typeof(sierra_transcript) = 'array'
+  AND jsonb_array_length(sierra_transcript) > 0;
+
+-- Comments for documentation
+COMMENT ON TABLE sierra_runs IS 'Sierra transcripts generated by replaying a transcript against a specific Sierra release or target';
+COMMENT ON COLUMN sierra_runs.release IS 'Sierra release ID or target name (e.g. "QA"); "default" when no release was requested';
+COMMENT ON COLUMN transcripts.sierra_transcript IS 'Most recently generated Sierra transcript (mirrors the latest sierra_runs row)';
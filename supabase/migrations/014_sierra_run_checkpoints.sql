@@ -0,0 +1,24 @@
+-- Migration: Checkpoint Sierra generations so an interrupted replay can resume
+-- Each successfully replayed turn records the agent's conversation state (and token),
+-- so a regenerate continues the same Sierra conversation from the first failed turn
+
+ALTER TABLE sierra_runs
+  ADD COLUMN status VARCHAR(20) NOT NULL DEFAULT 'complete'
+    CHECK (status IN ('in_progress', 'complete', 'failed')),
+  ADD COLUMN checkpoints JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- Runs saved with error placeholders before checkpoints existed can be regenerated
+UPDATE sierra_runs
+SET status = 'failed'
+WHERE EXISTS (
+  SELECT 1
+  FROM jsonb_array_elements(sierra_transcript) AS entry
+  WHERE entry->>'identifier' LIKE 'sierra-error-%'
+);
+
+-- Index for finding incomplete runs
+CREATE INDEX idx_sierra_runs_status ON sierra_runs(status) WHERE status <> 'complete';
+
+-- Comments for documentation
+COMMENT ON COLUMN sierra_runs.status IS 'in_progress while replaying, complete when every turn succeeded, failed when a turn errored';
+COMMENT ON COLUMN sierra_runs.checkpoints IS 'Agent conversation state after each successfully replayed turn: [{turn, state, token}]';
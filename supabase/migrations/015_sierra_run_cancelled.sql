@@ -0,0 +1,10 @@
+-- Migration: Allow Sierra runs to be recorded as cancelled
+-- A generation stopped from the dashboard keeps its checkpointed turns and can be resumed later
+
+ALTER TABLE sierra_runs DROP CONSTRAINT sierra_runs_status_check;
+
+ALTER TABLE sierra_runs
+  ADD CONSTRAINT sierra_runs_status_check
+    CHECK (status IN ('in_progress', 'complete', 'failed', 'cancelled'));
+
+COMMENT ON COLUMN sierra_runs.status IS 'in_progress while replaying, complete when every turn succeeded, failed when a turn errored, cancelled when stopped by the user';
@@ -0,0 +1,14 @@
+-- Migration: Record how far each Sierra run drifted from the original conversation
+-- Replay sends the original customer messages regardless of what Sierra says, so each replayed
+-- customer turn is flagged on_track, drifted or broken (stored on the transcript entries).
+-- The run keeps its worst flag so transcripts can be filtered by divergence.
+
+ALTER TABLE sierra_runs
+  ADD COLUMN divergence_status VARCHAR(20)
+    CHECK (divergence_status IN ('on_track', 'drifted', 'broken'));
+
+-- Index for filtering runs by divergence
+CREATE INDEX idx_sierra_runs_divergence_status ON sierra_runs(divergence_status) WHERE divergence_status IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN sierra_runs.divergence_status IS 'Worst divergence across the replayed customer turns; NULL for runs saved before divergence detection';
@@ -0,0 +1,32 @@
+-- Migration: Replay rules per test batch
+-- Decide which Agentforce customer messages are replayed to Sierra: skip pre-chat form payloads
+-- or menu clicks, rewrite messages, and stop at a human handoff. Transcripts without a batch,
+-- or whose batch has no rule set, use the 'default' rule set (if any).
+
+CREATE TABLE replay_rule_sets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_batch_id VARCHAR(100) NOT NULL,
+  stop_at_human_handoff BOOLEAN NOT NULL DEFAULT false,
+  rules JSONB NOT NULL DEFAULT '[]'::jsonb,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT replay_rule_sets_test_batch_unique UNIQUE (test_batch_id)
+);
+
+-- Trigger to auto-update updated_at
+CREATE TRIGGER update_replay_rule_sets_updated_at BEFORE UPDATE ON replay_rule_sets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (all authenticated users can read, only service role can write)
+ALTER TABLE replay_rule_sets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read replay rule sets"
+  ON replay_rule_sets FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Comments for documentation
+COMMENT ON TABLE replay_rule_sets IS 'Rules deciding which customer messages are replayed to Sierra, per test batch';
+COMMENT ON COLUMN replay_rule_sets.test_batch_id IS 'transcripts.test_batch_id the rules apply to; "default" for every other transcript';
+COMMENT ON COLUMN replay_rule_sets.rules IS 'Ordered rules: [{name, action: skip|rewrite|stop, pattern, flags, role, type, replacement}]';
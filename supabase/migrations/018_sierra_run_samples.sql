@@ -0,0 +1,23 @@
+-- Migration: Multiple independent Sierra samples per transcript and release
+-- Replaying the same Agentforce transcript several times shows how much Sierra's answers vary
+-- from run to run. Each sample is its own run; existing runs become sample 0.
+-- Evaluations record which sample was scored, so analytics can tell whether the verdict
+-- would flip across samples.
+
+ALTER TABLE sierra_runs
+  ADD COLUMN sample_index INTEGER NOT NULL DEFAULT 0 CHECK (sample_index >= 0);
+
+ALTER TABLE sierra_runs DROP CONSTRAINT sierra_runs_transcript_release_unique;
+
+ALTER TABLE sierra_runs
+  ADD CONSTRAINT sierra_runs_transcript_release_sample_unique UNIQUE (transcript_id, release, sample_index);
+
+ALTER TABLE evaluations
+  ADD COLUMN sierra_run_id UUID REFERENCES sierra_runs(id) ON DELETE SET NULL;
+
+-- Index for grouping evaluations by the sample they scored
+CREATE INDEX idx_evaluations_sierra_run_id ON evaluations(sierra_run_id) WHERE sierra_run_id IS NOT NULL;
+
+-- Comments for documentation
+COMMENT ON COLUMN sierra_runs.sample_index IS 'Independent replay of the same transcript against the same release, starting at 0';
+COMMENT ON COLUMN evaluations.sierra_run_id IS 'Sierra run (sample) shown to the evaluator; NULL for chat evaluations and evaluations made before sampling';
@@ -0,0 +1,61 @@
+-- Migration: Background Sierra generation jobs
+-- "Generate all in batch" queues every transcript of a test batch that has no complete Sierra run
+-- for the release. A server-side worker replays the queued items with bounded concurrency; items
+-- keep their status and errors so the jobs page can show progress and retry failures.
+
+CREATE TABLE generation_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  test_batch_id VARCHAR(100) NOT NULL,
+  release VARCHAR(100) NOT NULL DEFAULT 'default',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE generation_job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID REFERENCES generation_jobs(id) ON DELETE CASCADE NOT NULL,
+  transcript_id UUID REFERENCES transcripts(id) ON DELETE CASCADE NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'complete', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  sierra_run_id UUID REFERENCES sierra_runs(id) ON DELETE SET NULL,
+  started_at TIMESTAMP,
+  finished_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT generation_job_items_job_transcript_unique UNIQUE (job_id, transcript_id)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_generation_jobs_created_at ON generation_jobs(created_at DESC);
+CREATE INDEX idx_generation_job_items_job_id ON generation_job_items(job_id);
+CREATE INDEX idx_generation_job_items_pending ON generation_job_items(created_at) WHERE status IN ('queued', 'running');
+
+-- Triggers to auto-update updated_at
+CREATE TRIGGER update_generation_jobs_updated_at BEFORE UPDATE ON generation_jobs
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_generation_job_items_updated_at BEFORE UPDATE ON generation_job_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (all authenticated users can read, only service role can write)
+ALTER TABLE generation_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_job_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read generation jobs"
+  ON generation_jobs FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read generation job items"
+  ON generation_job_items FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Comments for documentation
+COMMENT ON TABLE generation_jobs IS 'Batch Sierra generations queued for every transcript of a test batch';
+COMMENT ON TABLE generation_job_items IS 'One transcript of a generation job; claimed and replayed by the background worker';
+COMMENT ON COLUMN generation_job_items.status IS 'queued until the worker claims it, running while replaying, then complete, failed or cancelled';
+COMMENT ON COLUMN generation_job_items.attempts IS 'Times the worker has started this item (retries resume the same Sierra run)';
@@ -0,0 +1,52 @@
+-- Migration: Persisted Sierra generation progress
+-- Each POST /generate runs server-side under a generation stream ID, independent of the HTTP
+-- request that started it. Its progress events are stored in order, so any client can attach to
+-- a generation in flight and replay the events it missed (SSE Last-Event-ID).
+
+CREATE TABLE generation_streams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID REFERENCES transcripts(id) ON DELETE CASCADE NOT NULL,
+  release VARCHAR(100) NOT NULL DEFAULT 'default',
+  status VARCHAR(20) NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'complete', 'error', 'cancelled')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW() NOT NULL
+);
+
+CREATE TABLE generation_events (
+  stream_id UUID REFERENCES generation_streams(id) ON DELETE CASCADE NOT NULL,
+  seq INTEGER NOT NULL,
+  type VARCHAR(30) NOT NULL,
+  data JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (stream_id, seq)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_generation_streams_transcript_running ON generation_streams(transcript_id, created_at DESC)
+  WHERE status = 'running';
+CREATE INDEX idx_generation_streams_created_at ON generation_streams(created_at);
+
+-- Trigger to auto-update updated_at (every stored event touches its stream as a heartbeat)
+CREATE TRIGGER update_generation_streams_updated_at BEFORE UPDATE ON generation_streams
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable Row Level Security (all authenticated users can read, only service role can write)
+ALTER TABLE generation_streams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generation_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read generation streams"
+  ON generation_streams FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Authenticated users can read generation events"
+  ON generation_events FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Comments for documentation
+COMMENT ON TABLE generation_streams IS 'One Sierra generation request (one or more samples of a release), run independently of the client';
+COMMENT ON TABLE generation_events IS 'Progress events of a generation stream, in order; seq is the SSE event ID';
+COMMENT ON COLUMN generation_streams.status IS 'running until the complete, error or cancelled event is stored';
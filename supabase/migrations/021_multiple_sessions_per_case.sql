@@ -0,0 +1,9 @@
+-- Migration: Several transcripts per case
+-- A customer can chat several times on the same case; each messaging session becomes its own
+-- transcript. messaging_session_id stays unique, case_number no longer is.
+
+DROP INDEX IF EXISTS idx_transcripts_case_number_unique;
+
+-- idx_transcripts_case_number (non-unique) still serves lookups by case number
+
+COMMENT ON COLUMN transcripts.case_number IS 'Case number from Salesforce, shared by the transcripts of every messaging session of the case. Can be null if transcript was fetched by MessagingSessionId or MessagingSessionName without a case association.';
@@ -0,0 +1,25 @@
+-- Migration: Write evaluation results back to Salesforce
+-- When SALESFORCE_EVALUATION_SYNC is on, new evaluations are queued for a background worker that
+-- pushes the winner, scores and notes to Salesforce (a custom object or a Case feed item). The
+-- columns below track each evaluation's sync so failures can be retried and old evaluations
+-- backfilled. NULL status means the evaluation was never queued.
+
+ALTER TABLE evaluations
+  ADD COLUMN salesforce_sync_status VARCHAR(20)
+    CHECK (salesforce_sync_status IN ('pending', 'syncing', 'synced', 'failed', 'skipped')),
+  ADD COLUMN salesforce_sync_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN salesforce_sync_error TEXT,
+  ADD COLUMN salesforce_sync_next_attempt_at TIMESTAMP,
+  ADD COLUMN salesforce_record_id VARCHAR(18),
+  ADD COLUMN salesforce_synced_at TIMESTAMP;
+
+-- The worker picks up pending evaluations whose next attempt is due
+CREATE INDEX idx_evaluations_salesforce_sync_pending
+  ON evaluations(salesforce_sync_next_attempt_at)
+  WHERE salesforce_sync_status IN ('pending', 'syncing');
+
+-- Comments for documentation
+COMMENT ON COLUMN evaluations.salesforce_sync_status IS 'pending until the sync worker claims it, syncing while writing, then synced, failed (after the last retry or a rejected write) or skipped (nothing to link it to); NULL when never queued';
+COMMENT ON COLUMN evaluations.salesforce_sync_attempts IS 'Times the sync worker has tried to write this evaluation to Salesforce';
+COMMENT ON COLUMN evaluations.salesforce_sync_next_attempt_at IS 'Earliest time the worker retries a pending sync (backs off after each failure)';
+COMMENT ON COLUMN evaluations.salesforce_record_id IS 'ID of the Salesforce record (custom object or FeedItem) written for this evaluation';
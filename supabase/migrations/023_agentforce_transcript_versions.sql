@@ -0,0 +1,42 @@
+-- Migration: Versioned Agentforce transcripts
+-- A transcript is stored when its case is first loaded; if the conversation continued in Salesforce
+-- afterwards (e.g. a human rep joined later), the stored copy is truncated. Transcripts now carry a
+-- version that a refresh from Salesforce increments, the superseded entries are kept, and every
+-- evaluation records the version it was made against so evaluations of an older copy can be flagged.
+
+ALTER TABLE transcripts
+  ADD COLUMN agentforce_version INTEGER NOT NULL DEFAULT 1;
+
+ALTER TABLE evaluations
+  ADD COLUMN agentforce_version INTEGER;
+
+-- Every transcript is at version 1 so far, and so were its evaluations
+UPDATE evaluations SET agentforce_version = 1 WHERE transcript_id IS NOT NULL;
+
+CREATE TABLE agentforce_transcript_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transcript_id UUID REFERENCES transcripts(id) ON DELETE CASCADE NOT NULL,
+  version INTEGER NOT NULL,
+  agentforce_transcript JSONB NOT NULL,
+  -- Entries added, removed and changed by the refresh that replaced this version
+  diff_summary JSONB,
+  superseded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  superseded_at TIMESTAMP DEFAULT NOW() NOT NULL,
+  CONSTRAINT agentforce_transcript_versions_transcript_version_unique UNIQUE (transcript_id, version)
+);
+
+-- Indexes for performance
+CREATE INDEX idx_agentforce_transcript_versions_transcript_id ON agentforce_transcript_versions(transcript_id);
+
+-- Enable Row Level Security (all authenticated users can read, only service role can write)
+ALTER TABLE agentforce_transcript_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read Agentforce transcript versions"
+  ON agentforce_transcript_versions FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Comments for documentation
+COMMENT ON COLUMN transcripts.agentforce_version IS 'Incremented each time the Agentforce transcript is refreshed from Salesforce with different entries';
+COMMENT ON COLUMN evaluations.agentforce_version IS 'Version of the Agentforce transcript the evaluation was made against; older than the transcript''s means it is outdated';
+COMMENT ON TABLE agentforce_transcript_versions IS 'Agentforce transcripts replaced by a refresh from Salesforce, kept for evaluations made against them';
@@ -17,6 +17,11 @@ export interface TranscriptEntry {
   };
   type?: string;
   clientDuration?: number;
+  timeToFirstByte?: number;
+  divergence?: {
+    status: 'on_track' | 'drifted' | 'broken';
+    reasons: string[];
+  };
   relatedRecords?: string[];
 }
 
@@ -30,10 +35,108 @@ export interface Transcript {
   metadata?: Record<string, any>;
   messaging_session_id: string;
   messaging_session_name?: string;
+  agentforce_version?: number; // Incremented by each refresh from Salesforce that changed the entries
   created_at?: string;
   updated_at?: string;
 }
 
+// Comparing a stored Agentforce transcript with Salesforce
+export interface TranscriptEntrySummary {
+  entry_count: number;
+  last_entry_at: string | null; // ISO timestamp of the latest entry
+}
+
+export interface TranscriptDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+export interface TranscriptStaleness {
+  stale: boolean; // Salesforce has a different number of entries or a different last entry time
+  checked_at: string;
+  stored: TranscriptEntrySummary;
+  salesforce: TranscriptEntrySummary;
+  diff: TranscriptDiffSummary;
+  agentforce_version: number;
+  outdated_evaluations: number; // Evaluations made against an earlier version of the transcript
+}
+
+export interface TranscriptRefreshResult {
+  refreshed: boolean; // False when Salesforce had the same entries
+  transcript: Transcript;
+  diff: {
+    added: TranscriptEntry[];
+    removed: TranscriptEntry[];
+    changed: Array<{ before: TranscriptEntry; after: TranscriptEntry }>;
+  };
+  previous_version: number;
+  outdated_evaluations: number;
+}
+
+export type SierraRunStatus = 'in_progress' | 'complete' | 'failed' | 'cancelled';
+
+// Agent conversation position after a replayed turn (turn = index of the customer message)
+export interface SierraRunCheckpoint {
+  turn: number;
+  state?: string;
+  token?: string;
+}
+
+// A Sierra generation for a transcript against a specific release or target
+export interface SierraRun {
+  id: string;
+  transcript_id: string;
+  release: string;
+  sierra_version?: string | null;
+  sierra_transcript: TranscriptEntry[];
+  status: SierraRunStatus;
+  checkpoints: SierraRunCheckpoint[];
+  divergence_status?: 'on_track' | 'drifted' | 'broken' | null;
+  sample_index: number; // Independent replays of the same release, starting at 0
+  created_at: string;
+  updated_at: string;
+}
+
+// A Salesforce messaging session of a case, offered when the case has more than one (409 from GET /api/transcripts/[case])
+export interface MessagingSessionOption {
+  id: string;
+  name: string | null;
+  channel_type: string | null;
+  start_time: string | null;
+  entry_count: number | null; // Conversation entries of the loaded transcript; null when not loaded yet
+  transcript_id: string | null; // Transcript already loaded for this session
+}
+
+// Background generation jobs ("Generate all in batch")
+export type GenerationJobItemStatus = 'queued' | 'running' | 'complete' | 'failed' | 'cancelled';
+
+export interface GenerationJobItem {
+  id: string;
+  job_id: string;
+  transcript_id: string;
+  status: GenerationJobItemStatus;
+  attempts: number;
+  error?: string | null;
+  sierra_run_id?: string | null;
+  started_at?: string | null;
+  finished_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  transcripts?: Pick<Transcript, 'case_number' | 'messaging_session_name'> | null; // Joined by GET /api/generation-jobs/[id]
+}
+
+export interface GenerationJob {
+  id: string;
+  test_batch_id: string;
+  release: string;
+  created_by?: string | null;
+  created_at: string;
+  updated_at: string;
+  counts: Record<GenerationJobItemStatus, number>; // Items per status
+  items?: GenerationJobItem[]; // Only on GET /api/generation-jobs/[id]
+}
+
 // Evaluation types
 export type Winner = 'sierra' | 'agentforce' | 'tie' | 'both_poor';
 
@@ -67,6 +170,24 @@ export interface Evaluation {
   evaluation_timestamp?: string;
   time_spent_seconds?: number;
   created_at?: string;
+  sierra_run_id?: string | null; // Sierra sample that was scored
+  agentforce_version?: number | null; // Version of the Agentforce transcript that was evaluated
+  salesforce_sync_status?: SalesforceSyncStatus | null; // Null when never queued for Salesforce
+  salesforce_sync_error?: string | null;
+  salesforce_record_id?: string | null;
+  transcripts?: Transcript | null; // Joined by GET /api/evaluations
+  sierra_runs?: Pick<SierraRun, 'release' | 'sample_index'> | null; // Joined by GET /api/evaluations
+}
+
+// Writing evaluation results back to Salesforce
+export type SalesforceSyncStatus = 'pending' | 'syncing' | 'synced' | 'failed' | 'skipped';
+
+export interface SalesforceSyncSummary {
+  enabled: boolean;
+  target: 'custom_object' | 'feed_item' | null;
+  counts: Record<SalesforceSyncStatus, number>; // Evaluations per sync status
+  unsynced: number; // Evaluations never queued, e.g. created before the sync was enabled
+  worker_running: boolean;
 }
 
 // User type from Supabase auth
@@ -4,6 +4,10 @@ export interface SalesforceAuthResponse {
   token_type: string;
   issued_at: string;
   signature: string;
+  // Seconds; only sent by some orgs and flows
+  expires_in?: number | string;
+  // Sent by the refresh token flow when the connected app rotates refresh tokens
+  refresh_token?: string;
 }
 
 export interface SalesforceQueryResponse<T> {
@@ -22,6 +26,8 @@ export interface SalesforceMessagingSession {
   ConversationId: string;
   CaseId: string;
   Name?: string;
+  ChannelType?: string;
+  StartTime?: string;
 }
 
 export interface SalesforceConversation {
@@ -29,6 +35,32 @@ export interface SalesforceConversation {
   ConversationIdentifier: string;
 }
 
+/**
+ * How a case ended, recorded in transcripts.metadata.case_outcome at ingest
+ * - closed: Case.IsClosed (null when it could not be read)
+ * - human_involved: a human agent took part in the conversation
+ * - resolved_by: who resolved a closed case; null while it is open
+ */
+export interface CaseOutcome {
+  closed: boolean | null;
+  human_involved: boolean;
+  resolved_by: 'human' | 'bot' | null;
+}
+
+/**
+ * How well a replayed customer turn still fits the agent's side of the conversation
+ * - on_track: the turn follows naturally from the agent's previous reply
+ * - drifted: the agent went somewhere the original conversation did not, so the turn reads oddly
+ * - broken: the turn no longer makes sense, e.g. the agent had already ended or transferred the conversation
+ */
+export type DivergenceStatus = 'on_track' | 'drifted' | 'broken';
+
+export interface TurnDivergence {
+  status: DivergenceStatus;
+  /** Why the turn was flagged; empty when on track */
+  reasons: string[];
+}
+
 export interface ConversationEntry {
   identifier: string;
   messageText: string;
@@ -40,7 +72,12 @@ export interface ConversationEntry {
     subject?: string;
   };
   type?: string;
+  /** On replayed bot replies: measured milliseconds from sending the customer turn to the complete reply */
   clientDuration?: number;
+  /** On replayed bot replies: measured milliseconds from sending the customer turn to the first byte of the reply */
+  timeToFirstByte?: number;
+  /** On replayed customer turns: whether the turn still fits the replayed conversation */
+  divergence?: TurnDivergence;
   relatedRecords?: string[];
 }
 